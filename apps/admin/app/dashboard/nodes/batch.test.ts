@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { applyTagChange, planNodeClone } from './batch';
+
+function server(id: number, name: string, protocols: Partial<API.Protocol>[]) {
+  return { id, name, address: `10.0.0.${id}`, protocols } as API.Server;
+}
+
+function node(id: number, overrides: Partial<API.Node>) {
+  return { id, name: `n${id}`, protocol: 'vless', port: 443, tags: [], ...overrides } as API.Node;
+}
+
+const servers = [
+  server(1, 'tokyo', [{ type: 'vless', port: 443, enable: true }]),
+  server(2, 'osaka', [
+    { type: 'vless', port: 8443, enable: true },
+    { type: 'trojan', port: 9443, enable: false },
+  ]),
+  server(3, 'seoul', [{ type: 'vless', port: 443, enable: true }]),
+];
+
+describe('applyTagChange', () => {
+  it('adds without duplicates and removes', () => {
+    expect(applyTagChange(['a', 'b'], ['b', 'c'], 'add')).toEqual(['a', 'b', 'c']);
+    expect(applyTagChange(['a', 'b'], ['b', 'c'], 'remove')).toEqual(['a']);
+    expect(applyTagChange(undefined, ['a'], 'add')).toEqual(['a']);
+  });
+});
+
+describe('planNodeClone', () => {
+  it('copies onto the target protocol port and renames by server', () => {
+    const [row] = planNodeClone(
+      [node(1, { name: 'tokyo-vless', server_id: 1, tags: ['jp'] })],
+      servers,
+      [2],
+      [],
+    );
+    expect(row!.status).toBe('create');
+    expect(row!.body).toEqual({
+      name: 'osaka-vless',
+      server_id: 2,
+      protocol: 'vless',
+      address: '10.0.0.2',
+      port: 8443,
+      tags: ['jp'],
+      enabled: false,
+    });
+  });
+
+  it('skips the source server and disabled protocols', () => {
+    const rows = planNodeClone(
+      [node(1, { server_id: 1, protocol: 'trojan' })],
+      servers,
+      [1, 2],
+      [],
+    );
+    expect(rows.map((row) => [row.server.id, row.status])).toEqual([[2, 'unavailable']]);
+  });
+
+  it('does not plan a second node on a taken protocol port', () => {
+    const rows = planNodeClone(
+      [node(1, { server_id: 1 }), node(2, { server_id: 1 })],
+      servers,
+      [2, 3],
+      [node(9, { server_id: 3 })],
+    );
+    expect(rows.map((row) => [row.node.id, row.server.id, row.status])).toEqual([
+      [1, 2, 'create'],
+      [2, 2, 'exists'],
+      [1, 3, 'exists'],
+      [2, 3, 'exists'],
+    ]);
+  });
+
+  it('suffixes names that are already taken', () => {
+    const rows = planNodeClone(
+      [node(1, { name: 'edge', server_id: 1 }), node(2, { name: 'edge', server_id: 2 })],
+      servers,
+      [3],
+      [node(9, { name: 'edge (seoul)', server_id: 1, protocol: 'trojan' })],
+    );
+    expect(rows.map((row) => row.body?.name)).toEqual(['edge (seoul) (2)', undefined]);
+
+    const [renamed] = planNodeClone(
+      [node(1, { name: 'tokyo', server_id: 1 })],
+      servers,
+      [2],
+      [node(9, { name: 'osaka', server_id: 2, protocol: 'trojan' })],
+    );
+    expect(renamed!.body?.name).toBe('osaka (2)');
+  });
+});
@@ -0,0 +1,77 @@
+export type TagChangeMode = 'add' | 'remove';
+
+export function applyTagChange(current: string[] = [], tags: string[], mode: TagChangeMode) {
+  if (mode === 'add') return Array.from(new Set([...current, ...tags]));
+  return current.filter((tag) => !tags.includes(tag));
+}
+
+export type CloneStatus = 'create' | 'exists' | 'unavailable';
+
+export interface CloneRow {
+  node: API.Node;
+  server: API.Server;
+  status: CloneStatus;
+  body?: API.CreateNodeRequest;
+}
+
+function cloneName(node: API.Node, source: API.Server | undefined, target: API.Server) {
+  if (source?.name && node.name.includes(source.name)) {
+    return node.name.replace(source.name, target.name);
+  }
+  return `${node.name} (${target.name})`;
+}
+
+function uniqueName(name: string, taken: Set<string>) {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name} (${n})`;
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Plan copies of the selected nodes onto other servers. A copy is only created
+ * when the target server has the node's protocol enabled and no node for it yet,
+ * so two copies never share a server port. Names that are already taken get a
+ * numeric suffix.
+ */
+export function planNodeClone(
+  nodes: API.Node[],
+  servers: API.Server[],
+  targetIds: number[],
+  existing: API.Node[],
+): CloneRow[] {
+  const planned = new Set(existing.map((node) => `${node.server_id}:${node.protocol}`));
+  const names = new Set(existing.map((node) => node.name));
+  return targetIds.flatMap((serverId) => {
+    const server = servers.find((s) => s.id === serverId);
+    if (!server) return [];
+    return nodes
+      .filter((node) => node.server_id !== serverId)
+      .map((node): CloneRow => {
+        const protocol = (server.protocols || []).find((p) => p.enable && p.type === node.protocol);
+        if (!protocol) return { node, server, status: 'unavailable' };
+
+        const key = `${serverId}:${node.protocol}`;
+        if (planned.has(key)) {
+          return { node, server, status: 'exists' };
+        }
+        planned.add(key);
+
+        const source = servers.find((s) => s.id === node.server_id);
+        return {
+          node,
+          server,
+          status: 'create',
+          body: {
+            name: uniqueName(cloneName(node, source, server), names),
+            server_id: server.id,
+            protocol: node.protocol,
+            address: server.address,
+            port: Number(protocol.port),
+            tags: node.tags || [],
+            enabled: false,
+          },
+        };
+      });
+  });
+}
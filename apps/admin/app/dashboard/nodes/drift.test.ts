@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getNodeDrift, getNodeDrifts } from './drift';
+
+function node(overrides: Partial<API.Node> = {}) {
+  return {
+    id: 1,
+    name: 'hk-vless',
+    server_id: 1,
+    protocol: 'vless',
+    port: 443,
+    enabled: true,
+    ...overrides,
+  } as API.Node;
+}
+
+function server(protocols: Partial<API.Protocol>[]) {
+  return { id: 1, name: 'hk-1', protocols } as API.Server;
+}
+
+describe('getNodeDrift', () => {
+  it('accepts a node that matches its server', () => {
+    expect(
+      getNodeDrift(node(), [server([{ type: 'vless', port: 443, enable: true }])]),
+    ).toBeUndefined();
+  });
+
+  it('offers deletion first when the server is gone', () => {
+    expect(getNodeDrift(node(), [])).toEqual({
+      code: 'server_deleted',
+      fixes: ['delete_node', 'disable_node'],
+      params: { server: 1 },
+    });
+    expect(getNodeDrift(node({ enabled: false }), [])!.fixes).toEqual(['delete_node']);
+  });
+
+  it('reports protocols that are missing, portless or disabled', () => {
+    expect(getNodeDrift(node(), [server([])])!.code).toBe('protocol_missing');
+    expect(getNodeDrift(node(), [server([{ type: 'vless', enable: true }])])!.code).toBe(
+      'protocol_port_missing',
+    );
+    expect(getNodeDrift(node(), [server([{ type: 'vless', port: 443, enable: false }])])).toEqual({
+      code: 'protocol_disabled',
+      fixes: ['enable_protocol', 'disable_node'],
+      params: { server: 'hk-1', protocol: 'vless' },
+    });
+  });
+
+  it('offers a port sync when the node port is missing or different', () => {
+    const servers = [server([{ type: 'vless', port: 443, enable: true }])];
+    expect(getNodeDrift(node({ port: 0 }), servers)).toEqual({
+      code: 'node_port_missing',
+      fixes: ['sync_port'],
+      params: { port: 443 },
+    });
+    expect(getNodeDrift(node({ port: 8443 }), servers)).toEqual({
+      code: 'port_mismatch',
+      fixes: ['sync_port'],
+      params: { nodePort: 8443, port: 443 },
+    });
+  });
+});
+
+describe('getNodeDrifts', () => {
+  it('keeps only drifted nodes', () => {
+    const drifted = node({ id: 2, port: 8443 });
+    const drifts = getNodeDrifts(
+      [node(), drifted],
+      [server([{ type: 'vless', port: 443, enable: true }])],
+    );
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0]!.node).toBe(drifted);
+  });
+});
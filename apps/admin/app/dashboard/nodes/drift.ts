@@ -0,0 +1,87 @@
+export type NodeDriftCode =
+  | 'server_deleted'
+  | 'protocol_missing'
+  | 'protocol_disabled'
+  | 'protocol_port_missing'
+  | 'node_port_missing'
+  | 'port_mismatch';
+
+export type NodeDriftFix = 'sync_port' | 'enable_protocol' | 'disable_node' | 'delete_node';
+
+export interface NodeDrift {
+  code: NodeDriftCode;
+  // Fixes in order of preference; the first one is applied by "fix all"
+  fixes: NodeDriftFix[];
+  params?: Record<string, string | number>;
+}
+
+function isValidPort(port: unknown) {
+  const value = Number(port);
+  return Number.isInteger(value) && value > 0 && value <= 65535;
+}
+
+/**
+ * Compare a node with the server it points at. Returns the most severe
+ * inconsistency, or undefined when the node matches its server.
+ */
+export function getNodeDrift(node: API.Node, servers: API.Server[]): NodeDrift | undefined {
+  const disable: NodeDriftFix[] = node.enabled ? ['disable_node'] : [];
+  const server = servers.find((s) => s.id === node.server_id);
+  if (!server) {
+    return {
+      code: 'server_deleted',
+      fixes: ['delete_node', ...disable],
+      params: { server: node.server_id },
+    };
+  }
+
+  const protocol = (server.protocols || []).find((p) => p.type === node.protocol);
+  if (!protocol) {
+    return {
+      code: 'protocol_missing',
+      fixes: [...disable, 'delete_node'],
+      params: { server: server.name, protocol: node.protocol },
+    };
+  }
+
+  if (!isValidPort(protocol.port)) {
+    return {
+      code: 'protocol_port_missing',
+      fixes: [...disable, 'delete_node'],
+      params: { server: server.name, protocol: node.protocol },
+    };
+  }
+
+  if (!protocol.enable) {
+    return {
+      code: 'protocol_disabled',
+      fixes: ['enable_protocol', ...disable],
+      params: { server: server.name, protocol: node.protocol },
+    };
+  }
+
+  if (!isValidPort(node.port)) {
+    return {
+      code: 'node_port_missing',
+      fixes: ['sync_port'],
+      params: { port: protocol.port },
+    };
+  }
+
+  if (Number(node.port) !== Number(protocol.port)) {
+    return {
+      code: 'port_mismatch',
+      fixes: ['sync_port'],
+      params: { nodePort: node.port, port: protocol.port },
+    };
+  }
+
+  return undefined;
+}
+
+export function getNodeDrifts(nodes: API.Node[], servers: API.Server[]) {
+  return nodes.flatMap((node) => {
+    const drift = getNodeDrift(node, servers);
+    return drift ? [{ node, drift }] : [];
+  });
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { createNode } from '@/services/admin/server';
+import { useNode } from '@/store/node';
+import { useServer } from '@/store/server';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { Checkbox } from '@workspace/ui/components/checkbox';
+import { Label } from '@workspace/ui/components/label';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { CloneStatus, planNodeClone } from './batch';
+
+const STATUS_VARIANT: Record<CloneStatus, 'default' | 'secondary' | 'outline'> = {
+  create: 'default',
+  exists: 'outline',
+  unavailable: 'secondary',
+};
+
+export default function NodeBatchClone({
+  nodes,
+  onDone,
+}: {
+  nodes: API.Node[];
+  onDone?: () => void;
+}) {
+  const t = useTranslations('nodes');
+  const { servers } = useServer();
+  const { nodes: existing, fetchNodes, fetchTags } = useNode();
+  const [open, setOpen] = useState(false);
+  const [targetIds, setTargetIds] = useState<number[]>([]);
+  const [applying, setApplying] = useState(false);
+
+  const rows = useMemo(
+    () => planNodeClone(nodes, servers, targetIds, existing),
+    [nodes, servers, targetIds, existing],
+  );
+  const creatable = rows.filter((row) => row.status === 'create');
+
+  function toggleServer(id: number, checked: boolean) {
+    setTargetIds((prev) => (checked ? [...prev, id] : prev.filter((item) => item !== id)));
+  }
+
+  async function handleApply() {
+    setApplying(true);
+    let succeeded = 0;
+    for (const row of creatable) {
+      try {
+        await createNode(row.body!);
+        succeeded++;
+      } catch (error) {
+        toast.error(`${row.body!.name}: ${t('batch.failed')}`);
+      }
+    }
+    setApplying(false);
+    if (succeeded) toast.success(t('batch.cloned', { count: succeeded }));
+    fetchNodes();
+    fetchTags();
+    onDone?.();
+    setOpen(false);
+  }
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setTargetIds([]);
+      }}
+    >
+      <SheetTrigger asChild>
+        <Button variant='outline'>{t('batch.clone')}</Button>
+      </SheetTrigger>
+      <SheetContent className='w-[800px] max-w-full md:max-w-screen-lg'>
+        <SheetHeader>
+          <SheetTitle>{t('batch.cloneTitle', { count: nodes.length })}</SheetTitle>
+          <SheetDescription>{t('batch.cloneDescription')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          <div className='space-y-4'>
+            <div className='space-y-2'>
+              <Label>{t('batch.targetServers')}</Label>
+              <div className='grid grid-cols-1 gap-2 rounded-md border p-3 sm:grid-cols-2'>
+                {servers.map((server) => (
+                  <label key={server.id} className='flex items-center gap-2 text-sm'>
+                    <Checkbox
+                      checked={targetIds.includes(server.id)}
+                      onCheckedChange={(checked) => toggleServer(server.id, !!checked)}
+                    />
+                    <span className='truncate'>
+                      {server.name}
+                      <span className='text-muted-foreground ml-1 text-xs'>{server.address}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {rows.length > 0 && (
+              <div className='divide-y rounded-md border'>
+                {rows.map((row, index) => (
+                  <div key={index} className='flex items-center justify-between gap-2 p-3 text-sm'>
+                    <div className='min-w-0'>
+                      <div className='truncate font-medium'>{row.body?.name ?? row.node.name}</div>
+                      <div className='text-muted-foreground font-mono text-xs'>
+                        {row.server.name} · {row.node.protocol}
+                        {row.body && ` · ${row.body.address}:${row.body.port}`}
+                      </div>
+                    </div>
+                    <Badge variant={STATUS_VARIANT[row.status]}>
+                      {t(`batch.cloneStatus.${row.status}`)}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className='flex-row justify-end gap-2 pt-3'>
+          <Button variant='outline' onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <Button disabled={applying || creatable.length === 0} onClick={handleApply}>
+            {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+            {t('batch.cloneApply', { count: creatable.length })}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { updateNode } from '@/services/admin/server';
+import { useNode } from '@/store/node';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@workspace/ui/components/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@workspace/ui/components/tabs';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import TagInput from '@workspace/ui/custom-components/tag-input';
+import { useTranslations } from 'next-intl';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { applyTagChange, TagChangeMode } from './batch';
+
+export default function NodeBatchTags({
+  nodes,
+  onDone,
+}: {
+  nodes: API.Node[];
+  onDone?: () => void;
+}) {
+  const t = useTranslations('nodes');
+  const { getAllAvailableTags, fetchNodes, fetchTags } = useNode();
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<TagChangeMode>('add');
+  const [tags, setTags] = useState<string[]>([]);
+  const [applying, setApplying] = useState(false);
+
+  const options =
+    mode === 'add'
+      ? getAllAvailableTags()
+      : Array.from(new Set(nodes.flatMap((node) => node.tags || [])));
+
+  const changed = useMemo(
+    () =>
+      nodes.filter((node) => {
+        const next = applyTagChange(node.tags, tags, mode);
+        return next.length !== (node.tags || []).length;
+      }),
+    [nodes, tags, mode],
+  );
+
+  async function handleApply() {
+    setApplying(true);
+    let succeeded = 0;
+    for (const node of changed) {
+      try {
+        await updateNode({ ...node, tags: applyTagChange(node.tags, tags, mode) });
+        succeeded++;
+      } catch (error) {
+        toast.error(`${node.name}: ${t('batch.failed')}`);
+      }
+    }
+    setApplying(false);
+    if (succeeded) toast.success(t('batch.tagsUpdated', { count: succeeded }));
+    fetchNodes();
+    fetchTags();
+    onDone?.();
+    setOpen(false);
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setTags([]);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant='outline'>{t('batch.tags')}</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('batch.tagsTitle', { count: nodes.length })}</DialogTitle>
+          <DialogDescription>{t('batch.tagsDescription')}</DialogDescription>
+        </DialogHeader>
+        <Tabs
+          value={mode}
+          onValueChange={(value) => {
+            setMode(value as TagChangeMode);
+            setTags([]);
+          }}
+        >
+          <TabsList className='grid w-full grid-cols-2'>
+            <TabsTrigger value='add'>{t('batch.addTags')}</TabsTrigger>
+            <TabsTrigger value='remove'>{t('batch.removeTags')}</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <TagInput
+          placeholder={t('tags_placeholder')}
+          value={tags}
+          onChange={setTags}
+          options={options}
+        />
+        {mode === 'remove' && options.length > 0 && (
+          <div className='flex flex-wrap gap-1'>
+            {options.map((tag) => (
+              <Badge
+                key={tag}
+                variant={tags.includes(tag) ? 'default' : 'outline'}
+                className='cursor-pointer'
+                onClick={() =>
+                  setTags((prev) =>
+                    prev.includes(tag) ? prev.filter((item) => item !== tag) : [...prev, tag],
+                  )
+                }
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <p className='text-muted-foreground text-sm'>
+          {t('batch.affected', { count: changed.length })}
+        </p>
+        <DialogFooter className='flex-row justify-end gap-2'>
+          <Button variant='outline' onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <Button disabled={applying || changed.length === 0} onClick={handleApply}>
+            {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+            {t('confirm')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,309 @@
+'use client';
+
+import { deleteNode, toggleNodeStatus, updateNode, updateServer } from '@/services/admin/server';
+import { useNode } from '@/store/node';
+import { useServer } from '@/store/server';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@workspace/ui/components/dropdown-menu';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { getNodeDrift, getNodeDrifts, NodeDrift, NodeDriftFix } from './drift';
+
+function useNodeDriftFix(onFixed?: () => void) {
+  const t = useTranslations('nodes');
+  const { getServerById, fetchServers } = useServer();
+  const { fetchNodes } = useNode();
+
+  // `updated` carries servers changed earlier in the same batch, so a second
+  // fix on one server builds on the first instead of the stale store snapshot
+  async function run(node: API.Node, fix: NodeDriftFix, updated = new Map<number, API.Server>()) {
+    const server = updated.get(node.server_id) ?? getServerById(node.server_id);
+    const protocol = server?.protocols?.find((p) => p.type === node.protocol);
+    switch (fix) {
+      case 'sync_port':
+        if (!protocol) return;
+        await updateNode({ ...node, port: Number(protocol.port) });
+        break;
+      case 'enable_protocol': {
+        if (!server) return;
+        const protocols = server.protocols.map((p) =>
+          p.type === node.protocol ? { ...p, enable: true } : p,
+        );
+        await updateServer({
+          id: server.id,
+          name: server.name,
+          country: server.country,
+          city: server.city,
+          address: server.address,
+          protocols,
+        });
+        updated.set(server.id, { ...server, protocols });
+        break;
+      }
+      case 'disable_node':
+        await toggleNodeStatus({ id: node.id, enable: false });
+        break;
+      case 'delete_node':
+        await deleteNode({ id: node.id } as any);
+        break;
+    }
+  }
+
+  async function refresh(fixes: NodeDriftFix[]) {
+    if (fixes.includes('enable_protocol')) await fetchServers();
+    await fetchNodes();
+    onFixed?.();
+  }
+
+  async function apply(node: API.Node, fix: NodeDriftFix) {
+    try {
+      await run(node, fix);
+      toast.success(t('drift.fixed'));
+    } catch (error) {
+      toast.error(`${node.name}: ${t('drift.fixFailed')}`);
+    }
+    await refresh([fix]);
+  }
+
+  async function applyAll(items: { node: API.Node; drift: NodeDrift }[]) {
+    let succeeded = 0;
+    const updated = new Map<number, API.Server>();
+    for (const { node, drift } of items) {
+      try {
+        await run(node, drift.fixes[0]!, updated);
+        succeeded++;
+      } catch (error) {
+        toast.error(`${node.name}: ${t('drift.fixFailed')}`);
+      }
+    }
+    if (succeeded) toast.success(t('drift.fixedCount', { count: succeeded }));
+    await refresh(items.map(({ drift }) => drift.fixes[0]!));
+  }
+
+  return { apply, applyAll };
+}
+
+function useDriftMessage() {
+  const t = useTranslations('nodes');
+  return (drift: NodeDrift) => t(`drift.${drift.code}`, drift.params);
+}
+
+function FixButtons({
+  node,
+  drift,
+  onFix,
+}: {
+  node: API.Node;
+  drift: NodeDrift;
+  onFix: (node: API.Node, fix: NodeDriftFix) => Promise<void>;
+}) {
+  const t = useTranslations('nodes');
+  const [pending, setPending] = useState<NodeDriftFix>();
+
+  async function handleFix(fix: NodeDriftFix) {
+    setPending(fix);
+    await onFix(node, fix);
+    setPending(undefined);
+  }
+
+  return (
+    <div className='flex flex-wrap gap-2'>
+      {drift.fixes.map((fix, index) => {
+        const button = (
+          <Button
+            key={fix}
+            size='sm'
+            variant={fix === 'delete_node' ? 'destructive' : index === 0 ? 'default' : 'outline'}
+            disabled={!!pending}
+            onClick={fix === 'delete_node' ? undefined : () => handleFix(fix)}
+          >
+            {pending === fix && <Icon icon='mdi:loading' className='mr-1 animate-spin' />}
+            {t(`drift.fix.${fix}`)}
+          </Button>
+        );
+        return fix === 'delete_node' ? (
+          <ConfirmButton
+            key={fix}
+            trigger={button}
+            title={t('confirmDeleteTitle')}
+            description={t('confirmDeleteDesc')}
+            onConfirm={() => handleFix(fix)}
+            cancelText={t('cancel')}
+            confirmText={t('confirm')}
+          />
+        ) : (
+          button
+        );
+      })}
+    </div>
+  );
+}
+
+export function NodeDriftCell({ node, onFixed }: { node: API.Node; onFixed?: () => void }) {
+  const t = useTranslations('nodes');
+  const { servers, loaded } = useServer();
+  const { apply } = useNodeDriftFix(onFixed);
+  const message = useDriftMessage();
+
+  if (!loaded) return '—';
+  const drift = getNodeDrift(node, servers);
+  if (!drift) {
+    return (
+      <Badge variant='outline' className='border-green-500/50 text-green-600'>
+        <Icon icon='mdi:check-circle-outline' className='mr-1' />
+        {t('drift.ok')}
+      </Badge>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Badge
+          variant={drift.fixes.includes('delete_node') ? 'destructive' : 'secondary'}
+          className='cursor-pointer'
+        >
+          <Icon icon='mdi:alert-outline' className='mr-1' />
+          {t(`drift.status.${drift.code}`)}
+        </Badge>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align='start' className='max-w-xs'>
+        <DropdownMenuLabel className='font-normal'>{message(drift)}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {drift.fixes.map((fix) =>
+          fix === 'delete_node' ? (
+            <ConfirmButton
+              key={fix}
+              trigger={
+                // Keep the menu open so the dialog is not unmounted with it
+                <DropdownMenuItem
+                  className='text-destructive'
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {t(`drift.fix.${fix}`)}
+                </DropdownMenuItem>
+              }
+              title={t('confirmDeleteTitle')}
+              description={t('confirmDeleteDesc')}
+              onConfirm={() => apply(node, fix)}
+              cancelText={t('cancel')}
+              confirmText={t('confirm')}
+            />
+          ) : (
+            <DropdownMenuItem key={fix} onClick={() => apply(node, fix)}>
+              {t(`drift.fix.${fix}`)}
+            </DropdownMenuItem>
+          ),
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default function NodeDriftReport({ onFixed }: { onFixed?: () => void }) {
+  const t = useTranslations('nodes');
+  const [open, setOpen] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const { servers, loaded: serversLoaded } = useServer();
+  const { nodes, loaded: nodesLoaded } = useNode();
+  const { apply, applyAll } = useNodeDriftFix(onFixed);
+  const message = useDriftMessage();
+
+  const drifts = useMemo(
+    () => (serversLoaded && nodesLoaded ? getNodeDrifts(nodes, servers) : []),
+    [nodes, servers, serversLoaded, nodesLoaded],
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant='outline'>
+          <Icon icon='mdi:clipboard-check-outline' className='mr-1' />
+          {t('drift.trigger')}
+          {drifts.length > 0 && (
+            <Badge variant='destructive' className='ml-2 px-1.5'>
+              {drifts.length}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className='w-[800px] max-w-full md:max-w-screen-lg'>
+        <SheetHeader>
+          <SheetTitle>{t('drift.title')}</SheetTitle>
+          <SheetDescription>{t('drift.description')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          {drifts.length === 0 ? (
+            <div className='text-muted-foreground flex flex-col items-center gap-2 py-12 text-sm'>
+              <Icon icon='mdi:check-circle-outline' className='size-8 text-green-500' />
+              {t('drift.empty')}
+            </div>
+          ) : (
+            <div className='divide-y rounded-md border'>
+              {drifts.map(({ node, drift }) => (
+                <div key={node.id} className='space-y-2 p-3'>
+                  <div className='flex items-center justify-between gap-2'>
+                    <div className='min-w-0'>
+                      <div className='truncate font-medium'>{node.name}</div>
+                      <div className='text-muted-foreground font-mono text-xs'>
+                        {node.address}:{node.port} · {node.protocol}
+                      </div>
+                    </div>
+                    <Badge variant={node.enabled ? 'default' : 'outline'}>
+                      {node.enabled ? t('enabled_on') : t('enabled_off')}
+                    </Badge>
+                  </div>
+                  <p className='text-sm text-amber-600 dark:text-amber-500'>{message(drift)}</p>
+                  <FixButtons node={node} drift={drift} onFix={apply} />
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+        <SheetFooter className='flex-row justify-end gap-2 pt-3'>
+          <Button variant='outline' onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <ConfirmButton
+            trigger={
+              <Button disabled={applying || drifts.length === 0}>
+                {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+                {t('drift.fixAll', { count: drifts.length })}
+              </Button>
+            }
+            title={t('drift.fixAllTitle')}
+            description={t('drift.fixAllDesc')}
+            onConfirm={async () => {
+              setApplying(true);
+              await applyAll(drifts);
+              setApplying(false);
+            }}
+            cancelText={t('cancel')}
+            confirmText={t('confirm')}
+          />
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
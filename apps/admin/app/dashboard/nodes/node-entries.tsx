@@ -0,0 +1,30 @@
+'use client';
+
+import { useNodeRelay } from '@/store/node-relay';
+import { Badge } from '@workspace/ui/components/badge';
+import { useTranslations } from 'next-intl';
+import { getNodeEntries, hasRelays } from './relay';
+
+export default function NodeEntries({ node }: { node: API.Node }) {
+  const t = useTranslations('nodes');
+  const { getRelay } = useNodeRelay();
+  const source = { ...node, ...getRelay(node.id) };
+  const direct = `${node.address || '—'}:${node.port || '—'}`;
+  if (!hasRelays(source)) return direct;
+
+  return (
+    <div className='flex flex-col gap-1'>
+      {getNodeEntries(source).map((entry, index) => (
+        <div key={index} className='flex items-center gap-1.5' title={entry.name}>
+          <span className='font-mono'>
+            {entry.host}:{entry.port}
+          </span>
+          {entry.prefix && <Badge variant='outline'>{entry.prefix}</Badge>}
+        </div>
+      ))}
+      <span className='text-muted-foreground text-xs'>
+        {t(`relay.via.${source.relay_mode}`, { address: direct })}
+      </span>
+    </div>
+  );
+}
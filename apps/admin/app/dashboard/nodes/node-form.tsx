@@ -1,6 +1,7 @@
 'use client';
 
 import { useNode } from '@/store/node';
+import { useNodeRelay } from '@/store/node-relay';
 import { useServer } from '@/store/server';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@workspace/ui/components/button';
@@ -14,6 +15,13 @@ import {
   FormMessage,
 } from '@workspace/ui/components/form';
 import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@workspace/ui/components/select';
 import {
   Sheet,
   SheetContent,
@@ -23,6 +31,7 @@ import {
   SheetTrigger,
 } from '@workspace/ui/components/sheet';
 import { Combobox } from '@workspace/ui/custom-components/combobox';
+import { ArrayInput } from '@workspace/ui/custom-components/dynamic-Inputs';
 import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
 import TagInput from '@workspace/ui/custom-components/tag-input';
 import { useTranslations } from 'next-intl';
@@ -30,6 +39,7 @@ import { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { toast } from 'sonner';
 import { z } from 'zod';
+import { getNodeEntries, RELAY_MODES } from './relay';
 
 export type ProtocolName =
   | 'shadowsocks'
@@ -45,22 +55,40 @@ export type ProtocolName =
   | 'mieru';
 
 const buildSchema = (t: ReturnType<typeof useTranslations>) =>
-  z.object({
-    name: z.string().trim().min(1, t('errors.nameRequired')),
-    server_id: z
-      .number({ message: t('errors.serverRequired') })
-      .int()
-      .gt(0, t('errors.serverRequired'))
-      .optional(),
-    protocol: z.string().min(1, t('errors.protocolRequired')),
-    address: z.string().trim().min(1, t('errors.serverAddrRequired')),
-    port: z
-      .number({ message: t('errors.portRange') })
-      .int()
-      .min(1, t('errors.portRange'))
-      .max(65535, t('errors.portRange')),
-    tags: z.array(z.string()),
-  });
+  z
+    .object({
+      name: z.string().trim().min(1, t('errors.nameRequired')),
+      server_id: z
+        .number({ message: t('errors.serverRequired') })
+        .int()
+        .gt(0, t('errors.serverRequired'))
+        .optional(),
+      protocol: z.string().min(1, t('errors.protocolRequired')),
+      address: z.string().trim().min(1, t('errors.serverAddrRequired')),
+      port: z
+        .number({ message: t('errors.portRange') })
+        .int()
+        .min(1, t('errors.portRange'))
+        .max(65535, t('errors.portRange')),
+      tags: z.array(z.string()),
+      relay_mode: z.string(),
+      relay_node: z.array(
+        z.object({
+          host: z.string().trim().min(1, t('errors.relayHostRequired')),
+          port: z
+            .number({ message: t('errors.portRange') })
+            .int()
+            .min(1, t('errors.portRange'))
+            .max(65535, t('errors.portRange')),
+          prefix: z.string(),
+        }),
+      ),
+    })
+    .superRefine((values, ctx) => {
+      if (values.relay_mode !== 'none' && values.relay_node.length === 0) {
+        ctx.addIssue({ code: 'custom', path: ['relay_node'], message: t('errors.relayRequired') });
+      }
+    });
 
 export type NodeFormValues = z.infer<ReturnType<typeof buildSchema>>;
 
@@ -68,13 +96,17 @@ export default function NodeForm(props: {
   trigger: string;
   title: string;
   loading?: boolean;
-  initialValues?: Partial<NodeFormValues>;
+  initialValues?: Partial<NodeFormValues> & { id?: number };
   onSubmit: (values: NodeFormValues) => Promise<boolean> | boolean;
 }) {
   const { trigger, title, loading, initialValues, onSubmit } = props;
   const t = useTranslations('nodes');
   const Scheme = useMemo(() => buildSchema(t), [t]);
   const [open, setOpen] = useState(false);
+  const { getRelay } = useNodeRelay();
+  // Relays are kept in the browser by node id, so only existing nodes can have them
+  const relay = getRelay(initialValues?.id);
+  const editing = !!initialValues?.id;
 
   const [autoFilledFields, setAutoFilledFields] = useState<Set<string>>(new Set());
 
@@ -99,11 +131,16 @@ export default function NodeForm(props: {
       address: '',
       port: 0,
       tags: [],
+      relay_node: [],
       ...initialValues,
+      ...relay,
+      relay_mode: relay?.relay_mode || 'none',
     },
   });
 
   const serverId = form.watch('server_id');
+  const relayMode = form.watch('relay_mode');
+  const entries = getNodeEntries(form.watch());
 
   const { servers, getAvailableProtocols } = useServer();
   const { tags } = useNode();
@@ -121,7 +158,10 @@ export default function NodeForm(props: {
         address: '',
         port: 0,
         tags: [],
+        relay_node: [],
         ...initialValues,
+        ...relay,
+        relay_mode: relay?.relay_mode || 'none',
       });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -342,6 +382,88 @@ export default function NodeForm(props: {
                   </FormItem>
                 )}
               />
+              {editing && (
+                <FormField
+                  control={form.control}
+                  name='relay_mode'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('relay.mode')}</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {RELAY_MODES.map((mode) => (
+                            <SelectItem key={mode} value={mode}>
+                              {t(`relay.modes.${mode}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {t('relay.modeDescription')} {t('relay.localHint')}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {editing && relayMode !== 'none' && (
+                <FormField
+                  control={form.control}
+                  name='relay_node'
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('relay.nodes')}</FormLabel>
+                      <FormControl>
+                        <ArrayInput<API.NodeRelay>
+                          className='grid grid-cols-3 gap-2'
+                          fields={[
+                            { name: 'host', type: 'text', placeholder: t('relay.host') },
+                            {
+                              name: 'port',
+                              type: 'number',
+                              min: 1,
+                              max: 65535,
+                              placeholder: t('port'),
+                            },
+                            { name: 'prefix', type: 'text', placeholder: t('relay.prefix') },
+                          ]}
+                          value={field.value}
+                          onChange={(values) =>
+                            form.setValue(
+                              field.name,
+                              values.map((item) => ({
+                                host: item.host || '',
+                                port: Number(item.port) || 0,
+                                prefix: item.prefix || '',
+                              })),
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <FormDescription>{t('relay.nodesDescription')}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <div className='space-y-1'>
+                <div className='text-sm font-medium'>{t('relay.entries')}</div>
+                <ul className='text-muted-foreground space-y-0.5 font-mono text-xs'>
+                  {entries.map((entry, index) => (
+                    <li key={index}>
+                      {entry.host || '—'}:{entry.port || '—'} · {entry.name || '—'}
+                    </li>
+                  ))}
+                </ul>
+                {relayMode === 'random' && entries.length > 1 && (
+                  <p className='text-muted-foreground text-xs'>{t('relay.randomHint')}</p>
+                )}
+              </div>
             </form>
           </Form>
         </ScrollArea>
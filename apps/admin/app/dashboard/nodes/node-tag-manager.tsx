@@ -0,0 +1,263 @@
+'use client';
+
+import { updateNode } from '@/services/admin/server';
+import { updateSubscribe } from '@/services/admin/subscribe';
+import { useNode } from '@/store/node';
+import { useSubscribe } from '@/store/subscribe';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { Checkbox } from '@workspace/ui/components/checkbox';
+import { Label } from '@workspace/ui/components/label';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
+import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { getTagUsage, planTagOperation, TagOperation } from './tags';
+
+type Mode = TagOperation['type'];
+
+function TagChangeList({ before, after }: { before: string[]; after: string[] }) {
+  return (
+    <div className='flex flex-wrap items-center gap-1'>
+      {before.map((tag) => (
+        <Badge
+          key={tag}
+          variant='outline'
+          className={after.includes(tag) ? undefined : 'text-destructive line-through'}
+        >
+          {tag}
+        </Badge>
+      ))}
+      {after
+        .filter((tag) => !before.includes(tag))
+        .map((tag) => (
+          <Badge key={tag}>{tag}</Badge>
+        ))}
+    </div>
+  );
+}
+
+export default function NodeTagManager({ onChanged }: { onChanged?: () => void }) {
+  const t = useTranslations('nodes');
+  const { nodes, tags, getNodesByTag, fetchNodes, fetchTags } = useNode();
+  const { subscribes, fetchSubscribes } = useSubscribe();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mode, setMode] = useState<Mode>();
+  const [target, setTarget] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  const usage = useMemo(
+    () => getTagUsage(tags, getNodesByTag, subscribes),
+    // getNodesByTag reads the latest nodes from the store
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [tags, nodes, subscribes],
+  );
+
+  const operation: TagOperation | undefined = useMemo(() => {
+    if (mode === 'rename' && selected.length === 1) {
+      return { type: 'rename', source: selected[0]!, target };
+    }
+    if (mode === 'merge' && selected.length > 1)
+      return { type: 'merge', sources: selected, target };
+    if (mode === 'delete' && selected.length > 0) return { type: 'delete', sources: selected };
+    return undefined;
+  }, [mode, selected, target]);
+
+  const plan = useMemo(
+    () => (operation ? planTagOperation(operation, nodes, subscribes) : undefined),
+    [operation, nodes, subscribes],
+  );
+  const changes = plan ? plan.nodes.length + plan.plans.length : 0;
+
+  function reset() {
+    setSelected([]);
+    setMode(undefined);
+    setTarget('');
+  }
+
+  function selectMode(next: Mode) {
+    setMode(next);
+    setTarget(next === 'rename' ? selected[0] || '' : '');
+  }
+
+  async function handleApply() {
+    if (!plan) return;
+    setApplying(true);
+    let failed = 0;
+    for (const { node, tags } of plan.nodes) {
+      try {
+        await updateNode({ ...node, tags });
+      } catch (error) {
+        failed++;
+        toast.error(`${node.name}: ${t('tagManager.failed')}`);
+      }
+    }
+    for (const { plan: subscribe, node_tags } of plan.plans) {
+      try {
+        await updateSubscribe({ ...subscribe, node_tags } as API.UpdateSubscribeRequest);
+      } catch (error) {
+        failed++;
+        toast.error(`${subscribe.name}: ${t('tagManager.failed')}`);
+      }
+    }
+    setApplying(false);
+    if (failed < changes) toast.success(t('tagManager.applied', { count: changes - failed }));
+    await Promise.all([fetchNodes(), fetchTags(), fetchSubscribes()]);
+    onChanged?.();
+    reset();
+  }
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <SheetTrigger asChild>
+        <Button variant='outline'>
+          <Icon icon='mdi:tag-multiple-outline' className='mr-1' />
+          {t('tagManager.trigger')}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className='w-[800px] max-w-full md:max-w-screen-lg'>
+        <SheetHeader>
+          <SheetTitle>{t('tagManager.title')}</SheetTitle>
+          <SheetDescription>{t('tagManager.description')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          <div className='space-y-4'>
+            {usage.length === 0 ? (
+              <p className='text-muted-foreground py-6 text-center text-sm'>
+                {t('tagManager.empty')}
+              </p>
+            ) : (
+              <div className='divide-y rounded-md border'>
+                {usage.map(({ tag, nodes: tagged, plans }) => (
+                  <label key={tag} className='flex items-start gap-3 p-3 text-sm'>
+                    <Checkbox
+                      className='mt-0.5'
+                      checked={selected.includes(tag)}
+                      onCheckedChange={(checked) =>
+                        setSelected((prev) =>
+                          checked ? [...prev, tag] : prev.filter((item) => item !== tag),
+                        )
+                      }
+                    />
+                    <div className='min-w-0 flex-1 space-y-1'>
+                      <div className='flex items-center gap-2'>
+                        <Badge variant='outline'>{tag}</Badge>
+                        <span className='text-muted-foreground text-xs'>
+                          {t('tagManager.nodeCount', { count: tagged.length })}
+                        </span>
+                      </div>
+                      <div className='text-muted-foreground text-xs'>
+                        {plans.length === 0
+                          ? t('tagManager.noPlans')
+                          : t('tagManager.plans', {
+                              plans: plans.map((plan) => plan.name).join(', '),
+                            })}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className='flex flex-wrap gap-2'>
+              <Button
+                variant={mode === 'rename' ? 'default' : 'outline'}
+                disabled={selected.length !== 1}
+                onClick={() => selectMode('rename')}
+              >
+                {t('tagManager.rename')}
+              </Button>
+              <Button
+                variant={mode === 'merge' ? 'default' : 'outline'}
+                disabled={selected.length < 2}
+                onClick={() => selectMode('merge')}
+              >
+                {t('tagManager.merge')}
+              </Button>
+              <Button
+                variant={mode === 'delete' ? 'destructive' : 'outline'}
+                disabled={selected.length === 0}
+                onClick={() => selectMode('delete')}
+              >
+                {t('tagManager.delete')}
+              </Button>
+            </div>
+
+            {operation && operation.type !== 'delete' && (
+              <div className='space-y-1'>
+                <Label>{t(`tagManager.${operation.type}Target`)}</Label>
+                <EnhancedInput
+                  value={target}
+                  onValueChange={(value) => setTarget(value as string)}
+                />
+              </div>
+            )}
+
+            {plan && changes > 0 && (
+              <div className='space-y-2'>
+                <Label>{t('tagManager.preview', { count: changes })}</Label>
+                <div className='divide-y rounded-md border'>
+                  {plan.nodes.map(({ node, tags }) => (
+                    <div key={`node-${node.id}`} className='space-y-1 p-3 text-sm'>
+                      <div className='flex items-center gap-2'>
+                        <Badge variant='secondary'>{t('tagManager.node')}</Badge>
+                        <span className='font-medium'>{node.name}</span>
+                      </div>
+                      <TagChangeList before={node.tags || []} after={tags} />
+                    </div>
+                  ))}
+                  {plan.plans.map(({ plan: subscribe, node_tags }) => (
+                    <div key={`plan-${subscribe.id}`} className='space-y-1 p-3 text-sm'>
+                      <div className='flex items-center gap-2'>
+                        <Badge variant='secondary'>{t('tagManager.plan')}</Badge>
+                        <span className='font-medium'>{subscribe.name}</span>
+                      </div>
+                      <TagChangeList before={subscribe.node_tags || []} after={node_tags} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className='flex-row justify-end gap-2 pt-3'>
+          <Button variant='outline' onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <ConfirmButton
+            trigger={
+              <Button disabled={applying || changes === 0}>
+                {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+                {t('tagManager.apply', { count: changes })}
+              </Button>
+            }
+            title={t('tagManager.confirmTitle')}
+            description={t('tagManager.confirmDescription', { count: changes })}
+            onConfirm={handleApply}
+            cancelText={t('cancel')}
+            confirmText={t('confirm')}
+          />
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { LiveModeSelect, useLiveMode } from '@/components/live-mode';
 import { ProTable, ProTableActions } from '@/components/pro-table';
 import {
   createNode,
@@ -10,66 +11,85 @@ import {
   updateNode,
 } from '@/services/admin/server';
 import { useNode } from '@/store/node';
+import { useNodeRelay } from '@/store/node-relay';
 import { useServer } from '@/store/server';
 import { Badge } from '@workspace/ui/components/badge';
 import { Button } from '@workspace/ui/components/button';
 import { Switch } from '@workspace/ui/components/switch';
 import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
+import { CountryFlag } from '@workspace/ui/custom-components/country-select';
 import { useTranslations } from 'next-intl';
 import { useRef, useState } from 'react';
 import { toast } from 'sonner';
+import { getNodeDrift } from './drift';
+import NodeBatchClone from './node-batch-clone';
+import NodeBatchTags from './node-batch-tags';
+import NodeDriftReport, { NodeDriftCell } from './node-drift';
+import NodeEntries from './node-entries';
 import NodeForm from './node-form';
+import NodeTagManager from './node-tag-manager';
 
 export default function NodesPage() {
   const t = useTranslations('nodes');
   const ref = useRef<ProTableActions>(null);
   const [loading, setLoading] = useState(false);
+  const [liveSeconds, setLiveSeconds] = useLiveMode('nodes');
 
   // Use our zustand store for server data
-  const { getServerName, getServerAddress, getProtocolPort } = useServer();
+  const { servers, getServerById, getServerName, getServerAddress, getProtocolPort } = useServer();
   const { fetchNodes, fetchTags } = useNode();
+  const { setRelay } = useNodeRelay();
 
   return (
     <ProTable<API.Node, { search: string }>
       action={ref}
+      pollingInterval={liveSeconds * 1000}
+      rowKey={(row) => row.id}
+      highlightChanges={liveSeconds > 0}
       header={{
         title: t('pageTitle'),
         toolbar: (
-          <NodeForm
-            trigger={t('create')}
-            title={t('drawerCreateTitle')}
-            loading={loading}
-            onSubmit={async (values) => {
-              setLoading(true);
-              try {
-                const body: API.CreateNodeRequest = {
-                  name: values.name,
-                  server_id: Number(values.server_id!),
-                  protocol: values.protocol,
-                  address: values.address,
-                  port: Number(values.port!),
-                  tags: values.tags || [],
-                  enabled: false,
-                };
-                await createNode(body);
-                toast.success(t('created'));
-                ref.current?.refresh();
-                fetchNodes();
-                fetchTags();
-                setLoading(false);
-                return true;
-              } catch (e) {
-                setLoading(false);
-                return false;
-              }
-            }}
-          />
+          <div className='flex gap-2'>
+            <LiveModeSelect value={liveSeconds} onChange={setLiveSeconds} />
+            <NodeDriftReport onFixed={() => ref.current?.refresh()} />
+            <NodeTagManager onChanged={() => ref.current?.refresh()} />
+            <NodeForm
+              trigger={t('create')}
+              title={t('drawerCreateTitle')}
+              loading={loading}
+              onSubmit={async (values) => {
+                setLoading(true);
+                try {
+                  const body: API.CreateNodeRequest = {
+                    name: values.name,
+                    server_id: Number(values.server_id!),
+                    protocol: values.protocol,
+                    address: values.address,
+                    port: Number(values.port!),
+                    tags: values.tags || [],
+                    enabled: false,
+                  };
+                  await createNode(body);
+                  toast.success(t('created'));
+                  ref.current?.refresh();
+                  fetchNodes();
+                  fetchTags();
+                  setLoading(false);
+                  return true;
+                } catch (e) {
+                  setLoading(false);
+                  return false;
+                }
+              }}
+            />
+          </div>
         ),
       }}
       columns={[
         {
           id: 'enabled',
           header: t('enabled'),
+          meta: { diffValue: (row) => row.enabled },
           cell: ({ row }) => (
             <Switch
               checked={row.original.enabled}
@@ -88,21 +108,41 @@ export default function NodesPage() {
         {
           id: 'address_port',
           header: `${t('address')}:${t('port')}`,
-          cell: ({ row }) => `${row.original.address || '—'}:${row.original.port || '—'}`,
+          meta: { diffValue: (row) => [row.address, row.port] },
+          cell: ({ row }) => <NodeEntries node={row.original} />,
         },
 
         {
           id: 'server_id',
           header: t('server'),
-          cell: ({ row }) =>
-            `${getServerName(row.original.server_id)}:${getServerAddress(row.original.server_id)}`,
+          meta: { diffValue: (row) => row.server_id },
+          cell: ({ row }) => (
+            <span className='inline-flex items-center gap-1'>
+              <CountryFlag
+                code={getServerById(row.original.server_id)?.country || ''}
+                className='!size-4'
+              />
+              {`${getServerName(row.original.server_id)}:${getServerAddress(row.original.server_id)}`}
+            </span>
+          ),
         },
         {
           id: 'protocol',
           header: ` ${t('protocol')}:${t('port')}`,
+          meta: {
+            diffValue: (row) => [row.protocol, getProtocolPort(row.server_id, row.protocol)],
+          },
           cell: ({ row }) =>
             `${row.original.protocol}:${getProtocolPort(row.original.server_id, row.original.protocol)}`,
         },
+        {
+          id: 'consistency',
+          header: t('drift.column'),
+          meta: { diffValue: (row) => getNodeDrift(row, servers) },
+          cell: ({ row }) => (
+            <NodeDriftCell node={row.original} onFixed={() => ref.current?.refresh()} />
+          ),
+        },
         {
           accessorKey: 'tags',
           header: t('tags'),
@@ -141,11 +181,13 @@ export default function NodesPage() {
             onSubmit={async (values) => {
               setLoading(true);
               try {
+                const { relay_mode, relay_node, ...rest } = values;
                 const body: API.UpdateNodeRequest = {
                   ...row,
-                  ...values,
+                  ...rest,
                 } as any;
                 await updateNode(body);
+                setRelay(row.id, { relay_mode, relay_node });
                 toast.success(t('updated'));
                 ref.current?.refresh();
                 fetchNodes();
@@ -192,19 +234,49 @@ export default function NodesPage() {
           </Button>,
         ],
         batchRender(rows) {
+          const refresh = () => {
+            ref.current?.refresh();
+            fetchNodes();
+            fetchTags();
+          };
+          // Report each failed node and refresh either way, so partial changes show up
+          const runBatch = async (action: (row: API.Node) => Promise<unknown>, success: string) => {
+            const results = await Promise.allSettled(rows.map(action));
+            results.forEach((result, index) => {
+              if (result.status === 'rejected') {
+                toast.error(`${rows[index]!.name}: ${t('batch.failed')}`);
+              }
+            });
+            if (results.some((result) => result.status === 'fulfilled')) toast.success(success);
+            refresh();
+          };
           return [
+            <Button
+              key='enable'
+              variant='outline'
+              onClick={() =>
+                runBatch((r) => toggleNodeStatus({ id: r.id, enable: true }), t('enabled_on'))
+              }
+            >
+              {t('batch.enable')}
+            </Button>,
+            <Button
+              key='disable'
+              variant='outline'
+              onClick={() =>
+                runBatch((r) => toggleNodeStatus({ id: r.id, enable: false }), t('enabled_off'))
+              }
+            >
+              {t('batch.disable')}
+            </Button>,
+            <NodeBatchTags key='tags' nodes={rows} onDone={() => ref.current?.refresh()} />,
+            <NodeBatchClone key='clone' nodes={rows} onDone={() => ref.current?.refresh()} />,
             <ConfirmButton
               key='delete'
               trigger={<Button variant='destructive'>{t('delete')}</Button>}
               title={t('confirmDeleteTitle')}
               description={t('confirmDeleteDesc')}
-              onConfirm={async () => {
-                await Promise.all(rows.map((r) => deleteNode({ id: r.id } as any)));
-                toast.success(t('deleted'));
-                ref.current?.refresh();
-                fetchNodes();
-                fetchTags();
-              }}
+              onConfirm={() => runBatch((r) => deleteNode({ id: r.id } as any), t('deleted'))}
               cancelText={t('cancel')}
               confirmText={t('confirm')}
             />,
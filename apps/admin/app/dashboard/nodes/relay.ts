@@ -0,0 +1,36 @@
+import { NodeRelaySettings } from '@/store/node-relay';
+
+export const RELAY_MODES = ['none', 'all', 'random'] as const;
+
+export type RelayMode = (typeof RELAY_MODES)[number];
+
+export interface NodeEntry {
+  host: string;
+  port: number;
+  // Name shown to clients, with the relay prefix applied
+  name: string;
+  prefix: string;
+}
+
+type RelaySource = Pick<API.Node, 'name' | 'address' | 'port'> & Partial<NodeRelaySettings>;
+
+export function hasRelays(node: RelaySource) {
+  return (node.relay_mode || 'none') !== 'none' && (node.relay_node || []).length > 0;
+}
+
+/**
+ * Entry points clients connect through. Without relays this is the node itself;
+ * in `all` mode every relay is published, in `random` mode one relay is picked
+ * per subscription from the returned list.
+ */
+export function getNodeEntries(node: RelaySource): NodeEntry[] {
+  if (!hasRelays(node)) {
+    return [{ host: node.address, port: node.port, name: node.name, prefix: '' }];
+  }
+  return node.relay_node!.map((relay) => ({
+    host: relay.host,
+    port: relay.port,
+    name: `${relay.prefix || ''}${node.name}`,
+    prefix: relay.prefix || '',
+  }));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { getTagUsage, planTagOperation } from './tags';
+
+const nodes = [
+  { id: 1, name: 'a', tags: ['hk', 'fast'] },
+  { id: 2, name: 'b', tags: ['jp'] },
+  { id: 3, name: 'c', tags: [] },
+] as unknown as API.Node[];
+
+const plans = [
+  { id: 1, name: 'basic', node_tags: ['hk', 'legacy'] },
+  { id: 2, name: 'pro', node_tags: ['fast'] },
+] as unknown as API.SubscribeItem[];
+
+describe('getTagUsage', () => {
+  it('includes tags used only by plans, sorted', () => {
+    const usage = getTagUsage(
+      ['jp', 'hk', 'fast'],
+      (tag) => nodes.filter((node) => node.tags.includes(tag)),
+      plans,
+    );
+    expect(usage.map((item) => item.tag)).toEqual(['fast', 'hk', 'jp', 'legacy']);
+    expect(usage[1]!.nodes.map((node) => node.id)).toEqual([1]);
+    expect(usage[1]!.plans.map((plan) => plan.id)).toEqual([1]);
+    expect(usage[3]!.nodes).toEqual([]);
+  });
+});
+
+describe('planTagOperation', () => {
+  it('renames a tag on the nodes and plans that use it', () => {
+    const plan = planTagOperation({ type: 'rename', source: 'hk', target: ' HK ' }, nodes, plans);
+    expect(plan.nodes).toEqual([{ node: nodes[0], tags: ['HK', 'fast'] }]);
+    expect(plan.plans).toEqual([{ plan: plans[0], node_tags: ['HK', 'legacy'] }]);
+  });
+
+  it('merges tags without duplicating the target', () => {
+    const plan = planTagOperation(
+      { type: 'merge', sources: ['hk', 'fast'], target: 'hk' },
+      nodes,
+      plans,
+    );
+    expect(plan.nodes).toEqual([{ node: nodes[0], tags: ['hk'] }]);
+    expect(plan.plans.map((item) => item.node_tags)).toEqual([['hk', 'legacy'], ['hk']]);
+  });
+
+  it('deletes tags', () => {
+    const plan = planTagOperation({ type: 'delete', sources: ['jp'] }, nodes, plans);
+    expect(plan.nodes).toEqual([{ node: nodes[1], tags: [] }]);
+    expect(plan.plans).toEqual([]);
+  });
+
+  it('does nothing for a blank target', () => {
+    expect(planTagOperation({ type: 'rename', source: 'hk', target: '  ' }, nodes, plans)).toEqual({
+      nodes: [],
+      plans: [],
+    });
+  });
+});
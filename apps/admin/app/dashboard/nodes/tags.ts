@@ -0,0 +1,62 @@
+export interface TagUsage {
+  tag: string;
+  nodes: API.Node[];
+  plans: API.SubscribeItem[];
+}
+
+export type TagOperation =
+  | { type: 'rename'; source: string; target: string }
+  | { type: 'merge'; sources: string[]; target: string }
+  | { type: 'delete'; sources: string[] };
+
+export interface TagChangePlan {
+  nodes: { node: API.Node; tags: string[] }[];
+  plans: { plan: API.SubscribeItem; node_tags: string[] }[];
+}
+
+export function getTagUsage(
+  tags: string[],
+  getNodesByTag: (tag: string) => API.Node[],
+  subscribes: API.SubscribeItem[],
+): TagUsage[] {
+  const all = new Set([...tags, ...subscribes.flatMap((plan) => plan.node_tags || [])]);
+  return Array.from(all)
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b))
+    .map((tag) => ({
+      tag,
+      nodes: getNodesByTag(tag),
+      plans: subscribes.filter((plan) => (plan.node_tags || []).includes(tag)),
+    }));
+}
+
+function replaceTags(tags: string[], sources: string[], target?: string) {
+  if (!tags.some((tag) => sources.includes(tag))) return undefined;
+  const next = tags.flatMap((tag) => (sources.includes(tag) ? (target ? [target] : []) : [tag]));
+  return Array.from(new Set(next));
+}
+
+/**
+ * Work out which nodes and plans a rename, merge or delete touches and what
+ * their tag lists become. Rename is a merge of a single tag.
+ */
+export function planTagOperation(
+  operation: TagOperation,
+  nodes: API.Node[],
+  subscribes: API.SubscribeItem[],
+): TagChangePlan {
+  const sources = operation.type === 'rename' ? [operation.source] : operation.sources;
+  const target = operation.type === 'delete' ? undefined : operation.target.trim();
+  if (operation.type !== 'delete' && !target) return { nodes: [], plans: [] };
+
+  return {
+    nodes: nodes.flatMap((node) => {
+      const tags = replaceTags(node.tags || [], sources, target);
+      return tags ? [{ node, tags }] : [];
+    }),
+    plans: subscribes.flatMap((plan) => {
+      const node_tags = replaceTags(plan.node_tags || [], sources, target);
+      return node_tags ? [{ plan, node_tags }] : [];
+    }),
+  };
+}
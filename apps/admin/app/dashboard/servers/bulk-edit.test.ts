@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getBulkEditableFields, planBulkEdit } from './bulk-edit';
+
+function server(id: number, protocols: Partial<API.Protocol>[]) {
+  return { id, name: `s${id}`, protocols } as API.Server;
+}
+
+describe('getBulkEditableFields', () => {
+  it('puts the enable switch first and lists each field once', () => {
+    const names = getBulkEditableFields('vless').map((field) => field.name);
+    expect(names[0]).toBe('enable');
+    expect(names).toContain('port');
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+describe('planBulkEdit', () => {
+  const servers = [
+    server(1, [{ type: 'vless', port: 443, enable: true, sni: 'a.com' }]),
+    server(2, [{ type: 'vless', port: 443, enable: true, sni: 'b.com' }]),
+    server(3, [{ type: 'trojan', port: 443, enable: true }]),
+  ];
+
+  it('reports changes, unchanged servers and servers without the protocol', () => {
+    const rows = planBulkEdit(servers, 'vless', { sni: 'a.com' }, () => false);
+    expect(rows.map((row) => row.status)).toEqual(['unchanged', 'change', 'missing']);
+
+    expect(rows[1]).toMatchObject({
+      changes: [{ field: 'sni', from: 'b.com', to: 'a.com' }],
+      protocols: [{ type: 'vless', port: 443, sni: 'a.com' }],
+    });
+  });
+
+  it('treats empty values as equal', () => {
+    const rows = planBulkEdit(
+      [server(1, [{ type: 'vless', port: 443 }])],
+      'vless',
+      { sni: '' },
+      () => false,
+    );
+    expect(rows[0]!.status).toBe('unchanged');
+  });
+
+  it('blocks disabling a protocol that nodes still use', () => {
+    const rows = planBulkEdit(servers, 'vless', { enable: false }, (id) => id === 1);
+    expect(rows.map((row) => row.status)).toEqual(['blocked', 'change', 'missing']);
+  });
+
+  it('rejects values the API schema does not accept', () => {
+    const [row] = planBulkEdit(servers.slice(0, 1), 'vless', { port: 70000 }, () => false);
+    expect(row!.status).toBe('invalid');
+    expect(row!.errors).toHaveLength(1);
+    expect(row!.errors[0]).toMatch(/^port: /);
+  });
+});
@@ -0,0 +1,87 @@
+import { FieldConfig, PROTOCOL_FIELDS, protocolApiScheme, ProtocolType } from './form-schema';
+
+export type BulkEditStatus = 'change' | 'unchanged' | 'missing' | 'blocked' | 'invalid';
+
+interface BulkEditRowBase {
+  server: API.Server;
+  changes: { field: string; from: unknown; to: unknown }[];
+  errors: string[];
+}
+
+// Only rows that will change carry the protocols to save
+export type BulkEditRow =
+  | (BulkEditRowBase & { status: 'change'; protocols: API.Protocol[] })
+  | (BulkEditRowBase & { status: Exclude<BulkEditStatus, 'change'> });
+
+export const ENABLE_FIELD: FieldConfig = {
+  name: 'enable',
+  type: 'switch',
+  label: 'enabled',
+  group: 'basic',
+};
+
+/**
+ * Fields that can be bulk edited for a protocol type: its form fields plus the enable switch.
+ */
+export function getBulkEditableFields(type: ProtocolType): FieldConfig[] {
+  const seen = new Set<string>();
+  return [ENABLE_FIELD, ...(PROTOCOL_FIELDS[type] || [])].filter((field) => {
+    if (seen.has(field.name)) return false;
+    seen.add(field.name);
+    return true;
+  });
+}
+
+function isSame(a: unknown, b: unknown) {
+  const empty = (v: unknown) => v === undefined || v === null || v === '';
+  if (empty(a) && empty(b)) return true;
+  return a === b;
+}
+
+export function planBulkEdit(
+  servers: API.Server[],
+  type: ProtocolType,
+  patch: Record<string, unknown>,
+  isProtocolUsedInNodes: (serverId: number, protocolType: string) => boolean,
+): BulkEditRow[] {
+  return servers.map((server) => {
+    const index = (server.protocols || []).findIndex((p) => p.type === type);
+    if (index < 0) {
+      return { server, status: 'missing', changes: [], errors: [] };
+    }
+
+    const current = server.protocols[index]!;
+    const next = { ...current, ...patch } as API.Protocol;
+    const changes = Object.entries(patch)
+      .filter(([field, value]) => !isSame((current as Record<string, unknown>)[field], value))
+      .map(([field, value]) => ({
+        field,
+        from: (current as Record<string, unknown>)[field],
+        to: value,
+      }));
+
+    if (changes.length === 0) {
+      return { server, status: 'unchanged', changes, errors: [] };
+    }
+
+    if (current.enable && patch.enable === false && isProtocolUsedInNodes(server.id, type)) {
+      return { server, status: 'blocked', changes, errors: [] };
+    }
+
+    const parsed = protocolApiScheme.safeParse(next);
+    if (!parsed.success) {
+      return {
+        server,
+        status: 'invalid',
+        changes,
+        errors: parsed.error.issues.map((issue) =>
+          issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+        ),
+      };
+    }
+
+    const protocols = [...server.protocols];
+    protocols[index] = next;
+    return { server, status: 'change', changes, errors: [], protocols };
+  });
+}
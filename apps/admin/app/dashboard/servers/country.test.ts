@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { groupServersByCountry, normalizeCountry, planCountryNormalization } from './country';
+
+function server(id: number, country: string) {
+  return { id, name: `s${id}`, country } as API.Server;
+}
+
+describe('normalizeCountry', () => {
+  it('resolves codes, aliases, names and flags to ISO codes', () => {
+    expect(normalizeCountry('jp')).toBe('JP');
+    expect(normalizeCountry('UK')).toBe('GB');
+    expect(normalizeCountry('JPN')).toBe('JP');
+    expect(normalizeCountry('Japan')).toBe('JP');
+    expect(normalizeCountry('🇯🇵')).toBe('JP');
+  });
+
+  it('keeps unknown values as entered', () => {
+    expect(normalizeCountry(' Atlantis ')).toBe('Atlantis');
+    expect(normalizeCountry(undefined)).toBe('');
+  });
+});
+
+describe('groupServersByCountry', () => {
+  it('groups by resolved code, largest first and unknown last', () => {
+    const groups = groupServersByCountry([
+      server(1, ''),
+      server(2, 'US'),
+      server(3, 'Japan'),
+      server(4, 'JP'),
+    ]);
+    expect(groups.map((g) => [g.code, g.servers.map((s) => s.id)])).toEqual([
+      ['JP', [3, 4]],
+      ['US', [2]],
+      ['', [1]],
+    ]);
+  });
+});
+
+describe('planCountryNormalization', () => {
+  it('lists only servers whose stored value is not already the ISO code', () => {
+    const plan = planCountryNormalization([
+      server(1, 'JP'),
+      server(2, 'Japan'),
+      server(3, 'Atlantis'),
+      server(4, ''),
+    ]);
+    expect(plan.map(({ server, country }) => [server.id, country])).toEqual([[2, 'JP']]);
+  });
+});
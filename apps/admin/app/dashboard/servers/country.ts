@@ -0,0 +1,35 @@
+import { findCountry, getCountryCode } from '@workspace/ui/utils/countries';
+
+/** The ISO code for a stored country value, or the value itself when unknown. */
+export function normalizeCountry(value: string | undefined, locales: string[] = []) {
+  const country = findCountry(value, locales);
+  return country ? getCountryCode(country) : (value?.trim() ?? '');
+}
+
+export interface CountryGroup {
+  // Empty for servers without a recognised country
+  code: string;
+  servers: API.Server[];
+}
+
+export function groupServersByCountry(servers: API.Server[], locales: string[] = []) {
+  const groups = new Map<string, API.Server[]>();
+  servers.forEach((server) => {
+    const country = findCountry(server.country, locales);
+    const code = country ? getCountryCode(country) : '';
+    groups.set(code, [...(groups.get(code) || []), server]);
+  });
+  return Array.from(groups, ([code, items]): CountryGroup => ({ code, servers: items })).sort(
+    (a, b) => (!a.code ? 1 : !b.code ? -1 : b.servers.length - a.servers.length),
+  );
+}
+
+/** Servers whose country resolves to an ISO code different from the stored value. */
+export function planCountryNormalization(servers: API.Server[], locales: string[] = []) {
+  return servers.flatMap((server) => {
+    const country = normalizeCountry(server.country, locales);
+    return server.country && country !== server.country && findCountry(country)
+      ? [{ server, country }]
+      : [];
+  });
+}
@@ -1,7 +1,13 @@
 'use client';
 
-import { getNodeMultiplier, setNodeMultiplier } from '@/services/admin/system';
+import { useTimezone } from '@/components/timezone-switch';
+import {
+  getNodeMultiplier,
+  preViewNodeMultiplier,
+  setNodeMultiplier,
+} from '@/services/admin/system';
 import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@workspace/ui/components/badge';
 import { Button } from '@workspace/ui/components/button';
 import { Card, CardContent } from '@workspace/ui/components/card';
 import { ScrollArea } from '@workspace/ui/components/scroll-area';
@@ -19,11 +25,54 @@ import { Icon } from '@workspace/ui/custom-components/icon';
 import { useTranslations } from 'next-intl';
 import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
+import {
+  analyzePeriods,
+  crossesMidnight,
+  formatUtcOffset,
+  getClockSeconds,
+  getMultiplierAt,
+  getOffsetClockSeconds,
+  getServerOffsetSeconds,
+  PeriodIssueCode,
+} from './multiplier';
+import MultiplierTimeline from './multiplier-timeline';
+
+// Periods with these issues are rejected; overlaps and empty ranges only warn
+const BLOCKING_ISSUES: PeriodIssueCode[] = ['invalid_time', 'invalid_multiplier'];
+
+function useNow(interval = 30_000) {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), interval);
+    return () => clearInterval(timer);
+  }, [interval]);
+  return now;
+}
+
+/** Current multiplier preview and the server clock offset read from it. */
+export function useMultiplierPreview() {
+  const query = useQuery({
+    queryKey: ['preViewNodeMultiplier'],
+    queryFn: async () => {
+      const { data } = await preViewNodeMultiplier();
+      return data.data;
+    },
+    refetchInterval: 60_000,
+  });
+  // Read the offset once per response rather than against a clock that keeps moving
+  const [serverOffset, setServerOffset] = useState(0);
+  useEffect(() => {
+    setServerOffset(getServerOffsetSeconds(query.data?.current_time));
+  }, [query.data?.current_time]);
+  return { ...query, serverOffset };
+}
 
 export default function DynamicMultiplier() {
   const t = useTranslations('servers');
   const [open, setOpen] = useState(false);
   const [timeSlots, setTimeSlots] = useState<API.TimePeriod[]>([]);
+  const timezone = useTimezone();
+  const now = useNow();
 
   const { data: periodsResp, refetch: refetchPeriods } = useQuery({
     queryKey: ['getNodeMultiplier'],
@@ -34,6 +83,12 @@ export default function DynamicMultiplier() {
     enabled: open,
   });
 
+  const { data: preview, refetch: refetchPreview, serverOffset } = useMultiplierPreview();
+
+  const issues = analyzePeriods(timeSlots);
+  const blocked = issues.some((issue) => BLOCKING_ISSUES.includes(issue.code));
+  const draftRatio = getMultiplierAt(timeSlots, getOffsetClockSeconds(serverOffset, now));
+
   useEffect(() => {
     if (periodsResp) {
       setTimeSlots(periodsResp);
@@ -42,7 +97,7 @@ export default function DynamicMultiplier() {
 
   async function savePeriods() {
     await setNodeMultiplier({ periods: timeSlots });
-    await refetchPeriods();
+    await Promise.all([refetchPeriods(), refetchPreview()]);
     toast.success(t('server_config.saveSuccess'));
     setOpen(false);
   }
@@ -58,7 +113,10 @@ export default function DynamicMultiplier() {
                   <Icon icon='mdi:clock-time-eight' className='text-primary h-5 w-5' />
                 </div>
                 <div className='flex-1'>
-                  <p className='font-medium'>{t('server_config.dynamic_multiplier')}</p>
+                  <p className='flex items-center gap-2 font-medium'>
+                    {t('server_config.dynamic_multiplier')}
+                    {preview && <Badge variant='secondary'>×{preview.ratio}</Badge>}
+                  </p>
                   <p className='text-muted-foreground truncate text-sm'>
                     {t('server_config.dynamic_multiplier_desc')}
                   </p>
@@ -77,6 +135,33 @@ export default function DynamicMultiplier() {
         </SheetHeader>
         <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
           <div className='space-y-4 pt-4'>
+            <div className='flex flex-wrap items-center gap-2 text-sm'>
+              <span className='text-muted-foreground'>{t('server_config.multiplier.current')}</span>
+              <Badge>×{preview?.ratio ?? '-'}</Badge>
+              {preview?.current_time && (
+                <span className='text-muted-foreground text-xs'>
+                  {t('server_config.multiplier.serverTime', { time: preview.current_time })}
+                </span>
+              )}
+              {preview && draftRatio !== preview.ratio && (
+                <Badge variant='outline'>
+                  {t('server_config.multiplier.afterSave', { ratio: draftRatio })}
+                </Badge>
+              )}
+            </div>
+            <MultiplierTimeline
+              periods={timeSlots}
+              issues={issues}
+              timezone={timezone}
+              serverOffset={serverOffset}
+              now={getClockSeconds(timezone, now)}
+            />
+            <p className='text-muted-foreground text-xs'>
+              {t('server_config.multiplier.timezoneHint', {
+                server: formatUtcOffset(serverOffset),
+                timezone,
+              })}
+            </p>
             <ArrayInput<API.TimePeriod>
               fields={[
                 {
@@ -101,6 +186,32 @@ export default function DynamicMultiplier() {
               value={timeSlots}
               onChange={setTimeSlots}
             />
+            {(issues.length > 0 || timeSlots.some(crossesMidnight)) && (
+              <ul className='space-y-1 text-xs'>
+                {issues.map((issue, index) => (
+                  <li
+                    key={index}
+                    className={
+                      BLOCKING_ISSUES.includes(issue.code)
+                        ? 'text-destructive'
+                        : 'text-amber-600 dark:text-amber-500'
+                    }
+                  >
+                    #{issue.index + 1}{' '}
+                    {t(`server_config.multiplier.issues.${issue.code}`, {
+                      other: (issue.with ?? 0) + 1,
+                    })}
+                  </li>
+                ))}
+                {timeSlots.map((period, index) =>
+                  crossesMidnight(period) ? (
+                    <li key={`midnight-${index}`} className='text-muted-foreground'>
+                      #{index + 1} {t('server_config.multiplier.crossesMidnight')}
+                    </li>
+                  ) : null,
+                )}
+              </ul>
+            )}
           </div>
         </ScrollArea>
 
@@ -112,7 +223,9 @@ export default function DynamicMultiplier() {
             <Button variant='outline' onClick={() => setOpen(false)}>
               {t('actions.cancel')}
             </Button>
-            <Button onClick={savePeriods}>{t('actions.save')}</Button>
+            <Button disabled={blocked} onClick={savePeriods}>
+              {t('actions.save')}
+            </Button>
           </div>
         </SheetFooter>
       </SheetContent>
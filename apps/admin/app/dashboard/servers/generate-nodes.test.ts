@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { planGeneratedNodes, renderNodeTemplate } from './generate-nodes';
+
+const server = {
+  id: 3,
+  name: 'tokyo-1',
+  country: 'JP',
+  city: 'Tokyo',
+  address: '1.2.3.4',
+} as API.Server;
+
+describe('renderNodeTemplate', () => {
+  it('fills variables and keeps unknown placeholders', () => {
+    expect(
+      renderNodeTemplate('{country}-{city}-{protocol}:{port} {foo}', server, {
+        protocol: 'vless',
+        port: 443,
+      }),
+    ).toBe('JP-Tokyo-vless:443 {foo}');
+  });
+
+  it('drops the separator of an empty value', () => {
+    const noCity = { ...server, city: '' };
+    const protocol = { protocol: 'vless', port: 443 };
+    expect(renderNodeTemplate('{country}-{city}-{protocol}', noCity, protocol)).toBe('JP-vless');
+    expect(renderNodeTemplate('{city}-{protocol}', noCity, protocol)).toBe('vless');
+    expect(renderNodeTemplate('{city}', noCity, protocol)).toBe('');
+  });
+});
+
+describe('planGeneratedNodes', () => {
+  it('builds one node per protocol and marks covered ones', () => {
+    const plan = planGeneratedNodes(
+      [server],
+      () => [
+        { protocol: 'vless', port: 443 },
+        { protocol: 'trojan', port: 8443 },
+      ],
+      (_, protocol) => protocol === 'trojan',
+      {
+        template: '{city}',
+        tags: ['{country}', '{country}', '{city}-x', '{unknown}'],
+        enabled: true,
+      },
+    );
+    expect(plan.map((p) => [p.protocol, p.covered])).toEqual([
+      ['vless', false],
+      ['trojan', true],
+    ]);
+    expect(plan[0]!.body).toEqual({
+      name: 'Tokyo',
+      server_id: 3,
+      protocol: 'vless',
+      address: '1.2.3.4',
+      port: 443,
+      tags: ['JP', 'Tokyo-x', '{unknown}'],
+      enabled: true,
+    });
+  });
+
+  it('falls back to the server name when the template renders empty', () => {
+    const [node] = planGeneratedNodes(
+      [{ ...server, city: '' }],
+      () => [{ protocol: 'vless', port: 443 }],
+      () => false,
+      { template: '{city}', tags: [], enabled: false },
+    );
+    expect(node!.body.name).toBe('tokyo-1');
+  });
+});
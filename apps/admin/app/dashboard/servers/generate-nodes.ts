@@ -0,0 +1,74 @@
+export const DEFAULT_NODE_NAME_TEMPLATE = '{country}-{city}-{protocol}';
+
+export const NODE_TEMPLATE_VARIABLES = [
+  'name',
+  'country',
+  'city',
+  'address',
+  'protocol',
+  'port',
+] as const;
+
+export interface GeneratedNode {
+  server: API.Server;
+  protocol: string;
+  port: number;
+  // Server already has a node for this protocol
+  covered: boolean;
+  body: API.CreateNodeRequest;
+}
+
+const EMPTY = '\uE000';
+
+/**
+ * Fill `{variable}` placeholders from the server and protocol. An empty value
+ * drops its separator too, so a server without a city does not produce `US--vless`.
+ */
+export function renderNodeTemplate(
+  template: string,
+  server: API.Server,
+  protocol: { protocol: string; port: number },
+) {
+  const values: Record<string, string> = {
+    name: server.name || '',
+    country: server.country || '',
+    city: server.city || '',
+    address: server.address || '',
+    protocol: protocol.protocol,
+    port: protocol.port ? String(protocol.port) : '',
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key] || EMPTY : match))
+    .replace(/^(?:\uE000[-_|·:\s]*)+/, '')
+    .replace(/[-_|·:\s]*\uE000/g, '')
+    .trim();
+}
+
+export function planGeneratedNodes(
+  servers: API.Server[],
+  getAvailableProtocols: (serverId: number) => { protocol: string; port: number }[],
+  isProtocolUsedInNodes: (serverId: number, protocol: string) => boolean,
+  options: { template: string; tags: string[]; enabled: boolean },
+): GeneratedNode[] {
+  return servers.flatMap((server) =>
+    getAvailableProtocols(server.id).map((protocol) => ({
+      server,
+      protocol: protocol.protocol,
+      port: protocol.port,
+      covered: isProtocolUsedInNodes(server.id, protocol.protocol),
+      body: {
+        name: renderNodeTemplate(options.template, server, protocol) || server.name,
+        server_id: server.id,
+        protocol: protocol.protocol,
+        address: server.address,
+        port: Number(protocol.port),
+        tags: Array.from(
+          new Set(
+            options.tags.map((tag) => renderNodeTemplate(tag, server, protocol)).filter(Boolean),
+          ),
+        ),
+        enabled: options.enabled,
+      },
+    })),
+  );
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { ServerHealth } from './health';
+import { formatAge, getHeartbeatAge, getServerHealth, isUnhealthy, toMillis } from './health';
+
+const NOW = 1_700_000_000_000;
+
+function server(ageSeconds: number | undefined, status: Partial<API.ServerStatus> = {}) {
+  return {
+    id: 1,
+    last_reported_at: ageSeconds === undefined ? 0 : (NOW - ageSeconds * 1000) / 1000,
+    status: { status: 'online', cpu: 10, mem: 10, disk: 10, ...status },
+  } as API.Server;
+}
+
+describe('toMillis', () => {
+  it('accepts seconds and milliseconds', () => {
+    expect(toMillis(1_700_000_000)).toBe(NOW);
+    expect(toMillis(NOW)).toBe(NOW);
+    expect(toMillis(undefined)).toBe(0);
+  });
+});
+
+describe('getServerHealth', () => {
+  it('grades heartbeat age against the push interval', () => {
+    expect(getServerHealth(server(30), 60, NOW)).toBe('online');
+    expect(getServerHealth(server(121), 60, NOW)).toBe('stale');
+    expect(getServerHealth(server(361), 60, NOW)).toBe('offline');
+    expect(getServerHealth(server(121), 120, NOW)).toBe('online');
+  });
+
+  it('falls back to the default interval and treats never-reported as offline', () => {
+    expect(getServerHealth(server(90), undefined, NOW)).toBe('online');
+    expect(getServerHealth(server(undefined), 60, NOW)).toBe('offline');
+    expect(getHeartbeatAge(server(undefined), NOW)).toBe(Infinity);
+  });
+
+  it('trusts a reported offline status and flags high usage', () => {
+    expect(getServerHealth(server(5, { status: 'offline' }), 60, NOW)).toBe('offline');
+    expect(getServerHealth(server(5, { disk: 95 }), 60, NOW)).toBe('degraded');
+  });
+});
+
+describe('isUnhealthy', () => {
+  it('covers every state but online', () => {
+    const states: ServerHealth[] = ['online', 'degraded', 'stale', 'offline'];
+    expect(states.map(isUnhealthy)).toEqual([false, true, true, true]);
+  });
+});
+
+describe('formatAge', () => {
+  it('picks a unit for the age', () => {
+    expect(formatAge(42_000)).toBe('42s');
+    expect(formatAge(5 * 60_000)).toBe('5m');
+    expect(formatAge(26 * 3600_000 + 60_000)).toBe('26h 1m');
+    expect(formatAge(72 * 3600_000)).toBe('3d');
+    expect(formatAge(Infinity)).toBe('—');
+  });
+});
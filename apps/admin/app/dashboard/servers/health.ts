@@ -0,0 +1,59 @@
+export type ServerHealth = 'online' | 'degraded' | 'stale' | 'offline';
+
+export const UNHEALTHY_STATES: ServerHealth[] = ['degraded', 'stale', 'offline'];
+
+// Heartbeat age thresholds, as multiples of NodeConfig.node_push_interval
+export const STALE_AFTER_INTERVALS = 2;
+export const OFFLINE_AFTER_INTERVALS = 6;
+// Resource usage (percent) above which a reporting server counts as degraded
+export const DEGRADED_USAGE = 90;
+
+export const DEFAULT_PUSH_INTERVAL = 60;
+
+/**
+ * Normalise a backend timestamp (seconds or milliseconds) to milliseconds.
+ */
+export function toMillis(timestamp?: number) {
+  if (!timestamp) return 0;
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+export function getHeartbeatAge(server: API.Server, now = Date.now()) {
+  const last = toMillis(server.last_reported_at);
+  if (!last) return Infinity;
+  return Math.max(0, now - last);
+}
+
+export function getServerHealth(
+  server: API.Server,
+  pushInterval?: number,
+  now = Date.now(),
+): ServerHealth {
+  const interval = (pushInterval || DEFAULT_PUSH_INTERVAL) * 1000;
+  const age = getHeartbeatAge(server, now);
+
+  if (server.status?.status === 'offline' || age > interval * OFFLINE_AFTER_INTERVALS) {
+    return 'offline';
+  }
+  if (age > interval * STALE_AFTER_INTERVALS) return 'stale';
+
+  const { cpu = 0, mem = 0, disk = 0 } = server.status || {};
+  if (Math.max(cpu, mem, disk) >= DEGRADED_USAGE) return 'degraded';
+
+  return 'online';
+}
+
+export function isUnhealthy(health: ServerHealth) {
+  return UNHEALTHY_STATES.includes(health);
+}
+
+export function formatAge(age: number) {
+  if (!Number.isFinite(age)) return '—';
+  const seconds = Math.floor(age / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d`;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getInstallFile,
+  INSTALL_SCRIPT_URL,
+  maskSecret,
+  NODE_BINARY,
+  renderInstallTarget,
+  shellQuote,
+} from './install';
+
+const params = { apiHost: 'https://panel.example.com', serverId: 7, secret: 'abcd1234' };
+
+describe('shellQuote', () => {
+  it('leaves plain words alone and single-quotes the rest', () => {
+    expect(shellQuote('https://panel.example.com')).toBe('https://panel.example.com');
+    expect(shellQuote('a b')).toBe("'a b'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+});
+
+describe('maskSecret', () => {
+  it('keeps the first four characters', () => {
+    expect(maskSecret('abcd1234')).toBe('abcd********');
+    expect(maskSecret('abcd1234567890xyz')).toBe(`abcd${'*'.repeat(13)}`);
+    expect(maskSecret('')).toBe('');
+  });
+});
+
+describe('renderInstallTarget', () => {
+  it('passes the node arguments to every target', () => {
+    expect(renderInstallTarget('shell', params)).toBe(
+      `wget -N ${INSTALL_SCRIPT_URL} && bash install.sh --api-host https://panel.example.com --server-id 7 --secret-key abcd1234`,
+    );
+    expect(renderInstallTarget('docker', params)).toContain(
+      '    command:\n      - "--api-host"\n      - "https://panel.example.com"',
+    );
+    expect(renderInstallTarget('systemd', params)).toContain(
+      `ExecStart=${NODE_BINARY} --api-host https://panel.example.com --server-id 7 --secret-key abcd1234\n`,
+    );
+    expect(renderInstallTarget('cloud-init', params)).toContain(
+      `  - [bash, -c, ${JSON.stringify(renderInstallTarget('shell', params))}]`,
+    );
+  });
+});
+
+describe('getInstallFile', () => {
+  it('names files per target and wraps the one-liner in a script', () => {
+    expect(getInstallFile('docker', params).filename).toBe('docker-compose.yml');
+    expect(getInstallFile('systemd', params).filename).toBe('ppanel-node.service');
+    expect(getInstallFile('cloud-init', params).filename).toBe('cloud-init-server-7.yaml');
+    const script = getInstallFile('shell', params);
+    expect(script.filename).toBe('install-server-7.sh');
+    expect(script.content.startsWith('#!/usr/bin/env bash\nset -e\nwget')).toBe(true);
+  });
+});
+
+describe('secrets with special characters', () => {
+  const special = { ...params, secret: `a'b%c$d"e\\f` };
+
+  it('quotes systemd arguments for systemd, not for a shell', () => {
+    expect(renderInstallTarget('systemd', special)).toContain(
+      '--secret-key "a\'b%%c$$d\\"e\\\\f"\n',
+    );
+  });
+
+  it('keeps Compose from interpolating $', () => {
+    expect(renderInstallTarget('docker', special)).toContain('      - "a\'b%c$$d\\"e\\\\f"\n');
+  });
+
+  it('single-quotes them for the shell and cloud-init', () => {
+    expect(renderInstallTarget('shell', special)).toContain(`--secret-key 'a'\\''b%c$d"e\\f'`);
+  });
+});
@@ -0,0 +1,130 @@
+export const INSTALL_SCRIPT_URL =
+  'https://raw.githubusercontent.com/perfect-panel/ppanel-node/master/scripts/install.sh';
+export const NODE_IMAGE = 'ghcr.io/perfect-panel/ppanel-node:latest';
+export const NODE_BINARY = '/usr/local/bin/ppanel-node';
+
+export const INSTALL_TARGETS = ['shell', 'docker', 'systemd', 'cloud-init'] as const;
+export type InstallTarget = (typeof INSTALL_TARGETS)[number];
+
+export interface InstallParams {
+  apiHost: string;
+  serverId: number;
+  secret: string;
+}
+
+export function shellQuote(value: string) {
+  if (/^[\w@%+=:,./-]+$/.test(value)) return value;
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote an `ExecStart=` argument. systemd splits on whitespace and quotes, not
+ * shell syntax, and expands `%` specifiers and `$` variables.
+ */
+export function systemdQuote(value: string) {
+  if (/^[\w@+=:,./-]+$/.test(value)) return value;
+  return `"${value.replace(/["\\]/g, '\\$&').replace(/%/g, '%%').replace(/\$/g, '$$$$')}"`;
+}
+
+/** Quote a Compose string; Compose interpolates `$`, so it is doubled. */
+function composeQuote(value: string) {
+  return JSON.stringify(value).replace(/\$/g, '$$$$');
+}
+
+/** Hide all but the first characters of the node secret. */
+export function maskSecret(secret: string) {
+  if (!secret) return secret;
+  return `${secret.slice(0, 4)}${'*'.repeat(Math.max(secret.length - 4, 8))}`;
+}
+
+function nodeArgs({ apiHost, serverId, secret }: InstallParams) {
+  return ['--api-host', apiHost, '--server-id', String(serverId), '--secret-key', secret];
+}
+
+function renderShell(params: InstallParams) {
+  const args = nodeArgs(params).map(shellQuote).join(' ');
+  return `wget -N ${INSTALL_SCRIPT_URL} && bash install.sh ${args}`;
+}
+
+function renderDocker(params: InstallParams) {
+  const args = nodeArgs(params).map((arg) => `      - ${composeQuote(arg)}`);
+  return [
+    'services:',
+    '  ppanel-node:',
+    `    image: ${NODE_IMAGE}`,
+    `    container_name: ppanel-node-${params.serverId}`,
+    '    restart: always',
+    '    network_mode: host',
+    '    command:',
+    ...args,
+    '',
+  ].join('\n');
+}
+
+function renderSystemd(params: InstallParams) {
+  return [
+    '[Unit]',
+    `Description=PPanel node (server ${params.serverId})`,
+    'After=network-online.target',
+    'Wants=network-online.target',
+    '',
+    '[Service]',
+    'Type=simple',
+    `ExecStart=${NODE_BINARY} ${nodeArgs(params).map(systemdQuote).join(' ')}`,
+    'Restart=on-failure',
+    'RestartSec=5s',
+    'LimitNOFILE=1048576',
+    '',
+    '[Install]',
+    'WantedBy=multi-user.target',
+    '',
+  ].join('\n');
+}
+
+function renderCloudInit(params: InstallParams) {
+  return [
+    '#cloud-config',
+    'package_update: true',
+    'packages:',
+    '  - wget',
+    'runcmd:',
+    `  - [bash, -c, ${JSON.stringify(renderShell(params))}]`,
+    '',
+  ].join('\n');
+}
+
+export function renderInstallTarget(target: InstallTarget, params: InstallParams) {
+  switch (target) {
+    case 'docker':
+      return renderDocker(params);
+    case 'systemd':
+      return renderSystemd(params);
+    case 'cloud-init':
+      return renderCloudInit(params);
+    default:
+      return renderShell(params);
+  }
+}
+
+/** The downloadable file for a target; the one-liner becomes a small script. */
+export function getInstallFile(target: InstallTarget, params: InstallParams) {
+  const content = renderInstallTarget(target, params);
+  switch (target) {
+    case 'docker':
+      return { filename: 'docker-compose.yml', type: 'application/yaml', content };
+    case 'systemd':
+      return { filename: 'ppanel-node.service', type: 'text/plain', content };
+    case 'cloud-init':
+      return {
+        filename: `cloud-init-server-${params.serverId}.yaml`,
+        type: 'application/yaml',
+        content,
+      };
+    default:
+      return {
+        filename: `install-server-${params.serverId}.sh`,
+        type: 'text/x-shellscript',
+        content: `#!/usr/bin/env bash\nset -e\n${content}\n`,
+      };
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { KeyRotationOptions } from './key-rotation';
+import {
+  applyKeys,
+  canRollback,
+  getRotationFields,
+  pickKeys,
+  planKeyRotation,
+} from './key-rotation';
+
+const options: KeyRotationOptions = {
+  realityKeys: true,
+  realityShortId: true,
+  encryption: true,
+  encryptionKind: 'x25519',
+};
+
+function vless(overrides: Partial<API.Protocol> = {}) {
+  return { type: 'vless', port: 443, ...overrides } as API.Protocol;
+}
+
+function server(id: number, protocols: API.Protocol[]) {
+  return { id, name: `s${id}`, protocols } as API.Server;
+}
+
+describe('getRotationFields', () => {
+  it('only rotates what the protocol uses', () => {
+    expect(getRotationFields(vless({ security: 'reality' }), options)).toEqual([
+      'reality_private_key',
+      'reality_public_key',
+      'reality_short_id',
+    ]);
+    expect(getRotationFields(vless({ encryption: 'mlkem768x25519plus' }), options)).toEqual([
+      'encryption_private_key',
+      'encryption_password',
+    ]);
+    expect(getRotationFields(vless({ security: 'tls' }), options)).toEqual([]);
+  });
+
+  it('honours the options', () => {
+    expect(
+      getRotationFields(vless({ security: 'reality' }), { ...options, realityKeys: false }),
+    ).toEqual(['reality_short_id']);
+  });
+});
+
+describe('pickKeys and applyKeys', () => {
+  it('reads missing fields as null and only writes VLESS protocols', () => {
+    expect(
+      pickKeys(vless({ reality_short_id: 'ab' }), ['reality_short_id', 'reality_public_key']),
+    ).toEqual({ reality_short_id: 'ab', reality_public_key: null });
+
+    const trojan = { type: 'trojan', port: 8443 } as API.Protocol;
+    expect(applyKeys([vless(), trojan], { reality_short_id: 'cd' })).toEqual([
+      vless({ reality_short_id: 'cd' }),
+      trojan,
+    ]);
+  });
+});
+
+describe('planKeyRotation', () => {
+  it('skips servers without VLESS or without keys to rotate', async () => {
+    const rows = await planKeyRotation(
+      [
+        server(1, [{ type: 'trojan', port: 443 } as API.Protocol]),
+        server(2, [vless({ security: 'tls' })]),
+      ],
+      options,
+      () => true,
+    );
+    expect(rows.map((r) => [r.skipped, r.usedByNodes])).toEqual([
+      ['no_vless', true],
+      ['nothing_to_rotate', true],
+    ]);
+  });
+
+  it('keeps the previous keys next to the new ones', async () => {
+    const [row] = await planKeyRotation(
+      [server(1, [vless({ security: 'reality', reality_short_id: 'ab' })])],
+      { ...options, realityKeys: false },
+      () => false,
+    );
+    expect(row!.previous).toEqual({ reality_short_id: 'ab' });
+    expect(row!.next.reality_short_id).toMatch(/^[0-9a-f]+$/);
+    expect(row!.protocols![0]!.reality_short_id).toBe(row!.next.reality_short_id);
+  });
+});
+
+describe('canRollback', () => {
+  it('requires the rotated keys to still be in place', () => {
+    const rotated = server(1, [vless({ reality_short_id: 'cd' })]);
+    expect(canRollback(rotated, { reality_short_id: 'cd' })).toBe(true);
+    expect(canRollback(rotated, { reality_short_id: 'ef' })).toBe(false);
+    expect(canRollback(server(1, []), { reality_short_id: 'cd' })).toBe(false);
+    expect(canRollback(undefined, {})).toBe(false);
+  });
+});
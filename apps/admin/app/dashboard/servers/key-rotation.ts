@@ -0,0 +1,130 @@
+import {
+  generateMLKEM768KeyPair,
+  generateRealityKeyPair,
+  generateRealityShortId,
+} from './generate';
+
+export const REALITY_KEY_FIELDS = [
+  'reality_private_key',
+  'reality_public_key',
+  'reality_short_id',
+] as const;
+export const ENCRYPTION_KEY_FIELDS = ['encryption_private_key', 'encryption_password'] as const;
+
+export type RotationField =
+  | (typeof REALITY_KEY_FIELDS)[number]
+  | (typeof ENCRYPTION_KEY_FIELDS)[number];
+export type RotationKeys = Partial<Record<RotationField, string | null>>;
+
+export type EncryptionKeyKind = 'x25519' | 'mlkem768';
+
+export interface KeyRotationOptions {
+  realityKeys: boolean;
+  realityShortId: boolean;
+  encryption: boolean;
+  encryptionKind: EncryptionKeyKind;
+}
+
+export type KeyRotationSkipReason = 'no_vless' | 'nothing_to_rotate';
+
+export interface KeyRotationRow {
+  server: API.Server;
+  skipped?: KeyRotationSkipReason;
+  usedByNodes: boolean;
+  previous: RotationKeys;
+  next: RotationKeys;
+  protocols?: API.Protocol[];
+}
+
+function findVless(server: API.Server) {
+  const index = (server.protocols || []).findIndex((p) => p.type === 'vless');
+  return { index, protocol: index >= 0 ? server.protocols[index] : undefined };
+}
+
+/**
+ * Pick the key fields of a VLESS protocol that the given options would rotate.
+ */
+export function getRotationFields(protocol: API.Protocol, options: KeyRotationOptions) {
+  const fields: RotationField[] = [];
+  if (protocol.security === 'reality') {
+    if (options.realityKeys) fields.push('reality_private_key', 'reality_public_key');
+    if (options.realityShortId) fields.push('reality_short_id');
+  }
+  if (options.encryption && protocol.encryption === 'mlkem768x25519plus') {
+    fields.push(...ENCRYPTION_KEY_FIELDS);
+  }
+  return fields;
+}
+
+export function pickKeys(protocol: API.Protocol, fields: readonly RotationField[]): RotationKeys {
+  return Object.fromEntries(fields.map((field) => [field, protocol[field] ?? null]));
+}
+
+export function applyKeys(protocols: API.Protocol[], keys: RotationKeys) {
+  return protocols.map((p) => (p.type === 'vless' ? ({ ...p, ...keys } as API.Protocol) : p));
+}
+
+async function generateKeys(fields: RotationField[], kind: EncryptionKeyKind) {
+  const keys: RotationKeys = {};
+  if (fields.includes('reality_private_key')) {
+    const { privateKey, publicKey } = generateRealityKeyPair();
+    keys.reality_private_key = privateKey;
+    keys.reality_public_key = publicKey;
+  }
+  if (fields.includes('reality_short_id')) {
+    keys.reality_short_id = generateRealityShortId();
+  }
+  if (fields.includes('encryption_private_key')) {
+    const { privateKey, publicKey } =
+      kind === 'mlkem768' ? await generateMLKEM768KeyPair() : generateRealityKeyPair();
+    keys.encryption_private_key = privateKey;
+    keys.encryption_password = publicKey;
+  }
+  return keys;
+}
+
+/**
+ * Generate fresh keys for the VLESS protocol of every server, keeping the
+ * current values alongside so they can be restored later.
+ */
+export async function planKeyRotation(
+  servers: API.Server[],
+  options: KeyRotationOptions,
+  isProtocolUsedInNodes: (serverId: number, protocolType: string) => boolean,
+): Promise<KeyRotationRow[]> {
+  const rows: KeyRotationRow[] = [];
+  for (const server of servers) {
+    const { protocol } = findVless(server);
+    const usedByNodes = isProtocolUsedInNodes(server.id, 'vless');
+    if (!protocol) {
+      rows.push({ server, skipped: 'no_vless', usedByNodes, previous: {}, next: {} });
+      continue;
+    }
+    const fields = getRotationFields(protocol, options);
+    if (fields.length === 0) {
+      rows.push({ server, skipped: 'nothing_to_rotate', usedByNodes, previous: {}, next: {} });
+      continue;
+    }
+    const next = await generateKeys(fields, options.encryptionKind);
+    rows.push({
+      server,
+      usedByNodes,
+      previous: pickKeys(protocol, fields),
+      next,
+      protocols: applyKeys(server.protocols, next),
+    });
+  }
+  return rows;
+}
+
+/**
+ * Whether the server's VLESS protocol still holds the keys a rotation wrote,
+ * i.e. restoring the previous keys would not clobber a later change.
+ */
+export function canRollback(server: API.Server | undefined, next: RotationKeys) {
+  const { protocol } = server ? findVless(server) : { protocol: undefined };
+  if (!protocol) return false;
+  return Object.entries(next).every(
+    ([field, value]) => (protocol[field as RotationField] ?? null) === value,
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { lintServerProtocols, parsePortRanges } from './lint';
+
+function node(overrides: Partial<API.Node>) {
+  return { name: 'n1', port: 443, ...overrides } as API.Node;
+}
+
+describe('parsePortRanges', () => {
+  it('reads single ports and ranges', () => {
+    expect(parsePortRanges('20000-30000, 40000,50000:50010')).toEqual([
+      [20000, 30000],
+      [40000, 40000],
+      [50000, 50010],
+    ]);
+  });
+
+  it('rejects malformed and out-of-range values', () => {
+    expect(parsePortRanges('abc')).toBeUndefined();
+    expect(parsePortRanges('30000-20000')).toBeUndefined();
+    expect(parsePortRanges('0-100')).toBeUndefined();
+    expect(parsePortRanges('70000')).toBeUndefined();
+  });
+});
+
+describe('lintServerProtocols', () => {
+  it('flags ports shared within a transport layer', () => {
+    const issues = lintServerProtocols([
+      { type: 'vless', port: 443, enable: true },
+      { type: 'trojan', port: 443, enable: true },
+    ]);
+    expect(issues).toEqual([
+      { code: 'port_conflict', protocol: 'vless', params: { port: 443, other: 'trojan' } },
+      { code: 'port_conflict', protocol: 'trojan', params: { port: 443, other: 'vless' } },
+    ]);
+  });
+
+  it('allows a TCP and a UDP protocol on the same port', () => {
+    expect(
+      lintServerProtocols([
+        { type: 'vless', port: 443, enable: true },
+        { type: 'hysteria', port: 443, enable: true },
+      ]),
+    ).toEqual([]);
+  });
+
+  it('ignores disabled protocols', () => {
+    expect(
+      lintServerProtocols([
+        { type: 'vless', port: 443, enable: true },
+        { type: 'trojan', port: 443, enable: false },
+      ]),
+    ).toEqual([]);
+  });
+
+  it('lists missing reality keys and a missing TLS server name', () => {
+    const issues = lintServerProtocols([
+      { type: 'vless', port: 443, enable: true, security: 'reality', reality_public_key: 'pbk' },
+      { type: 'trojan', port: 8443, enable: true, security: 'tls' },
+      { type: 'vmess', port: 8080, enable: true, security: 'tls', allow_insecure: true },
+    ]);
+    expect(issues).toEqual([
+      {
+        code: 'reality_incomplete',
+        protocol: 'vless',
+        fields: ['security_private_key', 'security_short_id'],
+      },
+      { code: 'tls_missing_sni', protocol: 'trojan' },
+    ]);
+  });
+
+  it('checks Hysteria hop ports', () => {
+    expect(
+      lintServerProtocols([{ type: 'hysteria', port: 443, enable: true, hop_ports: '1-x' }]),
+    ).toEqual([{ code: 'hop_ports_invalid', protocol: 'hysteria' }]);
+
+    expect(
+      lintServerProtocols([
+        { type: 'hysteria', port: 443, enable: true, hop_ports: '20000-30000' },
+        { type: 'tuic', port: 25000, enable: true },
+        { type: 'vless', port: 26000, enable: true },
+      ]),
+    ).toEqual([
+      {
+        code: 'hop_ports_overlap',
+        protocol: 'hysteria',
+        params: { port: 25000, other: 'tuic' },
+      },
+    ]);
+  });
+
+  it('checks nodes against the enabled protocols', () => {
+    const issues = lintServerProtocols(
+      [{ type: 'vless', port: 443, enable: true }],
+      [
+        node({ name: 'ok', protocol: 'vless', port: 443 }),
+        node({ name: 'moved', protocol: 'vless', port: 8443 }),
+        node({ name: 'gone', protocol: 'trojan' }),
+      ],
+    );
+    expect(issues).toEqual([
+      {
+        code: 'node_port_mismatch',
+        protocol: 'vless',
+        params: { node: 'moved', nodePort: 8443, port: 443 },
+      },
+      { code: 'node_protocol_disabled', protocol: 'trojan', params: { node: 'gone' } },
+    ]);
+  });
+});
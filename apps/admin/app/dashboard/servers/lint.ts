@@ -0,0 +1,141 @@
+export type ServerLintCode =
+  | 'port_conflict'
+  | 'reality_incomplete'
+  | 'tls_missing_sni'
+  | 'hop_ports_invalid'
+  | 'hop_ports_overlap'
+  | 'node_protocol_disabled'
+  | 'node_port_mismatch';
+
+export interface ServerLintIssue {
+  code: ServerLintCode;
+  // Protocol type the issue is shown under
+  protocol: string;
+  params?: Record<string, string | number>;
+  // Label keys of the fields the issue refers to
+  fields?: string[];
+}
+
+// Transport layer each protocol listens on; ports only clash within a layer
+const UDP_ONLY = ['hysteria', 'tuic'];
+const TCP_AND_UDP = ['shadowsocks'];
+
+function getLayers(protocol: Record<string, any>) {
+  if (UDP_ONLY.includes(protocol.type)) return ['udp'];
+  if (TCP_AND_UDP.includes(protocol.type)) return ['tcp', 'udp'];
+  if (protocol.type === 'mieru') return [protocol.transport === 'udp' ? 'udp' : 'tcp'];
+  return ['tcp'];
+}
+
+function isValidPort(port: unknown) {
+  const value = Number(port);
+  return Number.isInteger(value) && value > 0 && value <= 65535;
+}
+
+/**
+ * Parse Hysteria hop ports such as `20000-30000,40000` into inclusive ranges.
+ * Returns undefined when the value is malformed.
+ */
+export function parsePortRanges(value: string) {
+  const ranges: [number, number][] = [];
+  for (const part of value.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:[-:](\d+))?$/);
+    if (!match) return undefined;
+    const start = Number(match[1]);
+    const end = Number(match[2] ?? match[1]);
+    if (!isValidPort(start) || !isValidPort(end) || start > end) return undefined;
+    ranges.push([start, end]);
+  }
+  return ranges;
+}
+
+/**
+ * Cross-check the protocols of a server form against each other and against the
+ * nodes that point at the server. Issues are warnings; they do not block saving.
+ */
+export function lintServerProtocols(
+  protocols: Record<string, any>[],
+  nodes: API.Node[] = [],
+): ServerLintIssue[] {
+  const issues: ServerLintIssue[] = [];
+  const enabled = protocols.filter((p) => p?.enable && isValidPort(p.port));
+
+  enabled.forEach((protocol, index) => {
+    enabled.slice(index + 1).forEach((other) => {
+      if (Number(other.port) !== Number(protocol.port)) return;
+      const layers = getLayers(other);
+      if (!getLayers(protocol).some((layer) => layers.includes(layer))) return;
+      issues.push(
+        {
+          code: 'port_conflict',
+          protocol: protocol.type,
+          params: { port: protocol.port, other: other.type },
+        },
+        {
+          code: 'port_conflict',
+          protocol: other.type,
+          params: { port: other.port, other: protocol.type },
+        },
+      );
+    });
+
+    if (protocol.security === 'reality') {
+      const missing = [
+        !protocol.reality_private_key && 'security_private_key',
+        !protocol.reality_public_key && 'security_public_key',
+        !protocol.reality_short_id && 'security_short_id',
+      ].filter(Boolean) as string[];
+      if (missing.length) {
+        issues.push({ code: 'reality_incomplete', protocol: protocol.type, fields: missing });
+      }
+    }
+
+    if (
+      protocol.security === 'tls' &&
+      !protocol.sni &&
+      !protocol.allow_insecure &&
+      !protocol.disable_sni
+    ) {
+      issues.push({ code: 'tls_missing_sni', protocol: protocol.type });
+    }
+
+    if (protocol.type === 'hysteria' && protocol.hop_ports) {
+      const ranges = parsePortRanges(protocol.hop_ports);
+      if (!ranges) {
+        issues.push({ code: 'hop_ports_invalid', protocol: protocol.type });
+      } else {
+        enabled
+          .filter((other) => other !== protocol && getLayers(other).includes('udp'))
+          .forEach((other) => {
+            const port = Number(other.port);
+            if (ranges.some(([start, end]) => port >= start && port <= end)) {
+              issues.push({
+                code: 'hop_ports_overlap',
+                protocol: protocol.type,
+                params: { port, other: other.type },
+              });
+            }
+          });
+      }
+    }
+  });
+
+  nodes.forEach((node) => {
+    const protocol = enabled.find((p) => p.type === node.protocol);
+    if (!protocol) {
+      issues.push({
+        code: 'node_protocol_disabled',
+        protocol: node.protocol,
+        params: { node: node.name },
+      });
+    } else if (Number(node.port) !== Number(protocol.port)) {
+      issues.push({
+        code: 'node_port_mismatch',
+        protocol: node.protocol,
+        params: { node: node.name, nodePort: node.port, port: protocol.port },
+      });
+    }
+  });
+
+  return issues;
+}
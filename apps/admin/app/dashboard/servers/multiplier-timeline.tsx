@@ -0,0 +1,82 @@
+'use client';
+
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import {
+  DAY_SECONDS,
+  formatClock,
+  formatUtcOffset,
+  getPeriodSegments,
+  getTimezoneOffsetSeconds,
+  PeriodIssue,
+  shiftSegments,
+} from './multiplier';
+
+const TICKS = [0, 3, 6, 9, 12, 15, 18, 21, 24];
+
+export default function MultiplierTimeline({
+  periods,
+  issues,
+  timezone,
+  serverOffset,
+  now,
+}: {
+  periods: API.TimePeriod[];
+  issues: PeriodIssue[];
+  timezone: string;
+  serverOffset: number;
+  now: number;
+}) {
+  const t = useTranslations('servers');
+  const offset = getTimezoneOffsetSeconds(timezone) - serverOffset;
+  const percent = (seconds: number) => `${(seconds / DAY_SECONDS) * 100}%`;
+
+  return (
+    <div className='space-y-1'>
+      <div className='relative space-y-1 rounded-md border p-2'>
+        {periods.length === 0 && (
+          <p className='text-muted-foreground py-2 text-center text-xs'>
+            {t('server_config.multiplier.noPeriods')}
+          </p>
+        )}
+        {periods.map((period, index) => {
+          const invalid = issues.some((issue) => issue.index === index);
+          return (
+            <div key={index} className='bg-muted relative h-5 rounded-sm'>
+              {shiftSegments(getPeriodSegments(period), offset).map(([start, end]) => (
+                <div
+                  key={start}
+                  className={cn(
+                    'absolute inset-y-0 flex items-center justify-center overflow-hidden rounded-sm text-[10px] font-medium',
+                    invalid
+                      ? 'bg-amber-500/80 text-white'
+                      : 'bg-primary/80 text-primary-foreground',
+                  )}
+                  style={{ left: percent(start), width: percent(end - start) }}
+                  title={`${formatClock(start)}–${formatClock(end)} (${timezone}) · ${period.start_time}–${period.end_time} (${formatUtcOffset(serverOffset)}) · ×${period.multiplier}`}
+                >
+                  ×{period.multiplier}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+        <div
+          className='bg-destructive pointer-events-none absolute inset-y-0 w-px'
+          style={{ left: `calc(0.5rem + (100% - 1rem) * ${now / DAY_SECONDS})` }}
+        />
+      </div>
+      <div className='text-muted-foreground relative mx-2 h-4 text-[10px]'>
+        {TICKS.map((hour) => (
+          <span
+            key={hour}
+            className='absolute -translate-x-1/2'
+            style={{ left: percent(hour * 3600) }}
+          >
+            {String(hour).padStart(2, '0')}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
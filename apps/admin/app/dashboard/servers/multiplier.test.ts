@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzePeriods,
+  formatUtcOffset,
+  getMultiplierAt,
+  getOffsetClockSeconds,
+  getPeriodSegments,
+  getServerOffsetSeconds,
+  parseClock,
+  shiftSegments,
+} from './multiplier';
+
+function period(start_time: string, end_time: string, multiplier = 2) {
+  return { start_time, end_time, multiplier } as API.TimePeriod;
+}
+
+describe('parseClock', () => {
+  it('reads clock times up to the end of the day', () => {
+    expect(parseClock('8:30')).toBe(8 * 3600 + 30 * 60);
+    expect(parseClock('23:59:59')).toBe(86399);
+    expect(parseClock('24:00')).toBe(86400);
+    expect(parseClock('24:01')).toBeUndefined();
+    expect(parseClock('12:60')).toBeUndefined();
+    expect(parseClock('')).toBeUndefined();
+  });
+});
+
+describe('getPeriodSegments', () => {
+  it('splits periods that cross midnight', () => {
+    expect(getPeriodSegments(period('08:00', '10:00'))).toEqual([[28800, 36000]]);
+    expect(getPeriodSegments(period('22:00', '02:00'))).toEqual([
+      [79200, 86400],
+      [0, 7200],
+    ]);
+    expect(getPeriodSegments(period('08:00', '08:00'))).toEqual([]);
+  });
+});
+
+describe('analyzePeriods', () => {
+  it('reports invalid, empty and overlapping periods', () => {
+    expect(
+      analyzePeriods([
+        period('22:00', '02:00'),
+        period('01:00', '03:00'),
+        period('05:00', '05:00'),
+        period('nope', '06:00', -1),
+      ]),
+    ).toEqual([
+      { index: 1, code: 'overlap', with: 0 },
+      { index: 2, code: 'empty_range' },
+      { index: 3, code: 'invalid_time' },
+      { index: 3, code: 'invalid_multiplier' },
+    ]);
+  });
+});
+
+describe('getMultiplierAt', () => {
+  it('uses the first matching period and defaults to 1', () => {
+    const periods = [period('22:00', '02:00', 0.5), period('00:00', '12:00', 3)];
+    expect(getMultiplierAt(periods, 3600)).toBe(0.5);
+    expect(getMultiplierAt(periods, 5 * 3600)).toBe(3);
+    expect(getMultiplierAt(periods, 15 * 3600)).toBe(1);
+  });
+});
+
+describe('getServerOffsetSeconds', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  it('prefers an explicit zone', () => {
+    expect(getServerOffsetSeconds('2026-01-01T08:00:00+08:00', now)).toBe(8 * 3600);
+    expect(getServerOffsetSeconds('2026-01-01 00:00:00 -0530', now)).toBe(-5.5 * 3600);
+    expect(getServerOffsetSeconds('2026-01-01T00:00:00Z', now)).toBe(0);
+  });
+
+  it('compares wall times with now, rounded to quarter hours', () => {
+    expect(getServerOffsetSeconds('2026-01-01 08:00:05', now)).toBe(8 * 3600);
+    expect(getServerOffsetSeconds('2025-12-31 19:00', now)).toBe(-5 * 3600);
+  });
+
+  it('takes the nearest offset for a bare clock', () => {
+    expect(getServerOffsetSeconds('08:00', now)).toBe(8 * 3600);
+    expect(getServerOffsetSeconds('20:00', now)).toBe(-4 * 3600);
+  });
+
+  it('falls back to UTC', () => {
+    expect(getServerOffsetSeconds(undefined, now)).toBe(0);
+    expect(getServerOffsetSeconds('soon', now)).toBe(0);
+  });
+});
+
+describe('clock offsets', () => {
+  it('reads the clock and labels the offset', () => {
+    const date = new Date('2026-01-01T23:00:00Z');
+    expect(getOffsetClockSeconds(2 * 3600, date)).toBe(3600);
+    expect(getOffsetClockSeconds(-3600, new Date('2026-01-01T00:30:00Z'))).toBe(84600);
+    expect(formatUtcOffset(0)).toBe('UTC');
+    expect(formatUtcOffset(8 * 3600)).toBe('UTC+08:00');
+    expect(formatUtcOffset(-3.5 * 3600)).toBe('UTC-03:30');
+  });
+});
+
+describe('shiftSegments', () => {
+  it('wraps segments past midnight', () => {
+    expect(shiftSegments([[79200, 86400]], 3600)).toEqual([
+      [82800, 86400],
+      [0, 3600],
+    ]);
+    expect(shiftSegments([[3600, 7200]], -7200)).toEqual([[82800, 86400]]);
+  });
+});
@@ -0,0 +1,180 @@
+export const DAY_SECONDS = 24 * 60 * 60;
+
+// Server clock offsets are whole quarter hours, which absorbs request latency
+const OFFSET_STEP = 15 * 60;
+
+export type PeriodIssueCode = 'invalid_time' | 'empty_range' | 'invalid_multiplier' | 'overlap';
+
+export interface PeriodIssue {
+  index: number;
+  code: PeriodIssueCode;
+  // The other period for overlaps
+  with?: number;
+}
+
+/** A half-open [start, end) range in seconds of the day. */
+export type Segment = [number, number];
+
+export function parseClock(value?: string) {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec((value || '').trim());
+  if (!match) return undefined;
+  const [hours, minutes, seconds] = match.slice(1).map((part) => Number(part || 0)) as [
+    number,
+    number,
+    number,
+  ];
+  if (hours > 24 || minutes > 59 || seconds > 59) return undefined;
+  const total = hours * 3600 + minutes * 60 + seconds;
+  return total > DAY_SECONDS ? undefined : total;
+}
+
+export function formatClock(seconds: number) {
+  const value = ((seconds % DAY_SECONDS) + DAY_SECONDS) % DAY_SECONDS;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(value / 3600))}:${pad(Math.floor((value % 3600) / 60))}`;
+}
+
+/**
+ * Split a period into segments of the day. A start later than the end is a
+ * period that crosses midnight, e.g. 22:00–02:00.
+ */
+export function getPeriodSegments(period: API.TimePeriod): Segment[] {
+  const start = parseClock(period.start_time);
+  const end = parseClock(period.end_time);
+  if (start === undefined || end === undefined || start === end) return [];
+  if (start < end) return [[start, end]];
+  const segments: Segment[] = [[0, end]];
+  if (start < DAY_SECONDS) segments.unshift([start, DAY_SECONDS]);
+  return segments.filter(([from, to]) => to > from);
+}
+
+export function crossesMidnight(period: API.TimePeriod) {
+  return getPeriodSegments(period).length === 2;
+}
+
+function overlaps(a: Segment[], b: Segment[]) {
+  return a.some(([aStart, aEnd]) => b.some(([bStart, bEnd]) => aStart < bEnd && bStart < aEnd));
+}
+
+export function analyzePeriods(periods: API.TimePeriod[]): PeriodIssue[] {
+  const issues: PeriodIssue[] = [];
+  const segments = periods.map(getPeriodSegments);
+  periods.forEach((period, index) => {
+    const start = parseClock(period.start_time);
+    const end = parseClock(period.end_time);
+    if (start === undefined || end === undefined) {
+      issues.push({ index, code: 'invalid_time' });
+    } else if (start === end) {
+      issues.push({ index, code: 'empty_range' });
+    }
+    const multiplier = Number(period.multiplier);
+    if (!Number.isFinite(multiplier) || multiplier < 0) {
+      issues.push({ index, code: 'invalid_multiplier' });
+    }
+    const other = segments.findIndex(
+      (item, i) => i < index && overlaps(item, segments[index] || []),
+    );
+    if (other >= 0) issues.push({ index, code: 'overlap', with: other });
+  });
+  return issues;
+}
+
+/** The period in effect at a server-clock second; the first matching period wins. */
+export function getPeriodAt(periods: API.TimePeriod[], seconds: number) {
+  return periods.find((item) =>
+    getPeriodSegments(item).some(([start, end]) => seconds >= start && seconds < end),
+  );
+}
+
+export function getMultiplierAt(periods: API.TimePeriod[], seconds: number) {
+  const period = getPeriodAt(periods, seconds);
+  return period ? Number(period.multiplier) : 1;
+}
+
+/** Offset of a timezone from UTC in seconds at the given instant. */
+export function getTimezoneOffsetSeconds(timezone: string, date = new Date()) {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(date);
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    const local = Date.UTC(
+      get('year'),
+      get('month') - 1,
+      get('day'),
+      get('hour'),
+      get('minute'),
+      get('second'),
+    );
+    return Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / 1000);
+  } catch {
+    return 0;
+  }
+}
+
+/** Seconds of the day on a clock `offset` seconds ahead of UTC at the given instant. */
+export function getOffsetClockSeconds(offset: number, date = new Date()) {
+  const seconds = Math.floor(date.getTime() / 1000) + offset;
+  return ((seconds % DAY_SECONDS) + DAY_SECONDS) % DAY_SECONDS;
+}
+
+/** Seconds of the day on the clock of `timezone` at the given instant. */
+export function getClockSeconds(timezone: string, date = new Date()) {
+  return getOffsetClockSeconds(getTimezoneOffsetSeconds(timezone, date), date);
+}
+
+/**
+ * Offset of the server clock from UTC in seconds, derived from the
+ * `current_time` the multiplier preview reports at `now`. An explicit zone
+ * wins; a bare wall time is compared with `now`. Unreadable values fall back
+ * to UTC.
+ */
+export function getServerOffsetSeconds(currentTime?: string, now = new Date()) {
+  const value = (currentTime || '').trim();
+  const zone = /(?:Z|([+-])(\d{2}):?(\d{2}))$/.exec(value);
+  if (zone && /\d{2}:\d{2}/.test(value.slice(0, zone.index))) {
+    if (!zone[1]) return 0;
+    return (zone[1] === '-' ? -1 : 1) * (Number(zone[2]) * 3600 + Number(zone[3]) * 60);
+  }
+  const date = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  let offset: number;
+  if (date) {
+    const [year, month, day, hours, minutes, seconds] = date
+      .slice(1)
+      .map((part) => Number(part || 0)) as [number, number, number, number, number, number];
+    offset = (Date.UTC(year, month - 1, day, hours, minutes, seconds) - now.getTime()) / 1000;
+  } else {
+    const clock = parseClock(value.split(/\s/).pop());
+    if (clock === undefined) return 0;
+    // Only the time of day is known, so take the nearest offset in -12h..+14h
+    offset = (((clock - getOffsetClockSeconds(0, now)) % DAY_SECONDS) + DAY_SECONDS) % DAY_SECONDS;
+    if (offset > 14 * 3600) offset -= DAY_SECONDS;
+  }
+  return Math.round(offset / OFFSET_STEP) * OFFSET_STEP || 0;
+}
+
+/** Label for a clock offset, e.g. `UTC+08:00`. */
+export function formatUtcOffset(offset: number) {
+  if (!offset) return 'UTC';
+  return `UTC${offset < 0 ? '-' : '+'}${formatClock(Math.abs(offset))}`;
+}
+
+/** Move segments by an offset, splitting any that wrap past midnight. */
+export function shiftSegments(segments: Segment[], offset: number): Segment[] {
+  return segments.flatMap(([start, end]) => {
+    const from = (((start + offset) % DAY_SECONDS) + DAY_SECONDS) % DAY_SECONDS;
+    const to = from + (end - start);
+    if (to <= DAY_SECONDS) return [[from, to] as Segment];
+    return [
+      [from, DAY_SECONDS],
+      [0, to - DAY_SECONDS],
+    ] as Segment[];
+  });
+}
@@ -1,5 +1,7 @@
 'use client';
 
+import { CountryLabel } from '@/components/country-label';
+import { LiveModeSelect, useLiveMode } from '@/components/live-mode';
 import { ProTable, ProTableActions } from '@/components/pro-table';
 import {
   createServer,
@@ -8,20 +10,37 @@ import {
   resetSortWithServer,
   updateServer,
 } from '@/services/admin/server';
+import { getNodeConfig } from '@/services/admin/system';
 import { useNode } from '@/store/node';
 import { useServer } from '@/store/server';
+import { useServerGroup } from '@/store/server-group';
+import { useServerHistoryStore } from '@/store/server-history';
+import { useQuery } from '@tanstack/react-query';
 import { Badge } from '@workspace/ui/components/badge';
 import { Button } from '@workspace/ui/components/button';
 import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
-import { cn } from '@workspace/ui/lib/utils';
+import { Icon } from '@workspace/ui/custom-components/icon';
 import { useTranslations } from 'next-intl';
-import { useRef, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
 import DynamicMultiplier from './dynamic-multiplier';
+import { getServerHealth, isUnhealthy, ServerHealth } from './health';
 import OnlineUsersCell from './online-users-cell';
+import ServerBulkEdit from './server-bulk-edit';
 import ServerConfig from './server-config';
+import ServerCountries from './server-countries';
+import ServerExport from './server-export';
 import ServerForm from './server-form';
+import ServerGenerateNodes from './server-generate-nodes';
+import ServerGroupManager, { ServerGroupAssign } from './server-group-manager';
+import ServerGroupsView from './server-groups-view';
+import { HealthNotificationToggle, ServerHealthCell, useServerHealthAlerts } from './server-health';
+import ServerImport from './server-import';
 import ServerInstall from './server-install';
+import ServerKeyRotation from './server-key-rotation';
+import ServerShare from './server-share';
+import ServerStatusHistory from './server-status-history';
+import ServerTrafficSimulator from './server-traffic-simulator';
 
 function PctBar({ value }: { value: number }) {
   const v = value.toFixed(2);
@@ -46,10 +65,11 @@ function RegionIpCell({
   ip?: string;
   t: (key: string) => string;
 }) {
-  const region = [country, city].filter(Boolean).join(' / ') || t('notAvailable');
   return (
     <div className='flex items-center gap-1'>
-      <Badge variant='outline'>{region}</Badge>
+      <Badge variant='outline'>
+        {country || city ? <CountryLabel country={country} city={city} /> : t('notAvailable')}
+      </Badge>
       <Badge variant='secondary'>{ip || t('notAvailable')}</Badge>
     </div>
   );
@@ -58,32 +78,265 @@ function RegionIpCell({
 export default function ServersPage() {
   const t = useTranslations('servers');
   const { isServerReferencedByNodes } = useNode();
-  const { fetchServers } = useServer();
+  const { servers, fetchServers } = useServer();
+  const { groups, getGroupById, getServerGroupId } = useServerGroup();
+  const recordSamples = useServerHistoryStore((state) => state.recordSamples);
+  const pruneHistory = useServerHistoryStore((state) => state.pruneHistory);
+
+  const { data: nodeConfig } = useQuery({
+    queryKey: ['getNodeConfig'],
+    queryFn: async () => {
+      const { data } = await getNodeConfig();
+      return data.data as API.NodeConfig | undefined;
+    },
+  });
+  const pushInterval = nodeConfig?.node_push_interval;
+  useServerHealthAlerts(pushInterval);
+
+  // Forget the history of deleted servers; an empty list may be a failed fetch
+  useEffect(() => {
+    if (servers.length > 0) pruneHistory(servers.map((server) => server.id));
+  }, [servers, pruneHistory]);
 
   const [loading, setLoading] = useState(false);
+  const [liveSeconds, setLiveSeconds] = useLiveMode('servers');
+  const [grouped, setGrouped] = useState(false);
+  const [initialFilters, setInitialFilters] = useState<Record<string, unknown>>();
   const ref = useRef<ProTableActions>(null);
 
+  const toolbar = (
+    <div className='flex gap-2'>
+      <LiveModeSelect value={liveSeconds} onChange={setLiveSeconds} />
+      <HealthNotificationToggle />
+      <Button
+        variant='outline'
+        size='icon'
+        title={grouped ? t('groups.tableView') : t('groups.groupedView')}
+        onClick={() => setGrouped(!grouped)}
+      >
+        <Icon icon={grouped ? 'mdi:table' : 'mdi:file-tree-outline'} />
+      </Button>
+      <ServerGroupManager onChanged={() => ref.current?.refresh()} />
+      <ServerCountries onChanged={() => ref.current?.refresh()} />
+      <ServerImport onImported={() => ref.current?.refresh()} />
+      <ServerExport />
+      <ServerForm
+        trigger={t('create')}
+        title={t('drawerCreateTitle')}
+        loading={loading}
+        onSubmit={async (values) => {
+          setLoading(true);
+          try {
+            await createServer(values as unknown as API.CreateServerRequest);
+            toast.success(t('created'));
+            ref.current?.refresh();
+            fetchServers();
+            setLoading(false);
+            return true;
+          } catch (e) {
+            setLoading(false);
+            return false;
+          }
+        }}
+      />
+    </div>
+  );
+
   return (
     <div className='space-y-4'>
-      <div className='grid grid-cols-1 gap-4 md:grid-cols-2'>
+      <div className='grid grid-cols-1 gap-4 md:grid-cols-3'>
         <DynamicMultiplier />
+        <ServerTrafficSimulator />
         <ServerConfig />
       </div>
-      <ProTable<API.Server, { search: string }>
-        action={ref}
-        header={{
-          title: t('pageTitle'),
-          toolbar: (
-            <div className='flex gap-2'>
+      {grouped ? (
+        <ServerGroupsView
+          toolbar={toolbar}
+          pushInterval={pushInterval}
+          pollingInterval={liveSeconds * 1000}
+          onChanged={() => ref.current?.refresh()}
+          onFilter={(groupId) => {
+            setInitialFilters({ group_id: String(groupId) });
+            setGrouped(false);
+          }}
+        />
+      ) : (
+        <ProTable<API.Server, { search: string; group_id: string; health: string }>
+          key={JSON.stringify(initialFilters)}
+          action={ref}
+          initialFilters={initialFilters}
+          pollingInterval={liveSeconds * 1000}
+          rowKey={(row) => row.id}
+          highlightChanges={liveSeconds > 0}
+          header={{
+            title: t('pageTitle'),
+            toolbar,
+          }}
+          columns={[
+            {
+              accessorKey: 'id',
+              header: t('id'),
+              cell: ({ row }) => <Badge>{row.getValue('id')}</Badge>,
+            },
+            { accessorKey: 'name', header: t('name') },
+            {
+              id: 'group',
+              header: t('groups.group'),
+              cell: ({ row }) => {
+                const group = getGroupById(getServerGroupId(row.original.id));
+                if (!group) return '—';
+                return (
+                  <Badge variant='outline'>
+                    {group.name}
+                    <span className='text-muted-foreground ml-1'>
+                      {t(`groups.types.${group.type}`)}
+                    </span>
+                  </Badge>
+                );
+              },
+            },
+            {
+              id: 'region_ip',
+              header: t('address'),
+              cell: ({ row }) => (
+                <RegionIpCell
+                  country={row.original.country as unknown as string}
+                  city={row.original.city as unknown as string}
+                  ip={row.original.address as unknown as string}
+                  t={t}
+                />
+              ),
+            },
+            {
+              accessorKey: 'protocols',
+              header: t('protocols'),
+              cell: ({ row }) => {
+                const list = row.original.protocols.filter((p) => p.enable) as API.Protocol[];
+                if (!list.length) return '—';
+                return (
+                  <div className='flex flex-col gap-1'>
+                    {list.map((p, idx) => {
+                      const ratio = Number(p.ratio ?? 1) || 1;
+                      return (
+                        <div key={idx} className='flex items-center gap-2'>
+                          <Badge variant='outline'>{ratio.toFixed(2)}x</Badge>
+                          <Badge variant='secondary'>{p.type}</Badge>
+                          <Badge variant='secondary'>{p.port}</Badge>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              },
+            },
+
+            {
+              id: 'status',
+              header: t('status'),
+              meta: { diffValue: (row) => getServerHealth(row, pushInterval) },
+              cell: ({ row }) => (
+                <ServerHealthCell server={row.original} pushInterval={pushInterval} />
+              ),
+            },
+            {
+              id: 'cpu',
+              header: t('cpu'),
+              meta: { diffValue: (row) => row.status?.cpu },
+              cell: ({ row }) => (
+                <PctBar value={(row.original.status?.cpu as unknown as number) ?? 0} />
+              ),
+            },
+            {
+              id: 'mem',
+              header: t('memory'),
+              meta: { diffValue: (row) => row.status?.mem },
+              cell: ({ row }) => (
+                <PctBar value={(row.original.status?.mem as unknown as number) ?? 0} />
+              ),
+            },
+            {
+              id: 'disk',
+              header: t('disk'),
+              meta: { diffValue: (row) => row.status?.disk },
+              cell: ({ row }) => (
+                <PctBar value={(row.original.status?.disk as unknown as number) ?? 0} />
+              ),
+            },
+
+            {
+              id: 'online_users',
+              header: t('onlineUsers'),
+              meta: { diffValue: (row) => row.status?.online },
+              cell: ({ row }) => (
+                <OnlineUsersCell status={row.original.status as API.ServerStatus} />
+              ),
+            },
+            // traffic ratio moved to per-protocol configs; column removed
+          ]}
+          params={[
+            { key: 'search' },
+            {
+              key: 'group_id',
+              placeholder: t('groups.filter'),
+              options: groups.map((group) => ({ label: group.name, value: String(group.id) })),
+            },
+            {
+              key: 'health',
+              placeholder: t('health.filter'),
+              options: [
+                { label: t('health.unhealthy'), value: 'unhealthy' },
+                ...(['degraded', 'stale', 'offline'] as ServerHealth[]).map((value) => ({
+                  label: t(`health.${value}`),
+                  value,
+                })),
+              ],
+            },
+          ]}
+          request={async (pagination, filter) => {
+            const search = filter?.search || undefined;
+            if (!filter?.health && !filter?.group_id) {
+              const { data } = await filterServerList({
+                page: pagination.page,
+                size: pagination.size,
+                search,
+              });
+              const list = (data?.data?.list || []) as API.Server[];
+              const total = (data?.data?.total ?? list.length) as number;
+              recordSamples(list);
+              return { list, total };
+            }
+            // Health and groups are only known client-side, so filter the full list and page it here
+            const { data } = await filterServerList({ page: 1, size: 999999999, search });
+            const matched = (data?.data?.list || []) as API.Server[];
+            recordSamples(matched);
+            const list = matched.filter((server) => {
+              if (filter.group_id && getServerGroupId(server.id) !== Number(filter.group_id)) {
+                return false;
+              }
+              if (!filter.health) return true;
+              const health = getServerHealth(server, pushInterval);
+              return filter.health === 'unhealthy' ? isUnhealthy(health) : health === filter.health;
+            });
+            const start = (pagination.page - 1) * pagination.size;
+            return { list: list.slice(start, start + pagination.size), total: list.length };
+          }}
+          actions={{
+            render: (row) => [
               <ServerForm
-                trigger={t('create')}
-                title={t('drawerCreateTitle')}
+                key='edit'
+                trigger={t('edit')}
+                title={t('drawerEditTitle')}
+                initialValues={row}
                 loading={loading}
                 onSubmit={async (values) => {
                   setLoading(true);
                   try {
-                    await createServer(values as unknown as API.CreateServerRequest);
-                    toast.success(t('created'));
+                    // ServerForm already returns API-shaped body; add id for update
+                    await updateServer({
+                      id: row.id,
+                      ...(values as unknown as Omit<API.UpdateServerRequest, 'id'>),
+                    });
+                    toast.success(t('updated'));
                     ref.current?.refresh();
                     fetchServers();
                     setLoading(false);
@@ -93,194 +346,26 @@ export default function ServersPage() {
                     return false;
                   }
                 }}
-              />
-            </div>
-          ),
-        }}
-        columns={[
-          {
-            accessorKey: 'id',
-            header: t('id'),
-            cell: ({ row }) => <Badge>{row.getValue('id')}</Badge>,
-          },
-          { accessorKey: 'name', header: t('name') },
-          {
-            id: 'region_ip',
-            header: t('address'),
-            cell: ({ row }) => (
-              <RegionIpCell
-                country={row.original.country as unknown as string}
-                city={row.original.city as unknown as string}
-                ip={row.original.address as unknown as string}
-                t={t}
-              />
-            ),
-          },
-          {
-            accessorKey: 'protocols',
-            header: t('protocols'),
-            cell: ({ row }) => {
-              const list = row.original.protocols.filter((p) => p.enable) as API.Protocol[];
-              if (!list.length) return '—';
-              return (
-                <div className='flex flex-col gap-1'>
-                  {list.map((p, idx) => {
-                    const ratio = Number(p.ratio ?? 1) || 1;
-                    return (
-                      <div key={idx} className='flex items-center gap-2'>
-                        <Badge variant='outline'>{ratio.toFixed(2)}x</Badge>
-                        <Badge variant='secondary'>{p.type}</Badge>
-                        <Badge variant='secondary'>{p.port}</Badge>
-                      </div>
-                    );
-                  })}
-                </div>
-              );
-            },
-          },
-
-          {
-            id: 'status',
-            header: t('status'),
-            cell: ({ row }) => {
-              const offline = row.original.status.status === 'offline';
-              return (
-                <div className='flex items-center gap-2'>
-                  <span
-                    className={cn(
-                      'inline-block h-2.5 w-2.5 rounded-full',
-                      offline ? 'bg-zinc-400' : 'bg-emerald-500',
-                    )}
-                  />
-                  <span className='text-sm'>{offline ? t('offline') : t('online')}</span>
-                </div>
-              );
-            },
-          },
-          {
-            id: 'cpu',
-            header: t('cpu'),
-            cell: ({ row }) => (
-              <PctBar value={(row.original.status?.cpu as unknown as number) ?? 0} />
-            ),
-          },
-          {
-            id: 'mem',
-            header: t('memory'),
-            cell: ({ row }) => (
-              <PctBar value={(row.original.status?.mem as unknown as number) ?? 0} />
-            ),
-          },
-          {
-            id: 'disk',
-            header: t('disk'),
-            cell: ({ row }) => (
-              <PctBar value={(row.original.status?.disk as unknown as number) ?? 0} />
-            ),
-          },
-
-          {
-            id: 'online_users',
-            header: t('onlineUsers'),
-            cell: ({ row }) => <OnlineUsersCell status={row.original.status as API.ServerStatus} />,
-          },
-          // traffic ratio moved to per-protocol configs; column removed
-        ]}
-        params={[{ key: 'search' }]}
-        request={async (pagination, filter) => {
-          const { data } = await filterServerList({
-            page: pagination.page,
-            size: pagination.size,
-            search: filter?.search || undefined,
-          });
-          const list = (data?.data?.list || []) as API.Server[];
-          const total = (data?.data?.total ?? list.length) as number;
-          return { list, total };
-        }}
-        actions={{
-          render: (row) => [
-            <ServerForm
-              key='edit'
-              trigger={t('edit')}
-              title={t('drawerEditTitle')}
-              initialValues={row}
-              loading={loading}
-              onSubmit={async (values) => {
-                setLoading(true);
-                try {
-                  // ServerForm already returns API-shaped body; add id for update
-                  await updateServer({
-                    id: row.id,
-                    ...(values as unknown as Omit<API.UpdateServerRequest, 'id'>),
-                  });
-                  toast.success(t('updated'));
-                  ref.current?.refresh();
-                  fetchServers();
-                  setLoading(false);
-                  return true;
-                } catch (e) {
-                  setLoading(false);
-                  return false;
-                }
-              }}
-            />,
-            <ServerInstall key='install' server={row} />,
-            <ConfirmButton
-              key='delete'
-              trigger={
-                <Button variant='destructive' disabled={isServerReferencedByNodes(row.id)}>
-                  {t('delete')}
-                </Button>
-              }
-              title={t('confirmDeleteTitle')}
-              description={t('confirmDeleteDesc')}
-              onConfirm={async () => {
-                await deleteServer({ id: row.id } as any);
-                toast.success(t('deleted'));
-                ref.current?.refresh();
-                fetchServers();
-              }}
-              cancelText={t('cancel')}
-              confirmText={t('confirm')}
-            />,
-            <Button
-              key='copy'
-              variant='outline'
-              onClick={async () => {
-                setLoading(true);
-                const { id, created_at, updated_at, last_reported_at, status, ...others } =
-                  row as any;
-                const body: API.CreateServerRequest = {
-                  name: others.name,
-                  country: others.country,
-                  city: others.city,
-                  address: others.address,
-                  protocols: others.protocols || [],
-                };
-                await createServer(body);
-                toast.success(t('copied'));
-                ref.current?.refresh();
-                fetchServers();
-                setLoading(false);
-              }}
-            >
-              {t('copy')}
-            </Button>,
-          ],
-          batchRender(rows) {
-            const hasReferencedServers = rows.some((row) => isServerReferencedByNodes(row.id));
-            return [
+              />,
+              <ServerGroupAssign
+                key='group-assign'
+                servers={[row]}
+                onApplied={() => ref.current?.refresh()}
+              />,
+              <ServerInstall key='install' server={row} />,
+              <ServerShare key='share' server={row} />,
+              <ServerStatusHistory key='history' server={row} />,
               <ConfirmButton
                 key='delete'
                 trigger={
-                  <Button variant='destructive' disabled={hasReferencedServers}>
+                  <Button variant='destructive' disabled={isServerReferencedByNodes(row.id)}>
                     {t('delete')}
                   </Button>
                 }
                 title={t('confirmDeleteTitle')}
                 description={t('confirmDeleteDesc')}
                 onConfirm={async () => {
-                  await Promise.all(rows.map((r) => deleteServer({ id: r.id })));
+                  await deleteServer({ id: row.id } as any);
                   toast.success(t('deleted'));
                   ref.current?.refresh();
                   fetchServers();
@@ -288,40 +373,109 @@ export default function ServersPage() {
                 cancelText={t('cancel')}
                 confirmText={t('confirm')}
               />,
-            ];
-          },
-        }}
-        onSort={async (source, target, items) => {
-          const sourceIndex = items.findIndex((item) => String(item.id) === source);
-          const targetIndex = items.findIndex((item) => String(item.id) === target);
-
-          const originalSorts = items.map((item) => item.sort);
+              <Button
+                key='copy'
+                variant='outline'
+                onClick={async () => {
+                  setLoading(true);
+                  const { id, created_at, updated_at, last_reported_at, status, ...others } =
+                    row as any;
+                  const body: API.CreateServerRequest = {
+                    name: others.name,
+                    country: others.country,
+                    city: others.city,
+                    address: others.address,
+                    protocols: others.protocols || [],
+                  };
+                  await createServer(body);
+                  toast.success(t('copied'));
+                  ref.current?.refresh();
+                  fetchServers();
+                  setLoading(false);
+                }}
+              >
+                {t('copy')}
+              </Button>,
+            ],
+            batchRender(rows) {
+              const hasReferencedServers = rows.some((row) => isServerReferencedByNodes(row.id));
+              return [
+                <ServerBulkEdit
+                  key='bulk-edit'
+                  servers={rows}
+                  onApplied={() => {
+                    ref.current?.refresh();
+                    fetchServers();
+                  }}
+                />,
+                <ServerGroupAssign
+                  key='group-assign'
+                  servers={rows}
+                  onApplied={() => ref.current?.refresh()}
+                />,
+                <ServerKeyRotation
+                  key='key-rotation'
+                  servers={rows}
+                  onApplied={() => {
+                    ref.current?.refresh();
+                    fetchServers();
+                  }}
+                />,
+                <ServerGenerateNodes key='generate-nodes' servers={rows} />,
+                <ServerExport key='export' servers={rows} />,
+                <ConfirmButton
+                  key='delete'
+                  trigger={
+                    <Button variant='destructive' disabled={hasReferencedServers}>
+                      {t('delete')}
+                    </Button>
+                  }
+                  title={t('confirmDeleteTitle')}
+                  description={t('confirmDeleteDesc')}
+                  onConfirm={async () => {
+                    await Promise.all(rows.map((r) => deleteServer({ id: r.id })));
+                    toast.success(t('deleted'));
+                    ref.current?.refresh();
+                    fetchServers();
+                  }}
+                  cancelText={t('cancel')}
+                  confirmText={t('confirm')}
+                />,
+              ];
+            },
+          }}
+          onSort={async (source, target, items) => {
+            const sourceIndex = items.findIndex((item) => String(item.id) === source);
+            const targetIndex = items.findIndex((item) => String(item.id) === target);
 
-          const [movedItem] = items.splice(sourceIndex, 1);
-          items.splice(targetIndex, 0, movedItem!);
+            const originalSorts = items.map((item) => item.sort);
 
-          const updatedItems = items.map((item, index) => {
-            const originalSort = originalSorts[index];
-            const newSort = originalSort !== undefined ? originalSort : item.sort;
-            return { ...item, sort: newSort };
-          });
+            const [movedItem] = items.splice(sourceIndex, 1);
+            items.splice(targetIndex, 0, movedItem!);
 
-          const changedItems = updatedItems.filter((item, index) => {
-            return item.sort !== items[index]?.sort;
-          });
+            const updatedItems = items.map((item, index) => {
+              const originalSort = originalSorts[index];
+              const newSort = originalSort !== undefined ? originalSort : item.sort;
+              return { ...item, sort: newSort };
+            });
 
-          if (changedItems.length > 0) {
-            resetSortWithServer({
-              sort: changedItems.map((item) => ({
-                id: item.id,
-                sort: item.sort,
-              })) as API.SortItem[],
+            const changedItems = updatedItems.filter((item, index) => {
+              return item.sort !== items[index]?.sort;
             });
-            toast.success(t('sorted_success'));
-          }
-          return updatedItems;
-        }}
-      />
+
+            if (changedItems.length > 0) {
+              resetSortWithServer({
+                sort: changedItems.map((item) => ({
+                  id: item.id,
+                  sort: item.sort,
+                })) as API.SortItem[],
+              });
+              toast.success(t('sorted_success'));
+            }
+            return updatedItems;
+          }}
+        />
+      )}
     </div>
   );
 }
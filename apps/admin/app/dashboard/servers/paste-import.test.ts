@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { mergePastedProtocol, parsePastedConfig } from './paste-import';
+import { buildShareLink } from './share-link';
+
+describe('parsePastedConfig', () => {
+  it('reads vless reality links', () => {
+    const [result] = parsePastedConfig(
+      'vless://uuid@example.com:443?encryption=none&flow=xtls-rprx-vision&security=reality&sni=www.microsoft.com&pbk=pbk&sid=ab&type=grpc&serviceName=svc#HK',
+    );
+    expect(result).toMatchObject({ name: 'HK', address: 'example.com', type: 'vless' });
+    expect(result!.protocol).toMatchObject({
+      port: 443,
+      flow: 'xtls-rprx-vision',
+      security: 'reality',
+      reality_public_key: 'pbk',
+      reality_server_addr: 'www.microsoft.com',
+      transport: 'grpc',
+      service_name: 'svc',
+    });
+    expect(result!.unsupported).toEqual([]);
+  });
+
+  it('keeps links with malformed percent escapes', () => {
+    const [result] = parsePastedConfig('trojan://pw@example.com:443?sni=a#HK 100%');
+    expect(result!.error).toBeUndefined();
+    expect(result).toMatchObject({ name: 'HK 100%', address: 'example.com', type: 'trojan' });
+    expect(result!.protocol).toMatchObject({ port: 443, sni: 'a', security: 'tls' });
+  });
+
+  it('reads legacy and SIP002 shadowsocks links', () => {
+    const legacy = `ss://${btoa('aes-256-gcm:pw@1.2.3.4:8388')}#old`;
+    const sip002 = `ss://${btoa('chacha20-ietf-poly1305:pw')}@1.2.3.4:8389?plugin=obfs-local%3Bobfs%3Dhttp%3Bobfs-host%3Da.com#new`;
+    const [first, second] = parsePastedConfig(`${legacy}\n${sip002}`);
+    expect(first).toMatchObject({ name: 'old', address: '1.2.3.4' });
+    expect(first!.protocol).toMatchObject({ port: 8388, cipher: 'aes-256-gcm' });
+    expect(second!.protocol).toMatchObject({
+      port: 8389,
+      cipher: 'chacha20-ietf-poly1305',
+      obfs: 'http',
+      obfs_host: 'a.com',
+    });
+  });
+
+  it('reads what buildShareLink writes', () => {
+    const link = buildShareLink(
+      { name: 'hk', address: 'example.com' },
+      {
+        type: 'vmess',
+        port: 8443,
+        transport: 'websocket',
+        path: '/ws',
+        security: 'tls',
+        sni: 'a.com',
+      } as API.Protocol,
+      { uuid: 'uuid', password: 'pw' },
+    )!;
+    const [result] = parsePastedConfig(link);
+    expect(result!.protocol).toMatchObject({
+      port: 8443,
+      transport: 'websocket',
+      path: '/ws',
+      security: 'tls',
+      sni: 'a.com',
+    });
+  });
+
+  it('reads Clash proxies and sing-box outbounds', () => {
+    const [clash] = parsePastedConfig(
+      'proxies:\n  - { name: a, type: trojan, server: a.com, port: 443, password: pw, sni: b.com }',
+    );
+    expect(clash).toMatchObject({ name: 'a', address: 'a.com', type: 'trojan' });
+    expect(clash!.protocol).toMatchObject({ port: 443, sni: 'b.com' });
+
+    const [singBox] = parsePastedConfig(
+      JSON.stringify({
+        outbounds: [
+          { type: 'hysteria2', tag: 'b', server: 'b.com', server_port: 443, password: 'pw' },
+        ],
+      }),
+    );
+    expect(singBox).toMatchObject({ name: 'b', address: 'b.com', type: 'hysteria' });
+  });
+
+  it('flags unsupported schemes and unreadable text', () => {
+    expect(parsePastedConfig('wireguard://x@a.com:1')[0]!.error).toBe('unsupported_protocol');
+    expect(parsePastedConfig('{ not json')[0]!.error).toBe('invalid');
+    expect(parsePastedConfig('vmess://not-base64')[0]!.error).toBe('invalid');
+  });
+});
+
+describe('mergePastedProtocol', () => {
+  const current = {
+    type: 'vless',
+    port: 443,
+    enable: true,
+    ratio: 2,
+    reality_public_key: 'old',
+    reality_private_key: 'secret',
+  };
+
+  it('keeps server-only settings the paste cannot carry', () => {
+    const merged = mergePastedProtocol(current, { port: 8443, enable: false, ratio: 1 });
+    expect(merged).toMatchObject({ port: 8443, enable: true, ratio: 2 });
+  });
+
+  it('drops the private key only when the public key changes', () => {
+    expect(mergePastedProtocol(current, { reality_public_key: 'old' }).reality_private_key).toBe(
+      'secret',
+    );
+    expect(mergePastedProtocol(current, { reality_public_key: 'new' }).reality_private_key).toBe(
+      null,
+    );
+  });
+});
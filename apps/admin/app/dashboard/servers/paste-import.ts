@@ -0,0 +1,503 @@
+import yaml from 'js-yaml';
+import { getProtocolDefaultConfig, ProtocolType } from './form-schema';
+
+export type PasteImportError = 'invalid' | 'unsupported_protocol';
+
+export interface PastedProtocol {
+  // Short label of the pasted entry, used in the preview
+  source: string;
+  name?: string;
+  address?: string;
+  type?: ProtocolType;
+  protocol?: Record<string, any>;
+  unsupported: string[];
+  error?: PasteImportError;
+}
+
+// Client-side transport names mapped onto the panel's transport values
+const TRANSPORTS: Record<string, string> = {
+  tcp: 'tcp',
+  raw: 'tcp',
+  ws: 'websocket',
+  websocket: 'websocket',
+  grpc: 'grpc',
+  kcp: 'mkcp',
+  mkcp: 'mkcp',
+  httpupgrade: 'httpupgrade',
+  xhttp: 'xhttp',
+  splithttp: 'xhttp',
+};
+
+// Protocol names used by clients, mapped onto the panel's protocol types
+const PROTOCOL_ALIASES: Record<string, ProtocolType> = {
+  vless: 'vless',
+  vmess: 'vmess',
+  trojan: 'trojan',
+  ss: 'shadowsocks',
+  shadowsocks: 'shadowsocks',
+  hysteria2: 'hysteria',
+  hy2: 'hysteria',
+  tuic: 'tuic',
+  anytls: 'anytls',
+};
+
+// Server-side settings no share link or client config carries
+const SERVER_ONLY_FIELDS = [
+  'enable',
+  'ratio',
+  'cert_mode',
+  'cert_dns_provider',
+  'cert_dns_env',
+  'reality_private_key',
+  'encryption_private_key',
+  'encryption_ticket',
+  'encryption_server_padding',
+];
+
+// Per-user or purely client-side keys that have no server-side counterpart
+const IGNORED_KEYS = ['name', 'tag', 'type', 'udp', 'uuid', 'password', 'alterId', 'alter_id'];
+
+function createReader(source: Record<string, any>) {
+  const used = new Set<string>(IGNORED_KEYS);
+  const get = (path: string): any => {
+    used.add(path);
+    return path.split('.').reduce<any>((value, key) => value?.[key], source);
+  };
+  const unused = () => {
+    const out: string[] = [];
+    const walk = (value: any, path: string) => {
+      if (path && used.has(path)) return;
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        Object.entries(value).forEach(([key, child]) => walk(child, path ? `${path}.${key}` : key));
+      } else if (value !== undefined && value !== null && value !== '' && value !== false) {
+        out.push(path);
+      }
+    };
+    walk(source, '');
+    return out;
+  };
+  return { get, unused };
+}
+
+type Reader = ReturnType<typeof createReader>;
+
+function toBool(value: unknown) {
+  return value === true || value === 1 || value === '1' || value === 'true';
+}
+
+function toNumber(value: unknown) {
+  const number = parseFloat(String(value ?? ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+function decodeBase64(value: string) {
+  const normalized = value.trim().replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  const bytes = Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+function setTransport(protocol: Record<string, any>, value: unknown, unsupported: string[]) {
+  if (!value) return;
+  const transport = TRANSPORTS[String(value)];
+  if (transport) {
+    protocol.transport = transport;
+  } else {
+    unsupported.push(`transport=${value}`);
+  }
+}
+
+/**
+ * Split a VLESS client encryption string
+ * (`mlkem768x25519plus.<mode>.<rtt>[.<padding>].<password>`) into form fields.
+ */
+function parseVlessEncryption(protocol: Record<string, any>, value?: string) {
+  if (!value || value === 'none') return;
+  const parts = value.split('.');
+  if (parts[0] !== 'mlkem768x25519plus' || parts.length < 4) return;
+  protocol.encryption = parts[0];
+  protocol.encryption_mode = parts[1];
+  protocol.encryption_rtt = parts[2];
+  protocol.encryption_password = parts[parts.length - 1];
+  if (parts.length > 4) protocol.encryption_client_padding = parts.slice(3, -1).join('.');
+}
+
+function parseObfsPlugin(protocol: Record<string, any>, plugin: string, unsupported: string[]) {
+  const [name, ...options] = plugin.split(';');
+  if (!['obfs-local', 'simple-obfs', 'obfs'].includes(name || '')) {
+    unsupported.push(`plugin=${name}`);
+    return;
+  }
+  options.forEach((option) => {
+    const [key, value] = option.split('=');
+    if (key === 'obfs' || key === 'mode') protocol.obfs = value;
+    else if (key === 'obfs-host' || key === 'host') protocol.obfs_host = value;
+    else if (key === 'obfs-uri' || key === 'path') protocol.obfs_path = value;
+    else unsupported.push(`plugin.${key}`);
+  });
+}
+
+// Names and passwords in pasted links often contain a stray `%`
+function safeDecode(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    return value;
+  }
+}
+
+function splitUri(uri: string) {
+  const match = uri.match(
+    /^([a-z0-9+.-]+):\/\/(?:([^@/?#]*)@)?([^/?#]*)[^?#]*(?:\?([^#]*))?(?:#(.*))?$/i,
+  );
+  if (!match) return undefined;
+  const [, scheme = '', userinfo, hostport = '', query = '', fragment] = match;
+  const hostMatch = hostport.match(/^(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+  return {
+    scheme: scheme.toLowerCase(),
+    userinfo: userinfo === undefined ? undefined : safeDecode(userinfo),
+    host: hostMatch?.[1]?.replace(/^\[|\]$/g, ''),
+    port: hostMatch?.[2] ? Number(hostMatch[2]) : undefined,
+    params: Object.fromEntries(new URLSearchParams(query)),
+    name: fragment ? safeDecode(fragment) : undefined,
+  };
+}
+
+function readTls(protocol: Record<string, any>, reader: Reader) {
+  const security = reader.get('security');
+  if (security) protocol.security = security;
+  protocol.sni = reader.get('sni') || reader.get('peer') || protocol.sni;
+  const fingerprint = reader.get('fp');
+  if (fingerprint) protocol.fingerprint = fingerprint;
+  if (
+    toBool(reader.get('allowInsecure')) ||
+    toBool(reader.get('insecure')) ||
+    toBool(reader.get('allow_insecure'))
+  ) {
+    protocol.allow_insecure = true;
+  }
+  if (protocol.security === 'reality') {
+    protocol.reality_public_key = reader.get('pbk');
+    protocol.reality_short_id = reader.get('sid');
+    protocol.reality_server_addr = protocol.sni;
+    protocol.reality_server_port = 443;
+  }
+}
+
+function readUriTransport(protocol: Record<string, any>, reader: Reader, unsupported: string[]) {
+  setTransport(protocol, reader.get('type'), unsupported);
+  protocol.host = reader.get('host') || null;
+  protocol.path = reader.get('path') || null;
+  protocol.service_name = reader.get('serviceName') || null;
+  const mode = reader.get('mode');
+  if (protocol.transport === 'xhttp' && mode) protocol.xhttp_mode = mode;
+  const extra = reader.get('extra');
+  if (extra) protocol.xhttp_extra = extra;
+  // `headerType=none` is the default TCP header and needs no mapping
+  if (reader.get('headerType') && reader.get('headerType') !== 'none') {
+    unsupported.push('headerType');
+  }
+}
+
+function parseUri(line: string): PastedProtocol {
+  const source = line.length > 80 ? `${line.slice(0, 77)}...` : line;
+  const scheme = line.slice(0, line.indexOf('://')).toLowerCase();
+  const type = PROTOCOL_ALIASES[scheme];
+  if (!type) return { source, unsupported: [], error: 'unsupported_protocol' };
+
+  const unsupported: string[] = [];
+  const protocol: Record<string, any> = getProtocolDefaultConfig(type);
+
+  if (scheme === 'vmess') {
+    let data: Record<string, any>;
+    try {
+      data = JSON.parse(decodeBase64(line.slice('vmess://'.length)));
+    } catch (error) {
+      return { source, type, unsupported, error: 'invalid' };
+    }
+    const reader = createReader(data);
+    ['v', 'id', 'aid', 'scy', 'ps', 'add'].forEach((key) => reader.get(key));
+    protocol.port = toNumber(reader.get('port'));
+    setTransport(protocol, reader.get('net'), unsupported);
+    protocol.host = reader.get('host') || null;
+    if (protocol.transport === 'grpc') protocol.service_name = reader.get('path') || null;
+    else protocol.path = reader.get('path') || null;
+    if (reader.get('type') && reader.get('type') !== 'none') unsupported.push('type');
+    protocol.security = reader.get('tls') === 'tls' ? 'tls' : 'none';
+    protocol.sni = reader.get('sni') || null;
+    if (reader.get('fp')) protocol.fingerprint = reader.get('fp');
+    if (toBool(reader.get('allowInsecure'))) protocol.allow_insecure = true;
+    unsupported.push(...reader.unused());
+    return { source, name: data.ps, address: data.add, type, protocol, unsupported };
+  }
+
+  let parts = splitUri(line);
+  if (scheme === 'ss' && parts && !parts.userinfo) {
+    // Legacy form: ss://base64(method:password@host:port)#name
+    try {
+      const body = line.slice('ss://'.length).split('#')[0]!;
+      const fragment = line.includes('#') ? line.slice(line.indexOf('#')) : '';
+      parts = splitUri(`ss://${decodeBase64(body)}${fragment}`);
+    } catch (error) {
+      parts = undefined;
+    }
+  }
+  if (!parts?.host) return { source, type, unsupported, error: 'invalid' };
+
+  const reader = createReader(parts.params);
+  protocol.port = parts.port ?? null;
+
+  switch (type) {
+    case 'vless':
+      protocol.flow = reader.get('flow') || 'none';
+      parseVlessEncryption(protocol, reader.get('encryption'));
+      readUriTransport(protocol, reader, unsupported);
+      readTls(protocol, reader);
+      break;
+    case 'trojan':
+      readUriTransport(protocol, reader, unsupported);
+      readTls(protocol, reader);
+      protocol.security = 'tls';
+      break;
+    case 'shadowsocks': {
+      let userinfo = parts.userinfo || '';
+      if (!userinfo.includes(':')) {
+        try {
+          userinfo = decodeBase64(userinfo);
+        } catch (error) {
+          return { source, type, unsupported, error: 'invalid' };
+        }
+      }
+      const [cipher, ...rest] = userinfo.split(':');
+      protocol.cipher = cipher;
+      // 2022 ciphers carry `<server key>:<user key>` as the password
+      if (cipher?.startsWith('2022-') && rest.length > 1) protocol.server_key = rest[0];
+      const plugin = reader.get('plugin');
+      if (plugin) parseObfsPlugin(protocol, plugin, unsupported);
+      break;
+    }
+    case 'hysteria':
+      readTls(protocol, reader);
+      protocol.security = 'tls';
+      if (reader.get('obfs')) {
+        protocol.obfs = reader.get('obfs');
+        protocol.obfs_password = reader.get('obfs-password') || null;
+      }
+      protocol.hop_ports = reader.get('mport') || null;
+      protocol.up_mbps = toNumber(reader.get('upmbps'));
+      protocol.down_mbps = toNumber(reader.get('downmbps'));
+      break;
+    case 'tuic':
+      readTls(protocol, reader);
+      protocol.security = 'tls';
+      if (reader.get('congestion_control')) {
+        protocol.congestion_controller = reader.get('congestion_control');
+      }
+      if (reader.get('udp_relay_mode')) protocol.udp_relay_mode = reader.get('udp_relay_mode');
+      protocol.disable_sni = toBool(reader.get('disable_sni'));
+      protocol.reduce_rtt = toBool(reader.get('reduce_rtt'));
+      break;
+    case 'anytls':
+      readTls(protocol, reader);
+      protocol.security = 'tls';
+      break;
+  }
+
+  unsupported.push(...reader.unused());
+  return { source, name: parts.name, address: parts.host, type, protocol, unsupported };
+}
+
+function parseClashProxy(proxy: Record<string, any>): PastedProtocol {
+  const source = `${proxy.name ?? '?'} (${proxy.type})`;
+  const type = PROTOCOL_ALIASES[String(proxy.type).toLowerCase()];
+  if (!type) return { source, unsupported: [], error: 'unsupported_protocol' };
+
+  const reader = createReader(proxy);
+  const unsupported: string[] = [];
+  const protocol: Record<string, any> = getProtocolDefaultConfig(type);
+  protocol.port = toNumber(reader.get('port'));
+  const address = reader.get('server');
+
+  if (['vless', 'vmess', 'trojan'].includes(type)) {
+    if (type === 'vmess') reader.get('cipher');
+    if (type === 'vless') {
+      protocol.flow = reader.get('flow') || 'none';
+      parseVlessEncryption(protocol, reader.get('encryption'));
+    }
+    const network = reader.get('network');
+    setTransport(
+      protocol,
+      network === 'ws' && reader.get('ws-opts.v2ray-http-upgrade') ? 'httpupgrade' : network,
+      unsupported,
+    );
+    protocol.path = reader.get('ws-opts.path') || null;
+    protocol.host = reader.get('ws-opts.headers.Host') || null;
+    protocol.service_name = reader.get('grpc-opts.grpc-service-name') || null;
+    if (type === 'trojan' || reader.get('tls')) protocol.security = 'tls';
+    if (reader.get('reality-opts.public-key')) {
+      protocol.security = 'reality';
+      protocol.reality_public_key = reader.get('reality-opts.public-key');
+      protocol.reality_short_id = reader.get('reality-opts.short-id') || null;
+    }
+  }
+  if (type === 'shadowsocks') {
+    protocol.cipher = reader.get('cipher');
+    const plugin = reader.get('plugin');
+    if (plugin === 'obfs') {
+      protocol.obfs = reader.get('plugin-opts.mode') || 'none';
+      protocol.obfs_host = reader.get('plugin-opts.host') || null;
+    } else if (plugin) {
+      unsupported.push(`plugin=${plugin}`);
+    }
+  }
+  if (type === 'hysteria') {
+    if (reader.get('obfs')) {
+      protocol.obfs = reader.get('obfs');
+      protocol.obfs_password = reader.get('obfs-password') || null;
+    }
+    protocol.hop_ports = reader.get('ports') || null;
+    protocol.hop_interval = toNumber(reader.get('hop-interval'));
+    protocol.up_mbps = toNumber(reader.get('up'));
+    protocol.down_mbps = toNumber(reader.get('down'));
+  }
+  if (type === 'tuic') {
+    if (reader.get('congestion-controller')) {
+      protocol.congestion_controller = reader.get('congestion-controller');
+    }
+    if (reader.get('udp-relay-mode')) protocol.udp_relay_mode = reader.get('udp-relay-mode');
+    protocol.reduce_rtt = toBool(reader.get('reduce-rtt'));
+    protocol.disable_sni = toBool(reader.get('disable-sni'));
+  }
+
+  protocol.sni = reader.get('servername') || reader.get('sni') || null;
+  if (protocol.security === 'reality') {
+    protocol.reality_server_addr = protocol.sni;
+    protocol.reality_server_port = 443;
+  }
+  if (toBool(reader.get('skip-cert-verify'))) protocol.allow_insecure = true;
+  const fingerprint = reader.get('client-fingerprint');
+  if (fingerprint) protocol.fingerprint = fingerprint;
+
+  unsupported.push(...reader.unused());
+  return { source, name: proxy.name, address, type, protocol, unsupported };
+}
+
+function parseSingBoxOutbound(outbound: Record<string, any>): PastedProtocol {
+  const source = `${outbound.tag ?? '?'} (${outbound.type})`;
+  const type = PROTOCOL_ALIASES[String(outbound.type).toLowerCase()];
+  if (!type) return { source, unsupported: [], error: 'unsupported_protocol' };
+
+  const reader = createReader(outbound);
+  const unsupported: string[] = [];
+  const protocol: Record<string, any> = getProtocolDefaultConfig(type);
+  protocol.port = toNumber(reader.get('server_port'));
+  const address = reader.get('server');
+
+  if (type === 'vless') protocol.flow = reader.get('flow') || 'none';
+  if (type === 'vmess') reader.get('security');
+  if (type === 'shadowsocks') {
+    protocol.cipher = reader.get('method');
+    const plugin = reader.get('plugin');
+    if (plugin)
+      parseObfsPlugin(protocol, [plugin, reader.get('plugin_opts')].join(';'), unsupported);
+  }
+  if (['vless', 'vmess', 'trojan'].includes(type)) {
+    setTransport(protocol, reader.get('transport.type'), unsupported);
+    protocol.path = reader.get('transport.path') || null;
+    protocol.host = reader.get('transport.headers.Host') || reader.get('transport.host') || null;
+    protocol.service_name = reader.get('transport.service_name') || null;
+  }
+  if (type === 'hysteria') {
+    if (reader.get('obfs.type')) {
+      protocol.obfs = reader.get('obfs.type');
+      protocol.obfs_password = reader.get('obfs.password') || null;
+    }
+    const ports = reader.get('server_ports');
+    if (Array.isArray(ports)) protocol.hop_ports = ports.join(',').replace(/:/g, '-');
+    protocol.hop_interval = toNumber(reader.get('hop_interval'));
+    protocol.up_mbps = toNumber(reader.get('up_mbps'));
+    protocol.down_mbps = toNumber(reader.get('down_mbps'));
+  }
+  if (type === 'tuic') {
+    if (reader.get('congestion_control')) {
+      protocol.congestion_controller = reader.get('congestion_control');
+    }
+    if (reader.get('udp_relay_mode')) protocol.udp_relay_mode = reader.get('udp_relay_mode');
+    protocol.reduce_rtt = toBool(reader.get('zero_rtt_handshake'));
+  }
+
+  if (reader.get('tls.enabled')) {
+    protocol.security = 'tls';
+    protocol.sni = reader.get('tls.server_name') || null;
+    if (toBool(reader.get('tls.insecure'))) protocol.allow_insecure = true;
+    if (reader.get('tls.utls.enabled')) protocol.fingerprint = reader.get('tls.utls.fingerprint');
+    if (reader.get('tls.reality.enabled')) {
+      protocol.security = 'reality';
+      protocol.reality_public_key = reader.get('tls.reality.public_key');
+      protocol.reality_short_id = reader.get('tls.reality.short_id') || null;
+      protocol.reality_server_addr = protocol.sni;
+      protocol.reality_server_port = 443;
+    }
+  }
+
+  unsupported.push(...reader.unused());
+  return { source, name: outbound.tag, address, type, protocol, unsupported };
+}
+
+function parseStructured(data: any): PastedProtocol[] | undefined {
+  if (Array.isArray(data)) {
+    const results = data.flatMap((item) => parseStructured(item) ?? []);
+    return results.length ? results : undefined;
+  }
+  if (!data || typeof data !== 'object') return undefined;
+  if (Array.isArray(data.outbounds)) return parseStructured(data.outbounds);
+  if (Array.isArray(data.proxies)) return parseStructured(data.proxies);
+  if ('server_port' in data) return [parseSingBoxOutbound(data)];
+  if ('server' in data && 'port' in data) return [parseClashProxy(data)];
+  return undefined;
+}
+
+/**
+ * Parse pasted client configuration into server protocol settings.
+ * Accepts share URIs (one per line), Clash proxies (YAML or JSON) and
+ * sing-box outbounds (JSON).
+ */
+export function parsePastedConfig(text: string): PastedProtocol[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const lines = trimmed.split(/\r?\n/).map((line) => line.trim());
+  if (lines.every((line) => !line || /^[a-z0-9+.-]+:\/\//i.test(line))) {
+    return lines.filter(Boolean).map(parseUri);
+  }
+
+  let data: unknown;
+  try {
+    data = /^[[{]/.test(trimmed) ? JSON.parse(trimmed) : yaml.load(trimmed);
+  } catch (error) {
+    return [{ source: lines[0] || '', unsupported: [], error: 'invalid' }];
+  }
+  return parseStructured(data) ?? [{ source: lines[0] || '', unsupported: [], error: 'invalid' }];
+}
+
+/**
+ * Apply a pasted protocol on top of the form's current values, keeping the
+ * server-only settings the paste cannot describe. Private keys are dropped
+ * only when the pasted public half differs, since they no longer match.
+ */
+export function mergePastedProtocol<T extends Record<string, any>>(
+  current: T,
+  pasted: Record<string, any>,
+): T {
+  const merged: Record<string, any> = { ...current };
+  Object.entries(pasted).forEach(([key, value]) => {
+    if (!SERVER_ONLY_FIELDS.includes(key) || current[key] === undefined) merged[key] = value;
+  });
+  if (pasted.reality_public_key && pasted.reality_public_key !== current.reality_public_key) {
+    merged.reality_private_key = null;
+  }
+  if (pasted.encryption_password && pasted.encryption_password !== current.encryption_password) {
+    merged.encryption_private_key = null;
+  }
+  return merged as T;
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeRules,
+  formatRule,
+  isIP,
+  parseRule,
+  parseRulesDocument,
+  RuleSet,
+  serializeRules,
+  splitRule,
+  testRules,
+} from './rules';
+
+function rules(overrides: Partial<RuleSet>): RuleSet {
+  return { dns: [], block: [], outbound: [], ...overrides };
+}
+
+describe('parseRule', () => {
+  it('reads prefixed, bare domain and IP rules', () => {
+    expect(parseRule(' Domain:Example.COM ')).toEqual({
+      raw: 'Domain:Example.COM',
+      kind: 'domain',
+      value: 'example.com',
+    });
+    expect(parseRule('regex:^A\\.com$').value).toBe('^A\\.com$');
+    expect(parseRule('example.com').kind).toBe('exact');
+    expect(parseRule('10.0.0.0/8').kind).toBe('cidr');
+    expect(parseRule('2001:db8::1').kind).toBe('cidr');
+  });
+
+  it('reports malformed rules', () => {
+    expect(parseRule('foo:bar').error).toBe('unknown_prefix');
+    expect(parseRule('suffix:').error).toBe('empty_value');
+    expect(parseRule('regex:(').error).toBe('invalid_regex');
+    expect(parseRule('geosite:a b').error).toBe('invalid_geo');
+    expect(parseRule('10.0.0.0/33').error).toBe('invalid_cidr');
+    expect(parseRule('not a domain').error).toBe('invalid_domain');
+  });
+});
+
+describe('isIP', () => {
+  it('accepts IPv4 and IPv6 addresses', () => {
+    expect(isIP('1.2.3.4')).toBe(true);
+    expect(isIP('::ffff:1.2.3.4')).toBe(true);
+    expect(isIP('256.1.1.1')).toBe(false);
+    expect(isIP('1::2::3')).toBe(false);
+  });
+});
+
+describe('formatRule and splitRule', () => {
+  it('round-trip a rule line', () => {
+    expect(formatRule('suffix', ' a.com ')).toBe('suffix:a.com');
+    expect(formatRule('cidr', '10.0.0.0/8')).toBe('10.0.0.0/8');
+    expect(splitRule('suffix: A.com')).toEqual({ kind: 'suffix', value: 'A.com' });
+    expect(splitRule('foo:bar')).toEqual({ kind: 'exact', value: 'foo:bar' });
+  });
+});
+
+describe('analyzeRules', () => {
+  it('finds duplicates and rules shadowed by earlier ones', () => {
+    const issues = analyzeRules(
+      rules({
+        block: ['suffix:ads.com', '10.0.0.0/8'],
+        outbound: [{ name: 'proxy', rules: ['x.ads.com', '10.1.0.0/16', 'suffix:ads.com'] }],
+      }),
+    );
+    expect(issues).toEqual([
+      {
+        code: 'shadowed',
+        source: { list: 'outbound', index: 0 },
+        rule: 'x.ads.com',
+        by: { source: { list: 'block' }, rule: 'suffix:ads.com' },
+      },
+      {
+        code: 'shadowed',
+        source: { list: 'outbound', index: 0 },
+        rule: '10.1.0.0/16',
+        by: { source: { list: 'block' }, rule: '10.0.0.0/8' },
+      },
+      {
+        code: 'duplicate',
+        source: { list: 'outbound', index: 0 },
+        rule: 'suffix:ads.com',
+        by: { source: { list: 'block' }, rule: 'suffix:ads.com' },
+      },
+    ]);
+  });
+
+  it('reports invalid DNS rules without checking their order', () => {
+    const issues = analyzeRules(
+      rules({ dns: [{ proto: 'udp', address: '1.1.1.1', domains: ['a.com', 'a.com', 'x:y'] }] }),
+    );
+    expect(issues).toEqual([
+      { code: 'unknown_prefix', source: { list: 'dns', index: 0 }, rule: 'x:y' },
+    ]);
+  });
+});
+
+describe('testRules', () => {
+  const set = rules({
+    block: ['keyword:ads'],
+    outbound: [
+      { name: 'geo', rules: ['geosite:cn', 'geoip:cn'] },
+      { name: 'proxy', rules: ['suffix:google.com', '8.8.8.0/24'] },
+    ],
+  });
+
+  it('returns the first matching rule', () => {
+    expect(testRules(set, 'Mail.Google.com')).toEqual({
+      match: { source: { list: 'outbound', index: 1 }, rule: 'suffix:google.com' },
+      unresolved: ['geosite:cn'],
+    });
+    expect(testRules(set, '8.8.8.8').match!.rule).toBe('8.8.8.0/24');
+    expect(testRules(set, 'myads.net').match!.source).toEqual({ list: 'block' });
+  });
+
+  it('returns no match when nothing applies', () => {
+    expect(testRules(set, '1.1.1.1')).toEqual({ match: undefined, unresolved: ['geoip:cn'] });
+  });
+});
+
+describe('parseRulesDocument', () => {
+  it('round-trips serialized rule sets', () => {
+    const set = rules({
+      dns: [{ proto: 'udp', address: '1.1.1.1', domains: ['a.com'] }],
+      block: ['suffix:ads.com'],
+      outbound: [{ name: 'proxy', rules: ['b.com'] }],
+    });
+    for (const format of ['json', 'yaml'] as const) {
+      expect(parseRulesDocument(serializeRules(set, format))).toEqual(set);
+    }
+  });
+
+  it('fills missing lists and drops blank rules', () => {
+    expect(parseRulesDocument('block:\n  - ""\n  - a.com')).toEqual(rules({ block: ['a.com'] }));
+    expect(() => parseRulesDocument('- a.com')).toThrow();
+  });
+});
@@ -0,0 +1,292 @@
+import yaml from 'js-yaml';
+
+export type RuleKind =
+  | 'exact'
+  | 'full'
+  | 'domain'
+  | 'suffix'
+  | 'keyword'
+  | 'regex'
+  | 'geosite'
+  | 'geoip'
+  | 'cidr';
+
+export type RuleError =
+  | 'unknown_prefix'
+  | 'empty_value'
+  | 'invalid_domain'
+  | 'invalid_regex'
+  | 'invalid_geo'
+  | 'invalid_cidr';
+
+export interface ParsedRule {
+  raw: string;
+  kind: RuleKind;
+  value: string;
+  error?: RuleError;
+}
+
+// Where a rule lives; outbound rules carry the index of their outbound
+export type RuleSource = { list: 'dns' | 'outbound'; index: number } | { list: 'block' };
+
+export interface RuleIssue {
+  code: RuleError | 'duplicate' | 'shadowed';
+  source: RuleSource;
+  rule: string;
+  // The earlier rule that makes this one redundant
+  by?: { source: RuleSource; rule: string };
+}
+
+export interface RuleSet {
+  dns: API.NodeDNS[];
+  block: string[];
+  outbound: (Pick<API.NodeOutbound, 'name'> & Partial<API.NodeOutbound>)[];
+}
+
+const PREFIXES: RuleKind[] = ['full', 'domain', 'suffix', 'keyword', 'regex', 'geosite', 'geoip'];
+/** Rule kinds in the order the editor offers them. */
+export const RULE_KINDS: RuleKind[] = ['exact', ...PREFIXES, 'cidr'];
+const DOMAIN_RE = /^(?=.{1,253}$)(\*\.)?([a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9_])?\.)*[a-z0-9-]+$/i;
+const GEO_RE = /^!?[a-z0-9_.@-]+$/i;
+const IPV4_RE = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/;
+
+function isIPv6(value: string) {
+  if (!/^[0-9a-f:.]+$/i.test(value) || !value.includes(':')) return false;
+  const parts = value.split('::');
+  if (parts.length > 2) return false;
+  const groups = parts.flatMap((part) => (part ? part.split(':') : []));
+  const full = parts.length === 1;
+  const last = groups[groups.length - 1] || '';
+  const embedded = IPV4_RE.test(last) ? 1 : 0;
+  const count = groups.length + embedded;
+  if (full ? count !== 8 : count > 7) return false;
+  return groups.every((group, i) =>
+    i === groups.length - 1 && embedded ? true : /^[0-9a-f]{1,4}$/i.test(group),
+  );
+}
+
+export function isIP(value: string) {
+  return IPV4_RE.test(value) || isIPv6(value);
+}
+
+function parseCidr(value: string) {
+  const [address = '', prefix] = value.split('/');
+  const v4 = IPV4_RE.test(address);
+  if (!v4 && !isIPv6(address)) return undefined;
+  const max = v4 ? 32 : 128;
+  const bits = prefix === undefined ? max : Number(prefix);
+  if (!/^\d+$/.test(prefix ?? String(max)) || bits < 0 || bits > max) return undefined;
+  return { address, bits, v4 };
+}
+
+function ipv4ToNumber(address: string) {
+  return address.split('.').reduce((acc, part) => acc * 256 + Number(part), 0);
+}
+
+function inRange(address: string, cidr: { address: string; bits: number; v4: boolean }) {
+  if (!cidr.v4 || !IPV4_RE.test(address)) return address === cidr.address;
+  const size = 2 ** (32 - cidr.bits);
+  const start = Math.floor(ipv4ToNumber(cidr.address) / size);
+  return Math.floor(ipv4ToNumber(address) / size) === start;
+}
+
+/**
+ * Parse one rule line. Supported forms follow the node's matcher:
+ * `full:`, `domain:`/`suffix:`, `keyword:`, `regex:`, `geosite:`, `geoip:`,
+ * a bare IP or CIDR, and a bare domain for exact matching.
+ */
+export function parseRule(raw: string): ParsedRule {
+  const line = raw.trim();
+  const colon = line.indexOf(':');
+  const prefix = colon > 0 ? line.slice(0, colon).toLowerCase() : '';
+
+  if (prefix && PREFIXES.includes(prefix as RuleKind)) {
+    const kind = prefix as RuleKind;
+    const value = line.slice(colon + 1).trim();
+    if (!value) return { raw: line, kind, value, error: 'empty_value' };
+    switch (kind) {
+      case 'regex':
+        try {
+          new RegExp(value);
+        } catch (error) {
+          return { raw: line, kind, value, error: 'invalid_regex' };
+        }
+        break;
+      case 'geosite':
+      case 'geoip':
+        if (!GEO_RE.test(value)) return { raw: line, kind, value, error: 'invalid_geo' };
+        break;
+      case 'keyword':
+        break;
+      default:
+        if (!DOMAIN_RE.test(value)) return { raw: line, kind, value, error: 'invalid_domain' };
+    }
+    return { raw: line, kind, value: kind === 'regex' ? value : value.toLowerCase() };
+  }
+
+  if (/^[0-9a-f:.]+(\/\d+)?$/i.test(line) && (line.includes('/') || isIP(line))) {
+    return parseCidr(line)
+      ? { raw: line, kind: 'cidr', value: line.toLowerCase() }
+      : { raw: line, kind: 'cidr', value: line, error: 'invalid_cidr' };
+  }
+
+  if (colon > 0) return { raw: line, kind: 'exact', value: line, error: 'unknown_prefix' };
+  if (!DOMAIN_RE.test(line)) {
+    return { raw: line, kind: 'exact', value: line, error: 'invalid_domain' };
+  }
+  return { raw: line, kind: 'exact', value: line.toLowerCase() };
+}
+
+/** Build the rule line for a kind and value, the inverse of `splitRule`. */
+export function formatRule(kind: RuleKind, value: string) {
+  const trimmed = value.trim();
+  return kind === 'exact' || kind === 'cidr' ? trimmed : `${kind}:${trimmed}`;
+}
+
+/** Kind and value of a rule line as typed, without the normalisation `parseRule` applies. */
+export function splitRule(raw: string): { kind: RuleKind; value: string } {
+  const { kind, error } = parseRule(raw);
+  const line = raw.trim();
+  if (error === 'unknown_prefix' || !PREFIXES.includes(kind)) return { kind, value: line };
+  return { kind, value: line.slice(line.indexOf(':') + 1).trim() };
+}
+
+function matchesDomain(rule: ParsedRule, host: string) {
+  switch (rule.kind) {
+    case 'exact':
+    case 'full':
+      return host === rule.value;
+    case 'domain':
+    case 'suffix':
+      return host === rule.value || host.endsWith(`.${rule.value}`);
+    case 'keyword':
+      return host.includes(rule.value);
+    case 'regex':
+      return new RegExp(rule.value).test(host);
+    default:
+      return false;
+  }
+}
+
+/** Whether every host matched by `inner` is also matched by `outer`. */
+function covers(outer: ParsedRule, inner: ParsedRule) {
+  if (outer.kind === inner.kind && outer.value === inner.value) return true;
+  if (outer.kind === 'cidr' && inner.kind === 'cidr') {
+    const a = parseCidr(outer.value);
+    const b = parseCidr(inner.value);
+    return !!a && !!b && a.v4 === b.v4 && a.bits <= b.bits && inRange(b.address, a);
+  }
+  if (['exact', 'full'].includes(inner.kind)) {
+    return ['exact', 'full', 'domain', 'suffix', 'keyword'].includes(outer.kind)
+      ? matchesDomain(outer, inner.value)
+      : false;
+  }
+  if (['domain', 'suffix'].includes(inner.kind)) {
+    if (['domain', 'suffix'].includes(outer.kind)) return matchesDomain(outer, inner.value);
+    if (outer.kind === 'keyword') return inner.value.includes(outer.value);
+  }
+  if (inner.kind === 'keyword' && outer.kind === 'keyword') {
+    return inner.value.includes(outer.value);
+  }
+  return false;
+}
+
+function collect(set: RuleSet) {
+  const routing: { source: RuleSource; rule: ParsedRule }[] = [];
+  const dns: { source: RuleSource; rule: ParsedRule }[] = [];
+  const add = (target: typeof routing, source: RuleSource, lines: string[] = []) =>
+    lines
+      .filter((line) => line && line.trim())
+      .forEach((line) => target.push({ source, rule: parseRule(line) }));
+
+  // The node checks block rules first, then outbounds in order
+  add(routing, { list: 'block' }, set.block);
+  set.outbound.forEach((outbound, index) =>
+    add(routing, { list: 'outbound', index }, outbound.rules),
+  );
+  set.dns.forEach((item, index) => add(dns, { list: 'dns', index }, item.domains));
+  return { routing, dns };
+}
+
+export function analyzeRules(set: RuleSet): RuleIssue[] {
+  const { routing, dns } = collect(set);
+  const issues: RuleIssue[] = [];
+
+  [...routing, ...dns].forEach(({ source, rule }) => {
+    if (rule.error) issues.push({ code: rule.error, source, rule: rule.raw });
+  });
+
+  const valid = routing.filter(({ rule }) => !rule.error);
+  valid.forEach((current, index) => {
+    const earlier = valid.slice(0, index).find(({ rule }) => covers(rule, current.rule));
+    if (!earlier) return;
+    const duplicate =
+      earlier.rule.kind === current.rule.kind && earlier.rule.value === current.rule.value;
+    issues.push({
+      code: duplicate ? 'duplicate' : 'shadowed',
+      source: current.source,
+      rule: current.rule.raw,
+      by: { source: earlier.source, rule: earlier.rule.raw },
+    });
+  });
+
+  return issues;
+}
+
+export interface RuleMatch {
+  source: RuleSource;
+  rule: string;
+}
+
+/**
+ * Find the first routing rule that matches a hostname or IP. Geo rules cannot
+ * be resolved in the browser; those checked before the match are returned so
+ * the result can be flagged as uncertain.
+ */
+export function testRules(set: RuleSet, input: string) {
+  const target = input.trim().toLowerCase();
+  const ip = isIP(target);
+  const unresolved: string[] = [];
+  for (const { source, rule } of collect(set).routing) {
+    if (rule.error) continue;
+    if ((rule.kind === 'geoip' && ip) || (rule.kind === 'geosite' && !ip)) {
+      unresolved.push(rule.raw);
+      continue;
+    }
+    const cidr = rule.kind === 'cidr' ? parseCidr(rule.value) : undefined;
+    const matched = ip ? !!cidr && inRange(target, cidr) : matchesDomain(rule, target);
+    if (matched) return { match: { source, rule: rule.raw } as RuleMatch, unresolved };
+  }
+  return { match: undefined, unresolved };
+}
+
+export function serializeRules(set: RuleSet, format: 'json' | 'yaml') {
+  return format === 'json' ? JSON.stringify(set, null, 2) : yaml.dump(set, { lineWidth: -1 });
+}
+
+/** Parse an exported rule set; accepts JSON or YAML. */
+export function parseRulesDocument(text: string): RuleSet {
+  const doc = yaml.load(text) as Partial<RuleSet> | undefined;
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+    throw new Error('Expected an object with dns, block and outbound');
+  }
+  const lines = (value: unknown) =>
+    Array.isArray(value) ? value.map(String).filter((line) => line.trim()) : [];
+  return {
+    dns: Array.isArray(doc.dns)
+      ? doc.dns.map((item) => ({
+          proto: String(item?.proto ?? ''),
+          address: String(item?.address ?? ''),
+          domains: lines(item?.domains),
+        }))
+      : [],
+    block: lines(doc.block),
+    outbound: Array.isArray(doc.outbound)
+      ? doc.outbound.map((item) => ({
+          ...item,
+          name: String(item?.name ?? ''),
+          rules: lines(item?.rules),
+        }))
+      : [],
+  };
+}
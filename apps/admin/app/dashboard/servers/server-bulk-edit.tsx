@@ -0,0 +1,303 @@
+'use client';
+
+import { updateServer } from '@/services/admin/server';
+import { useNode } from '@/store/node';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { Checkbox } from '@workspace/ui/components/checkbox';
+import { Label } from '@workspace/ui/components/label';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@workspace/ui/components/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { Switch } from '@workspace/ui/components/switch';
+import { Textarea } from '@workspace/ui/components/textarea';
+import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { BulkEditStatus, getBulkEditableFields, planBulkEdit } from './bulk-edit';
+import { FieldConfig, getLabel, protocols as PROTOCOLS, ProtocolType } from './form-schema';
+
+const STATUS_VARIANT: Record<BulkEditStatus, 'default' | 'secondary' | 'outline' | 'destructive'> =
+  {
+    change: 'default',
+    unchanged: 'outline',
+    missing: 'secondary',
+    blocked: 'destructive',
+    invalid: 'destructive',
+  };
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === '') return '—';
+  return String(value);
+}
+
+export function FieldValueInput({
+  field,
+  value,
+  onChange,
+  t,
+}: {
+  field: FieldConfig;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  t: (key: string) => string;
+}) {
+  switch (field.type) {
+    case 'switch':
+      return <Switch checked={!!value} onCheckedChange={onChange} />;
+    case 'select':
+      return (
+        <Select value={(value as string) ?? ''} onValueChange={onChange}>
+          <SelectTrigger>
+            <SelectValue placeholder={t('please_select')} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option} value={option}>
+                {getLabel(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'number':
+      return (
+        <EnhancedInput<number>
+          type='number'
+          min={field.min}
+          max={field.max}
+          step={field.step || 1}
+          suffix={field.suffix}
+          value={value as number}
+          onValueChange={(v) => onChange(v === ('' as unknown) ? null : Number(v))}
+        />
+      );
+    case 'textarea':
+      return (
+        <Textarea
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className='font-mono text-xs'
+        />
+      );
+    default:
+      return (
+        <EnhancedInput
+          value={(value as string) ?? ''}
+          placeholder={typeof field.placeholder === 'string' ? field.placeholder : undefined}
+          onValueChange={(v) => onChange(v)}
+        />
+      );
+  }
+}
+
+export default function ServerBulkEdit({
+  servers,
+  onApplied,
+}: {
+  servers: API.Server[];
+  onApplied?: () => void;
+}) {
+  const t = useTranslations('servers');
+  const { isProtocolUsedInNodes } = useNode();
+  const [open, setOpen] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const availableTypes = useMemo(
+    () =>
+      PROTOCOLS.filter((type) =>
+        servers.some((server) => server.protocols?.some((p) => p.type === type)),
+      ),
+    [servers],
+  );
+  const [type, setType] = useState<ProtocolType>();
+  const [patch, setPatch] = useState<Record<string, unknown>>({});
+
+  const currentType = type && availableTypes.includes(type) ? type : availableTypes[0];
+  const fields = currentType ? getBulkEditableFields(currentType) : [];
+
+  const rows = useMemo(
+    () =>
+      currentType && Object.keys(patch).length
+        ? planBulkEdit(servers, currentType, patch, isProtocolUsedInNodes)
+        : [],
+    [servers, currentType, patch, isProtocolUsedInNodes],
+  );
+  const applicable = rows.filter((row) => row.status === 'change');
+
+  function toggleField(field: FieldConfig, checked: boolean) {
+    setPatch((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        const sample = servers
+          .flatMap((s) => s.protocols || [])
+          .find((p) => p.type === currentType) as Record<string, unknown> | undefined;
+        next[field.name] = sample?.[field.name] ?? field.defaultValue ?? null;
+      } else {
+        delete next[field.name];
+      }
+      return next;
+    });
+  }
+
+  async function handleApply() {
+    setApplying(true);
+    let succeeded = 0;
+    for (const row of applicable) {
+      try {
+        await updateServer({
+          id: row.server.id,
+          name: row.server.name,
+          country: row.server.country,
+          city: row.server.city,
+          address: row.server.address,
+          protocols: row.protocols,
+        });
+        succeeded++;
+      } catch (error) {
+        toast.error(`${row.server.name}: ${t('bulkEdit.applyFailed')}`);
+      }
+    }
+    setApplying(false);
+    if (succeeded > 0) {
+      toast.success(t('bulkEdit.applied', { count: succeeded }));
+      onApplied?.();
+    }
+    if (succeeded === applicable.length) {
+      setPatch({});
+      setOpen(false);
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant='secondary' disabled={availableTypes.length === 0}>
+          {t('bulkEdit.trigger')}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className='w-[800px] max-w-full md:max-w-screen-lg'>
+        <SheetHeader>
+          <SheetTitle>{t('bulkEdit.title')}</SheetTitle>
+          <SheetDescription>
+            {t('bulkEdit.description', { count: servers.length })}
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          <div className='space-y-4 pt-4'>
+            <div className='space-y-2'>
+              <Label>{t('bulkEdit.protocolType')}</Label>
+              <Select
+                value={currentType}
+                onValueChange={(v) => {
+                  setType(v as ProtocolType);
+                  setPatch({});
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t('please_select')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableTypes.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      <span className='capitalize'>{value}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <fieldset className='border-border rounded-lg border'>
+              <legend className='text-foreground bg-background ml-3 px-1 py-1 text-sm font-medium'>
+                {t('bulkEdit.fields')}
+              </legend>
+              <div className='grid grid-cols-1 gap-3 p-4 pt-2'>
+                {fields.map((field) => {
+                  const checked = field.name in patch;
+                  return (
+                    <div key={field.name} className='grid grid-cols-[200px_1fr] items-center gap-3'>
+                      <label className='flex items-center gap-2 text-sm'>
+                        <Checkbox
+                          checked={checked}
+                          onCheckedChange={(v) => toggleField(field, !!v)}
+                        />
+                        {t(field.label)}
+                      </label>
+                      {checked ? (
+                        <FieldValueInput
+                          field={field}
+                          value={patch[field.name]}
+                          onChange={(value) =>
+                            setPatch((prev) => ({ ...prev, [field.name]: value }))
+                          }
+                          t={t}
+                        />
+                      ) : (
+                        <span className='text-muted-foreground text-xs'>{t('bulkEdit.keep')}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </fieldset>
+
+            {rows.length > 0 && (
+              <div className='space-y-2'>
+                <h3 className='text-sm font-semibold'>{t('bulkEdit.preview')}</h3>
+                <div className='divide-y rounded-md border'>
+                  {rows.map((row) => (
+                    <div key={row.server.id} className='flex flex-col gap-1 p-3'>
+                      <div className='flex items-center justify-between gap-2'>
+                        <span className='font-medium'>{row.server.name}</span>
+                        <Badge variant={STATUS_VARIANT[row.status]}>
+                          {t(`bulkEdit.status.${row.status}`)}
+                        </Badge>
+                      </div>
+                      <ul className='space-y-0.5 font-mono text-xs'>
+                        {row.changes.map((change) => (
+                          <li key={change.field}>
+                            {change.field}: {formatValue(change.from)} → {formatValue(change.to)}
+                          </li>
+                        ))}
+                        {row.errors.map((error, i) => (
+                          <li key={i} className='text-destructive'>
+                            {error}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className='flex-row justify-end gap-2 pt-3'>
+          <Button variant='outline' disabled={applying} onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <Button disabled={applying || applicable.length === 0} onClick={handleApply}>
+            {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+            {t('bulkEdit.apply', { count: applicable.length })}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
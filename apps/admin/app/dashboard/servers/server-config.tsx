@@ -31,7 +31,6 @@ import {
   SheetTrigger,
 } from '@workspace/ui/components/sheet';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@workspace/ui/components/tabs';
-import { Textarea } from '@workspace/ui/components/textarea';
 import { ArrayInput } from '@workspace/ui/custom-components/dynamic-Inputs';
 import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
 import { Icon } from '@workspace/ui/custom-components/icon';
@@ -44,6 +43,11 @@ import { useForm } from 'react-hook-form';
 import { toast } from 'sonner';
 import { z } from 'zod';
 import { SS_CIPHERS } from './form-schema';
+import { analyzeRules, RULE_KINDS, RuleSet } from './rules';
+import { RuleIssueList, RuleListEditor, RuleTester, RuleTransfer } from './server-rules';
+
+// DNS routing matches on domains only
+const DNS_RULE_KINDS = RULE_KINDS.filter((kind) => kind !== 'geoip' && kind !== 'cidr');
 
 const dnsConfigSchema = z.object({
   proto: z.string(), // z.enum(['tcp', 'udp', 'tls', 'https', 'quic']),
@@ -117,6 +121,32 @@ export default function ServerConfig() {
     }
   }, [cfgResp, form]);
 
+  const [dns, block, outbound] = form.watch(['dns', 'block', 'outbound']);
+  const ruleSet: RuleSet = { dns: dns || [], block: block || [], outbound: outbound || [] };
+  const ruleIssues = analyzeRules(ruleSet);
+
+  function handleImportRules(imported: RuleSet) {
+    const current = form.getValues('outbound') || [];
+    // Rules of a known outbound are replaced, unknown outbounds are appended
+    const merged = current.map((item) => {
+      const match = imported.outbound.find((entry) => entry.name === item.name);
+      return match ? { ...item, rules: match.rules } : item;
+    });
+    imported.outbound
+      .filter((entry) => !current.some((item) => item.name === entry.name))
+      .forEach((entry) =>
+        merged.push({
+          protocol: 'direct',
+          address: '',
+          port: 0,
+          ...entry,
+        } as (typeof merged)[number]),
+      );
+    form.setValue('dns', imported.dns);
+    form.setValue('block', imported.block);
+    form.setValue('outbound', merged);
+  }
+
   async function onSubmit(values: NodeConfigFormData) {
     setSaving(true);
     try {
@@ -159,11 +189,17 @@ export default function ServerConfig() {
 
         <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-36px-env(safe-area-inset-top))] px-6'>
           <Tabs defaultValue='basic' className='pt-4'>
-            <TabsList className='grid w-full grid-cols-4'>
+            <TabsList className='grid w-full grid-cols-5'>
               <TabsTrigger value='basic'>{t('server_config.tabs.basic')}</TabsTrigger>
               <TabsTrigger value='dns'>{t('server_config.tabs.dns')}</TabsTrigger>
               <TabsTrigger value='outbound'>{t('server_config.tabs.outbound')}</TabsTrigger>
               <TabsTrigger value='block'>{t('server_config.tabs.block')}</TabsTrigger>
+              <TabsTrigger value='rules'>
+                {t('server_config.tabs.rules')}
+                {ruleIssues.length > 0 && (
+                  <Icon icon='mdi:alert-circle' className='ml-1 size-3.5 text-amber-500' />
+                )}
+              </TabsTrigger>
             </TabsList>
 
             <Form {...form}>
@@ -335,32 +371,30 @@ export default function ServerConfig() {
                               { name: 'address', type: 'text', placeholder: '8.8.8.8:53' },
                               {
                                 name: 'domains',
-                                type: 'textarea',
+                                type: 'custom',
                                 className: 'col-span-2',
-                                placeholder: t('server_config.fields.dns_domains_placeholder'),
+                                render: (value, onChange) => (
+                                  <RuleListEditor
+                                    value={value as string[]}
+                                    onChange={onChange}
+                                    kinds={DNS_RULE_KINDS}
+                                    placeholder={t('server_config.fields.dns_domains_placeholder')}
+                                  />
+                                ),
                               },
                             ]}
-                            value={(field.value || []).map((item) => ({
-                              ...item,
-                              domains: Array.isArray(item.domains) ? item.domains.join('\n') : '',
-                            }))}
-                            onChange={(values) => {
-                              const converted = values.map((item: any) => ({
-                                proto: item.proto,
-                                address: item.address,
-                                domains:
-                                  typeof item.domains === 'string'
-                                    ? item.domains.split('\n').map((d: string) => d.trim())
-                                    : item.domains || [],
-                              }));
-                              field.onChange(converted);
-                            }}
+                            value={field.value || []}
+                            onChange={field.onChange}
                           />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                  <RuleIssueList
+                    set={ruleSet}
+                    issues={ruleIssues.filter((issue) => issue.source.list === 'dns')}
+                  />
                 </TabsContent>
 
                 <TabsContent value='outbound' className='space-y-4'>
@@ -435,30 +469,21 @@ export default function ServerConfig() {
                                 },
                                 {
                                   name: 'rules',
-                                  type: 'textarea',
+                                  type: 'custom',
                                   className: 'col-span-2',
-                                  placeholder: t('server_config.fields.outbound_rules_placeholder'),
+                                  render: (value, onChange) => (
+                                    <RuleListEditor
+                                      value={value as string[]}
+                                      onChange={onChange}
+                                      placeholder={t(
+                                        'server_config.fields.outbound_rules_placeholder',
+                                      )}
+                                    />
+                                  ),
                                 },
                               ]}
-                              value={(field.value || []).map((item) => ({
-                                ...item,
-                                rules: Array.isArray(item.rules) ? item.rules.join('\n') : '',
-                              }))}
-                              onChange={(values) => {
-                                const converted = values.map((item: any) => ({
-                                  name: item.name,
-                                  protocol: item.protocol,
-                                  address: item.address,
-                                  port: item.port,
-                                  cipher: item.cipher,
-                                  password: item.password,
-                                  rules:
-                                    typeof item.rules === 'string'
-                                      ? item.rules.split('\n').map((r: string) => r.trim())
-                                      : item.rules || [],
-                                }));
-                                field.onChange(converted);
-                              }}
+                              value={field.value || []}
+                              onChange={field.onChange}
                             />
                           </FormControl>
                           <FormMessage />
@@ -466,6 +491,10 @@ export default function ServerConfig() {
                       );
                     }}
                   />
+                  <RuleIssueList
+                    set={ruleSet}
+                    issues={ruleIssues.filter((issue) => issue.source.list === 'outbound')}
+                  />
                 </TabsContent>
 
                 <TabsContent value='block' className='space-y-4'>
@@ -475,20 +504,37 @@ export default function ServerConfig() {
                     render={({ field }) => (
                       <FormItem>
                         <FormControl>
-                          <Textarea
+                          <RuleListEditor
+                            value={field.value}
+                            onChange={field.onChange}
                             placeholder={t('server_config.fields.block_rules_placeholder')}
-                            value={(field.value || []).join('\n')}
-                            onChange={(e) => {
-                              const lines = e.target.value.split('\n').map((line) => line.trim());
-                              field.onChange(lines);
-                            }}
-                            rows={10}
                           />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                  <RuleIssueList
+                    set={ruleSet}
+                    issues={ruleIssues.filter((issue) => issue.source.list === 'block')}
+                  />
+                </TabsContent>
+
+                <TabsContent value='rules' className='space-y-4'>
+                  <RuleTransfer set={ruleSet} onImport={handleImportRules} />
+                  <RuleTester set={ruleSet} />
+                  {ruleIssues.length === 0 ? (
+                    <p className='text-muted-foreground text-sm'>
+                      {t('server_config.rules.noIssues')}
+                    </p>
+                  ) : (
+                    <div className='space-y-2'>
+                      <p className='text-sm font-medium'>
+                        {t('server_config.rules.issueCount', { count: ruleIssues.length })}
+                      </p>
+                      <RuleIssueList set={ruleSet} issues={ruleIssues} />
+                    </div>
+                  )}
                 </TabsContent>
               </form>
             </Form>
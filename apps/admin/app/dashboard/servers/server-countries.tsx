@@ -0,0 +1,125 @@
+'use client';
+
+import { CountryLabel } from '@/components/country-label';
+import { updateServer } from '@/services/admin/server';
+import { useServer } from '@/store/server';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useLocale, useTranslations } from 'next-intl';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { groupServersByCountry, planCountryNormalization } from './country';
+
+export default function ServerCountries({ onChanged }: { onChanged?: () => void }) {
+  const t = useTranslations('servers');
+  const locale = useLocale();
+  const { servers, fetchServers } = useServer();
+  const [open, setOpen] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const groups = useMemo(() => groupServersByCountry(servers, [locale]), [servers, locale]);
+  const changes = useMemo(() => planCountryNormalization(servers, [locale]), [servers, locale]);
+
+  async function handleNormalize() {
+    setApplying(true);
+    let succeeded = 0;
+    for (const { server, country } of changes) {
+      try {
+        await updateServer({
+          id: server.id,
+          name: server.name,
+          country,
+          city: server.city,
+          address: server.address,
+          protocols: server.protocols,
+        });
+        succeeded++;
+      } catch (error) {
+        toast.error(`${server.name}: ${t('countries.failed')}`);
+      }
+    }
+    setApplying(false);
+    if (succeeded) toast.success(t('countries.normalized', { count: succeeded }));
+    await fetchServers();
+    onChanged?.();
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant='outline'>
+          <Icon icon='mdi:earth' className='mr-1' />
+          {t('countries.trigger')}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className='w-[600px] max-w-full md:max-w-screen-md'>
+        <SheetHeader>
+          <SheetTitle>{t('countries.title')}</SheetTitle>
+          <SheetDescription>{t('countries.description')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          {groups.length === 0 ? (
+            <p className='text-muted-foreground py-6 text-center text-sm'>{t('countries.empty')}</p>
+          ) : (
+            <div className='divide-y rounded-md border'>
+              {groups.map(({ code, servers: items }) => (
+                <div key={code || 'unknown'} className='space-y-2 p-3 text-sm'>
+                  <div className='flex items-center justify-between gap-2'>
+                    <span className='font-medium'>
+                      {code ? <CountryLabel country={code} /> : t('countries.unknown')}
+                    </span>
+                    <Badge variant='secondary'>{items.length}</Badge>
+                  </div>
+                  <div className='flex flex-wrap gap-1'>
+                    {items.map((server) => (
+                      <Badge key={server.id} variant='outline'>
+                        {server.name}
+                        {server.city && (
+                          <span className='text-muted-foreground ml-1'>{server.city}</span>
+                        )}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+        <SheetFooter className='flex-row justify-end gap-2 pt-3'>
+          <Button variant='outline' onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <ConfirmButton
+            trigger={
+              <Button disabled={applying || changes.length === 0}>
+                {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+                {t('countries.normalize', { count: changes.length })}
+              </Button>
+            }
+            title={t('countries.confirmTitle')}
+            description={t('countries.confirmDescription', {
+              servers: changes
+                .map(({ server, country }) => `${server.name}: ${server.country} → ${country}`)
+                .join(', '),
+            })}
+            onConfirm={handleNormalize}
+            cancelText={t('cancel')}
+            confirmText={t('confirm')}
+          />
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
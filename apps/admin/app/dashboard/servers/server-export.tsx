@@ -0,0 +1,45 @@
+'use client';
+
+import { useServer } from '@/store/server';
+import { downloadFile } from '@/utils/common';
+import { Button } from '@workspace/ui/components/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@workspace/ui/components/dropdown-menu';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { serializeServers, TransferFormat } from './transfer';
+
+export default function ServerExport({ servers }: { servers?: API.Server[] }) {
+  const t = useTranslations('servers');
+  const { servers: allServers } = useServer();
+  const list = servers ?? allServers;
+
+  function handleExport(format: TransferFormat) {
+    const content = serializeServers(list, format);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      `servers-${date}.${format === 'json' ? 'json' : 'yaml'}`,
+      content,
+      format === 'json' ? 'application/json' : 'application/yaml',
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant='outline' disabled={list.length === 0}>
+          <Icon icon='mdi:export' className='mr-2 h-4 w-4' />
+          {t('transfer.export')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align='end'>
+        <DropdownMenuItem onClick={() => handleExport('yaml')}>YAML</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
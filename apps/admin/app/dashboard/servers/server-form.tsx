@@ -41,13 +41,15 @@ import {
   SheetTrigger,
 } from '@workspace/ui/components/sheet';
 import { Switch } from '@workspace/ui/components/switch';
+import { CountrySelect } from '@workspace/ui/custom-components/country-select';
 import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
 import { Icon } from '@workspace/ui/custom-components/icon';
 import { cn } from '@workspace/ui/lib/utils';
-import { useTranslations } from 'next-intl';
-import { useEffect, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { useEffect, useMemo, useState } from 'react';
 import { useForm, useWatch } from 'react-hook-form';
 import { toast } from 'sonner';
+import { normalizeCountry } from './country';
 import {
   FieldConfig,
   formSchema,
@@ -56,6 +58,10 @@ import {
   PROTOCOL_FIELDS,
   protocols as PROTOCOLS,
 } from './form-schema';
+import { lintServerProtocols } from './lint';
+import { mergePastedProtocol, PastedProtocol } from './paste-import';
+import { ServerLintList, ServerLintSummary } from './server-lint';
+import ServerPasteImport from './server-paste-import';
 
 function DynamicField({
   field,
@@ -371,10 +377,11 @@ export default function ServerForm(props: {
 }) {
   const { trigger, title, loading, initialValues, onSubmit } = props;
   const t = useTranslations('servers');
+  const locale = useLocale();
   const [open, setOpen] = useState(false);
   const [accordionValue, setAccordionValue] = useState<string>();
 
-  const { isProtocolUsedInNodes } = useNode();
+  const { nodes, isProtocolUsedInNodes } = useNode();
 
   const form = useForm({
     resolver: zodResolver(formSchema),
@@ -390,15 +397,23 @@ export default function ServerForm(props: {
   const { control } = form;
 
   const protocolsValues = useWatch({ control, name: 'protocols' });
+  const lintIssues = useMemo(
+    () =>
+      lintServerProtocols(
+        protocolsValues || [],
+        initialValues?.id ? nodes.filter((node) => node.server_id === initialValues.id) : [],
+      ),
+    [protocolsValues, nodes, initialValues?.id],
+  );
 
   useEffect(() => {
     if (initialValues) {
       form.reset({
         name: '',
         address: '',
-        country: '',
         city: '',
         ...initialValues,
+        country: normalizeCountry(initialValues.country, [locale]),
         protocols: PROTOCOLS.map((type) => {
           const existingProtocol = initialValues.protocols?.find((p) => p.type === type);
           const defaultConfig = getProtocolDefaultConfig(type);
@@ -430,6 +445,23 @@ export default function ServerForm(props: {
     }
   }
 
+  function handlePasteImport(results: PastedProtocol[]) {
+    results.forEach((result) => {
+      const i = PROTOCOLS.findIndex((type) => type === result.type);
+      if (i < 0) return;
+      const current = form.getValues(`protocols.${i}`);
+      form.setValue(`protocols.${i}`, {
+        ...mergePastedProtocol(current, result.protocol ?? {}),
+        enable: true,
+      });
+    });
+    const [first] = results;
+    if (first?.address && !form.getValues('address')) form.setValue('address', first.address);
+    if (first?.name && !form.getValues('name')) form.setValue('name', first.name);
+    if (first?.type) setAccordionValue(first.type);
+    toast.success(t('pasteImport.imported', { count: results.length }));
+  }
+
   return (
     <Sheet open={open} onOpenChange={setOpen}>
       <SheetTrigger asChild>
@@ -496,7 +528,12 @@ export default function ServerForm(props: {
                     <FormItem>
                       <FormLabel>{t('country')}</FormLabel>
                       <FormControl>
-                        <EnhancedInput {...field} onValueChange={(v) => field.onChange(v)} />
+                        <CountrySelect
+                          value={field.value}
+                          locale={locale}
+                          placeholder={t('countryPlaceholder')}
+                          onChange={field.onChange}
+                        />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -516,14 +553,18 @@ export default function ServerForm(props: {
                   )}
                 />
               </div>
-              <div className='my-3'>
-                <h3 className='text-foreground text-sm font-semibold'>
-                  {t('protocol_configurations')}
-                </h3>
-                <p className='text-muted-foreground mt-1 text-xs'>
-                  {t('protocol_configurations_desc')}
-                </p>
+              <div className='my-3 flex items-start justify-between gap-2'>
+                <div>
+                  <h3 className='text-foreground text-sm font-semibold'>
+                    {t('protocol_configurations')}
+                  </h3>
+                  <p className='text-muted-foreground mt-1 text-xs'>
+                    {t('protocol_configurations_desc')}
+                  </p>
+                </div>
+                <ServerPasteImport onImport={handlePasteImport} />
               </div>
+              <ServerLintSummary issues={lintIssues} />
 
               <Accordion
                 type='single'
@@ -540,6 +581,7 @@ export default function ServerForm(props: {
                   const current = (protocolsValues[i] || {}) as Record<string, any>;
                   const isEnabled = current?.enable;
                   const fields = PROTOCOL_FIELDS[type] || [];
+                  const issues = lintIssues.filter((issue) => issue.protocol === type);
                   return (
                     <AccordionItem key={type} value={type} className='mb-2 rounded-lg border'>
                       <AccordionTrigger className='px-4 py-3 hover:no-underline'>
@@ -558,6 +600,13 @@ export default function ServerForm(props: {
                                 </Badge>
                               )}
                               {current.port && <Badge className='text-xs'>{current.port}</Badge>}
+                              {issues.length > 0 && (
+                                <Icon
+                                  icon='mdi:alert-outline'
+                                  className='size-4 text-amber-500'
+                                  aria-label={t('lint.title', { count: issues.length })}
+                                />
+                              )}
                             </div>
                             <div className='flex items-center gap-1'>
                               <span
@@ -587,6 +636,7 @@ export default function ServerForm(props: {
                       </AccordionTrigger>
                       <AccordionContent className='px-4 pb-4 pt-0'>
                         <div className='-mx-4 space-y-4 rounded-b-lg border-t px-4 pt-4'>
+                          <ServerLintList issues={issues} />
                           {renderGroupCard('basic', fields, 'basic', control, form, i, current, t)}
                           {renderGroupCard('obfs', fields, 'obfs', control, form, i, current, t)}
                           {renderGroupCard(
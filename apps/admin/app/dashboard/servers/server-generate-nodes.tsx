@@ -0,0 +1,213 @@
+'use client';
+
+import { createNode } from '@/services/admin/server';
+import { useNode } from '@/store/node';
+import { useServer } from '@/store/server';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { Checkbox } from '@workspace/ui/components/checkbox';
+import { Label } from '@workspace/ui/components/label';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { Switch } from '@workspace/ui/components/switch';
+import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import TagInput from '@workspace/ui/custom-components/tag-input';
+import { useTranslations } from 'next-intl';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_NODE_NAME_TEMPLATE,
+  NODE_TEMPLATE_VARIABLES,
+  planGeneratedNodes,
+} from './generate-nodes';
+import { useLocalSettings } from './use-local-settings';
+
+const GENERATOR_SETTINGS_KEY = 'ppanel:node-generator';
+
+// Placeholders offered as one-click tag presets
+const TAG_PRESETS = ['{country}', '{city}', '{protocol}'];
+
+function useGeneratorSettings(active: boolean) {
+  return useLocalSettings(
+    GENERATOR_SETTINGS_KEY,
+    active,
+    { template: DEFAULT_NODE_NAME_TEMPLATE, tags: [] as string[] },
+    (saved) => (saved?.template ? { template: saved.template, tags: saved.tags || [] } : undefined),
+  );
+}
+
+export default function ServerGenerateNodes({ servers }: { servers: API.Server[] }) {
+  const t = useTranslations('servers');
+  const { getAvailableProtocols } = useServer();
+  const { isProtocolUsedInNodes, getAllAvailableTags, fetchNodes, fetchTags } = useNode();
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useGeneratorSettings(open);
+  const [enabled, setEnabled] = useState(false);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [applying, setApplying] = useState(false);
+
+  const rows = useMemo(
+    () =>
+      planGeneratedNodes(servers, getAvailableProtocols, isProtocolUsedInNodes, {
+        ...settings,
+        enabled,
+      }),
+    [servers, getAvailableProtocols, isProtocolUsedInNodes, settings, enabled],
+  );
+  const keyOf = (row: (typeof rows)[number]) => `${row.server.id}:${row.protocol}`;
+  const selected = rows.filter((row) => !row.covered && !excluded.includes(keyOf(row)));
+
+  async function handleApply() {
+    setApplying(true);
+    let succeeded = 0;
+    for (const row of selected) {
+      try {
+        await createNode(row.body);
+        succeeded++;
+      } catch (error) {
+        toast.error(`${row.body.name}: ${t('generateNodes.failed')}`);
+      }
+    }
+    setApplying(false);
+    if (succeeded) toast.success(t('generateNodes.created', { count: succeeded }));
+    fetchNodes();
+    fetchTags();
+    setOpen(false);
+  }
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setExcluded([]);
+      }}
+    >
+      <SheetTrigger asChild>
+        <Button variant='outline'>{t('generateNodes.trigger')}</Button>
+      </SheetTrigger>
+      <SheetContent className='w-[800px] max-w-full md:max-w-screen-lg'>
+        <SheetHeader>
+          <SheetTitle>{t('generateNodes.title', { count: servers.length })}</SheetTitle>
+          <SheetDescription>{t('generateNodes.description')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          <div className='space-y-4'>
+            <div className='space-y-1'>
+              <Label>{t('generateNodes.template')}</Label>
+              <EnhancedInput
+                value={settings.template}
+                onValueChange={(value) => setSettings({ template: value as string })}
+                placeholder={DEFAULT_NODE_NAME_TEMPLATE}
+              />
+              <p className='text-muted-foreground text-xs'>
+                {t('generateNodes.variables', {
+                  variables: NODE_TEMPLATE_VARIABLES.map((name) => `{${name}}`).join(' '),
+                })}
+              </p>
+            </div>
+
+            <div className='space-y-1'>
+              <Label>{t('generateNodes.tags')}</Label>
+              <TagInput
+                value={settings.tags}
+                onChange={(tags) => setSettings({ tags })}
+                options={getAllAvailableTags()}
+              />
+              <div className='flex flex-wrap items-center gap-1'>
+                <span className='text-muted-foreground text-xs'>{t('generateNodes.presets')}</span>
+                {TAG_PRESETS.map((preset) => (
+                  <Badge
+                    key={preset}
+                    variant={settings.tags.includes(preset) ? 'default' : 'outline'}
+                    className='cursor-pointer font-mono'
+                    onClick={() =>
+                      setSettings({
+                        tags: settings.tags.includes(preset)
+                          ? settings.tags.filter((tag) => tag !== preset)
+                          : [...settings.tags, preset],
+                      })
+                    }
+                  >
+                    {preset}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className='flex items-center gap-2'>
+              <Switch id='generate-enabled' checked={enabled} onCheckedChange={setEnabled} />
+              <Label htmlFor='generate-enabled'>{t('generateNodes.enabled')}</Label>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className='text-muted-foreground py-6 text-center text-sm'>
+                {t('generateNodes.empty')}
+              </p>
+            ) : (
+              <div className='divide-y rounded-md border'>
+                {rows.map((row) => {
+                  const key = keyOf(row);
+                  return (
+                    <label
+                      key={key}
+                      className='flex items-center justify-between gap-3 p-3 text-sm'
+                    >
+                      <div className='flex min-w-0 items-center gap-3'>
+                        <Checkbox
+                          disabled={row.covered}
+                          checked={!row.covered && !excluded.includes(key)}
+                          onCheckedChange={(checked) =>
+                            setExcluded((prev) =>
+                              checked ? prev.filter((item) => item !== key) : [...prev, key],
+                            )
+                          }
+                        />
+                        <div className='min-w-0'>
+                          <div className='truncate font-medium'>{row.body.name}</div>
+                          <div className='text-muted-foreground font-mono text-xs'>
+                            {row.server.name} · {row.protocol} · {row.body.address}:{row.port}
+                          </div>
+                          {row.body.tags && row.body.tags.length > 0 && (
+                            <div className='mt-1 flex flex-wrap gap-1'>
+                              {row.body.tags.map((tag) => (
+                                <Badge key={tag} variant='outline'>
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      {row.covered && (
+                        <Badge variant='secondary'>{t('generateNodes.covered')}</Badge>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className='flex-row justify-end gap-2 pt-3'>
+          <Button variant='outline' onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <Button disabled={applying || selected.length === 0} onClick={handleApply}>
+            {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+            {t('generateNodes.apply', { count: selected.length })}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
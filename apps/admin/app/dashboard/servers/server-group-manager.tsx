@@ -0,0 +1,258 @@
+'use client';
+
+import { useServer } from '@/store/server';
+import {
+  ServerGroup,
+  ServerGroupDraft,
+  ServerGroupType,
+  useServerGroup,
+} from '@/store/server-group';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@workspace/ui/components/dropdown-menu';
+import { Label } from '@workspace/ui/components/label';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@workspace/ui/components/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
+import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { SERVER_GROUP_TYPES, UNGROUPED } from './server-groups';
+
+const EMPTY_DRAFT: ServerGroupDraft = { name: '', type: 'region', description: '' };
+
+export default function ServerGroupManager({ onChanged }: { onChanged?: () => void }) {
+  const t = useTranslations('servers');
+  const { groups, createGroup, updateGroup, deleteGroup, getServerGroupId } = useServerGroup();
+  const { servers } = useServer();
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number>();
+  const [draft, setDraft] = useState<ServerGroupDraft>(EMPTY_DRAFT);
+
+  const countServers = (groupId: number) =>
+    servers.filter((server) => getServerGroupId(server.id) === groupId).length;
+
+  function startEdit(group?: ServerGroup) {
+    setEditingId(group?.id);
+    setDraft(
+      group ? { name: group.name, type: group.type, description: group.description } : EMPTY_DRAFT,
+    );
+  }
+
+  function handleSave() {
+    if (editingId) {
+      updateGroup(editingId, draft);
+      toast.success(t('updated'));
+    } else {
+      createGroup(draft);
+      toast.success(t('created'));
+    }
+    startEdit();
+    onChanged?.();
+  }
+
+  function handleDelete(group: ServerGroup) {
+    deleteGroup(group.id);
+    toast.success(t('deleted'));
+    if (editingId === group.id) startEdit();
+    onChanged?.();
+  }
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) startEdit();
+      }}
+    >
+      <SheetTrigger asChild>
+        <Button variant='outline'>
+          <Icon icon='mdi:folder-multiple-outline' className='mr-1' />
+          {t('groups.manage')}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className='w-[600px] max-w-full md:max-w-screen-md'>
+        <SheetHeader>
+          <SheetTitle>{t('groups.title')}</SheetTitle>
+          <SheetDescription>{t('groups.description')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          <div className='space-y-4 pt-4'>
+            <p className='text-muted-foreground text-xs'>{t('groups.localHint')}</p>
+            <div className='space-y-3 rounded-md border p-3'>
+              <div className='grid grid-cols-3 gap-2'>
+                <div className='col-span-2 space-y-1'>
+                  <Label>{t('name')}</Label>
+                  <EnhancedInput
+                    value={draft.name}
+                    onValueChange={(value) => setDraft({ ...draft, name: value as string })}
+                  />
+                </div>
+                <div className='space-y-1'>
+                  <Label>{t('groups.type')}</Label>
+                  <Select
+                    value={draft.type}
+                    onValueChange={(value) =>
+                      setDraft({ ...draft, type: value as ServerGroupType })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SERVER_GROUP_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {t(`groups.types.${type}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className='space-y-1'>
+                <Label>{t('groups.groupDescription')}</Label>
+                <EnhancedInput
+                  value={draft.description}
+                  onValueChange={(value) => setDraft({ ...draft, description: value as string })}
+                />
+              </div>
+              <div className='flex justify-end gap-2'>
+                {editingId && (
+                  <Button variant='outline' onClick={() => startEdit()}>
+                    {t('cancel')}
+                  </Button>
+                )}
+                <Button disabled={!draft.name.trim()} onClick={handleSave}>
+                  {editingId ? t('groups.update') : t('groups.create')}
+                </Button>
+              </div>
+            </div>
+
+            {groups.length === 0 ? (
+              <p className='text-muted-foreground py-6 text-center text-sm'>{t('groups.empty')}</p>
+            ) : (
+              <div className='divide-y rounded-md border'>
+                {groups.map((group) => {
+                  const count = countServers(group.id);
+                  return (
+                    <div key={group.id} className='flex items-center justify-between gap-2 p-3'>
+                      <div className='min-w-0 space-y-1 text-sm'>
+                        <div className='flex items-center gap-2'>
+                          <span className='font-medium'>{group.name}</span>
+                          <Badge variant='outline'>{t(`groups.types.${group.type}`)}</Badge>
+                          <Badge variant='secondary'>{t('groups.servers', { count })}</Badge>
+                        </div>
+                        {group.description && (
+                          <p className='text-muted-foreground truncate text-xs'>
+                            {group.description}
+                          </p>
+                        )}
+                      </div>
+                      <div className='flex shrink-0 gap-2'>
+                        <Button size='sm' variant='outline' onClick={() => startEdit(group)}>
+                          {t('edit')}
+                        </Button>
+                        <ConfirmButton
+                          trigger={
+                            <Button size='sm' variant='destructive' disabled={count > 0}>
+                              {t('delete')}
+                            </Button>
+                          }
+                          title={t('groups.confirmDeleteTitle')}
+                          description={t('groups.confirmDeleteDescription', { name: group.name })}
+                          onConfirm={() => handleDelete(group)}
+                          cancelText={t('cancel')}
+                          confirmText={t('confirm')}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className='flex-row justify-end gap-2 pt-3'>
+          <Button variant='outline' onClick={() => setOpen(false)}>
+            {t('groups.close')}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+/** Batch action that moves the selected servers into a group (or out of all groups). */
+export function ServerGroupAssign({
+  servers,
+  onApplied,
+}: {
+  servers: API.Server[];
+  onApplied?: () => void;
+}) {
+  const t = useTranslations('servers');
+  const { groups, assignServers, getServerGroupId } = useServerGroup();
+
+  function handleAssign(groupId: number) {
+    const changed = servers.filter(
+      (server) => (getServerGroupId(server.id) || UNGROUPED) !== groupId,
+    );
+    assignServers(
+      changed.map((server) => server.id),
+      groupId,
+    );
+    if (changed.length) toast.success(t('groups.assigned', { count: changed.length }));
+    onApplied?.();
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant='outline'>{t('groups.assign')}</Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        <DropdownMenuLabel className='text-muted-foreground max-w-60 text-xs font-normal'>
+          {t('groups.localHint')}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {groups.map((group) => (
+          <DropdownMenuItem key={group.id} onSelect={() => handleAssign(group.id)}>
+            {group.name}
+            <Badge variant='outline' className='ml-auto'>
+              {t(`groups.types.${group.type}`)}
+            </Badge>
+          </DropdownMenuItem>
+        ))}
+        {groups.length > 0 && <DropdownMenuSeparator />}
+        <DropdownMenuItem onSelect={() => handleAssign(UNGROUPED)}>
+          {t('groups.ungrouped')}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
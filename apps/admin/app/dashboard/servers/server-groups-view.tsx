@@ -0,0 +1,261 @@
+'use client';
+
+import { CountryLabel } from '@/components/country-label';
+import { resetSortWithServer } from '@/services/admin/server';
+import { useServer } from '@/store/server';
+import { useServerGroup } from '@/store/server-group';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@workspace/ui/components/collapsible';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@workspace/ui/components/table';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  getGroupStats,
+  groupServers,
+  moveSection,
+  planGroupSort,
+  ServerGroupSection,
+  UNGROUPED,
+} from './server-groups';
+import { ServerHealthCell } from './server-health';
+
+function GroupSection({
+  section,
+  pushInterval,
+  open,
+  onOpenChange,
+  onMove,
+  canMoveUp,
+  canMoveDown,
+  onFilter,
+}: {
+  section: ServerGroupSection;
+  pushInterval?: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMove: (offset: number) => void;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onFilter?: () => void;
+}) {
+  const t = useTranslations('servers');
+  const stats = getGroupStats(section.servers, pushInterval);
+  const name =
+    section.id === UNGROUPED ? t('groups.ungrouped') : (section.group?.name ?? `#${section.id}`);
+
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange} className='rounded-md border'>
+      <div className='flex flex-wrap items-center justify-between gap-2 p-3'>
+        <CollapsibleTrigger asChild>
+          <button type='button' className='flex min-w-0 items-center gap-2 text-left'>
+            <Icon
+              icon='mdi:chevron-right'
+              className={cn('size-5 shrink-0 transition-transform', open && 'rotate-90')}
+            />
+            <span className='font-medium'>{name}</span>
+            {section.group && (
+              <Badge variant='outline'>{t(`groups.types.${section.group.type}`)}</Badge>
+            )}
+            {section.group?.description && (
+              <span className='text-muted-foreground truncate text-xs'>
+                {section.group.description}
+              </span>
+            )}
+          </button>
+        </CollapsibleTrigger>
+        <div className='flex items-center gap-2 text-xs'>
+          <Badge variant={stats.online < stats.total ? 'destructive' : 'secondary'}>
+            {t('groups.online', { online: stats.online, total: stats.total })}
+          </Badge>
+          <Badge variant='outline'>{t('groups.avgCpu', { value: stats.cpu.toFixed(1) })}</Badge>
+          <Badge variant='outline'>{t('groups.avgMem', { value: stats.mem.toFixed(1) })}</Badge>
+          <Badge variant='outline'>{t('groups.users', { count: stats.users })}</Badge>
+          {onFilter && (
+            <Button size='icon' variant='ghost' title={t('groups.showInTable')} onClick={onFilter}>
+              <Icon icon='mdi:filter-outline' />
+            </Button>
+          )}
+          <Button
+            size='icon'
+            variant='ghost'
+            title={t('groups.moveUp')}
+            disabled={!canMoveUp}
+            onClick={() => onMove(-1)}
+          >
+            <Icon icon='mdi:arrow-up' />
+          </Button>
+          <Button
+            size='icon'
+            variant='ghost'
+            title={t('groups.moveDown')}
+            disabled={!canMoveDown}
+            onClick={() => onMove(1)}
+          >
+            <Icon icon='mdi:arrow-down' />
+          </Button>
+        </div>
+      </div>
+      <CollapsibleContent>
+        {section.servers.length === 0 ? (
+          <p className='text-muted-foreground border-t py-4 text-center text-sm'>
+            {t('groups.noServers')}
+          </p>
+        ) : (
+          <Table className='border-t'>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('id')}</TableHead>
+                <TableHead>{t('name')}</TableHead>
+                <TableHead>{t('address')}</TableHead>
+                <TableHead>{t('status')}</TableHead>
+                <TableHead>{t('cpu')}</TableHead>
+                <TableHead>{t('memory')}</TableHead>
+                <TableHead>{t('onlineUsers')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {section.servers.map((server) => (
+                <TableRow key={server.id}>
+                  <TableCell>
+                    <Badge>{server.id}</Badge>
+                  </TableCell>
+                  <TableCell>{server.name}</TableCell>
+                  <TableCell>
+                    <div className='flex items-center gap-1'>
+                      {(server.country || server.city) && (
+                        <Badge variant='outline'>
+                          <CountryLabel country={server.country} city={server.city} />
+                        </Badge>
+                      )}
+                      <Badge variant='secondary'>{server.address}</Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <ServerHealthCell server={server} pushInterval={pushInterval} />
+                  </TableCell>
+                  <TableCell>{(server.status?.cpu ?? 0).toFixed(2)}%</TableCell>
+                  <TableCell>{(server.status?.mem ?? 0).toFixed(2)}%</TableCell>
+                  <TableCell>{server.status?.online?.length ?? 0}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+/**
+ * All servers split into collapsible group sections. Reordering a group moves
+ * its servers as a block by rewriting their sort values.
+ */
+export default function ServerGroupsView({
+  toolbar,
+  pushInterval,
+  pollingInterval,
+  onChanged,
+  onFilter,
+}: {
+  toolbar?: ReactNode;
+  pushInterval?: number;
+  pollingInterval?: number;
+  onChanged?: () => void;
+  onFilter?: (groupId: number) => void;
+}) {
+  const t = useTranslations('servers');
+  const { servers, fetchServers } = useServer();
+  const { groups, assignments } = useServerGroup();
+  const [collapsed, setCollapsed] = useState<number[]>([]);
+  const [sorting, setSorting] = useState(false);
+
+  const sections = useMemo(
+    () => groupServers(servers, groups, assignments),
+    [servers, groups, assignments],
+  );
+  // Only populated groups can be reordered; the ungrouped section stays last
+  const movable = sections.filter((section) => section.id !== UNGROUPED && section.servers.length);
+
+  useEffect(() => {
+    if (!pollingInterval) return;
+    const timer = setInterval(fetchServers, pollingInterval);
+    return () => clearInterval(timer);
+  }, [pollingInterval, fetchServers]);
+
+  async function handleMove(id: number, offset: number) {
+    const changes = planGroupSort(moveSection(movable, id, offset));
+    if (changes.length === 0) return;
+    setSorting(true);
+    try {
+      await resetSortWithServer({ sort: changes });
+      toast.success(t('sorted_success'));
+      await fetchServers();
+      onChanged?.();
+    } finally {
+      setSorting(false);
+    }
+  }
+
+  return (
+    <div className='flex flex-col gap-4'>
+      <div className='flex flex-wrap-reverse items-center justify-between gap-4'>
+        <div className='flex gap-2'>
+          <Button variant='outline' size='icon' onClick={() => fetchServers()}>
+            <Icon icon='mdi:refresh' />
+          </Button>
+          <Button
+            variant='outline'
+            onClick={() =>
+              setCollapsed(collapsed.length ? [] : sections.map((section) => section.id))
+            }
+          >
+            {collapsed.length ? t('groups.expandAll') : t('groups.collapseAll')}
+          </Button>
+        </div>
+        <div className='flex flex-1 items-center justify-end gap-2'>{toolbar}</div>
+      </div>
+      <p className='text-muted-foreground text-xs'>{t('groups.localHint')}</p>
+      {sections.length === 0 ? (
+        <p className='text-muted-foreground py-6 text-center text-sm'>{t('groups.noServers')}</p>
+      ) : (
+        sections.map((section) => {
+          const index = movable.indexOf(section);
+          return (
+            <GroupSection
+              key={section.id}
+              section={section}
+              pushInterval={pushInterval}
+              open={!collapsed.includes(section.id)}
+              onOpenChange={(open) =>
+                setCollapsed(
+                  open ? collapsed.filter((id) => id !== section.id) : [...collapsed, section.id],
+                )
+              }
+              canMoveUp={!sorting && index > 0}
+              canMoveDown={!sorting && index >= 0 && index < movable.length - 1}
+              onMove={(offset) => handleMove(section.id, offset)}
+              onFilter={
+                onFilter && section.id !== UNGROUPED ? () => onFilter(section.id) : undefined
+              }
+            />
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { ServerGroup } from '@/store/server-group';
+import { describe, expect, it } from 'vitest';
+import {
+  getGroupStats,
+  groupServers,
+  moveSection,
+  planGroupSort,
+  UNGROUPED,
+} from './server-groups';
+
+function server(id: number, sort: number, status?: Partial<API.ServerStatus>) {
+  return {
+    id,
+    sort,
+    last_reported_at: Math.floor(Date.now() / 1000),
+    status: { status: 'online', cpu: 0, mem: 0, disk: 0, online: [], ...status },
+  } as unknown as API.Server;
+}
+
+const groups: ServerGroup[] = [
+  { id: 10, name: 'asia', type: 'region', description: '' },
+  { id: 20, name: 'eu', type: 'region', description: '' },
+  { id: 30, name: 'empty', type: 'purpose', description: '' },
+];
+
+describe('groupServers', () => {
+  it('orders sections by their first server, then empty groups, then ungrouped', () => {
+    const sections = groupServers(
+      [server(1, 3), server(2, 1), server(3, 2), server(4, 4)],
+      groups,
+      { 1: 10, 2: 20, 3: 99 },
+    );
+    expect(sections.map((s) => [s.id, s.servers.map((sv) => sv.id)])).toEqual([
+      [20, [2]],
+      [10, [1]],
+      [30, []],
+      [UNGROUPED, [3, 4]],
+    ]);
+  });
+});
+
+describe('getGroupStats', () => {
+  it('averages usage over online servers and counts users everywhere', () => {
+    const stats = getGroupStats([
+      server(1, 1, { cpu: 20, mem: 40, online: [{}, {}] as API.ServerStatus['online'] }),
+      server(2, 2, { cpu: 40, mem: 60 }),
+      server(3, 3, { status: 'offline', cpu: 99, online: [{}] as API.ServerStatus['online'] }),
+    ]);
+    expect(stats).toEqual({ total: 3, online: 2, cpu: 30, mem: 50, users: 3 });
+    expect(getGroupStats([])).toEqual({ total: 0, online: 0, cpu: 0, mem: 0, users: 0 });
+  });
+});
+
+describe('moveSection and planGroupSort', () => {
+  it('reuses sort values to keep groups contiguous', () => {
+    const sections = groupServers([server(1, 1), server(2, 2), server(3, 3)], groups, {
+      1: 10,
+      2: 20,
+      3: 10,
+    });
+    const moved = moveSection(sections, 20, -1);
+    expect(moved.map((s) => s.id)).toEqual([20, 10, 30]);
+    expect(moveSection(sections, 10, -1)).toBe(sections);
+    expect(planGroupSort(moved)).toEqual([
+      { id: 2, sort: 1 },
+      { id: 1, sort: 2 },
+    ]);
+  });
+
+  it('spreads out duplicate sort values', () => {
+    const sections = groupServers([server(1, 0), server(2, 0)], [], {});
+    expect(planGroupSort(sections)).toEqual([{ id: 2, sort: 1 }]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { ServerGroup, ServerGroupType } from '@/store/server-group';
+import { getServerHealth } from './health';
+
+export const SERVER_GROUP_TYPES: ServerGroupType[] = ['region', 'provider', 'purpose'];
+
+// Sections use 0 for servers that are not assigned to any group
+export const UNGROUPED = 0;
+
+export interface ServerGroupSection {
+  id: number;
+  group?: ServerGroup;
+  servers: API.Server[];
+}
+
+export interface ServerGroupStats {
+  total: number;
+  online: number;
+  cpu: number;
+  mem: number;
+  users: number;
+}
+
+function bySort(a: API.Server, b: API.Server) {
+  return (a.sort ?? 0) - (b.sort ?? 0) || a.id - b.id;
+}
+
+/**
+ * Split servers into one section per group. Sections follow the position of
+ * their first server so the server sort order doubles as the group order;
+ * empty groups come next and ungrouped servers always come last. Assignments
+ * to groups that no longer exist count as ungrouped.
+ */
+export function groupServers(
+  servers: API.Server[],
+  groups: ServerGroup[],
+  assignments: Record<number, number>,
+) {
+  const sections = new Map<number, ServerGroupSection>();
+  for (const server of [...servers].sort(bySort)) {
+    const assigned = assignments[server.id];
+    const id = groups.some((g) => g.id === assigned) ? assigned! : UNGROUPED;
+    if (!sections.has(id)) {
+      sections.set(id, { id, group: groups.find((g) => g.id === id), servers: [] });
+    }
+    sections.get(id)!.servers.push(server);
+  }
+  for (const group of groups) {
+    if (!sections.has(group.id)) sections.set(group.id, { id: group.id, group, servers: [] });
+  }
+  return [...sections.values()].sort((a, b) => {
+    if (a.id === UNGROUPED || b.id === UNGROUPED) return a.id === UNGROUPED ? 1 : -1;
+    if (!a.servers.length || !b.servers.length) return b.servers.length - a.servers.length;
+    return 0;
+  });
+}
+
+export function getGroupStats(servers: API.Server[], pushInterval?: number): ServerGroupStats {
+  const online = servers.filter((server) => getServerHealth(server, pushInterval) === 'online');
+  const average = (key: 'cpu' | 'mem') =>
+    online.length
+      ? online.reduce((sum, server) => sum + (server.status?.[key] ?? 0), 0) / online.length
+      : 0;
+  return {
+    total: servers.length,
+    online: online.length,
+    cpu: average('cpu'),
+    mem: average('mem'),
+    users: servers.reduce((sum, server) => sum + (server.status?.online?.length ?? 0), 0),
+  };
+}
+
+export function moveSection(sections: ServerGroupSection[], id: number, offset: number) {
+  const index = sections.findIndex((section) => section.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= sections.length) return sections;
+  const next = [...sections];
+  const [moved] = next.splice(index, 1);
+  next.splice(target, 0, moved!);
+  return next;
+}
+
+/**
+ * Reuse the existing sort values so that servers end up contiguous per group,
+ * in section order, and return only the servers whose sort changed.
+ */
+export function planGroupSort(sections: ServerGroupSection[]): API.SortItem[] {
+  const ordered = sections.flatMap((section) => section.servers);
+  const sorts = ordered.map((server) => server.sort ?? 0).sort((a, b) => a - b);
+  // Duplicate sort values would leave the order ambiguous, so spread them out
+  for (let i = 1; i < sorts.length; i++) {
+    if (sorts[i]! <= sorts[i - 1]!) sorts[i] = sorts[i - 1]! + 1;
+  }
+  return ordered
+    .map((server, index) => ({ id: server.id, sort: sorts[index]! }))
+    .filter((item, index) => item.sort !== ordered[index]!.sort);
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useServer } from '@/store/server';
+import { Button } from '@workspace/ui/components/button';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_PUSH_INTERVAL,
+  formatAge,
+  getHeartbeatAge,
+  getServerHealth,
+  isUnhealthy,
+  ServerHealth,
+} from './health';
+
+const HEALTH_DOT: Record<ServerHealth, string> = {
+  online: 'bg-emerald-500',
+  degraded: 'bg-amber-500',
+  stale: 'bg-orange-500',
+  offline: 'bg-zinc-400',
+};
+
+// Re-evaluate heartbeat age between table refreshes
+const RECHECK_INTERVAL = 15 * 1000;
+
+export function ServerHealthCell({
+  server,
+  pushInterval,
+}: {
+  server: API.Server;
+  pushInterval?: number;
+}) {
+  const t = useTranslations('servers');
+  const health = getServerHealth(server, pushInterval);
+  const age = getHeartbeatAge(server);
+  return (
+    <div className='flex flex-col gap-0.5'>
+      <div className='flex items-center gap-2'>
+        <span className={cn('inline-block h-2.5 w-2.5 rounded-full', HEALTH_DOT[health])} />
+        <span className='text-sm'>{t(`health.${health}`)}</span>
+      </div>
+      <span className='text-muted-foreground text-xs'>
+        {t('health.lastReported', { age: formatAge(age) })}
+      </span>
+    </div>
+  );
+}
+
+function notify(title: string, body: string) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag: `server-health-${title}` });
+  } catch {
+    // Some browsers only allow notifications from a service worker
+  }
+}
+
+/**
+ * Keep track of every server's health and raise a toast (plus a browser
+ * notification when permitted) whenever it changes. The whole fleet is
+ * refreshed once per push interval, so servers outside the visible table page
+ * are watched too.
+ */
+export function useServerHealthAlerts(pushInterval?: number) {
+  const t = useTranslations('servers');
+  const { servers, fetchServers } = useServer();
+  const states = useRef(new Map<number, ServerHealth>());
+  const latest = useRef<API.Server[]>([]);
+
+  const track = useCallback(
+    (servers: API.Server[]) => {
+      latest.current = servers;
+      const now = Date.now();
+      servers.forEach((server) => {
+        const next = getServerHealth(server, pushInterval, now);
+        const prev = states.current.get(server.id);
+        states.current.set(server.id, next);
+        if (!prev || prev === next) return;
+
+        const message = t('health.transition', {
+          name: server.name,
+          from: t(`health.${prev}`),
+          to: t(`health.${next}`),
+        });
+        if (isUnhealthy(next)) {
+          toast.warning(message);
+        } else {
+          toast.success(message);
+        }
+        notify(server.name, message);
+      });
+    },
+    [pushInterval, t],
+  );
+
+  useEffect(() => track(servers), [servers, track]);
+
+  useEffect(() => {
+    const timer = setInterval(fetchServers, (pushInterval || DEFAULT_PUSH_INTERVAL) * 1000);
+    return () => clearInterval(timer);
+  }, [pushInterval, fetchServers]);
+
+  useEffect(() => {
+    const timer = setInterval(() => track(latest.current), RECHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [track]);
+}
+
+export function HealthNotificationToggle() {
+  const t = useTranslations('servers');
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+
+  useEffect(() => {
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+  }, []);
+
+  if (permission === 'unsupported') return null;
+
+  return (
+    <Button
+      variant='outline'
+      size='icon'
+      title={
+        permission === 'granted'
+          ? t('health.notificationsOn')
+          : permission === 'denied'
+            ? t('health.notificationsBlocked')
+            : t('health.enableNotifications')
+      }
+      disabled={permission !== 'default'}
+      onClick={async () => {
+        setPermission(await Notification.requestPermission());
+      }}
+    >
+      <Icon icon={permission === 'granted' ? 'mdi:bell-ring' : 'mdi:bell-off-outline'} />
+    </Button>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { createServer, updateServer } from '@/services/admin/server';
+import { useServer } from '@/store/server';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@workspace/ui/components/table';
+import { Textarea } from '@workspace/ui/components/textarea';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { buildImportPlan, ImportAction, parseServersDocument } from './transfer';
+
+const ACTION_VARIANT: Record<ImportAction, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  unchanged: 'outline',
+  invalid: 'destructive',
+};
+
+export default function ServerImport({ onImported }: { onImported?: () => void }) {
+  const t = useTranslations('servers');
+  const { servers, fetchServers } = useServer();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [applying, setApplying] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const { rows, parseError } = useMemo(() => {
+    try {
+      return { rows: buildImportPlan(parseServersDocument(text), servers), parseError: '' };
+    } catch (error) {
+      return { rows: [], parseError: (error as Error).message };
+    }
+  }, [text, servers]);
+
+  const applicable = rows.filter((row) => row.action === 'create' || row.action === 'update');
+  const invalidCount = rows.filter((row) => row.action === 'invalid').length;
+
+  async function handleFile(file?: File) {
+    if (!file) return;
+    setText(await file.text());
+    if (fileRef.current) fileRef.current.value = '';
+  }
+
+  async function handleApply() {
+    setApplying(true);
+    let succeeded = 0;
+    for (const row of applicable) {
+      try {
+        if (row.action === 'create') {
+          await createServer(row.body!);
+        } else {
+          await updateServer({ id: row.targetId!, ...row.body! });
+        }
+        succeeded++;
+      } catch (error) {
+        toast.error(`${row.name}: ${t('transfer.applyFailed')}`);
+      }
+    }
+    setApplying(false);
+    if (succeeded > 0) {
+      toast.success(t('transfer.applied', { count: succeeded }));
+      fetchServers();
+      onImported?.();
+    }
+    if (succeeded === applicable.length) {
+      setText('');
+      setOpen(false);
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant='outline'>
+          <Icon icon='mdi:import' className='mr-2 h-4 w-4' />
+          {t('transfer.import')}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className='w-[800px] max-w-full md:max-w-screen-lg'>
+        <SheetHeader>
+          <SheetTitle>{t('transfer.importTitle')}</SheetTitle>
+          <SheetDescription>{t('transfer.importDesc')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          <div className='space-y-4 pt-4'>
+            <div className='flex items-center justify-between gap-2'>
+              <input
+                ref={fileRef}
+                type='file'
+                accept='.yaml,.yml,.json'
+                className='hidden'
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <Button variant='outline' size='sm' onClick={() => fileRef.current?.click()}>
+                <Icon icon='mdi:file-upload-outline' className='mr-2 h-4 w-4' />
+                {t('transfer.chooseFile')}
+              </Button>
+              <span className='text-muted-foreground text-xs'>{t('transfer.formatHint')}</span>
+            </div>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={t('transfer.pastePlaceholder')}
+              className='min-h-[200px] font-mono text-xs'
+            />
+            {parseError && <p className='text-destructive text-sm'>{parseError}</p>}
+            {rows.length > 0 && (
+              <div className='space-y-2'>
+                <div className='flex flex-wrap gap-2 text-sm'>
+                  {(['create', 'update', 'unchanged', 'invalid'] as const).map((action) => (
+                    <Badge key={action} variant={ACTION_VARIANT[action]}>
+                      {t(`transfer.actions.${action}`)}:{' '}
+                      {rows.filter((row) => row.action === action).length}
+                    </Badge>
+                  ))}
+                </div>
+                <div className='rounded-md border'>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className='w-12'>#</TableHead>
+                        <TableHead>{t('name')}</TableHead>
+                        <TableHead>{t('transfer.action')}</TableHead>
+                        <TableHead>{t('transfer.details')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.index}>
+                          <TableCell>{row.index + 1}</TableCell>
+                          <TableCell>
+                            {row.name}
+                            {row.targetId && (
+                              <span className='text-muted-foreground ml-1 text-xs'>
+                                (ID {row.targetId})
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={ACTION_VARIANT[row.action]}>
+                              {t(`transfer.actions.${row.action}`)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <ul className='space-y-0.5 font-mono text-xs'>
+                              {row.errors.map((error, i) => (
+                                <li key={`e${i}`} className='text-destructive'>
+                                  {error}
+                                </li>
+                              ))}
+                              {row.changes.map((change, i) => (
+                                <li key={`c${i}`} className='break-all'>
+                                  {change}
+                                </li>
+                              ))}
+                              {row.action === 'create' && (
+                                <li className='text-muted-foreground'>
+                                  {row.body?.protocols.map((p) => `${p.type}:${p.port}`).join(', ')}
+                                </li>
+                              )}
+                            </ul>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+        <SheetFooter className='flex-row items-center justify-end gap-2 pt-3'>
+          {invalidCount > 0 && (
+            <span className='text-muted-foreground mr-auto text-xs'>
+              {t('transfer.invalidSkipped', { count: invalidCount })}
+            </span>
+          )}
+          <Button variant='outline' disabled={applying} onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <Button disabled={applying || applicable.length === 0} onClick={handleApply}>
+            {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+            {t('transfer.apply', { count: applicable.length })}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
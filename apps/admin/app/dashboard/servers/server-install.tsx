@@ -1,6 +1,7 @@
 'use client';
 
 import { getNodeConfig } from '@/services/admin/system';
+import { downloadFile } from '@/utils/common';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@workspace/ui/components/button';
 import {
@@ -13,9 +14,18 @@ import {
 } from '@workspace/ui/components/dialog';
 import { Input } from '@workspace/ui/components/input';
 import { Label } from '@workspace/ui/components/label';
+import { Tabs, TabsList, TabsTrigger } from '@workspace/ui/components/tabs';
+import { Icon } from '@workspace/ui/custom-components/icon';
 import { useTranslations } from 'next-intl';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { toast } from 'sonner';
+import {
+  getInstallFile,
+  INSTALL_TARGETS,
+  InstallTarget,
+  maskSecret,
+  renderInstallTarget,
+} from './install';
 
 type Props = {
   server: API.Server;
@@ -25,6 +35,8 @@ export default function ServerInstall({ server }: Props) {
   const t = useTranslations('servers');
   const [open, setOpen] = useState(false);
   const [domain, setDomain] = useState('');
+  const [target, setTarget] = useState<InstallTarget>('shell');
+  const [revealed, setRevealed] = useState(false);
 
   const { data: cfgResp } = useQuery({
     queryKey: ['getNodeConfig'],
@@ -37,15 +49,25 @@ export default function ServerInstall({ server }: Props) {
 
   useEffect(() => {
     if (open) {
+      setRevealed(false);
       const host = localStorage.getItem('API_HOST') ?? window.location.origin;
       setDomain(host);
     }
   }, [open]);
 
-  const installCommand = useMemo(() => {
-    const secret = cfgResp?.node_secret ?? '';
-    return `wget -N https://raw.githubusercontent.com/perfect-panel/ppanel-node/master/scripts/install.sh && bash install.sh --api-host ${domain} --server-id ${server.id} --secret-key ${secret}`;
-  }, [domain, server.id, cfgResp?.node_secret]);
+  const params = useMemo(
+    () => ({ apiHost: domain, serverId: server.id, secret: cfgResp?.node_secret ?? '' }),
+    [domain, server.id, cfgResp?.node_secret],
+  );
+  const installCommand = renderInstallTarget(target, params);
+  const displayed = revealed
+    ? installCommand
+    : renderInstallTarget(target, { ...params, secret: maskSecret(params.secret) });
+
+  function handleDownload() {
+    const file = getInstallFile(target, params);
+    downloadFile(file.filename, file.content, file.type);
+  }
 
   async function handleCopy() {
     try {
@@ -61,9 +83,8 @@ export default function ServerInstall({ server }: Props) {
         document.body.removeChild(el);
       }
       toast.success(t('copied'));
-      setOpen(false);
     } catch (error) {
-      toast.error(t('copyFailed'));
+      toast.error(t('install.copyFailed'));
     }
   }
 
@@ -94,24 +115,47 @@ export default function ServerInstall({ server }: Props) {
             </div>
           </div>
 
+          <Tabs value={target} onValueChange={(value) => setTarget(value as InstallTarget)}>
+            <TabsList className='grid w-full grid-cols-4'>
+              {INSTALL_TARGETS.map((item) => (
+                <TabsTrigger key={item} value={item}>
+                  {t(`install.targets.${item}`)}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
           <div>
-            <Label>{t('installCommand')}</Label>
-            <div className='flex flex-col gap-2'>
-              <textarea
-                readOnly
-                aria-label={t('installCommand')}
-                value={installCommand}
-                className='min-h-[88px] w-full rounded border p-2 font-mono text-sm'
-              />
+            <div className='flex items-center justify-between'>
+              <Label>{t('installCommand')}</Label>
+              <Button variant='ghost' size='sm' onClick={() => setRevealed((value) => !value)}>
+                <Icon icon={revealed ? 'mdi:eye-off' : 'mdi:eye'} className='mr-1' />
+                {revealed ? t('install.hideSecret') : t('install.showSecret')}
+              </Button>
             </div>
+            <textarea
+              readOnly
+              aria-label={t('installCommand')}
+              value={displayed}
+              className='min-h-[88px] w-full rounded border p-2 font-mono text-sm'
+              rows={target === 'shell' ? 4 : 12}
+            />
+            <p className='text-muted-foreground text-xs'>{t('install.secretHint')}</p>
           </div>
         </div>
 
         <DialogFooter className='flex-row justify-end gap-2 pt-3'>
           <Button variant='outline' onClick={() => setOpen(false)}>
-            {t('close')}
+            {t('install.close')}
+          </Button>
+          <Button variant='outline' onClick={handleDownload}>
+            <Icon icon='mdi:download' className='mr-1' />
+            {t('install.download')}
+          </Button>
+          <Button onClick={handleCopy}>
+            <Icon icon='mdi:content-copy' className='mr-1' />
+            {t('install.copy')}
           </Button>
-          <Button onClick={handleCopy}>{t('copyAndClose')}</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
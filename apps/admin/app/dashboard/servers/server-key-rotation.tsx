@@ -0,0 +1,391 @@
+'use client';
+
+import { updateServer } from '@/services/admin/server';
+import { KeyRotationRecord, useKeyRotationStore } from '@/store/key-rotation';
+import { useNode } from '@/store/node';
+import { useServerStore } from '@/store/server';
+import { formatDate } from '@/utils/common';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { Label } from '@workspace/ui/components/label';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@workspace/ui/components/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { Switch } from '@workspace/ui/components/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@workspace/ui/components/tabs';
+import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  applyKeys,
+  canRollback,
+  EncryptionKeyKind,
+  KeyRotationOptions,
+  KeyRotationRow,
+  planKeyRotation,
+} from './key-rotation';
+
+const DEFAULT_OPTIONS: KeyRotationOptions = {
+  realityKeys: true,
+  realityShortId: true,
+  encryption: false,
+  encryptionKind: 'mlkem768',
+};
+
+function KeyValue({ value }: { value?: string | null }) {
+  const t = useTranslations('servers');
+  if (!value) return <span className='text-muted-foreground'>—</span>;
+  return (
+    <span className='inline-flex min-w-0 items-center gap-1'>
+      <span className='truncate' title={value}>
+        {value}
+      </span>
+      <Button
+        type='button'
+        variant='ghost'
+        size='icon'
+        className='size-5 shrink-0'
+        title={t('copy')}
+        onClick={async () => {
+          await navigator.clipboard.writeText(value);
+          toast.success(t('copied'));
+        }}
+      >
+        <Icon icon='mdi:content-copy' className='size-3' />
+      </Button>
+    </span>
+  );
+}
+
+function KeyDiff({
+  previous,
+  next,
+}: {
+  previous: Record<string, string | null | undefined>;
+  next: Record<string, string | null | undefined>;
+}) {
+  const t = useTranslations('servers');
+  return (
+    <div className='grid grid-cols-[auto_minmax(0,1fr)_minmax(0,1fr)] gap-x-3 gap-y-1 font-mono text-xs'>
+      <span />
+      <span className='text-muted-foreground font-sans'>{t('keyRotation.previous')}</span>
+      <span className='text-muted-foreground font-sans'>{t('keyRotation.next')}</span>
+      {Object.keys(next).map((field) => (
+        <div key={field} className='contents'>
+          <span className='text-muted-foreground'>{field}</span>
+          <KeyValue value={previous[field]} />
+          <KeyValue value={next[field]} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RotationHistory({
+  rotation,
+  onRolledBack,
+}: {
+  rotation: KeyRotationRecord;
+  onRolledBack?: () => void;
+}) {
+  const t = useTranslations('servers');
+  const { servers, getServerById, fetchServers } = useServerStore();
+  const removeRotation = useKeyRotationStore((state) => state.removeRotation);
+  const restorable = rotation.entries.filter((entry) =>
+    canRollback(getServerById(entry.serverId), entry.next),
+  );
+
+  async function handleRollback() {
+    await fetchServers();
+    const { getServerById: getLatest } = useServerStore.getState();
+    let restored = 0;
+    for (const entry of rotation.entries) {
+      const server = getLatest(entry.serverId);
+      if (!server || !canRollback(server, entry.next)) continue;
+      try {
+        await updateServer({
+          id: server.id,
+          name: server.name,
+          country: server.country,
+          city: server.city,
+          address: server.address,
+          protocols: applyKeys(server.protocols, entry.previous),
+        });
+        restored++;
+      } catch (error) {
+        toast.error(`${server.name}: ${t('keyRotation.rollbackFailed')}`);
+      }
+    }
+    if (restored > 0) {
+      toast.success(t('keyRotation.rolledBack', { count: restored }));
+      if (restored === rotation.entries.length) removeRotation(rotation.id);
+      onRolledBack?.();
+    }
+  }
+
+  return (
+    <div className='space-y-3 rounded-md border p-3'>
+      <div className='flex items-center justify-between gap-2'>
+        <div>
+          <div className='text-sm font-medium'>{formatDate(rotation.time)}</div>
+          <div className='text-muted-foreground text-xs'>
+            {t('keyRotation.rotatedServers', { count: rotation.entries.length })}
+          </div>
+        </div>
+        <div className='flex gap-2'>
+          <Button variant='ghost' size='sm' onClick={() => removeRotation(rotation.id)}>
+            {t('keyRotation.forget')}
+          </Button>
+          <ConfirmButton
+            trigger={
+              <Button variant='outline' size='sm' disabled={restorable.length === 0}>
+                <Icon icon='mdi:restore' className='mr-1' />
+                {t('keyRotation.rollback')}
+              </Button>
+            }
+            title={t('keyRotation.rollback')}
+            description={t('keyRotation.rollbackDesc', { count: restorable.length })}
+            onConfirm={handleRollback}
+            cancelText={t('cancel')}
+            confirmText={t('confirm')}
+          />
+        </div>
+      </div>
+      {rotation.entries.map((entry) => {
+        const current = servers.length === 0 || restorable.includes(entry);
+        return (
+          <div key={entry.serverId} className='space-y-1'>
+            <div className='flex items-center gap-2 text-sm'>
+              <span className='font-medium'>{entry.serverName}</span>
+              {!current && <Badge variant='secondary'>{t('keyRotation.changedSince')}</Badge>}
+            </div>
+            <KeyDiff previous={entry.previous} next={entry.next} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ServerKeyRotation({
+  servers,
+  onApplied,
+}: {
+  servers: API.Server[];
+  onApplied?: () => void;
+}) {
+  const t = useTranslations('servers');
+  const { nodes, isProtocolUsedInNodes } = useNode();
+  const { rotations, addRotation } = useKeyRotationStore();
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<KeyRotationOptions>(DEFAULT_OPTIONS);
+  const [rows, setRows] = useState<KeyRotationRow[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const rotatable = rows.filter((row) => !row.skipped);
+  const affectedNodes = nodes.filter(
+    (node) =>
+      node.protocol === 'vless' && rotatable.some((row) => row.server.id === node.server_id),
+  );
+
+  function updateOption<K extends keyof KeyRotationOptions>(key: K, value: KeyRotationOptions[K]) {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+    setRows([]);
+  }
+
+  async function handleGenerate() {
+    setGenerating(true);
+    try {
+      setRows(await planKeyRotation(servers, options, isProtocolUsedInNodes));
+    } catch (error) {
+      toast.error(t('keyRotation.generateFailed'));
+    } finally {
+      setGenerating(false);
+    }
+  }
+
+  async function handleApply() {
+    setApplying(true);
+    const entries = [];
+    for (const row of rotatable) {
+      try {
+        await updateServer({
+          id: row.server.id,
+          name: row.server.name,
+          country: row.server.country,
+          city: row.server.city,
+          address: row.server.address,
+          protocols: row.protocols!,
+        });
+        entries.push({
+          serverId: row.server.id,
+          serverName: row.server.name,
+          previous: row.previous,
+          next: row.next,
+        });
+      } catch (error) {
+        toast.error(`${row.server.name}: ${t('keyRotation.applyFailed')}`);
+      }
+    }
+    setApplying(false);
+    if (entries.length > 0) {
+      addRotation(entries);
+      toast.success(t('keyRotation.applied', { count: entries.length }));
+      setRows([]);
+      onApplied?.();
+    }
+  }
+
+  return (
+    <Sheet
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setRows([]);
+      }}
+    >
+      <SheetTrigger asChild>
+        <Button variant='secondary'>{t('keyRotation.trigger')}</Button>
+      </SheetTrigger>
+      <SheetContent className='w-[800px] max-w-full md:max-w-screen-lg'>
+        <SheetHeader>
+          <SheetTitle>{t('keyRotation.title')}</SheetTitle>
+          <SheetDescription>
+            {t('keyRotation.description', { count: servers.length })}
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          <Tabs defaultValue='rotate' className='pt-4'>
+            <TabsList>
+              <TabsTrigger value='rotate'>{t('keyRotation.rotate')}</TabsTrigger>
+              <TabsTrigger value='history'>
+                {t('keyRotation.history')} ({rotations.length})
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value='rotate' className='space-y-4'>
+              <div className='grid grid-cols-1 gap-3 rounded-md border p-4 md:grid-cols-2'>
+                <label className='flex items-center justify-between gap-2 text-sm'>
+                  {t('keyRotation.realityKeys')}
+                  <Switch
+                    checked={options.realityKeys}
+                    onCheckedChange={(v) => updateOption('realityKeys', v)}
+                  />
+                </label>
+                <label className='flex items-center justify-between gap-2 text-sm'>
+                  {t('keyRotation.realityShortId')}
+                  <Switch
+                    checked={options.realityShortId}
+                    onCheckedChange={(v) => updateOption('realityShortId', v)}
+                  />
+                </label>
+                <label className='flex items-center justify-between gap-2 text-sm'>
+                  {t('keyRotation.encryptionKeys')}
+                  <Switch
+                    checked={options.encryption}
+                    onCheckedChange={(v) => updateOption('encryption', v)}
+                  />
+                </label>
+                <div className='flex items-center justify-between gap-2'>
+                  <Label className='font-normal'>{t('keyRotation.encryptionKind')}</Label>
+                  <Select
+                    value={options.encryptionKind}
+                    disabled={!options.encryption}
+                    onValueChange={(v) => updateOption('encryptionKind', v as EncryptionKeyKind)}
+                  >
+                    <SelectTrigger className='w-48'>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value='mlkem768'>
+                        {t('generate_quantum_resistant_key')}
+                      </SelectItem>
+                      <SelectItem value='x25519'>
+                        {t('generate_standard_encryption_key')}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {rows.length > 0 && (
+                <>
+                  <div className='bg-muted/50 rounded-md p-3 text-sm'>
+                    {t('keyRotation.summary', {
+                      servers: rotatable.length,
+                      nodes: affectedNodes.length,
+                    })}
+                    {affectedNodes.length > 0 && (
+                      <div className='mt-2 flex flex-wrap gap-1'>
+                        {affectedNodes.map((node) => (
+                          <Badge key={node.id} variant='outline'>
+                            {node.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className='divide-y rounded-md border'>
+                    {rows.map((row) => (
+                      <div key={row.server.id} className='space-y-2 p-3'>
+                        <div className='flex items-center justify-between gap-2'>
+                          <span className='font-medium'>{row.server.name}</span>
+                          {row.skipped ? (
+                            <Badge variant='secondary'>{t(`keyRotation.${row.skipped}`)}</Badge>
+                          ) : row.usedByNodes ? (
+                            <Badge>{t('keyRotation.usedByNodes')}</Badge>
+                          ) : (
+                            <Badge variant='outline'>{t('keyRotation.noNodes')}</Badge>
+                          )}
+                        </div>
+                        {!row.skipped && <KeyDiff previous={row.previous} next={row.next} />}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </TabsContent>
+            <TabsContent value='history' className='space-y-3'>
+              <p className='text-muted-foreground text-xs'>{t('keyRotation.historyHint')}</p>
+              {rotations.length === 0 ? (
+                <p className='text-muted-foreground py-8 text-center text-sm'>
+                  {t('keyRotation.noHistory')}
+                </p>
+              ) : (
+                rotations.map((rotation) => (
+                  <RotationHistory key={rotation.id} rotation={rotation} onRolledBack={onApplied} />
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        </ScrollArea>
+        <SheetFooter className='flex-row justify-end gap-2 pt-3'>
+          <Button variant='outline' disabled={generating || applying} onClick={handleGenerate}>
+            {generating && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+            {rows.length ? t('keyRotation.regenerate') : t('keyRotation.generate')}
+          </Button>
+          <Button disabled={applying || rotatable.length === 0} onClick={handleApply}>
+            {applying && <Icon icon='mdi:loading' className='mr-2 animate-spin' />}
+            {t('keyRotation.apply', { count: rotatable.length })}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@workspace/ui/components/alert';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import { ServerLintIssue } from './lint';
+
+export function useLintMessage() {
+  const t = useTranslations('servers');
+  return (issue: ServerLintIssue) =>
+    t(`lint.${issue.code}`, {
+      protocol: issue.protocol,
+      fields: (issue.fields || []).map((field) => t(field)).join(', '),
+      ...issue.params,
+    });
+}
+
+export function ServerLintList({
+  issues,
+  className,
+}: {
+  issues: ServerLintIssue[];
+  className?: string;
+}) {
+  const message = useLintMessage();
+  if (issues.length === 0) return null;
+  return (
+    <ul className={cn('space-y-1 text-xs text-amber-600 dark:text-amber-500', className)}>
+      {issues.map((issue, index) => (
+        <li key={index} className='flex items-start gap-1.5'>
+          <Icon icon='mdi:alert-outline' className='mt-px size-3.5 shrink-0' />
+          <span>{message(issue)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ServerLintSummary({ issues }: { issues: ServerLintIssue[] }) {
+  const t = useTranslations('servers');
+  if (issues.length === 0) return null;
+  return (
+    <Alert className='border-amber-500/50'>
+      <Icon icon='mdi:alert-outline' className='size-4 !text-amber-500' />
+      <AlertTitle>{t('lint.title', { count: issues.length })}</AlertTitle>
+      <AlertDescription>
+        <ServerLintList issues={issues} className='mt-2' />
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@workspace/ui/components/dialog';
+import { Textarea } from '@workspace/ui/components/textarea';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { useMemo, useState } from 'react';
+import { parsePastedConfig, PastedProtocol } from './paste-import';
+
+export default function ServerPasteImport({
+  onImport,
+}: {
+  onImport: (results: PastedProtocol[]) => void;
+}) {
+  const t = useTranslations('servers');
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+
+  const results = useMemo(() => parsePastedConfig(text), [text]);
+  const importable = results.filter((result) => !result.error);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setText('');
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button type='button' variant='outline' size='sm'>
+          <Icon icon='mdi:clipboard-text-outline' className='mr-1' />
+          {t('pasteImport.trigger')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className='w-[720px] max-w-full md:max-w-screen-md'>
+        <DialogHeader>
+          <DialogTitle>{t('pasteImport.title')}</DialogTitle>
+          <DialogDescription>{t('pasteImport.description')}</DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={t('pasteImport.placeholder')}
+          className='min-h-[160px] font-mono text-xs'
+        />
+
+        {results.length > 0 && (
+          <div className='max-h-64 divide-y overflow-y-auto rounded-md border'>
+            {results.map((result, index) => (
+              <div key={index} className='space-y-1 p-3 text-sm'>
+                <div className='flex items-center justify-between gap-2'>
+                  <span className='truncate font-mono text-xs' title={result.source}>
+                    {result.source}
+                  </span>
+                  {result.error ? (
+                    <Badge variant='destructive'>{t(`pasteImport.${result.error}`)}</Badge>
+                  ) : (
+                    <Badge variant='secondary' className='capitalize'>
+                      {result.type} · {result.protocol?.port ?? '—'}
+                    </Badge>
+                  )}
+                </div>
+                {result.unsupported.length > 0 && (
+                  <p className='text-xs text-amber-600'>
+                    {t('pasteImport.ignored', { params: result.unsupported.join(', ') })}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className='flex-row justify-end gap-2'>
+          <Button variant='outline' onClick={() => setOpen(false)}>
+            {t('cancel')}
+          </Button>
+          <Button
+            disabled={importable.length === 0}
+            onClick={() => {
+              onImport(importable);
+              setOpen(false);
+              setText('');
+            }}
+          >
+            {t('pasteImport.apply', { count: importable.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
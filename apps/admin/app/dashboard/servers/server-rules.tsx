@@ -0,0 +1,382 @@
+'use client';
+
+import { downloadFile } from '@/utils/common';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@workspace/ui/components/dropdown-menu';
+import { Input } from '@workspace/ui/components/input';
+import { Label } from '@workspace/ui/components/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@workspace/ui/components/select';
+import { Textarea } from '@workspace/ui/components/textarea';
+import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import { uid } from 'radash';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  formatRule,
+  parseRule,
+  parseRulesDocument,
+  RULE_KINDS,
+  RuleIssue,
+  RuleKind,
+  RuleSet,
+  RuleSource,
+  serializeRules,
+  splitRule,
+  testRules,
+} from './rules';
+
+const KIND_PLACEHOLDERS: Record<RuleKind, string> = {
+  exact: 'www.example.com',
+  full: 'www.example.com',
+  domain: 'example.com',
+  suffix: 'example.com',
+  keyword: 'example',
+  regex: '^ads\\.',
+  geosite: 'category-ads-all',
+  geoip: 'private',
+  cidr: '10.0.0.0/8',
+};
+
+interface RuleRow {
+  id: string;
+  kind: RuleKind;
+  value: string;
+}
+
+function toRows(lines: string[]): RuleRow[] {
+  return lines.filter((line) => line.trim()).map((line) => ({ id: uid(8), ...splitRule(line) }));
+}
+
+/**
+ * Structured editor for a rule list: one row per rule with its kind, value
+ * and position. Text mode edits the same list one rule per line for pasting.
+ */
+export function RuleListEditor({
+  value,
+  onChange,
+  kinds = RULE_KINDS,
+  placeholder,
+}: {
+  value?: string[];
+  onChange: (value: string[]) => void;
+  kinds?: RuleKind[];
+  placeholder?: string;
+}) {
+  const t = useTranslations('servers');
+  const lines = value ?? [];
+  const [rows, setRows] = useState(() => toRows(lines));
+  // Raw text while in text mode, so blank lines survive until the user leaves it
+  const [text, setText] = useState<string>();
+  // Last list sent up; anything else arriving from outside (reset, import) rebuilds the rows
+  const emitted = useRef(lines.join('\n'));
+
+  useEffect(() => {
+    if (lines.join('\n') === emitted.current) return;
+    emitted.current = lines.join('\n');
+    setRows(toRows(lines));
+    if (text !== undefined) setText(lines.join('\n'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lines.join('\n')]);
+
+  function update(next: RuleRow[]) {
+    setRows(next);
+    const result = next
+      .filter((row) => row.value.trim())
+      .map((row) => formatRule(row.kind, row.value));
+    emitted.current = result.join('\n');
+    onChange(result);
+  }
+
+  function patch(id: string, change: Partial<RuleRow>) {
+    update(rows.map((row) => (row.id === id ? { ...row, ...change } : row)));
+  }
+
+  function move(index: number, offset: number) {
+    const next = [...rows];
+    const [row] = next.splice(index, 1);
+    next.splice(index + offset, 0, row!);
+    update(next);
+  }
+
+  if (text !== undefined) {
+    return (
+      <div className='space-y-2'>
+        <Textarea
+          className='min-h-32 font-mono text-sm'
+          placeholder={placeholder}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            update(toRows(e.target.value.split('\n')));
+          }}
+        />
+        <Button type='button' variant='ghost' size='sm' onClick={() => setText(undefined)}>
+          <Icon icon='mdi:format-list-bulleted' className='mr-2 h-4 w-4' />
+          {t('server_config.rules.editAsList')}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-2'>
+      {rows.length === 0 && (
+        <p className='text-muted-foreground text-sm'>{t('server_config.rules.empty')}</p>
+      )}
+      {rows.map((row, index) => {
+        const error = row.value.trim()
+          ? parseRule(formatRule(row.kind, row.value)).error
+          : undefined;
+        return (
+          <div key={row.id} className='flex items-start gap-2'>
+            <Select
+              value={row.kind}
+              onValueChange={(kind) => patch(row.id, { kind: kind as RuleKind })}
+            >
+              <SelectTrigger className='w-36 shrink-0'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {kinds.map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {t(`server_config.rules.kinds.${kind}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className='min-w-0 flex-1 space-y-1'>
+              <Input
+                className={cn('font-mono', error && 'border-destructive')}
+                placeholder={KIND_PLACEHOLDERS[row.kind]}
+                value={row.value}
+                onChange={(e) => patch(row.id, { value: e.target.value })}
+              />
+              {error && (
+                <p className='text-destructive text-xs'>
+                  {t(`server_config.rules.issues.${error}`)}
+                </p>
+              )}
+            </div>
+            <Button
+              type='button'
+              variant='ghost'
+              size='icon'
+              title={t('server_config.rules.moveUp')}
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+            >
+              <Icon icon='mdi:arrow-up' />
+            </Button>
+            <Button
+              type='button'
+              variant='ghost'
+              size='icon'
+              title={t('server_config.rules.moveDown')}
+              disabled={index === rows.length - 1}
+              onClick={() => move(index, 1)}
+            >
+              <Icon icon='mdi:arrow-down' />
+            </Button>
+            <Button
+              type='button'
+              variant='ghost'
+              size='icon'
+              className='text-destructive'
+              title={t('server_config.rules.remove')}
+              onClick={() => update(rows.filter((item) => item.id !== row.id))}
+            >
+              <Icon icon='mdi:close' />
+            </Button>
+          </div>
+        );
+      })}
+      <div className='flex gap-2'>
+        <Button
+          type='button'
+          variant='outline'
+          size='sm'
+          onClick={() =>
+            update([
+              ...rows,
+              { id: uid(8), kind: rows[rows.length - 1]?.kind ?? kinds[0]!, value: '' },
+            ])
+          }
+        >
+          <Icon icon='mdi:plus' className='mr-2 h-4 w-4' />
+          {t('server_config.rules.addRule')}
+        </Button>
+        <Button
+          type='button'
+          variant='ghost'
+          size='sm'
+          onClick={() => setText(rows.map((row) => formatRule(row.kind, row.value)).join('\n'))}
+        >
+          <Icon icon='mdi:text' className='mr-2 h-4 w-4' />
+          {t('server_config.rules.editAsText')}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function useSourceLabel(set: RuleSet) {
+  const t = useTranslations('servers');
+  return (source: RuleSource) => {
+    if (source.list === 'block') return t('server_config.tabs.block');
+    if (source.list === 'dns') {
+      return `DNS ${set.dns[source.index]?.address || `#${source.index + 1}`}`;
+    }
+    return (
+      set.outbound[source.index]?.name || `${t('server_config.tabs.outbound')} #${source.index + 1}`
+    );
+  };
+}
+
+export function RuleIssueList({
+  set,
+  issues,
+  className,
+}: {
+  set: RuleSet;
+  issues: RuleIssue[];
+  className?: string;
+}) {
+  const t = useTranslations('servers');
+  const label = useSourceLabel(set);
+  if (issues.length === 0) return null;
+  return (
+    <ul className={cn('space-y-1 text-xs text-amber-600 dark:text-amber-500', className)}>
+      {issues.map((issue, index) => (
+        <li key={index} className='flex items-start gap-1.5'>
+          <Icon icon='mdi:alert-outline' className='mt-px size-3.5 shrink-0' />
+          <span>
+            <code className='font-mono'>{issue.rule}</code>
+            {' · '}
+            {label(issue.source)}
+            {' — '}
+            {t(`server_config.rules.issues.${issue.code}`, {
+              rule: issue.by?.rule ?? '',
+              source: issue.by ? label(issue.by.source) : '',
+            })}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function RuleTester({ set }: { set: RuleSet }) {
+  const t = useTranslations('servers');
+  const label = useSourceLabel(set);
+  const [input, setInput] = useState('');
+  const result = input.trim() ? testRules(set, input) : undefined;
+
+  return (
+    <div className='space-y-2'>
+      <Label>{t('server_config.rules.tester')}</Label>
+      <EnhancedInput
+        value={input}
+        onValueChange={(value) => setInput(value as string)}
+        placeholder={t('server_config.rules.testerPlaceholder')}
+      />
+      {result && (
+        <div className='space-y-1 rounded-md border p-3 text-sm'>
+          {result.match ? (
+            <div className='flex flex-wrap items-center gap-2'>
+              <Badge variant={result.match.source.list === 'block' ? 'destructive' : 'default'}>
+                {result.match.source.list === 'block'
+                  ? t('server_config.rules.blocked')
+                  : label(result.match.source)}
+              </Badge>
+              <span className='text-muted-foreground'>
+                {t('server_config.rules.matchedBy')}{' '}
+                <code className='font-mono'>{result.match.rule}</code>
+              </span>
+            </div>
+          ) : (
+            <Badge variant='outline'>{t('server_config.rules.defaultRoute')}</Badge>
+          )}
+          {result.unresolved.length > 0 && (
+            <p className='text-muted-foreground text-xs'>
+              {t('server_config.rules.unresolved', { rules: result.unresolved.join(', ') })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RuleTransfer({
+  set,
+  onImport,
+}: {
+  set: RuleSet;
+  onImport: (set: RuleSet) => void;
+}) {
+  const t = useTranslations('servers');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  function handleExport(format: 'json' | 'yaml') {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      `node-rules-${date}.${format}`,
+      serializeRules(set, format),
+      format === 'json' ? 'application/json' : 'application/yaml',
+    );
+  }
+
+  async function handleFile(file?: File) {
+    if (!file) return;
+    try {
+      onImport(parseRulesDocument(await file.text()));
+      toast.success(t('server_config.rules.imported'));
+    } catch (error) {
+      toast.error(`${t('server_config.rules.importFailed')}: ${(error as Error).message}`);
+    }
+    if (fileRef.current) fileRef.current.value = '';
+  }
+
+  return (
+    <div className='flex flex-wrap items-center gap-2'>
+      <input
+        ref={fileRef}
+        type='file'
+        accept='.yaml,.yml,.json'
+        className='hidden'
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <Button type='button' variant='outline' size='sm' onClick={() => fileRef.current?.click()}>
+        <Icon icon='mdi:import' className='mr-2 h-4 w-4' />
+        {t('server_config.rules.import')}
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type='button' variant='outline' size='sm'>
+            <Icon icon='mdi:export' className='mr-2 h-4 w-4' />
+            {t('server_config.rules.export')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align='start'>
+          <DropdownMenuItem onClick={() => handleExport('yaml')}>YAML</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
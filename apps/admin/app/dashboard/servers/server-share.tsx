@@ -0,0 +1,144 @@
+'use client';
+
+import { Button } from '@workspace/ui/components/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@workspace/ui/components/dialog';
+import { Label } from '@workspace/ui/components/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@workspace/ui/components/tabs';
+import { Textarea } from '@workspace/ui/components/textarea';
+import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { useTranslations } from 'next-intl';
+import { QRCodeCanvas } from 'qrcode.react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { generatePassword } from './generate';
+import { buildShareLink, isShareable } from './share-link';
+import { useLocalSettings } from './use-local-settings';
+
+const SHARE_CREDENTIAL_KEY = 'ppanel:share-credential';
+
+/**
+ * Test credential used in share links, kept across servers so the same
+ * account can be used to try every protocol.
+ */
+function useShareCredential(active: boolean) {
+  return useLocalSettings(SHARE_CREDENTIAL_KEY, active, { uuid: '', password: '' }, (saved) =>
+    saved?.uuid && saved?.password
+      ? { uuid: saved.uuid, password: saved.password }
+      : { uuid: crypto.randomUUID(), password: generatePassword(16) },
+  );
+}
+
+export default function ServerShare({ server }: { server: API.Server }) {
+  const t = useTranslations('servers');
+  const [open, setOpen] = useState(false);
+  const [credential, setCredential] = useShareCredential(open);
+
+  const enabled = (server.protocols || []).filter((p) => p.enable);
+  const shareable = enabled.filter((p) => isShareable(p.type));
+  const unsupported = enabled.filter((p) => !isShareable(p.type));
+
+  async function handleCopy(link: string) {
+    await navigator.clipboard.writeText(link);
+    toast.success(t('copied'));
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant='outline' disabled={shareable.length === 0}>
+          {t('share.trigger')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className='w-[720px] max-w-full md:max-w-screen-md'>
+        <DialogHeader>
+          <DialogTitle>{t('share.title', { name: server.name })}</DialogTitle>
+          <DialogDescription>{t('share.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className='grid grid-cols-1 gap-3 md:grid-cols-2'>
+          <div className='space-y-1'>
+            <Label>{t('share.uuid')}</Label>
+            <EnhancedInput
+              value={credential.uuid}
+              onValueChange={(value) => setCredential({ uuid: value as string })}
+              suffix={
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => setCredential({ uuid: crypto.randomUUID() })}
+                >
+                  <Icon icon='mdi:refresh' className='h-4 w-4' />
+                </Button>
+              }
+            />
+          </div>
+          <div className='space-y-1'>
+            <Label>{t('share.password')}</Label>
+            <EnhancedInput
+              value={credential.password}
+              onValueChange={(value) => setCredential({ password: value as string })}
+              suffix={
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => setCredential({ password: generatePassword(16) })}
+                >
+                  <Icon icon='mdi:refresh' className='h-4 w-4' />
+                </Button>
+              }
+            />
+          </div>
+        </div>
+
+        <Tabs defaultValue={shareable[0]?.type}>
+          <TabsList className='flex h-auto flex-wrap'>
+            {shareable.map((protocol) => (
+              <TabsTrigger key={protocol.type} value={protocol.type} className='capitalize'>
+                {protocol.type}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {shareable.map((protocol) => {
+            const link = buildShareLink(server, protocol, credential) || '';
+            return (
+              <TabsContent
+                key={protocol.type}
+                value={protocol.type}
+                className='flex flex-col items-center gap-3 md:flex-row md:items-start'
+              >
+                <div className='shrink-0 rounded-md bg-white p-2'>
+                  <QRCodeCanvas value={link} size={180} />
+                </div>
+                <div className='flex w-full flex-col gap-2'>
+                  <Textarea readOnly value={link} className='min-h-[132px] font-mono text-xs' />
+                  <Button variant='secondary' onClick={() => handleCopy(link)}>
+                    <Icon icon='mdi:content-copy' className='mr-2' />
+                    {t('copy')}
+                  </Button>
+                </div>
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+
+        {unsupported.length > 0 && (
+          <p className='text-muted-foreground text-xs'>
+            {t('share.unsupported', {
+              protocols: unsupported.map((p) => p.type).join(', '),
+            })}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { Empty } from '@/components/empty';
+import { getHourlyTrend, ServerSample, useServerHistoryStore } from '@/store/server-history';
+import { Button } from '@workspace/ui/components/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@workspace/ui/components/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@workspace/ui/components/chart';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useLocale, useTranslations } from 'next-intl';
+import { useState } from 'react';
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+
+const METRICS = ['cpu', 'mem', 'disk'] as const;
+
+function TrendStat({
+  label,
+  samples,
+  metric,
+  unit,
+}: {
+  label: string;
+  samples: ServerSample[];
+  metric: keyof Omit<ServerSample, 'time'>;
+  unit: string;
+}) {
+  const t = useTranslations('servers');
+  const values = samples.map((s) => s[metric]);
+  const latest = values[values.length - 1] ?? 0;
+  const peak = Math.max(...values, 0);
+  const avg = values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const trend = getHourlyTrend(samples, metric);
+  const digits = unit === '%' ? 1 : 0;
+  return (
+    <div className='grid auto-rows-min gap-0.5 rounded-md border p-3'>
+      <div className='text-muted-foreground text-xs'>{label}</div>
+      <div className='text-xl font-bold tabular-nums leading-none'>
+        {latest.toFixed(digits)}
+        {unit}
+      </div>
+      <div className='text-muted-foreground text-xs tabular-nums'>
+        {t('history.avg')} {avg.toFixed(digits)}
+        {unit} · {t('history.max')} {peak.toFixed(digits)}
+        {unit}
+      </div>
+      <div
+        className={cn(
+          'text-xs tabular-nums',
+          trend > 0.05 ? 'text-destructive' : trend < -0.05 ? 'text-emerald-500' : '',
+        )}
+      >
+        {trend >= 0 ? '+' : ''}
+        {trend.toFixed(2)}
+        {unit}/h
+      </div>
+    </div>
+  );
+}
+
+export default function ServerStatusHistory({ server }: { server: API.Server }) {
+  const t = useTranslations('servers');
+  const locale = useLocale();
+  const [open, setOpen] = useState(false);
+  const samples = useServerHistoryStore((state) => state.history[server.id]) || [];
+  const clearHistory = useServerHistoryStore((state) => state.clearHistory);
+
+  const usageConfig = {
+    cpu: { label: t('cpu'), color: 'hsl(var(--chart-1))' },
+    mem: { label: t('memory'), color: 'hsl(var(--chart-2))' },
+    disk: { label: t('disk'), color: 'hsl(var(--chart-3))' },
+  };
+  const onlineConfig = {
+    online: { label: t('onlineUsers'), color: 'hsl(var(--chart-4))' },
+  };
+
+  const formatTime = (value: number) =>
+    new Date(value).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant='outline' size='icon' title={t('history.title')}>
+          <Icon icon='mdi:chart-line' />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className='w-[720px] max-w-full md:max-w-screen-md'>
+        <SheetHeader>
+          <SheetTitle>
+            {t('history.title')} · {server.name}
+          </SheetTitle>
+          <SheetDescription>{t('history.description')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-60px-env(safe-area-inset-top))] px-6'>
+          {samples.length < 2 ? (
+            <div className='flex h-80 flex-col items-center justify-center gap-2'>
+              <Empty />
+              <p className='text-muted-foreground text-sm'>{t('history.notEnough')}</p>
+            </div>
+          ) : (
+            <div className='space-y-4 pt-4'>
+              <div className='grid grid-cols-2 gap-2 md:grid-cols-4'>
+                {METRICS.map((metric) => (
+                  <TrendStat
+                    key={metric}
+                    label={usageConfig[metric].label}
+                    samples={samples}
+                    metric={metric}
+                    unit='%'
+                  />
+                ))}
+                <TrendStat label={t('onlineUsers')} samples={samples} metric='online' unit='' />
+              </div>
+              <Card>
+                <CardHeader className='pb-2'>
+                  <CardTitle className='text-sm'>{t('history.usage')}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={usageConfig} className='h-64 w-full'>
+                    <LineChart accessibilityLayer data={samples} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey='time'
+                        tickLine={false}
+                        axisLine={false}
+                        minTickGap={32}
+                        tickFormatter={formatTime}
+                      />
+                      <YAxis
+                        domain={[0, 100]}
+                        tickLine={false}
+                        axisLine={false}
+                        width={32}
+                        tickFormatter={(v) => `${v}%`}
+                      />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) =>
+                              new Date(payload?.[0]?.payload?.time).toLocaleString(locale)
+                            }
+                          />
+                        }
+                      />
+                      {METRICS.map((metric) => (
+                        <Line
+                          key={metric}
+                          dataKey={metric}
+                          type='monotone'
+                          stroke={`var(--color-${metric})`}
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      ))}
+                      <ChartLegend content={<ChartLegendContent />} />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className='pb-2'>
+                  <CardTitle className='text-sm'>{t('onlineUsers')}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={onlineConfig} className='h-48 w-full'>
+                    <AreaChart accessibilityLayer data={samples} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey='time'
+                        tickLine={false}
+                        axisLine={false}
+                        minTickGap={32}
+                        tickFormatter={formatTime}
+                      />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            indicator='dot'
+                            labelFormatter={(_, payload) =>
+                              new Date(payload?.[0]?.payload?.time).toLocaleString(locale)
+                            }
+                          />
+                        }
+                      />
+                      <Area
+                        dataKey='online'
+                        type='stepAfter'
+                        fill='var(--color-online)'
+                        fillOpacity={0.4}
+                        stroke='var(--color-online)'
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+              <div className='flex items-center justify-between pb-4'>
+                <span className='text-muted-foreground text-xs'>
+                  {t('history.samples', { count: samples.length })}
+                </span>
+                <Button variant='outline' size='sm' onClick={() => clearHistory(server.id)}>
+                  {t('history.clear')}
+                </Button>
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
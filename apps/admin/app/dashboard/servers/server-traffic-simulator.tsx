@@ -0,0 +1,220 @@
+'use client';
+
+import { useTimezone } from '@/components/timezone-switch';
+import { getNodeMultiplier } from '@/services/admin/system';
+import { useServer } from '@/store/server';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@workspace/ui/components/badge';
+import { Card, CardContent } from '@workspace/ui/components/card';
+import { Label } from '@workspace/ui/components/label';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@workspace/ui/components/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { Combobox } from '@workspace/ui/custom-components/combobox';
+import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { formatBytes } from '@workspace/ui/utils';
+import { useTranslations } from 'next-intl';
+import { useEffect, useState } from 'react';
+import { useMultiplierPreview } from './dynamic-multiplier';
+import { formatUtcOffset } from './multiplier';
+import {
+  BYTE_UNITS,
+  ByteUnit,
+  fromZonedInput,
+  simulateTraffic,
+  toBytes,
+  toZonedInput,
+} from './traffic-ratio';
+
+export default function ServerTrafficSimulator() {
+  const t = useTranslations('servers');
+  const { servers, getServerEnabledProtocols } = useServer();
+  const timezone = useTimezone();
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState(1);
+  const [unit, setUnit] = useState<ByteUnit>('GB');
+  const [serverId, setServerId] = useState<number>();
+  const [protocolType, setProtocolType] = useState<string>();
+  const [time, setTime] = useState('');
+
+  const { data: periods = [] } = useQuery({
+    queryKey: ['getNodeMultiplier'],
+    queryFn: async () => {
+      const { data } = await getNodeMultiplier();
+      return (data.data?.periods || []) as API.TimePeriod[];
+    },
+    enabled: open,
+  });
+  const { serverOffset } = useMultiplierPreview();
+
+  useEffect(() => {
+    if (open) setTime(toZonedInput(new Date(), timezone));
+  }, [open, timezone]);
+
+  const protocols = serverId ? getServerEnabledProtocols(serverId) : [];
+  const protocol = protocols.find((item) => item.type === protocolType);
+  const date = fromZonedInput(time, timezone);
+  const bytes = toBytes(Number(amount) || 0, unit);
+  const result =
+    date && protocol ? simulateTraffic(bytes, protocol, periods, date, serverOffset) : undefined;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Card>
+          <CardContent className='p-4'>
+            <div className='flex cursor-pointer items-center justify-between'>
+              <div className='flex items-center gap-3'>
+                <div className='bg-primary/10 flex h-10 w-10 items-center justify-center rounded-lg'>
+                  <Icon icon='mdi:calculator-variant' className='text-primary h-5 w-5' />
+                </div>
+                <div className='flex-1'>
+                  <p className='font-medium'>{t('trafficSimulator.title')}</p>
+                  <p className='text-muted-foreground truncate text-sm'>
+                    {t('trafficSimulator.description')}
+                  </p>
+                </div>
+              </div>
+              <Icon icon='mdi:chevron-right' className='size-6' />
+            </div>
+          </CardContent>
+        </Card>
+      </SheetTrigger>
+
+      <SheetContent className='w-[600px] max-w-full md:max-w-screen-md'>
+        <SheetHeader>
+          <SheetTitle>{t('trafficSimulator.title')}</SheetTitle>
+          <SheetDescription>{t('trafficSimulator.description')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='-mx-6 h-[calc(100dvh-48px-36px-env(safe-area-inset-top))] px-6'>
+          <div className='space-y-4 pt-4'>
+            <div className='space-y-1'>
+              <Label>{t('trafficSimulator.usage')}</Label>
+              <div className='flex gap-2'>
+                <EnhancedInput
+                  type='number'
+                  min={0}
+                  value={amount}
+                  onValueChange={(value) => setAmount(Number(value))}
+                />
+                <Select value={unit} onValueChange={(value) => setUnit(value as ByteUnit)}>
+                  <SelectTrigger className='w-24'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BYTE_UNITS.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {item}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className='grid grid-cols-2 gap-2'>
+              <div className='space-y-1'>
+                <Label>{t('trafficSimulator.server')}</Label>
+                <Combobox<number, false>
+                  placeholder={t('trafficSimulator.selectServer')}
+                  value={serverId}
+                  options={servers.map((server) => ({ value: server.id, label: server.name }))}
+                  onChange={(value) => {
+                    setServerId(value);
+                    setProtocolType(getServerEnabledProtocols(value)[0]?.type);
+                  }}
+                />
+              </div>
+              <div className='space-y-1'>
+                <Label>{t('trafficSimulator.protocol')}</Label>
+                <Select
+                  value={protocolType}
+                  onValueChange={setProtocolType}
+                  disabled={protocols.length === 0}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('trafficSimulator.selectProtocol')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {protocols.map((item) => (
+                      <SelectItem key={item.type} value={item.type}>
+                        {item.type} ({item.port})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className='space-y-1'>
+              <Label>{t('trafficSimulator.time')}</Label>
+              <EnhancedInput
+                type='datetime-local'
+                value={time}
+                onValueChange={(value) => setTime(value as string)}
+              />
+              <p className='text-muted-foreground text-xs'>
+                {t('trafficSimulator.timeHint', { timezone })}
+              </p>
+            </div>
+
+            {result ? (
+              <div className='space-y-2 rounded-md border p-3 text-sm'>
+                <div className='flex justify-between'>
+                  <span className='text-muted-foreground'>{t('trafficSimulator.used')}</span>
+                  <span className='font-mono'>{formatBytes(bytes)}</span>
+                </div>
+                <div className='flex justify-between'>
+                  <span className='text-muted-foreground'>
+                    {t('trafficSimulator.protocolRatio', { protocol: protocolType ?? '' })}
+                  </span>
+                  <span className='font-mono'>×{result.protocolRatio}</span>
+                </div>
+                <div className='flex justify-between gap-2'>
+                  <span className='text-muted-foreground'>
+                    {result.period
+                      ? t('trafficSimulator.period', {
+                          start: result.period.start_time,
+                          end: result.period.end_time,
+                          server: formatUtcOffset(serverOffset),
+                        })
+                      : t('trafficSimulator.noPeriod', {
+                          time: result.serverTime,
+                          server: formatUtcOffset(serverOffset),
+                        })}
+                  </span>
+                  <span className='font-mono'>×{result.multiplier}</span>
+                </div>
+                <div className='flex items-center justify-between border-t pt-2 font-medium'>
+                  <span>{t('trafficSimulator.billed')}</span>
+                  <span className='flex items-center gap-2'>
+                    <Badge variant='outline'>×{Number(result.ratio.toFixed(4))}</Badge>
+                    <span className='font-mono'>{formatBytes(result.billed)}</span>
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <p className='text-muted-foreground py-6 text-center text-sm'>
+                {t('trafficSimulator.empty')}
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { buildShareLink, isShareable } from './share-link';
+
+const server = { name: 'hk-1', address: 'example.com' };
+const credential = { uuid: '11111111-2222-3333-4444-555555555555', password: 'p@ss word' };
+
+function protocol(overrides: Partial<API.Protocol>) {
+  return { port: 443, ...overrides } as API.Protocol;
+}
+
+describe('isShareable', () => {
+  it('knows which protocols have share links', () => {
+    expect(isShareable('vless')).toBe(true);
+    expect(isShareable('socks')).toBe(false);
+  });
+});
+
+describe('buildShareLink', () => {
+  it('builds a vless reality link', () => {
+    const link = buildShareLink(
+      server,
+      protocol({
+        type: 'vless',
+        security: 'reality',
+        reality_server_addr: 'www.microsoft.com',
+        reality_public_key: 'pbk',
+        reality_short_id: 'ab',
+        flow: 'xtls-rprx-vision',
+      }),
+      credential,
+    )!;
+    const url = new URL(link);
+    expect(url.protocol).toBe('vless:');
+    expect(url.username).toBe(credential.uuid);
+    expect(url.searchParams.get('security')).toBe('reality');
+    expect(url.searchParams.get('sni')).toBe('www.microsoft.com');
+    expect(url.searchParams.get('pbk')).toBe('pbk');
+    expect(url.searchParams.get('flow')).toBe('xtls-rprx-vision');
+    expect(url.searchParams.get('type')).toBe('tcp');
+    expect(decodeURIComponent(url.hash.slice(1))).toBe('hk-1-vless');
+  });
+
+  it('encodes vmess as base64 JSON with v2ray transport names', () => {
+    const link = buildShareLink(
+      server,
+      protocol({
+        type: 'vmess',
+        transport: 'websocket',
+        path: '/ws',
+        security: 'tls',
+        sni: 'a.com',
+      }),
+      credential,
+      'HK 01',
+    )!;
+    const config = JSON.parse(atob(link.slice('vmess://'.length)));
+    expect(config).toMatchObject({ ps: 'HK 01', port: '443', net: 'ws', path: '/ws', tls: 'tls' });
+  });
+
+  it('uses base64 userinfo for classic ciphers and percent-encoding for 2022 ones', () => {
+    const classic = buildShareLink(
+      server,
+      protocol({ type: 'shadowsocks', cipher: 'aes-128-gcm' }),
+      credential,
+    )!;
+    expect(atob(classic.slice(5, classic.indexOf('@')))).toBe('aes-128-gcm:p@ss word');
+
+    const modern = buildShareLink(
+      server,
+      protocol({ type: 'shadowsocks', cipher: '2022-blake3-aes-128-gcm', server_key: 'key' }),
+      credential,
+    )!;
+    expect(modern).toContain('ss://2022-blake3-aes-128-gcm:key%3Ap%40ss%20word@');
+  });
+
+  it('brackets IPv6 addresses', () => {
+    const link = buildShareLink(
+      { name: 'v6', address: '2001:db8::1' },
+      protocol({ type: 'trojan' }),
+      credential,
+    )!;
+    expect(link).toContain('@[2001:db8::1]:443');
+  });
+
+  it('returns nothing for protocols without share links', () => {
+    expect(buildShareLink(server, protocol({ type: 'socks' }), credential)).toBeUndefined();
+  });
+});
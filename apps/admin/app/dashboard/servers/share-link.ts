@@ -0,0 +1,220 @@
+export const SHAREABLE_PROTOCOLS = [
+  'vless',
+  'vmess',
+  'trojan',
+  'shadowsocks',
+  'hysteria',
+  'tuic',
+  'anytls',
+] as const;
+
+export type ShareableProtocol = (typeof SHAREABLE_PROTOCOLS)[number];
+
+// Transport names as used by v2ray-style share links
+const TRANSPORT_ALIASES: Record<string, string> = {
+  websocket: 'ws',
+  mkcp: 'kcp',
+};
+
+export function isShareable(type: string): type is ShareableProtocol {
+  return (SHAREABLE_PROTOCOLS as readonly string[]).includes(type);
+}
+
+function toBase64(value: string) {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
+
+function formatHost(host: string) {
+  return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
+
+function buildUrl(
+  scheme: string,
+  userinfo: string,
+  host: string,
+  port: number,
+  params: Record<string, string | number | undefined | null | false>,
+  name: string,
+) {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === false || value === '') return;
+    search.set(key, String(value));
+  });
+  const query = search.toString();
+  return `${scheme}://${userinfo}@${formatHost(host)}:${port}${query ? `?${query}` : ''}#${encodeURIComponent(name)}`;
+}
+
+function transportParams(protocol: API.Protocol) {
+  const transport = protocol.transport || 'tcp';
+  return {
+    type: TRANSPORT_ALIASES[transport] ?? transport,
+    host: ['websocket', 'httpupgrade', 'xhttp'].includes(transport) ? protocol.host : undefined,
+    path: ['websocket', 'httpupgrade', 'xhttp'].includes(transport) ? protocol.path : undefined,
+    serviceName: transport === 'grpc' ? protocol.service_name : undefined,
+    mode: transport === 'xhttp' ? protocol.xhttp_mode : undefined,
+  };
+}
+
+function tlsParams(protocol: API.Protocol) {
+  const security = protocol.security || 'none';
+  if (security === 'none') return { security: 'none' };
+  return {
+    security,
+    sni:
+      security === 'reality'
+        ? protocol.sni || protocol.reality_server_addr
+        : protocol.sni || protocol.host,
+    fp: protocol.fingerprint,
+    allowInsecure: protocol.allow_insecure ? 1 : undefined,
+    pbk: security === 'reality' ? protocol.reality_public_key : undefined,
+    sid: security === 'reality' ? protocol.reality_short_id : undefined,
+  };
+}
+
+function vlessEncryption(protocol: API.Protocol) {
+  if (protocol.encryption !== 'mlkem768x25519plus') return 'none';
+  return [
+    protocol.encryption,
+    protocol.encryption_mode || 'native',
+    protocol.encryption_rtt || '0rtt',
+    protocol.encryption_client_padding,
+    protocol.encryption_password,
+  ]
+    .filter(Boolean)
+    .join('.');
+}
+
+/**
+ * Build a client share URI for a server protocol, authenticated with the given
+ * test credential (a UUID for vless/vmess/tuic, a password otherwise).
+ */
+export function buildShareLink(
+  server: Pick<API.Server, 'name' | 'address'>,
+  protocol: API.Protocol,
+  credential: { uuid: string; password: string },
+  name = `${server.name}-${protocol.type}`,
+): string | undefined {
+  const { address } = server;
+  const { port } = protocol;
+  switch (protocol.type) {
+    case 'vless':
+      return buildUrl(
+        'vless',
+        credential.uuid,
+        address,
+        port,
+        {
+          encryption: vlessEncryption(protocol),
+          flow: protocol.flow && protocol.flow !== 'none' ? protocol.flow : undefined,
+          ...transportParams(protocol),
+          ...tlsParams(protocol),
+        },
+        name,
+      );
+    case 'vmess': {
+      const transport = protocol.transport || 'tcp';
+      const tls = protocol.security === 'tls';
+      return `vmess://${toBase64(
+        JSON.stringify({
+          v: '2',
+          ps: name,
+          add: address,
+          port: String(port),
+          id: credential.uuid,
+          aid: '0',
+          scy: 'auto',
+          net: TRANSPORT_ALIASES[transport] ?? transport,
+          type: 'none',
+          host: protocol.host || '',
+          path: transport === 'grpc' ? protocol.service_name || '' : protocol.path || '',
+          tls: tls ? 'tls' : '',
+          sni: tls ? protocol.sni || '' : '',
+          fp: tls ? protocol.fingerprint || '' : '',
+          allowInsecure: tls && protocol.allow_insecure ? 1 : 0,
+        }),
+      )}`;
+    }
+    case 'trojan':
+      return buildUrl(
+        'trojan',
+        encodeURIComponent(credential.password),
+        address,
+        port,
+        { ...transportParams(protocol), ...tlsParams(protocol) },
+        name,
+      );
+    case 'shadowsocks': {
+      const cipher = protocol.cipher || 'aes-128-gcm';
+      const is2022 = cipher.startsWith('2022-');
+      const password =
+        is2022 && protocol.server_key
+          ? `${protocol.server_key}:${credential.password}`
+          : credential.password;
+      // SIP002: 2022 ciphers use percent-encoded userinfo instead of base64
+      const userinfo = is2022
+        ? `${encodeURIComponent(cipher)}:${encodeURIComponent(password)}`
+        : toBase64(`${cipher}:${password}`).replace(/=+$/g, '');
+      const plugin =
+        protocol.obfs && protocol.obfs !== 'none'
+          ? [
+              'obfs-local',
+              `obfs=${protocol.obfs}`,
+              protocol.obfs_host && `obfs-host=${protocol.obfs_host}`,
+              protocol.obfs_path && `obfs-uri=${protocol.obfs_path}`,
+            ]
+              .filter(Boolean)
+              .join(';')
+          : undefined;
+      return buildUrl('ss', userinfo, address, port, { plugin }, name);
+    }
+    case 'hysteria':
+      return buildUrl(
+        'hysteria2',
+        encodeURIComponent(credential.password),
+        address,
+        port,
+        {
+          'sni': protocol.sni,
+          'insecure': protocol.allow_insecure ? 1 : undefined,
+          'obfs': protocol.obfs && protocol.obfs !== 'none' ? protocol.obfs : undefined,
+          'obfs-password':
+            protocol.obfs && protocol.obfs !== 'none' ? protocol.obfs_password : undefined,
+          'mport': protocol.hop_ports,
+        },
+        name,
+      );
+    case 'tuic':
+      return buildUrl(
+        'tuic',
+        `${credential.uuid}:${encodeURIComponent(credential.password)}`,
+        address,
+        port,
+        {
+          sni: protocol.sni,
+          alpn: 'h3',
+          congestion_control: protocol.congestion_controller,
+          udp_relay_mode: protocol.udp_relay_mode,
+          disable_sni: protocol.disable_sni ? 1 : undefined,
+          reduce_rtt: protocol.reduce_rtt ? 1 : undefined,
+          allow_insecure: protocol.allow_insecure ? 1 : undefined,
+        },
+        name,
+      );
+    case 'anytls':
+      return buildUrl(
+        'anytls',
+        encodeURIComponent(credential.password),
+        address,
+        port,
+        {
+          sni: protocol.sni,
+          fp: protocol.fingerprint,
+          insecure: protocol.allow_insecure ? 1 : undefined,
+        },
+        name,
+      );
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fromZonedInput,
+  getProtocolRatio,
+  simulateTraffic,
+  toBytes,
+  toZonedInput,
+} from './traffic-ratio';
+
+const periods = [{ start_time: '20:00', end_time: '02:00', multiplier: 2 }];
+
+describe('toBytes', () => {
+  it('uses binary units', () => {
+    expect(toBytes(1, 'MB')).toBe(1024 ** 2);
+    expect(toBytes(1.5, 'GB')).toBe(1.5 * 1024 ** 3);
+  });
+});
+
+describe('getProtocolRatio', () => {
+  it('bills missing or zero ratios 1:1', () => {
+    expect(getProtocolRatio(undefined)).toBe(1);
+    expect(getProtocolRatio({ ratio: 0 } as API.Protocol)).toBe(1);
+    expect(getProtocolRatio({ ratio: 0.5 } as API.Protocol)).toBe(0.5);
+  });
+});
+
+describe('zoned inputs', () => {
+  it('round-trips through the timezone clock', () => {
+    const date = new Date('2024-07-01T12:30:00Z');
+    expect(toZonedInput(date, 'Asia/Tokyo')).toBe('2024-07-01T21:30');
+    expect(fromZonedInput('2024-07-01T21:30', 'Asia/Tokyo')).toEqual(date);
+    expect(fromZonedInput('2024-07-01', 'UTC')).toBeUndefined();
+  });
+
+  it('resolves wall times around a DST change', () => {
+    // New York moves from UTC-5 to UTC-4 at 2024-03-10 02:00
+    expect(fromZonedInput('2024-03-10T01:30', 'America/New_York')?.toISOString()).toBe(
+      '2024-03-10T06:30:00.000Z',
+    );
+    expect(fromZonedInput('2024-03-10T03:30', 'America/New_York')?.toISOString()).toBe(
+      '2024-03-10T07:30:00.000Z',
+    );
+  });
+});
+
+describe('simulateTraffic', () => {
+  const protocol = { type: 'vless', ratio: 1.5 } as API.Protocol;
+
+  it('multiplies the protocol ratio by the active period', () => {
+    const result = simulateTraffic(100, protocol, periods, new Date('2024-07-01T23:00:00Z'));
+    expect(result).toMatchObject({
+      protocolRatio: 1.5,
+      multiplier: 2,
+      ratio: 3,
+      billed: 300,
+      serverTime: '23:00',
+    });
+  });
+
+  it('matches periods on the server clock', () => {
+    const date = new Date('2024-07-01T12:00:00Z');
+    expect(simulateTraffic(100, protocol, periods, date).multiplier).toBe(1);
+    expect(simulateTraffic(100, protocol, periods, date, 9 * 3600)).toMatchObject({
+      period: periods[0],
+      billed: 300,
+      serverTime: '21:00',
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  formatClock,
+  getOffsetClockSeconds,
+  getPeriodAt,
+  getTimezoneOffsetSeconds,
+} from './multiplier';
+
+export const BYTE_UNITS = ['MB', 'GB', 'TB'] as const;
+export type ByteUnit = (typeof BYTE_UNITS)[number];
+
+export function toBytes(value: number, unit: ByteUnit) {
+  return value * 1024 ** (BYTE_UNITS.indexOf(unit) + 2);
+}
+
+/** Same fallback as the protocols column: a missing or zero ratio bills 1:1. */
+export function getProtocolRatio(protocol?: API.Protocol) {
+  return Number(protocol?.ratio ?? 1) || 1;
+}
+
+/** Format an instant for a `datetime-local` input on the clock of `timezone`. */
+export function toZonedInput(date: Date, timezone: string) {
+  const offset = getTimezoneOffsetSeconds(timezone, date);
+  return new Date(date.getTime() + offset * 1000).toISOString().slice(0, 16);
+}
+
+/** Read a `datetime-local` value entered on the clock of `timezone`. */
+export function fromZonedInput(value: string, timezone: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  if (!match) return undefined;
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => Number(part || 0)) as [number, number, number, number, number, number];
+  const wall = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // Re-check the offset at the result so DST transitions land on the right side
+  const guess = wall - getTimezoneOffsetSeconds(timezone, new Date(wall)) * 1000;
+  return new Date(wall - getTimezoneOffsetSeconds(timezone, new Date(guess)) * 1000);
+}
+
+export interface TrafficSimulation {
+  protocolRatio: number;
+  period?: API.TimePeriod;
+  multiplier: number;
+  ratio: number;
+  billed: number;
+  serverTime: string;
+}
+
+/**
+ * Billed traffic is the used bytes times the protocol ratio and the period
+ * multiplier. Periods are matched on the server clock, `serverOffset` seconds
+ * ahead of UTC.
+ */
+export function simulateTraffic(
+  bytes: number,
+  protocol: API.Protocol | undefined,
+  periods: API.TimePeriod[],
+  date: Date,
+  serverOffset = 0,
+): TrafficSimulation {
+  const seconds = getOffsetClockSeconds(serverOffset, date);
+  const period = getPeriodAt(periods, seconds);
+  const protocolRatio = getProtocolRatio(protocol);
+  const multiplier = period ? Number(period.multiplier) : 1;
+  const ratio = protocolRatio * multiplier;
+  return {
+    protocolRatio,
+    period,
+    multiplier,
+    ratio,
+    billed: bytes * ratio,
+    serverTime: formatClock(seconds),
+  };
+}
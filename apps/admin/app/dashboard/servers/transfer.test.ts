@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportPlan, parseServersDocument, serializeServers } from './transfer';
+
+function server(overrides: Partial<API.Server> = {}): API.Server {
+  return {
+    id: 1,
+    name: 'hk-1',
+    country: 'HK',
+    city: 'Hong Kong',
+    address: '1.1.1.1',
+    sort: 1,
+    protocols: [{ type: 'shadowsocks', port: 443, cipher: 'aes-128-gcm' } as API.Protocol],
+    last_reported_at: 1,
+    status: { cpu: 1, mem: 1, disk: 1, online: [] } as unknown as API.ServerStatus,
+    created_at: 1,
+    updated_at: 1,
+    ...overrides,
+  };
+}
+
+describe('serializeServers', () => {
+  it('drops runtime fields and round-trips through both formats', () => {
+    for (const format of ['yaml', 'json'] as const) {
+      const [entry] = parseServersDocument(serializeServers([server()], format)) as any[];
+      expect(entry).toMatchObject({ id: 1, name: 'hk-1', address: '1.1.1.1' });
+      expect(entry).not.toHaveProperty('status');
+      expect(entry).not.toHaveProperty('created_at');
+    }
+  });
+});
+
+describe('parseServersDocument', () => {
+  it('accepts a bare list or a servers key', () => {
+    expect(parseServersDocument('[{"name":"a"}]')).toEqual([{ name: 'a' }]);
+    expect(parseServersDocument('servers:\n  - name: a')).toEqual([{ name: 'a' }]);
+    expect(parseServersDocument('  ')).toEqual([]);
+  });
+
+  it('rejects other documents', () => {
+    expect(() => parseServersDocument('name: a')).toThrow();
+  });
+});
+
+describe('buildImportPlan', () => {
+  it('creates unknown servers and matches existing ones by id or name and address', () => {
+    const rows = buildImportPlan(
+      [
+        { name: 'new', address: '2.2.2.2', protocols: [] },
+        {
+          id: 1,
+          name: 'hk-1',
+          address: '1.1.1.1',
+          country: 'HK',
+          city: 'Hong Kong',
+          protocols: [{ type: 'shadowsocks', port: 443, cipher: 'aes-128-gcm' }],
+        },
+        {
+          name: 'hk-1',
+          address: '1.1.1.1',
+          country: 'Hong Kong',
+          protocols: [{ type: 'shadowsocks', port: 8443, cipher: 'aes-128-gcm' }],
+        },
+      ],
+      [server()],
+    );
+    expect(rows.map((row) => row.action)).toEqual(['create', 'unchanged', 'update']);
+    expect(rows[2]!.targetId).toBe(1);
+    expect(rows[2]!.changes).toEqual(['protocols.shadowsocks.port: 443 → 8443']);
+  });
+
+  it('reports schema errors by protocol type', () => {
+    const [row] = buildImportPlan(
+      [{ name: 'bad', address: '3.3.3.3', protocols: [{ type: 'shadowsocks', port: 70000 }] }],
+      [],
+    );
+    expect(row!.action).toBe('invalid');
+    expect(row!.errors[0]).toMatch(/^protocols\.shadowsocks\.port: /);
+  });
+});
@@ -0,0 +1,158 @@
+import yaml from 'js-yaml';
+import { normalizeCountry } from './country';
+import { formSchema } from './form-schema';
+
+export type TransferFormat = 'yaml' | 'json';
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export type ImportRow = {
+  index: number;
+  name: string;
+  action: ImportAction;
+  targetId?: number;
+  body?: API.CreateServerRequest;
+  changes: string[];
+  errors: string[];
+};
+
+const RUNTIME_FIELDS = ['status', 'last_reported_at', 'created_at', 'updated_at'] as const;
+
+function compact<T extends Record<string, any>>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== null && v !== undefined && v !== ''),
+  ) as Partial<T>;
+}
+
+function toExportShape(server: API.Server) {
+  const rest: Record<string, any> = { ...server };
+  RUNTIME_FIELDS.forEach((key) => delete rest[key]);
+  return {
+    ...compact(rest),
+    protocols: (server.protocols || []).map((p) => compact(p)),
+  };
+}
+
+export function serializeServers(servers: API.Server[], format: TransferFormat) {
+  const list = servers.map(toExportShape);
+  if (format === 'json') return JSON.stringify(list, null, 2);
+  return yaml.dump(list, { noRefs: true, lineWidth: -1 });
+}
+
+export function parseServersDocument(text: string): unknown[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const doc =
+    trimmed.startsWith('{') || trimmed.startsWith('[') ? JSON.parse(trimmed) : yaml.load(trimmed);
+  if (Array.isArray(doc)) return doc;
+  if (doc && typeof doc === 'object' && Array.isArray((doc as any).servers)) {
+    return (doc as any).servers;
+  }
+  throw new Error('Expected a list of servers or an object with a "servers" list');
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function diffServer(current: API.Server, next: API.CreateServerRequest) {
+  const changes: string[] = [];
+  (['name', 'address', 'country', 'city', 'sort'] as const).forEach((key) => {
+    if (next[key] === undefined) return;
+    if (formatValue(current[key]) !== formatValue(next[key])) {
+      changes.push(`${key}: ${formatValue(current[key])} → ${formatValue(next[key])}`);
+    }
+  });
+
+  const types = new Set([
+    ...(current.protocols || []).map((p) => p.type),
+    ...next.protocols.map((p) => p.type),
+  ]);
+  types.forEach((type) => {
+    const before = (current.protocols || []).find((p) => p.type === type);
+    const after = next.protocols.find((p) => p.type === type);
+    if (!before) {
+      changes.push(`protocols.${type}: + ${after?.port ?? '—'}`);
+      return;
+    }
+    if (!after) {
+      changes.push(`protocols.${type}: − ${before.port ?? '—'}`);
+      return;
+    }
+    const a = compact(before) as Record<string, unknown>;
+    const b = compact(after) as Record<string, unknown>;
+    new Set([...Object.keys(a), ...Object.keys(b)]).forEach((key) => {
+      if (formatValue(a[key]) !== formatValue(b[key])) {
+        changes.push(`protocols.${type}.${key}: ${formatValue(a[key])} → ${formatValue(b[key])}`);
+      }
+    });
+  });
+  return changes;
+}
+
+function findTarget(entry: Record<string, any>, servers: API.Server[]) {
+  const id = Number(entry.id);
+  if (Number.isInteger(id) && id > 0) {
+    const byId = servers.find((s) => s.id === id);
+    if (byId) return byId;
+  }
+  return servers.find((s) => s.name === entry.name && s.address === entry.address);
+}
+
+/**
+ * Validate imported entries against the server form schema and match them
+ * with existing servers (by id, then by name + address).
+ */
+export function buildImportPlan(entries: unknown[], servers: API.Server[]): ImportRow[] {
+  return entries.map((entry, index) => {
+    const raw = (entry && typeof entry === 'object' ? entry : {}) as Record<string, any>;
+    const name = typeof raw.name === 'string' ? raw.name : `#${index + 1}`;
+    const parsed = formSchema.safeParse({
+      ...raw,
+      country: typeof raw.country === 'string' ? normalizeCountry(raw.country) : undefined,
+      city: raw.city ?? undefined,
+      protocols: raw.protocols ?? [],
+    });
+
+    if (!parsed.success) {
+      return {
+        index,
+        name,
+        action: 'invalid',
+        changes: [],
+        errors: parsed.error.issues.map((issue) => {
+          const path = issue.path
+            .map((p, i) =>
+              issue.path[i - 1] === 'protocols' && raw.protocols?.[p as number]?.type
+                ? raw.protocols[p as number].type
+                : String(p),
+            )
+            .join('.');
+          return path ? `${path}: ${issue.message}` : issue.message;
+        }),
+      };
+    }
+
+    const body = {
+      ...parsed.data,
+      ...(typeof raw.sort === 'number' ? { sort: raw.sort } : {}),
+    } as unknown as API.CreateServerRequest;
+    const target = findTarget(raw, servers);
+
+    if (!target) {
+      return { index, name, action: 'create', body, changes: [], errors: [] };
+    }
+
+    const changes = diffServer(target, body);
+    return {
+      index,
+      name,
+      action: changes.length ? 'update' : 'unchanged',
+      targetId: target.id,
+      body,
+      changes,
+      errors: [],
+    };
+  });
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Dialog settings remembered in localStorage. They are read once the dialog
+ * is `active`; `restore` maps the saved value (null when missing or
+ * unreadable) to settings, or returns undefined to keep `initial`.
+ */
+export function useLocalSettings<T extends object>(
+  key: string,
+  active: boolean,
+  initial: T,
+  restore: (saved: Partial<T> | null) => T | undefined,
+) {
+  const [settings, setSettings] = useState(initial);
+
+  useEffect(() => {
+    if (!active) return;
+    let saved: Partial<T> | null = null;
+    try {
+      saved = JSON.parse(localStorage.getItem(key) || 'null');
+    } catch {
+      // Unreadable settings are treated as missing
+    }
+    const value = restore(saved);
+    if (value) setSettings(value);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, active]);
+
+  const update = (value: Partial<T>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...value };
+      localStorage.setItem(key, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  return [settings, update] as const;
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useSubscribeFixtureStore } from '@/store/subscribe-fixture';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { Checkbox } from '@workspace/ui/components/checkbox';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@workspace/ui/components/collapsible';
+import { Label } from '@workspace/ui/components/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@workspace/ui/components/select';
+import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
+import { JSONEditor } from '@workspace/ui/custom-components/editor';
+import { EnhancedInput } from '@workspace/ui/custom-components/enhanced-input';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  createSampleData,
+  DEFAULT_SAMPLE_OPTIONS,
+  normalizeSampleData,
+  SAMPLE_DATA_SCHEMA,
+  SAMPLE_PROTOCOLS,
+  SampleDataOptions,
+  SubscribeSampleData,
+} from './sample-data';
+
+// Select value standing for the built-in sample data
+const BUILT_IN = 'built-in';
+
+function stringify(data: SubscribeSampleData) {
+  return JSON.stringify(data, null, 2);
+}
+
+function parseDraft(text: string) {
+  try {
+    return normalizeSampleData(JSON.parse(text));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Sample data for template previews. Admins generate or hand-edit fixtures,
+ * save them under a name in local storage and switch between them; the
+ * current draft is what the preview renders against.
+ */
+export function FixturePanel({
+  onChange,
+}: {
+  onChange: (fixture: { name: string; data: SubscribeSampleData }) => void;
+}) {
+  const t = useTranslations('subscribe.fixtures');
+  const { fixtures, activeId, saveFixture, removeFixture, setActive } = useSubscribeFixtureStore();
+  const active = fixtures.find((fixture) => fixture.id === activeId);
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<SampleDataOptions>(DEFAULT_SAMPLE_OPTIONS);
+  const [name, setName] = useState(active?.name ?? '');
+  const [draft, setDraft] = useState(() => stringify(active?.data ?? createSampleData()));
+
+  const draftData = useMemo(() => parseDraft(draft), [draft]);
+  const savedData = active?.data ?? null;
+  const modified = useMemo(
+    () => !!draftData && stringify(draftData) !== stringify(savedData ?? createSampleData()),
+    [draftData, savedData],
+  );
+  const displayName = active?.name ?? t('builtIn');
+
+  useEffect(() => {
+    if (draftData) onChange({ name: modified ? `${displayName} *` : displayName, data: draftData });
+  }, [draftData, modified, displayName, onChange]);
+
+  function select(id: string) {
+    const fixture = fixtures.find((item) => item.id === id);
+    setActive(fixture?.id);
+    setName(fixture?.name ?? '');
+    setDraft(stringify(fixture?.data ?? createSampleData()));
+  }
+
+  function toggleProtocol(protocol: SampleDataOptions['protocols'][number], checked: boolean) {
+    setOptions({
+      ...options,
+      protocols: checked
+        ? SAMPLE_PROTOCOLS.filter((item) => item === protocol || options.protocols.includes(item))
+        : options.protocols.filter((item) => item !== protocol),
+    });
+  }
+
+  function handleSave() {
+    if (!draftData || !name.trim()) return;
+    saveFixture(name.trim(), draftData);
+    toast.success(t('saved', { name: name.trim() }));
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className='rounded-md border'>
+      <div className='flex flex-wrap items-center justify-between gap-2 p-2'>
+        <CollapsibleTrigger asChild>
+          <button type='button' className='flex items-center gap-2 text-left text-sm'>
+            <Icon
+              icon='mdi:chevron-right'
+              className={cn('size-5 shrink-0 transition-transform', open && 'rotate-90')}
+            />
+            <span className='font-medium'>{t('title')}</span>
+            {modified && <Badge variant='outline'>{t('modified')}</Badge>}
+          </button>
+        </CollapsibleTrigger>
+        <Select value={active?.id ?? BUILT_IN} onValueChange={select}>
+          <SelectTrigger className='h-8 w-48'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BUILT_IN}>{t('builtIn')}</SelectItem>
+            {fixtures.map((fixture) => (
+              <SelectItem key={fixture.id} value={fixture.id}>
+                {fixture.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <CollapsibleContent className='space-y-3 border-t p-3'>
+        <p className='text-muted-foreground text-xs'>{t('description')}</p>
+        <div className='grid grid-cols-2 gap-2'>
+          <div className='space-y-1'>
+            <Label>SiteName</Label>
+            <EnhancedInput
+              value={options.siteName}
+              onValueChange={(value) => setOptions({ ...options, siteName: value as string })}
+            />
+          </div>
+          <div className='space-y-1'>
+            <Label>SubscribeName</Label>
+            <EnhancedInput
+              value={options.subscribeName}
+              onValueChange={(value) => setOptions({ ...options, subscribeName: value as string })}
+            />
+          </div>
+        </div>
+        <div className='space-y-1'>
+          <Label>{t('protocols')}</Label>
+          <div className='flex flex-wrap gap-x-4 gap-y-2'>
+            {SAMPLE_PROTOCOLS.map((protocol) => (
+              <label key={protocol} className='flex items-center gap-1.5 text-sm'>
+                <Checkbox
+                  checked={options.protocols.includes(protocol)}
+                  onCheckedChange={(checked) => toggleProtocol(protocol, !!checked)}
+                />
+                {protocol}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className='flex items-end gap-2'>
+          <div className='flex-1 space-y-1'>
+            <Label>{t('perProtocol')}</Label>
+            <EnhancedInput
+              type='number'
+              min={1}
+              max={20}
+              value={options.perProtocol}
+              onValueChange={(value) =>
+                setOptions({
+                  ...options,
+                  perProtocol: Math.min(20, Math.max(1, Number(value) || 1)),
+                })
+              }
+            />
+          </div>
+          <Button
+            type='button'
+            variant='outline'
+            disabled={options.protocols.length === 0}
+            onClick={() => setDraft(stringify(createSampleData(options)))}
+          >
+            <Icon icon='mdi:auto-fix' className='mr-1' />
+            {t('generate')}
+          </Button>
+        </div>
+        <JSONEditor
+          title={t('data')}
+          description={t('dataDescription')}
+          schema={SAMPLE_DATA_SCHEMA as unknown as Record<string, unknown>}
+          value={draft}
+          onChange={(value) => setDraft(typeof value === 'string' ? value : JSON.stringify(value))}
+          showLineNumbers
+        />
+        {!draftData && <p className='text-destructive text-xs'>{t('invalid')}</p>}
+        <div className='flex items-end gap-2'>
+          <div className='flex-1 space-y-1'>
+            <Label>{t('name')}</Label>
+            <EnhancedInput
+              value={name}
+              placeholder={t('namePlaceholder')}
+              onValueChange={(value) => setName(value as string)}
+            />
+          </div>
+          <Button type='button' disabled={!draftData || !name.trim()} onClick={handleSave}>
+            {t('save')}
+          </Button>
+          {active && (
+            <ConfirmButton
+              trigger={
+                <Button type='button' variant='destructive'>
+                  {t('delete')}
+                </Button>
+              }
+              title={t('confirmDeleteTitle')}
+              description={t('confirmDeleteDescription', { name: active.name })}
+              onConfirm={async () => {
+                removeFixture(active.id);
+                setName('');
+                setDraft(stringify(createSampleData()));
+              }}
+              cancelText={t('cancel')}
+              confirmText={t('confirm')}
+            />
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { validateOutput } from './output-validation';
+
+const LINKS = [
+  'trojan://pw@a.com:443#A',
+  `vmess://${btoa(JSON.stringify({ add: 'b.com', port: '443', ps: 'B' }))}`,
+  `ss://${btoa('aes-128-gcm:pw@c.com:8388')}#C`,
+].join('\n');
+
+describe('validateOutput', () => {
+  it('warns about empty output', () => {
+    expect(validateOutput('  \n', 'yaml').issues).toEqual([
+      { code: 'empty_output', severity: 'warning', line: 1 },
+    ]);
+  });
+
+  it('reports YAML and JSON syntax errors with their position', () => {
+    const [yamlIssue] = validateOutput('a: 1\nb: [\n', 'yaml').issues;
+    expect(yamlIssue).toMatchObject({ code: 'yaml_syntax', severity: 'error', line: 3 });
+    const [jsonIssue] = validateOutput('{\n  "a": 1,\n}', 'json').issues;
+    expect(jsonIssue).toMatchObject({ code: 'json_syntax', line: 3 });
+  });
+
+  it('checks Clash proxies, groups and rules', () => {
+    const output = [
+      'proxies:',
+      '  - { name: A, type: trojan, server: a.com, port: 443 }',
+      '  - name: A',
+      '    type: ss',
+      'proxy-groups:',
+      '  - name: Proxy',
+      '    type: select',
+      '    proxies: [A, B]',
+      'rules:',
+      '  - MATCH,Auto',
+    ].join('\n');
+    const result = validateOutput(output, 'yaml');
+    expect(result.client).toBe('clash');
+    expect(result.issues).toEqual([
+      {
+        code: 'entry_missing_field',
+        severity: 'error',
+        line: 3,
+        params: { entry: 'A', field: 'server' },
+      },
+      {
+        code: 'entry_missing_field',
+        severity: 'error',
+        line: 3,
+        params: { entry: 'A', field: 'port' },
+      },
+      { code: 'duplicate_name', severity: 'error', line: 3, params: { name: 'A' } },
+      {
+        code: 'unknown_reference',
+        severity: 'warning',
+        line: 8,
+        params: { entry: 'Proxy', name: 'B' },
+      },
+      {
+        code: 'unknown_reference',
+        severity: 'warning',
+        line: 10,
+        params: { entry: 'MATCH,Auto', name: 'Auto' },
+      },
+    ]);
+  });
+
+  it('checks sing-box outbounds and route references', () => {
+    const output = JSON.stringify(
+      {
+        outbounds: [
+          { type: 'selector', tag: 'proxy', outbounds: ['a', 'missing'] },
+          { type: 'trojan', tag: 'a', server: 'a.com' },
+        ],
+        route: { final: 'proxy' },
+      },
+      null,
+      2,
+    );
+    const result = validateOutput(output, 'json');
+    expect(result.client).toBe('singBox');
+    expect(result.issues.map((issue) => [issue.code, issue.params])).toEqual([
+      ['entry_missing_field', { entry: 'a', field: 'server_port' }],
+      ['unknown_reference', { entry: 'proxy', name: 'missing' }],
+    ]);
+  });
+
+  it('decodes base64 output and checks the share links inside', () => {
+    const result = validateOutput(btoa(`${LINKS}\nfoo://x\nvless://id@d.com`), 'base64');
+    expect(result.client).toBe('shareLinks');
+    expect(result.content).toContain('trojan://pw@a.com:443#A');
+    expect(result.issues).toEqual([
+      { code: 'uri_unknown_scheme', severity: 'warning', line: 4, params: { scheme: 'foo' } },
+      { code: 'uri_invalid', severity: 'error', line: 5, params: { scheme: 'vless' } },
+    ]);
+  });
+
+  it('accepts a plain link list the server has yet to encode', () => {
+    const result = validateOutput(LINKS, 'base64');
+    expect(result).toEqual({ client: 'shareLinks', content: LINKS, issues: [] });
+  });
+
+  it('rejects base64 output that is neither encoded nor a link list', () => {
+    expect(validateOutput('not base64!', 'base64').issues).toEqual([
+      { code: 'base64_invalid', severity: 'error', line: 1 },
+    ]);
+  });
+
+  it('recognises Surge and Quantumult X configs', () => {
+    const surge = validateOutput(
+      ['[Proxy]', 'A = trojan, a.com, 443', 'B = trojan', '[Proxy Group]', 'G = select, A, C'].join(
+        '\n',
+      ),
+      'conf',
+    );
+    expect(surge.client).toBe('surge');
+    expect(surge.issues.map((issue) => [issue.code, issue.line])).toEqual([
+      ['entry_missing_field', 3],
+      ['unknown_reference', 5],
+    ]);
+
+    const quantumultX = validateOutput(
+      [
+        '[server_local]',
+        'trojan=a.com:443, password=pw, tag=A',
+        'trojan=b.com:443, password=pw',
+      ].join('\n'),
+      'conf',
+    );
+    expect(quantumultX.client).toBe('quantumultX');
+    expect(quantumultX.issues.map((issue) => [issue.code, issue.line])).toEqual([
+      ['entry_missing_field', 3],
+    ]);
+  });
+});
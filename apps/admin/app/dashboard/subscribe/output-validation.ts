@@ -0,0 +1,628 @@
+import yaml from 'js-yaml';
+
+export type OutputIssueCode =
+  | 'empty_output'
+  | 'yaml_syntax'
+  | 'json_syntax'
+  | 'base64_invalid'
+  | 'not_a_mapping'
+  | 'not_a_list'
+  | 'missing_key'
+  | 'empty_list'
+  | 'entry_missing_field'
+  | 'duplicate_name'
+  | 'unknown_reference'
+  | 'missing_section'
+  | 'invalid_line'
+  | 'uri_unrecognized'
+  | 'uri_unknown_scheme'
+  | 'uri_invalid';
+
+export type OutputClient = 'clash' | 'singBox' | 'surge' | 'quantumultX' | 'shareLinks';
+
+export interface OutputIssue {
+  code: OutputIssueCode;
+  severity: 'error' | 'warning';
+  // 1-based position in `OutputValidation.content`
+  line: number;
+  column?: number;
+  params?: Record<string, string | number>;
+}
+
+export interface OutputValidation {
+  // Client family the output was recognised as, if any
+  client?: OutputClient;
+  // Text the issue lines refer to; the decoded list for base64 output
+  content: string;
+  issues: OutputIssue[];
+}
+
+// Share link schemes understood by common clients
+const SHARE_SCHEMES = [
+  'ss',
+  'ssr',
+  'vmess',
+  'vless',
+  'trojan',
+  'hysteria',
+  'hysteria2',
+  'hy2',
+  'tuic',
+  'anytls',
+  'socks',
+  'socks5',
+  'http',
+  'https',
+  'naive+https',
+  'naive+quic',
+  'mieru',
+  'wireguard',
+  'wg',
+];
+
+// Policies every Clash/Surge-style client provides without declaring them
+const BUILTIN_POLICIES = [
+  'DIRECT',
+  'REJECT',
+  'REJECT-DROP',
+  'REJECT-TINYGIF',
+  'REJECT-NO-DROP',
+  'PASS',
+  'COMPATIBLE',
+  'GLOBAL',
+];
+
+// Clash proxy types that do not connect to a remote server
+const LOCAL_CLASH_TYPES = ['direct', 'dns', 'reject'];
+
+// sing-box outbound types that do not connect to a remote server
+const LOCAL_SING_BOX_TYPES = ['direct', 'block', 'dns', 'selector', 'urltest'];
+
+const truncate = (value: string, length = 40) =>
+  value.length > length ? `${value.slice(0, length)}…` : value;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Line of the first match, searching from `from` (1-based), or the fallback. */
+function findLine(lines: string[], pattern: RegExp, fallback = 1, from = 1) {
+  for (let i = Math.max(0, from - 1); i < lines.length; i++) {
+    if (pattern.test(lines[i]!)) return i + 1;
+  }
+  return fallback;
+}
+
+function lineOfOffset(text: string, offset: number) {
+  const before = text.slice(0, offset);
+  return { line: before.split('\n').length, column: offset - before.lastIndexOf('\n') };
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function decodeBase64(value: string) {
+  const normalized = value.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(normalized)) return undefined;
+  try {
+    const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+    return new TextDecoder('utf-8', { fatal: true }).decode(
+      Uint8Array.from(binary, (ch) => ch.charCodeAt(0)),
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Share links
+
+function checkShareLink(link: string): Pick<OutputIssue, 'code' | 'severity' | 'params'> | null {
+  const match = link.match(/^([a-z][a-z0-9+.-]*):\/\/(.*)$/i);
+  if (!match) {
+    return { code: 'uri_unrecognized', severity: 'error', params: { value: truncate(link) } };
+  }
+  const scheme = match[1]!.toLowerCase();
+  const rest = match[2]!;
+  if (!SHARE_SCHEMES.includes(scheme)) {
+    return { code: 'uri_unknown_scheme', severity: 'warning', params: { scheme } };
+  }
+  const invalid = { code: 'uri_invalid' as const, severity: 'error' as const, params: { scheme } };
+
+  if (scheme === 'vmess' && !rest.includes('@')) {
+    // v2rayN style: base64 encoded JSON with add/port
+    const decoded = decodeBase64(rest.split('#')[0]!);
+    try {
+      const config = JSON.parse(decoded ?? '');
+      return config?.add && config?.port ? null : invalid;
+    } catch {
+      return invalid;
+    }
+  }
+  if ((scheme === 'ss' || scheme === 'ssr') && !rest.includes('@')) {
+    // Legacy form: the whole userinfo@host:port part is base64 encoded
+    const decoded = decodeBase64(rest.split(/[#?/]/)[0]!);
+    return decoded && /:\d+/.test(decoded) ? null : invalid;
+  }
+  try {
+    const url = new URL(link);
+    return url.hostname && url.port ? null : invalid;
+  } catch {
+    return invalid;
+  }
+}
+
+function validateShareLinks(content: string): OutputIssue[] {
+  const issues: OutputIssue[] = [];
+  content.split('\n').forEach((raw, index) => {
+    const link = raw.trim();
+    if (!link) return;
+    const issue = checkShareLink(link);
+    if (issue) issues.push({ ...issue, line: index + 1 });
+  });
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Clash / Clash Meta / Stash (YAML)
+
+const CLASH_KEYS = ['proxies', 'proxy-groups', 'proxy-providers', 'rules', 'rule-providers'];
+
+function validateClash(doc: Record<string, any>, lines: string[]): OutputIssue[] {
+  const issues: OutputIssue[] = [];
+  const keyLine = (key: string) => findLine(lines, new RegExp(`^${escapeRegExp(key)}\\s*:`));
+  // Matches both block (`- name: X`) and flow (`{ name: X, ... }`) entries
+  const nameLine = (name: string, fallback: number, from = 1) =>
+    findLine(
+      lines,
+      new RegExp(`(?:^|[\\s{,-])name:\\s*['"]?${escapeRegExp(name)}['"]?\\s*(?:,|}|$)`),
+      fallback,
+      from,
+    );
+  const names = new Set<string>(BUILTIN_POLICIES);
+
+  const checkList = (key: string, required: boolean) => {
+    const value = doc[key];
+    if (value === undefined || value === null) {
+      if (required)
+        issues.push({ code: 'missing_key', severity: 'error', line: 1, params: { key } });
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      issues.push({ code: 'not_a_list', severity: 'error', line: keyLine(key), params: { key } });
+      return [];
+    }
+    if (value.length === 0 && required) {
+      issues.push({ code: 'empty_list', severity: 'warning', line: keyLine(key), params: { key } });
+    }
+    return value;
+  };
+
+  const checkEntries = (key: string, entries: unknown[], fields: (entry: any) => string[]) => {
+    const fallback = keyLine(key);
+    // Entries appear in order, so each one is searched for after the previous
+    let from = fallback;
+    entries.forEach((entry, index) => {
+      const label = isRecord(entry) && entry.name ? String(entry.name) : `${key}[${index}]`;
+      const line = isRecord(entry) && entry.name ? nameLine(String(entry.name), from, from) : from;
+      from = line + 1;
+      if (!isRecord(entry)) {
+        issues.push({ code: 'not_a_mapping', severity: 'error', line, params: { key: label } });
+        return;
+      }
+      fields(entry)
+        .filter(
+          (field) => entry[field] === undefined || entry[field] === null || entry[field] === '',
+        )
+        .forEach((field) =>
+          issues.push({
+            code: 'entry_missing_field',
+            severity: 'error',
+            line,
+            params: { entry: label, field },
+          }),
+        );
+      if (entry.name === undefined) return;
+      if (names.has(String(entry.name)) && !BUILTIN_POLICIES.includes(String(entry.name))) {
+        issues.push({ code: 'duplicate_name', severity: 'error', line, params: { name: label } });
+      }
+      names.add(String(entry.name));
+    });
+  };
+
+  // Proxies may come entirely from providers
+  const proxies = checkList('proxies', !doc['proxy-providers']);
+  checkEntries('proxies', proxies, (proxy) =>
+    LOCAL_CLASH_TYPES.includes(String(proxy.type))
+      ? ['name', 'type']
+      : ['name', 'type', 'server', 'port'],
+  );
+  const groups = checkList('proxy-groups', true);
+  checkEntries('proxy-groups', groups, () => ['name', 'type']);
+
+  groups.filter(isRecord).forEach((group) => {
+    if (!Array.isArray(group.proxies)) return;
+    const line = nameLine(String(group.name), keyLine('proxy-groups'));
+    group.proxies
+      .filter((member: unknown) => !names.has(String(member)))
+      .forEach((member: unknown) =>
+        issues.push({
+          code: 'unknown_reference',
+          severity: 'warning',
+          line: findLine(lines, new RegExp(escapeRegExp(String(member))), line, line),
+          params: { entry: String(group.name), name: String(member) },
+        }),
+      );
+  });
+
+  const rules = checkList('rules', false);
+  const rulesLine = keyLine('rules');
+  rules.forEach((rule, index) => {
+    if (typeof rule !== 'string') return;
+    const parts = rule.split(',').map((part) => part.trim());
+    // TYPE,VALUE,POLICY[,option] or MATCH,POLICY
+    const policy = parts[0] === 'MATCH' ? parts[1] : parts[2];
+    if (policy && !names.has(policy)) {
+      issues.push({
+        code: 'unknown_reference',
+        severity: 'warning',
+        line: findLine(lines, new RegExp(escapeRegExp(rule)), rulesLine + index + 1, rulesLine),
+        params: { entry: truncate(rule), name: policy },
+      });
+    }
+  });
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// sing-box (JSON)
+
+const SING_BOX_KEYS = ['outbounds', 'inbounds', 'route', 'dns', 'experimental'];
+
+function validateSingBox(doc: Record<string, any>, lines: string[]): OutputIssue[] {
+  const issues: OutputIssue[] = [];
+  const keyLine = (key: string) => findLine(lines, new RegExp(`"${escapeRegExp(key)}"\\s*:`));
+  const tagLine = (tag: string, fallback: number) =>
+    findLine(lines, new RegExp(`"tag"\\s*:\\s*"${escapeRegExp(tag)}"`), fallback);
+
+  if (!Array.isArray(doc.outbounds)) {
+    issues.push(
+      doc.outbounds === undefined
+        ? { code: 'missing_key', severity: 'error', line: 1, params: { key: 'outbounds' } }
+        : {
+            code: 'not_a_list',
+            severity: 'error',
+            line: keyLine('outbounds'),
+            params: { key: 'outbounds' },
+          },
+    );
+    return issues;
+  }
+
+  const outboundsLine = keyLine('outbounds');
+  const tags = new Set<string>();
+  doc.outbounds.forEach((outbound: unknown, index: number) => {
+    const label = isRecord(outbound) && outbound.tag ? String(outbound.tag) : `outbounds[${index}]`;
+    const line = isRecord(outbound) && outbound.tag ? tagLine(label, outboundsLine) : outboundsLine;
+    if (!isRecord(outbound)) {
+      issues.push({ code: 'not_a_mapping', severity: 'error', line, params: { key: label } });
+      return;
+    }
+    const fields = LOCAL_SING_BOX_TYPES.includes(String(outbound.type))
+      ? ['type', 'tag']
+      : ['type', 'tag', 'server', 'server_port'];
+    fields
+      .filter((field) => outbound[field] === undefined || outbound[field] === '')
+      .forEach((field) =>
+        issues.push({
+          code: 'entry_missing_field',
+          severity: 'error',
+          line,
+          params: { entry: label, field },
+        }),
+      );
+    if (outbound.tag === undefined) return;
+    if (tags.has(String(outbound.tag))) {
+      issues.push({ code: 'duplicate_name', severity: 'error', line, params: { name: label } });
+    }
+    tags.add(String(outbound.tag));
+  });
+
+  const reference = (entry: string, name: unknown, line: number) => {
+    if (typeof name === 'string' && !tags.has(name)) {
+      issues.push({
+        code: 'unknown_reference',
+        severity: 'warning',
+        line: findLine(lines, new RegExp(`"${escapeRegExp(name)}"`), line, line),
+        params: { entry, name },
+      });
+    }
+  };
+  doc.outbounds.filter(isRecord).forEach((outbound: Record<string, any>) => {
+    if (!Array.isArray(outbound.outbounds)) return;
+    const line = tagLine(String(outbound.tag), outboundsLine);
+    outbound.outbounds.forEach((name: unknown) => reference(String(outbound.tag), name, line));
+    if (outbound.default) reference(String(outbound.tag), outbound.default, line);
+  });
+  if (isRecord(doc.route)) {
+    const routeLine = keyLine('route');
+    if (doc.route.final) reference('route.final', doc.route.final, routeLine);
+    if (Array.isArray(doc.route.rules)) {
+      doc.route.rules.filter(isRecord).forEach((rule: Record<string, any>, index: number) => {
+        if (rule.outbound) reference(`route.rules[${index}]`, rule.outbound, routeLine);
+      });
+    }
+  }
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Surge / Loon / Shadowrocket and Quantumult X (INI-style conf)
+
+interface ConfSection {
+  name: string;
+  // 1-based line of the header
+  line: number;
+  entries: { line: number; text: string }[];
+}
+
+function parseConf(lines: string[]) {
+  const sections: ConfSection[] = [];
+  lines.forEach((raw, index) => {
+    const text = raw.trim();
+    if (!text || /^(#|;|\/\/)/.test(text)) return;
+    const header = text.match(/^\[(.+)\]$/);
+    if (header) sections.push({ name: header[1]!.trim(), line: index + 1, entries: [] });
+    else sections[sections.length - 1]?.entries.push({ line: index + 1, text });
+  });
+  return sections;
+}
+
+// Members of a policy list are comma separated; key=value pairs are options
+function policyMembers(value: string) {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part && !part.includes('='));
+}
+
+function validateSurge(sections: ConfSection[]): OutputIssue[] {
+  const issues: OutputIssue[] = [];
+  const section = (name: string) => sections.find((s) => s.name.toLowerCase() === name);
+  const proxy = section('proxy');
+  const group = section('proxy group');
+  const names = new Set<string>(BUILTIN_POLICIES);
+
+  [
+    ['Proxy', proxy],
+    ['Proxy Group', group],
+  ].forEach(([name, found]) => {
+    if (!found) {
+      issues.push({
+        code: 'missing_section',
+        severity: 'error',
+        line: 1,
+        params: { section: name as string },
+      });
+    }
+  });
+
+  const parseEntries = (current: ConfSection | undefined, minParts: (type: string) => number) => {
+    const entries: { line: number; name: string; parts: string[] }[] = [];
+    current?.entries.forEach(({ line, text }) => {
+      const match = text.match(/^([^=]+?)\s*=\s*(.+)$/);
+      if (!match) {
+        issues.push({
+          code: 'invalid_line',
+          severity: 'error',
+          line,
+          params: { section: current.name },
+        });
+        return;
+      }
+      const name = match[1]!;
+      const parts = match[2]!.split(',').map((part) => part.trim());
+      if (names.has(name)) {
+        issues.push({ code: 'duplicate_name', severity: 'error', line, params: { name } });
+      }
+      names.add(name);
+      const required = minParts(parts[0]!.toLowerCase());
+      if (parts.length < required || (required >= 3 && !/^\d+$/.test(parts[2]!))) {
+        issues.push({
+          code: 'entry_missing_field',
+          severity: 'error',
+          line,
+          params: { entry: name, field: required >= 3 ? 'server, port' : 'type' },
+        });
+      }
+      entries.push({ line, name, parts });
+    });
+    return entries;
+  };
+
+  parseEntries(proxy, (type) => (['direct', 'reject', 'reject-drop'].includes(type) ? 1 : 3));
+  const groups = parseEntries(group, () => 1);
+  groups.forEach(({ line, name, parts }) =>
+    policyMembers(parts.slice(1).join(','))
+      .filter((member) => !names.has(member))
+      .forEach((member) =>
+        issues.push({
+          code: 'unknown_reference',
+          severity: 'warning',
+          line,
+          params: { entry: name, name: member },
+        }),
+      ),
+  );
+
+  section('rule')?.entries.forEach(({ line, text }) => {
+    const parts = text.split(',').map((part) => part.trim());
+    const policy = ['FINAL', 'MATCH'].includes(parts[0]!.toUpperCase()) ? parts[1] : parts[2];
+    if (policy && !names.has(policy)) {
+      issues.push({
+        code: 'unknown_reference',
+        severity: 'warning',
+        line,
+        params: { entry: truncate(text), name: policy },
+      });
+    }
+  });
+  return issues;
+}
+
+function validateQuantumultX(sections: ConfSection[]): OutputIssue[] {
+  const issues: OutputIssue[] = [];
+  const section = (name: string) => sections.find((s) => s.name.toLowerCase() === name);
+  const servers = section('server_local');
+  const names = new Set<string>(['direct', 'reject', 'proxy', ...BUILTIN_POLICIES]);
+
+  if (!servers && !section('server_remote')) {
+    issues.push({
+      code: 'missing_section',
+      severity: 'error',
+      line: 1,
+      params: { section: 'server_local' },
+    });
+  }
+  servers?.entries.forEach(({ line, text }) => {
+    // type=server:port, option=value, ..., tag=Name
+    const match = text.match(/^[\w-]+\s*=\s*([^,]+):(\d+)\s*,/);
+    const tag = text.match(/(?:^|,)\s*tag\s*=\s*([^,]+)/)?.[1]?.trim();
+    if (!match) {
+      issues.push({
+        code: 'invalid_line',
+        severity: 'error',
+        line,
+        params: { section: servers.name },
+      });
+    }
+    if (!tag) {
+      issues.push({
+        code: 'entry_missing_field',
+        severity: 'error',
+        line,
+        params: { entry: truncate(text), field: 'tag' },
+      });
+      return;
+    }
+    if (names.has(tag))
+      issues.push({ code: 'duplicate_name', severity: 'error', line, params: { name: tag } });
+    names.add(tag);
+  });
+
+  const policies = section('policy')?.entries ?? [];
+  const groups = policies.map(({ line, text }) => {
+    const [, name = '', members = ''] = text.match(/^[\w-]+\s*=\s*([^,]+),?(.*)$/) ?? [];
+    names.add(name.trim());
+    return { line, name: name.trim(), members: policyMembers(members) };
+  });
+  groups.forEach(({ line, name, members }) =>
+    members
+      .filter((member) => !names.has(member))
+      .forEach((member) =>
+        issues.push({
+          code: 'unknown_reference',
+          severity: 'warning',
+          line,
+          params: { entry: name, name: member },
+        }),
+      ),
+  );
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Check rendered subscription output for the given `output_format`: syntax for
+ * YAML/JSON, share links for base64 and plain lists, and the keys and
+ * references Clash, sing-box, Surge and Quantumult X configs need.
+ */
+export function validateOutput(output: string, format?: string): OutputValidation {
+  if (!output.trim()) {
+    return { content: output, issues: [{ code: 'empty_output', severity: 'warning', line: 1 }] };
+  }
+  const lines = output.split('\n');
+  const first = lines.find((line) => line.trim())!.trim();
+  const isLinkList = /^[a-z][a-z0-9+.-]*:\/\//i.test(first);
+
+  switch (format) {
+    case 'yaml': {
+      let doc: unknown;
+      try {
+        doc = yaml.load(output);
+      } catch (error) {
+        const { reason, mark } = error as yaml.YAMLException;
+        return {
+          content: output,
+          issues: [
+            {
+              code: 'yaml_syntax',
+              severity: 'error',
+              line: (mark?.line ?? 0) + 1,
+              column: (mark?.column ?? 0) + 1,
+              params: { message: reason ?? String(error) },
+            },
+          ],
+        };
+      }
+      if (isRecord(doc) && CLASH_KEYS.some((key) => key in doc)) {
+        return { client: 'clash', content: output, issues: validateClash(doc, lines) };
+      }
+      return { content: output, issues: [] };
+    }
+    case 'json': {
+      let doc: unknown;
+      try {
+        doc = JSON.parse(output);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const explicit = message.match(/line (\d+) column (\d+)/);
+        const offset = message.match(/position (\d+)/);
+        const position = explicit
+          ? { line: Number(explicit[1]), column: Number(explicit[2]) }
+          : offset
+            ? lineOfOffset(output, Number(offset[1]))
+            : { line: 1, column: 1 };
+        return {
+          content: output,
+          issues: [{ code: 'json_syntax', severity: 'error', ...position, params: { message } }],
+        };
+      }
+      if (isRecord(doc) && SING_BOX_KEYS.some((key) => key in doc)) {
+        return { client: 'singBox', content: output, issues: validateSingBox(doc, lines) };
+      }
+      return { content: output, issues: [] };
+    }
+    case 'base64': {
+      const decoded = decodeBase64(output.trim());
+      // Templates may render the plain list and leave the encoding to the server
+      if (decoded === undefined && isLinkList) break;
+      if (decoded === undefined) {
+        return {
+          content: output,
+          issues: [{ code: 'base64_invalid', severity: 'error', line: 1 }],
+        };
+      }
+      return { client: 'shareLinks', content: decoded, issues: validateShareLinks(decoded) };
+    }
+    case 'conf': {
+      const sections = parseConf(lines);
+      const names = sections.map((section) => section.name.toLowerCase());
+      if (names.some((name) => ['server_local', 'server_remote', 'policy'].includes(name))) {
+        return { client: 'quantumultX', content: output, issues: validateQuantumultX(sections) };
+      }
+      if (names.some((name) => ['proxy', 'proxy group', 'rule', 'general'].includes(name))) {
+        return { client: 'surge', content: output, issues: validateSurge(sections) };
+      }
+      break;
+    }
+  }
+
+  // Plain, not yet encoded base64 and unrecognised conf output is checked as a link list when it looks like one
+  if (isLinkList) {
+    return { client: 'shareLinks', content: output, issues: validateShareLinks(output) };
+  }
+  return { content: output, issues: [] };
+}
@@ -56,8 +56,12 @@ import { useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { toast } from 'sonner';
 import { z } from 'zod';
+import { FixturePanel } from './fixture-panel';
+import { SubscribeSampleData } from './sample-data';
 import { subscribeSchema } from './schema';
-import { TemplatePreview } from './template-preview';
+import { LibraryStatusBadge, TemplateGallery } from './template-gallery';
+import { getLibraryStatus } from './template-library';
+import { TemplateLivePreview, TemplatePreview } from './template-preview';
 
 const createClientFormSchema = (t: any) =>
   z.object({
@@ -85,6 +89,7 @@ export function ProtocolForm() {
   const [loading, setLoading] = useState(false);
   const [open, setOpen] = useState(false);
   const [editingClient, setEditingClient] = useState<API.SubscribeApplication | null>(null);
+  const [fixture, setFixture] = useState<{ name: string; data: SubscribeSampleData }>();
   const tableRef = useRef<ProTableActions>(null);
 
   const clientFormSchema = createClientFormSchema(t);
@@ -145,25 +150,29 @@ export function ProtocolForm() {
     {
       accessorKey: 'name',
       header: t('table.columns.name'),
-      cell: ({ row }) => (
-        <div className='flex items-center gap-2'>
-          {row.original.icon && (
-            <div className='relative h-6 w-6 flex-shrink-0'>
-              <Image
-                src={row.original.icon}
-                alt={row.original.name}
-                width={24}
-                height={24}
-                className='rounded object-contain'
-                onError={() => {
-                  console.log(`Failed to load image for ${row.original.name}`);
-                }}
-              />
-            </div>
-          )}
-          <span className='font-medium'>{row.original.name}</span>
-        </div>
-      ),
+      cell: ({ row }) => {
+        const status = getLibraryStatus(row.original.template);
+        return (
+          <div className='flex items-center gap-2'>
+            {row.original.icon && (
+              <div className='relative h-6 w-6 flex-shrink-0'>
+                <Image
+                  src={row.original.icon}
+                  alt={row.original.name}
+                  width={24}
+                  height={24}
+                  className='rounded object-contain'
+                  onError={() => {
+                    console.log(`Failed to load image for ${row.original.name}`);
+                  }}
+                />
+              </div>
+            )}
+            <span className='font-medium'>{row.original.name}</span>
+            {status && <LibraryStatusBadge status={status} />}
+          </div>
+        );
+      },
     },
     {
       accessorKey: 'user_agent',
@@ -245,6 +254,15 @@ export function ProtocolForm() {
     setOpen(true);
   };
 
+  const handleCustomize = (values: API.CreateSubscribeApplicationRequest) => {
+    setEditingClient(null);
+    form.reset({
+      ...values,
+      download_link: { ...form.formState.defaultValues?.download_link, ...values.download_link },
+    });
+    setOpen(true);
+  };
+
   const handleEdit = (client: API.SubscribeApplication) => {
     setEditingClient(client);
     form.reset(client);
@@ -329,7 +347,15 @@ export function ProtocolForm() {
               </a>
             </div>
           ),
-          toolbar: <Button onClick={handleAdd}>{t('actions.add')}</Button>,
+          toolbar: (
+            <div className='flex gap-2'>
+              <TemplateGallery
+                onCustomize={handleCustomize}
+                onChange={() => tableRef.current?.refresh()}
+              />
+              <Button onClick={handleAdd}>{t('actions.add')}</Button>
+            </div>
+          ),
         }}
         actions={{
           render: (row) => [
@@ -579,6 +605,8 @@ export function ProtocolForm() {
                       )}
                     />
 
+                    <FixturePanel onChange={setFixture} />
+
                     <FormField
                       control={form.control}
                       name='template'
@@ -667,6 +695,14 @@ export function ProtocolForm() {
                               enableSprig
                               value={field.value || ''}
                               onChange={(value) => field.onChange(value)}
+                              render={(value) => (
+                                <TemplateLivePreview
+                                  template={value}
+                                  output_format={form.watch('output_format')}
+                                  data={fixture?.data}
+                                  dataName={fixture?.name}
+                                />
+                              )}
                             />
                           </FormControl>
                           <FormMessage />
@@ -0,0 +1,221 @@
+import { protocols } from '@/app/dashboard/servers/form-schema/constants';
+import { subscribeSchema } from './schema';
+
+interface SchemaNode {
+  type: string;
+  description?: string;
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+}
+
+/** The Go zero value for a schema node; objects get every declared property. */
+export function zeroValue(node: SchemaNode): unknown {
+  switch (node.type) {
+    case 'string':
+      return '';
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(node.properties ?? {}).map(([key, child]) => [key, zeroValue(child)]),
+      );
+    default:
+      return null;
+  }
+}
+
+// subscribeSchema lists the top-level fields only, so wrap it as an object node
+export const SAMPLE_DATA_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: subscribeSchema as Record<string, SchemaNode>,
+};
+
+const proxySchema: SchemaNode = subscribeSchema.Proxies.items;
+const userInfoSchema: SchemaNode = subscribeSchema.UserInfo;
+
+export type SampleProxy = Record<string, unknown>;
+
+export interface SubscribeSampleData {
+  SiteName: string;
+  SubscribeName: string;
+  Proxies: SampleProxy[];
+  UserInfo: Record<string, unknown>;
+}
+
+/** A proxy with every field of the schema, overridden by the given values. */
+export function sampleProxy(values: SampleProxy): SampleProxy {
+  return { ...(zeroValue(proxySchema) as SampleProxy), ...values };
+}
+
+export const SAMPLE_PROTOCOLS = protocols;
+
+export type SampleProtocol = (typeof SAMPLE_PROTOCOLS)[number];
+
+const SAMPLE_REGIONS = [
+  ['HK', 'Hong Kong'],
+  ['JP', 'Japan'],
+  ['SG', 'Singapore'],
+  ['US', 'United States'],
+  ['DE', 'Germany'],
+  ['GB', 'United Kingdom'],
+] as const;
+
+const SAMPLE_UUID = '7f3a2b1c-4d5e-4f60-8a9b-0c1d2e3f4a5b';
+
+// Protocol specific fields on top of the name, server, port and credentials
+const PROTOCOL_FIELDS: Record<SampleProtocol, (host: string) => SampleProxy> = {
+  shadowsocks: () => ({
+    Port: 8388,
+    Method: '2022-blake3-aes-128-gcm',
+    Cipher: '2022-blake3-aes-128-gcm',
+    ServerKey: 'c2VydmVyLWtleS0xMjM0NQ==',
+    Password: 'dXNlci1rZXktMTIzNDU2Nw==',
+  }),
+  vmess: (host) => ({
+    Port: 443,
+    Security: 'tls',
+    SNI: host,
+    Fingerprint: 'chrome',
+    Transport: 'websocket',
+    Host: host,
+    Path: '/vmess',
+    AlterId: 0,
+  }),
+  vless: () => ({
+    Port: 443,
+    Security: 'reality',
+    SNI: 'www.microsoft.com',
+    Fingerprint: 'chrome',
+    RealityServerAddr: 'www.microsoft.com',
+    RealityServerPort: 443,
+    RealityPublicKey: 'jNXHt1yRo0vDuchQlIP6Z0ZvjT3KtzVI-T4E7RoLJS0',
+    RealityShortId: '6ba85179e30d4fc2',
+    Transport: 'tcp',
+    Flow: 'xtls-rprx-vision',
+    Encryption: 'none',
+  }),
+  trojan: (host) => ({
+    Port: 443,
+    Security: 'tls',
+    SNI: host,
+    Fingerprint: 'chrome',
+    Transport: 'grpc',
+    ServiceName: 'trojan-grpc',
+  }),
+  hysteria: (host) => ({
+    Port: 8443,
+    Security: 'tls',
+    SNI: host,
+    ObfsPassword: 'obfs-secret',
+    HopPorts: '20000-30000',
+    HopInterval: 30,
+    UpMbps: 100,
+    DownMbps: 500,
+  }),
+  tuic: (host) => ({
+    Port: 8443,
+    Security: 'tls',
+    SNI: host,
+    UDPRelayMode: 'native',
+    CongestionController: 'bbr',
+    ReduceRtt: true,
+  }),
+  anytls: (host) => ({
+    Port: 443,
+    Security: 'tls',
+    SNI: host,
+    Fingerprint: 'chrome',
+    PaddingScheme: 'stop=8\n0=30-30\n1=100-400',
+  }),
+  socks: () => ({ Port: 1080 }),
+  naive: (host) => ({ Port: 443, Security: 'tls', SNI: host }),
+  http: (host) => ({ Port: 8080, Security: 'tls', SNI: host }),
+  mieru: () => ({ Port: 2999, Transport: 'tcp', Multiplex: 'middle' }),
+};
+
+export interface SampleDataOptions {
+  siteName: string;
+  subscribeName: string;
+  protocols: SampleProtocol[];
+  // Nodes generated for each selected protocol, spread across regions
+  perProtocol: number;
+}
+
+export const DEFAULT_SAMPLE_OPTIONS: SampleDataOptions = {
+  siteName: 'PPanel',
+  subscribeName: 'Premium',
+  protocols: ['shadowsocks', 'vmess', 'vless', 'trojan', 'hysteria', 'tuic', 'anytls'],
+  perProtocol: 1,
+};
+
+/** Proxies for every selected protocol, named and numbered like real nodes. */
+export function generateSampleProxies(options: SampleDataOptions): SampleProxy[] {
+  const proxies: SampleProxy[] = [];
+  options.protocols.forEach((type) => {
+    for (let i = 0; i < options.perProtocol; i++) {
+      const [code, region] = SAMPLE_REGIONS[proxies.length % SAMPLE_REGIONS.length]!;
+      const number = String(i + 1).padStart(2, '0');
+      const host = `${code.toLowerCase()}${number}.example.com`;
+      proxies.push(
+        sampleProxy({
+          Name: `${region} ${type} ${number}`,
+          Server: host,
+          Type: type,
+          Tags: [code],
+          Sort: proxies.length + 1,
+          Enable: true,
+          UUID: SAMPLE_UUID,
+          Password: SAMPLE_UUID,
+          ...PROTOCOL_FIELDS[type](host),
+        }),
+      );
+    }
+  });
+  return proxies;
+}
+
+/** Data shaped like `subscribeSchema` for rendering templates in the browser. */
+export function createSampleData(
+  options: SampleDataOptions = DEFAULT_SAMPLE_OPTIONS,
+): SubscribeSampleData {
+  return {
+    ...(zeroValue(SAMPLE_DATA_SCHEMA) as SubscribeSampleData),
+    SiteName: options.siteName,
+    SubscribeName: options.subscribeName,
+    Proxies: generateSampleProxies(options),
+    UserInfo: {
+      Password: SAMPLE_UUID,
+      ExpiredAt: '2026-12-31 23:59:59',
+      Download: 3_221_225_472,
+      Upload: 536_870_912,
+      Traffic: 107_374_182_400,
+      SubscribeURL: 'https://example.com/api/subscribe?token=sample-token',
+    },
+  };
+}
+
+/**
+ * Fill hand-written fixture data with zero values so templates see the same
+ * fields the server would provide. Returns undefined when the shape is wrong.
+ */
+export function normalizeSampleData(value: unknown): SubscribeSampleData | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const data = value as Partial<SubscribeSampleData>;
+  if (data.Proxies !== undefined && !Array.isArray(data.Proxies)) return undefined;
+  if (data.Proxies?.some((proxy) => !proxy || typeof proxy !== 'object' || Array.isArray(proxy))) {
+    return undefined;
+  }
+  return {
+    ...(zeroValue(SAMPLE_DATA_SCHEMA) as SubscribeSampleData),
+    ...data,
+    Proxies: (data.Proxies ?? []).map(sampleProxy),
+    UserInfo: {
+      ...(zeroValue(userInfoSchema) as Record<string, unknown>),
+      ...(data.UserInfo && typeof data.UserInfo === 'object' ? data.UserInfo : {}),
+    },
+  };
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import {
+  createSubscribeApplication,
+  getSubscribeApplicationList,
+  updateSubscribeApplication,
+} from '@/services/admin/application';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@workspace/ui/components/badge';
+import { Button } from '@workspace/ui/components/button';
+import { ScrollArea } from '@workspace/ui/components/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@workspace/ui/components/sheet';
+import { ConfirmButton } from '@workspace/ui/custom-components/confirm-button';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  getLibraryStatus,
+  LIBRARY_TEMPLATES,
+  libraryApplication,
+  LibraryState,
+  LibraryStatus,
+  libraryTemplate,
+  LibraryTemplate,
+} from './template-library';
+
+const STATE_STYLES: Record<LibraryState, string> = {
+  current: 'border-green-600 text-green-600',
+  outdated: 'border-yellow-600 text-yellow-600',
+  modified: 'border-blue-600 text-blue-600',
+};
+
+/** Badge telling whether an application's template matches its library entry. */
+export function LibraryStatusBadge({ status }: { status: LibraryStatus }) {
+  const t = useTranslations('subscribe');
+  return (
+    <Badge variant='outline' className={cn('text-xs', STATE_STYLES[status.state])}>
+      {t(`library.states.${status.state}`, {
+        version: status.version,
+        latest: status.entry.version,
+      })}
+    </Badge>
+  );
+}
+
+/**
+ * Curated templates for well-known clients. Admins install one as a new
+ * application, or open it in the form to adjust it first; installed copies
+ * are matched back to their entry so outdated ones can be updated in place.
+ */
+export function TemplateGallery({
+  onCustomize,
+  onChange,
+}: {
+  onCustomize: (values: API.CreateSubscribeApplicationRequest) => void;
+  onChange: () => void;
+}) {
+  const t = useTranslations('subscribe');
+  const [open, setOpen] = useState(false);
+  const [pending, setPending] = useState<string>();
+
+  const { data: applications = [], refetch } = useQuery({
+    queryKey: ['getSubscribeApplicationList', 'library'],
+    queryFn: async () => {
+      const { data } = await getSubscribeApplicationList({ page: 1, size: 999999999 });
+      return data.data?.list || [];
+    },
+    enabled: open,
+  });
+
+  function installed(entry: LibraryTemplate) {
+    return applications.flatMap((application) => {
+      const status = getLibraryStatus(application.template);
+      return status?.entry.id === entry.id ? [{ application, status }] : [];
+    });
+  }
+
+  async function run(id: string, action: () => Promise<unknown>, success: string) {
+    setPending(id);
+    try {
+      await action();
+      toast.success(success);
+      await refetch();
+      onChange();
+    } catch (error) {
+      console.error('Failed to save client:', error);
+      toast.error(t('actions.saveFailed'));
+    } finally {
+      setPending(undefined);
+    }
+  }
+
+  const handleInstall = (entry: LibraryTemplate) =>
+    run(
+      entry.id,
+      () => createSubscribeApplication(libraryApplication(entry, t(`library.clients.${entry.id}`))),
+      t('library.installSuccess', { name: entry.name }),
+    );
+
+  // Only the template follows the library; name, links and the rest stay as the admin set them
+  const handleUpdate = (entry: LibraryTemplate, application: API.SubscribeApplication) =>
+    run(
+      `${entry.id}:${application.id}`,
+      () =>
+        updateSubscribeApplication({
+          ...application,
+          template: libraryTemplate(entry),
+          output_format: entry.output_format,
+        }),
+      t('library.updateSuccess', { name: application.name, version: entry.version }),
+    );
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant='outline'>
+          <Icon icon='mdi:view-grid-plus-outline' className='h-4 w-4' />
+          {t('library.open')}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className='w-[580px] max-w-full md:max-w-screen-md'>
+        <SheetHeader>
+          <SheetTitle>{t('library.title')}</SheetTitle>
+          <SheetDescription>{t('library.description')}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className='h-[calc(100dvh-48px-60px)]'>
+          <div className='grid gap-3 py-4 sm:grid-cols-2'>
+            {LIBRARY_TEMPLATES.map((entry) => {
+              const copies = installed(entry);
+              return (
+                <div key={entry.id} className='flex flex-col gap-3 rounded-lg border p-4'>
+                  <div className='flex items-start justify-between gap-2'>
+                    <div>
+                      <div className='font-medium'>{entry.name}</div>
+                      <div className='text-muted-foreground font-mono text-xs'>
+                        {entry.user_agent}
+                      </div>
+                    </div>
+                    <div className='flex shrink-0 gap-1'>
+                      <Badge variant='secondary' className='text-xs'>
+                        {t('library.version', { version: entry.version })}
+                      </Badge>
+                      <Badge variant='secondary' className='text-xs'>
+                        {entry.output_format}
+                      </Badge>
+                    </div>
+                  </div>
+                  <p className='text-muted-foreground flex-1 text-sm'>
+                    {t(`library.clients.${entry.id}`)}
+                  </p>
+                  {copies.length > 0 && (
+                    <div className='space-y-1 border-t pt-2'>
+                      {copies.map(({ application, status }) => (
+                        <div
+                          key={application.id}
+                          className='flex items-center justify-between gap-2 text-sm'
+                        >
+                          <span className='truncate'>{application.name}</span>
+                          <div className='flex shrink-0 items-center gap-1'>
+                            <LibraryStatusBadge status={status} />
+                            {status.state !== 'current' && (
+                              <ConfirmButton
+                                trigger={
+                                  <Button
+                                    size='sm'
+                                    variant='ghost'
+                                    disabled={!!pending}
+                                    className='h-6 px-2'
+                                  >
+                                    {t('library.update')}
+                                  </Button>
+                                }
+                                title={t('library.confirmUpdateTitle')}
+                                description={t('library.confirmUpdateDescription', {
+                                  name: application.name,
+                                  version: entry.version,
+                                })}
+                                onConfirm={() => handleUpdate(entry, application)}
+                                cancelText={t('actions.cancel')}
+                                confirmText={t('library.update')}
+                              />
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className='flex justify-end gap-2'>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      onClick={() => {
+                        setOpen(false);
+                        onCustomize(libraryApplication(entry, t(`library.clients.${entry.id}`)));
+                      }}
+                    >
+                      {t('library.customize')}
+                    </Button>
+                    <Button size='sm' disabled={!!pending} onClick={() => handleInstall(entry)}>
+                      {pending === entry.id && (
+                        <Icon icon='mdi:loading' className='mr-2 animate-spin' />
+                      )}
+                      {copies.length > 0 ? t('library.installAgain') : t('library.install')}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
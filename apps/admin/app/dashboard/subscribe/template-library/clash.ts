@@ -0,0 +1,163 @@
+// Clash Meta (mihomo) and Stash read the same YAML layout; they differ in the
+// protocols they support and in a few hysteria2/tuic keys.
+type ClashFlavor = 'mihomo' | 'stash';
+
+function clashTemplate(flavor: ClashFlavor) {
+  const types =
+    flavor === 'mihomo'
+      ? '"shadowsocks" "vmess" "vless" "trojan" "hysteria" "tuic" "anytls"'
+      : '"shadowsocks" "vmess" "vless" "trojan" "hysteria" "tuic"';
+  const hysteriaPassword = flavor === 'mihomo' ? 'password' : 'auth';
+  const tuicVersion = flavor === 'stash' ? '\n    version: 5' : '';
+  const dns =
+    flavor === 'mihomo'
+      ? `
+unified-delay: true
+tcp-concurrent: true
+dns:
+  enable: true
+  ipv6: false
+  enhanced-mode: fake-ip
+  fake-ip-range: 198.18.0.1/16
+  nameserver:
+    - https://dns.alidns.com/dns-query
+    - https://doh.pub/dns-query
+  proxy-server-nameserver:
+    - https://dns.alidns.com/dns-query
+`
+      : `
+dns:
+  default-nameserver:
+    - 223.5.5.5
+    - 119.29.29.29
+`;
+
+  return `{{- $nodes := list }}
+{{- range .Proxies }}
+{{- if and (has .Type (list ${types})) (not (has .Transport (list "mkcp" "xhttp"))) }}
+{{- $nodes = append $nodes . }}
+{{- end }}
+{{- end -}}
+mixed-port: 7890
+allow-lan: false
+mode: rule
+log-level: info
+${dns}
+proxies:{{ if not $nodes }} []{{ end }}
+{{- range $nodes }}
+  - name: {{ .Name | quote }}
+    server: {{ .Server }}
+    port: {{ .Port }}
+{{- if eq .Type "shadowsocks" }}
+    type: ss
+    cipher: {{ .Method }}
+    password: {{ if hasPrefix "2022-" .Method }}{{ printf "%s:%s" .ServerKey .Password | quote }}{{ else }}{{ .Password | quote }}{{ end }}
+    udp: true
+{{- else if eq .Type "vmess" }}
+    type: vmess
+    uuid: {{ .UUID }}
+    alterId: {{ .AlterId }}
+    cipher: auto
+    udp: true
+{{- else if eq .Type "vless" }}
+    type: vless
+    uuid: {{ .UUID }}
+    udp: true
+{{- if and .Flow (ne .Flow "none") }}
+    flow: {{ .Flow }}
+{{- end }}
+{{- else if eq .Type "trojan" }}
+    type: trojan
+    password: {{ .Password | quote }}
+    udp: true
+{{- else if eq .Type "hysteria" }}
+    type: hysteria2
+    ${hysteriaPassword}: {{ .Password | quote }}
+{{- if .HopPorts }}
+    ports: {{ .HopPorts }}
+{{- end }}
+{{- if .ObfsPassword }}
+    obfs: salamander
+    obfs-password: {{ .ObfsPassword | quote }}
+{{- end }}
+{{- else if eq .Type "tuic" }}
+    type: tuic${tuicVersion}
+    uuid: {{ .UUID }}
+    password: {{ .Password | quote }}
+    alpn: [h3]
+    congestion-controller: {{ default "bbr" .CongestionController }}
+    udp-relay-mode: {{ default "native" .UDPRelayMode }}
+    reduce-rtt: {{ .ReduceRtt }}
+{{- else if eq .Type "anytls" }}
+    type: anytls
+    password: {{ .Password | quote }}
+    udp: true
+{{- end }}
+{{- if or (has .Type (list "trojan" "hysteria" "tuic" "anytls")) (eq .Security "tls") (eq .Security "reality") }}
+{{- if has .Type (list "vmess" "vless") }}
+    tls: true
+    servername: {{ default .Server .SNI }}
+{{- else }}
+    sni: {{ default .Server .SNI }}
+{{- end }}
+    skip-cert-verify: {{ .AllowInsecure }}
+{{- if and .Fingerprint (has .Type (list "vmess" "vless" "trojan" "anytls")) }}
+    client-fingerprint: {{ .Fingerprint }}
+{{- end }}
+{{- end }}
+{{- if eq .Security "reality" }}
+    reality-opts:
+      public-key: {{ .RealityPublicKey }}
+      short-id: {{ .RealityShortId | quote }}
+{{- end }}
+{{- if eq .Transport "websocket" "httpupgrade" }}
+    network: ws
+    ws-opts:
+      path: {{ default "/" .Path | quote }}
+{{- if .Host }}
+      headers:
+        Host: {{ .Host }}
+{{- end }}
+{{- if eq .Transport "httpupgrade" }}
+      v2ray-http-upgrade: true
+{{- end }}
+{{- else if eq .Transport "grpc" }}
+    network: grpc
+    grpc-opts:
+      grpc-service-name: {{ .ServiceName | quote }}
+{{- end }}
+{{- end }}
+
+proxy-groups:
+  - name: Proxy
+    type: select
+    proxies:
+{{- if $nodes }}
+      - Auto
+{{- end }}
+{{- range $nodes }}
+      - {{ .Name | quote }}
+{{- end }}
+      - DIRECT
+{{- if $nodes }}
+  - name: Auto
+    type: url-test
+    url: https://www.gstatic.com/generate_204
+    interval: 300
+    tolerance: 50
+    proxies:
+{{- range $nodes }}
+      - {{ .Name | quote }}
+{{- end }}
+{{- end }}
+
+rules:
+  - GEOIP,private,DIRECT,no-resolve
+  - GEOIP,CN,DIRECT
+  - MATCH,Proxy
+`;
+}
+
+export const CLASH_META_TEMPLATE = clashTemplate('mihomo');
+
+export const STASH_TEMPLATE = clashTemplate('stash');
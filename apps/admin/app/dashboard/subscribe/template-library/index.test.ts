@@ -0,0 +1,53 @@
+import { renderGoTemplate } from '@workspace/ui/utils/go-template';
+import { SPRIG_FUNCTIONS } from '@workspace/ui/utils/go-template-sprig';
+import { describe, expect, it } from 'vitest';
+import { getLibraryStatus, LIBRARY_TEMPLATES, libraryApplication, libraryTemplate } from '.';
+import { validateOutput } from '../output-validation';
+import { createSampleData } from '../sample-data';
+
+describe('LIBRARY_TEMPLATES', () => {
+  it.each(LIBRARY_TEMPLATES.map((entry) => [entry.id, entry] as const))(
+    '%s renders valid output for the sample data',
+    (_, entry) => {
+      const output = renderGoTemplate(libraryTemplate(entry), createSampleData(), {
+        functions: SPRIG_FUNCTIONS,
+      });
+      expect(output.startsWith('{{')).toBe(false);
+      const errors = validateOutput(output, entry.output_format).issues.filter(
+        (issue) => issue.severity === 'error',
+      );
+      expect(errors).toEqual([]);
+    },
+  );
+
+  it('uses unique ids', () => {
+    const ids = LIBRARY_TEMPLATES.map((entry) => entry.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('getLibraryStatus', () => {
+  const entry = LIBRARY_TEMPLATES[0]!;
+
+  it('tracks templates installed from the library', () => {
+    const { template } = libraryApplication(entry);
+    expect(getLibraryStatus(template)).toEqual({
+      entry,
+      version: entry.version,
+      state: 'current',
+    });
+    expect(getLibraryStatus(`${template!.replace(/\n/g, '\r\n')}\n\n`)!.state).toBe('current');
+  });
+
+  it('reports outdated and modified templates', () => {
+    const outdated = libraryTemplate({ ...entry, version: entry.version - 1 });
+    expect(getLibraryStatus(outdated)!.state).toBe('outdated');
+    expect(getLibraryStatus(`${libraryTemplate(entry)}\n# edited`)!.state).toBe('modified');
+  });
+
+  it('ignores templates without a known marker', () => {
+    expect(getLibraryStatus(undefined)).toBeUndefined();
+    expect(getLibraryStatus(entry.template)).toBeUndefined();
+    expect(getLibraryStatus(libraryTemplate({ ...entry, id: 'unknown' }))).toBeUndefined();
+  });
+});
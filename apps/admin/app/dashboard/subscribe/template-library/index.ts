@@ -0,0 +1,191 @@
+import { CLASH_META_TEMPLATE, STASH_TEMPLATE } from './clash';
+import { LOON_TEMPLATE } from './loon';
+import { QUANTUMULT_X_TEMPLATE } from './quantumult-x';
+import { SHARE_LINKS_TEMPLATE } from './share-links';
+import { SING_BOX_TEMPLATE } from './sing-box';
+import { SURGE_TEMPLATE } from './surge';
+
+export interface LibraryTemplate {
+  id: string;
+  // Bump whenever the template or defaults below change
+  version: number;
+  name: string;
+  user_agent: string;
+  scheme: string;
+  output_format: 'yaml' | 'json' | 'base64' | 'plain' | 'conf';
+  template: string;
+  download_link: API.DownloadLink;
+}
+
+export const LIBRARY_TEMPLATES: LibraryTemplate[] = [
+  {
+    id: 'clash-meta',
+    version: 1,
+    name: 'Clash Meta',
+    user_agent: 'mihomo',
+    scheme:
+      'clash://install-config?url=${encodeURIComponent(url)}&name=${encodeURIComponent(name)}',
+    output_format: 'yaml',
+    template: CLASH_META_TEMPLATE,
+    download_link: {
+      windows: 'https://github.com/clash-verge-rev/clash-verge-rev/releases',
+      mac: 'https://github.com/clash-verge-rev/clash-verge-rev/releases',
+      linux: 'https://github.com/clash-verge-rev/clash-verge-rev/releases',
+      android: 'https://github.com/MetaCubeX/ClashMetaForAndroid/releases',
+    },
+  },
+  {
+    id: 'sing-box',
+    version: 1,
+    name: 'sing-box',
+    user_agent: 'sing-box',
+    scheme: 'sing-box://import-remote-profile?url=${encodeURIComponent(url)}#${name}',
+    output_format: 'json',
+    template: SING_BOX_TEMPLATE,
+    download_link: {
+      ios: 'https://apps.apple.com/app/sing-box-vt/id6673731168',
+      mac: 'https://apps.apple.com/app/sing-box-vt/id6673731168',
+      android: 'https://github.com/SagerNet/sing-box/releases',
+      windows: 'https://github.com/SagerNet/sing-box/releases',
+      linux: 'https://github.com/SagerNet/sing-box/releases',
+    },
+  },
+  {
+    id: 'surge',
+    version: 1,
+    name: 'Surge',
+    user_agent: 'Surge',
+    scheme: 'surge:///install-config?url=${encodeURIComponent(url)}',
+    output_format: 'conf',
+    template: SURGE_TEMPLATE,
+    download_link: {
+      ios: 'https://apps.apple.com/app/surge-5/id1442620678',
+      mac: 'https://nssurge.com/',
+    },
+  },
+  {
+    id: 'quantumult-x',
+    version: 1,
+    name: 'Quantumult X',
+    user_agent: 'Quantumult%20X',
+    scheme:
+      'quantumult-x:///update-configuration?remote-resource=${encodeURIComponent(JSON.stringify({ server_remote: [url + ", tag=" + name] }))}',
+    output_format: 'conf',
+    template: QUANTUMULT_X_TEMPLATE,
+    download_link: {
+      ios: 'https://apps.apple.com/app/quantumult-x/id1443988620',
+    },
+  },
+  {
+    id: 'shadowrocket',
+    version: 1,
+    name: 'Shadowrocket',
+    user_agent: 'Shadowrocket',
+    scheme: 'shadowrocket://add/sub://${window.btoa(url)}?remark=${encodeURIComponent(name)}',
+    output_format: 'base64',
+    template: SHARE_LINKS_TEMPLATE,
+    download_link: {
+      ios: 'https://apps.apple.com/app/shadowrocket/id932747118',
+    },
+  },
+  {
+    id: 'loon',
+    version: 1,
+    name: 'Loon',
+    user_agent: 'Loon',
+    scheme: 'loon://import?sub=${encodeURIComponent(url)}',
+    output_format: 'conf',
+    template: LOON_TEMPLATE,
+    download_link: {
+      ios: 'https://apps.apple.com/app/loon/id1373567447',
+    },
+  },
+  {
+    id: 'stash',
+    version: 1,
+    name: 'Stash',
+    user_agent: 'Stash',
+    scheme: 'stash://install-config?url=${encodeURIComponent(url)}',
+    output_format: 'yaml',
+    template: STASH_TEMPLATE,
+    download_link: {
+      ios: 'https://apps.apple.com/app/stash-rule-based-proxy/id1596063349',
+      mac: 'https://apps.apple.com/app/stash-rule-based-proxy/id1596063349',
+    },
+  },
+  {
+    id: 'v2rayn',
+    version: 1,
+    name: 'V2RayN',
+    user_agent: 'v2rayN',
+    scheme: '',
+    output_format: 'base64',
+    template: SHARE_LINKS_TEMPLATE,
+    download_link: {
+      windows: 'https://github.com/2dust/v2rayN/releases',
+      mac: 'https://github.com/2dust/v2rayN/releases',
+      linux: 'https://github.com/2dust/v2rayN/releases',
+      android: 'https://github.com/2dust/v2rayNG/releases',
+    },
+  },
+];
+
+// A Go template comment on the first line records where an installed
+// template came from; the trim markers keep it out of the rendered output.
+const MARKER = /^\{\{- \/\* ppanel:template ([\w-]+)@(\d+) \*\/ -\}\}\r?\n?/;
+
+function marker(entry: LibraryTemplate) {
+  return `{{- /* ppanel:template ${entry.id}@${entry.version} */ -}}\n`;
+}
+
+/** The template as installed: the library body behind its version marker. */
+export function libraryTemplate(entry: LibraryTemplate) {
+  return marker(entry) + entry.template;
+}
+
+/** Form values for a new subscribe application created from a library entry. */
+export function libraryApplication(
+  entry: LibraryTemplate,
+  description = '',
+): API.CreateSubscribeApplicationRequest {
+  return {
+    name: entry.name,
+    description,
+    icon: '',
+    user_agent: entry.user_agent,
+    scheme: entry.scheme,
+    is_default: false,
+    template: libraryTemplate(entry),
+    output_format: entry.output_format,
+    download_link: { ...entry.download_link },
+  };
+}
+
+export type LibraryState = 'current' | 'outdated' | 'modified';
+
+export interface LibraryStatus {
+  entry: LibraryTemplate;
+  // Library version the installed template was copied from
+  version: number;
+  state: LibraryState;
+}
+
+function normalize(template: string) {
+  return template.replace(/\r\n/g, '\n').trimEnd();
+}
+
+/**
+ * Compare an application's template with the library entry it was installed
+ * from. Templates without a marker, or with an unknown id, are not tracked.
+ */
+export function getLibraryStatus(template?: string): LibraryStatus | undefined {
+  const match = template?.match(MARKER);
+  if (!template || !match) return undefined;
+  const entry = LIBRARY_TEMPLATES.find((item) => item.id === match[1]);
+  if (!entry) return undefined;
+  const version = Number(match[2]);
+  if (version < entry.version) return { entry, version, state: 'outdated' };
+  const body = template.slice(match[0].length);
+  const modified = version > entry.version || normalize(body) !== normalize(entry.template);
+  return { entry, version, state: modified ? 'modified' : 'current' };
+}
@@ -0,0 +1,49 @@
+export const LOON_TEMPLATE = `{{- $nodes := list }}
+{{- range .Proxies }}
+{{- if or (eq .Type "shadowsocks" "hysteria") (and (has .Type (list "vmess" "vless" "trojan")) (has .Transport (list "" "tcp" "websocket"))) }}
+{{- $nodes = append $nodes . }}
+{{- end }}
+{{- end -}}
+[General]
+skip-proxy = 192.168.0.0/16,10.0.0.0/8,172.16.0.0/12,localhost,*.local
+dns-server = system,223.5.5.5,119.29.29.29
+allow-wifi-access = false
+
+[Proxy]
+{{- range $nodes }}
+{{ .Name }} = {{ if eq .Type "shadowsocks" -}}
+Shadowsocks,{{ .Server }},{{ .Port }},{{ .Method }},"{{ if hasPrefix "2022-" .Method }}{{ .ServerKey }}:{{ end }}{{ .Password }}",udp=true
+{{- else if eq .Type "vmess" -}}
+vmess,{{ .Server }},{{ .Port }},auto,"{{ .UUID }}",alterId={{ .AlterId }}
+{{- else if eq .Type "vless" -}}
+VLESS,{{ .Server }},{{ .Port }},"{{ .UUID }}"
+{{- if and .Flow (ne .Flow "none") }},flow={{ .Flow }}{{ end }}
+{{- else if eq .Type "trojan" -}}
+trojan,{{ .Server }},{{ .Port }},"{{ .Password }}"
+{{- else if eq .Type "hysteria" -}}
+Hysteria2,{{ .Server }},{{ .Port }},"{{ .Password }}",udp=true
+{{- if .ObfsPassword }},salamander-password={{ .ObfsPassword }}{{ end }}
+{{- if .DownMbps }},download-bandwidth={{ .DownMbps }}{{ end }}
+{{- end }}
+{{- if has .Type (list "vmess" "vless" "trojan") }}
+{{- if eq .Transport "websocket" }},transport=ws,path={{ default "/" .Path }}
+{{- if .Host }},host={{ .Host }}{{ end }}
+{{- else }},transport=tcp
+{{- end }}
+{{- end }}
+{{- if or (eq .Type "trojan" "hysteria") (eq .Security "tls" "reality") }}
+{{- if has .Type (list "vmess" "vless") }},over-tls=true{{ end }},sni={{ default .Server .SNI }},skip-cert-verify={{ .AllowInsecure }}
+{{- end }}
+{{- if eq .Security "reality" }},public-key="{{ .RealityPublicKey }}",short-id={{ .RealityShortId }}{{ end }}
+{{- end }}
+
+[Proxy Group]
+Proxy = select{{ if $nodes }},Auto{{ end }}{{ range $nodes }},{{ .Name }}{{ end }},DIRECT
+{{- if $nodes }}
+Auto = url-test{{ range $nodes }},{{ .Name }}{{ end }},url=http://www.gstatic.com/generate_204,interval=600
+{{- end }}
+
+[Rule]
+GEOIP,CN,DIRECT
+FINAL,Proxy
+`;
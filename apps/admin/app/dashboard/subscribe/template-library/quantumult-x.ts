@@ -0,0 +1,41 @@
+export const QUANTUMULT_X_TEMPLATE = `{{- $nodes := list }}
+{{- range .Proxies }}
+{{- if or (eq .Type "shadowsocks") (and (has .Type (list "vmess" "vless" "trojan")) (has .Transport (list "" "tcp" "websocket")) (ne .Security "reality")) }}
+{{- $nodes = append $nodes . }}
+{{- end }}
+{{- end -}}
+[general]
+server_check_url = http://www.gstatic.com/generate_204
+network_check_url = http://www.baidu.com/
+
+[dns]
+server = 223.5.5.5
+server = 119.29.29.29
+
+[policy]
+static = Proxy{{ if $nodes }}, Auto{{ end }}{{ range $nodes }}, {{ .Name }}{{ end }}, direct
+{{- if $nodes }}
+url-latency-benchmark = Auto{{ range $nodes }}, {{ .Name }}{{ end }}, check-interval=600, tolerance=50
+{{- end }}
+
+[server_local]
+{{- range $nodes }}
+{{- $tls := or (eq .Type "trojan") (eq .Security "tls") }}
+{{ if eq .Type "shadowsocks" -}}
+shadowsocks = {{ .Server }}:{{ .Port }}, method={{ .Method }}, password={{ if hasPrefix "2022-" .Method }}{{ .ServerKey }}:{{ end }}{{ .Password }}, udp-relay=true
+{{- else if eq .Type "trojan" -}}
+trojan = {{ .Server }}:{{ .Port }}, password={{ .Password }}
+{{- else -}}
+{{ .Type }} = {{ .Server }}:{{ .Port }}, method={{ if eq .Type "vmess" }}chacha20-poly1305{{ else }}none{{ end }}, password={{ .UUID }}
+{{- end }}
+{{- if eq .Transport "websocket" }}, obfs={{ if $tls }}wss{{ else }}ws{{ end }}, obfs-host={{ default .Server .Host }}, obfs-uri={{ default "/" .Path }}
+{{- else if and $tls (eq .Type "trojan") }}, over-tls=true, tls-host={{ default .Server .SNI }}
+{{- else if $tls }}, obfs=over-tls, obfs-host={{ default .Server .SNI }}
+{{- end }}
+{{- if $tls }}, tls-verification={{ not .AllowInsecure }}{{ end }}, tag={{ .Name }}
+{{- end }}
+
+[filter_local]
+geoip, cn, direct
+final, Proxy
+`;
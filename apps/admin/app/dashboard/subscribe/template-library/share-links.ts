@@ -0,0 +1,36 @@
+// One share link per line; the server base64 encodes the list for clients
+// that import subscriptions in the v2rayN format.
+export const SHARE_LINKS_TEMPLATE = `{{- define "params" -}}
+{{- $net := .Transport | replace "websocket" "ws" | default "tcp" -}}
+security={{ default "none" .Security }}&type={{ $net }}
+{{- if .SNI }}&sni={{ .SNI | urlquery }}{{ end }}
+{{- if .Fingerprint }}&fp={{ .Fingerprint }}{{ end }}
+{{- if .AllowInsecure }}&allowInsecure=1{{ end }}
+{{- if eq .Security "reality" }}&pbk={{ .RealityPublicKey }}&sid={{ .RealityShortId }}{{ end }}
+{{- if eq $net "ws" "httpupgrade" "xhttp" }}&path={{ default "/" .Path | urlquery }}
+{{- if .Host }}&host={{ .Host | urlquery }}{{ end }}
+{{- end }}
+{{- if eq $net "grpc" }}&serviceName={{ .ServiceName | urlquery }}{{ end }}
+{{- end -}}
+{{- range .Proxies -}}
+{{- $name := .Name | urlquery | replace "+" "%20" -}}
+{{ if eq .Type "shadowsocks" -}}
+ss://{{ printf "%s:%s%s" .Method (ternary (printf "%s:" .ServerKey) "" (hasPrefix "2022-" .Method)) .Password | b64enc }}@{{ .Server }}:{{ .Port }}#{{ $name }}
+{{ else if eq .Type "vmess" -}}
+vmess://{{ dict "v" "2" "ps" .Name "add" .Server "port" (toString .Port) "id" .UUID "aid" (toString .AlterId) "scy" "auto" "net" (.Transport | replace "websocket" "ws" | default "tcp") "type" "none" "host" .Host "path" (ternary .ServiceName .Path (eq .Transport "grpc")) "tls" (ternary "tls" "" (eq .Security "tls")) "sni" .SNI "fp" .Fingerprint | toJson | b64enc }}
+{{ else if eq .Type "vless" -}}
+vless://{{ .UUID }}@{{ .Server }}:{{ .Port }}?encryption=none&{{ template "params" . }}
+{{- if and .Flow (ne .Flow "none") }}&flow={{ .Flow }}{{ end }}#{{ $name }}
+{{ else if eq .Type "trojan" -}}
+trojan://{{ .Password | urlquery }}@{{ .Server }}:{{ .Port }}?{{ template "params" . }}#{{ $name }}
+{{ else if eq .Type "hysteria" -}}
+hysteria2://{{ .Password | urlquery }}@{{ .Server }}:{{ .Port }}?sni={{ default .Server .SNI | urlquery }}&insecure={{ ternary 1 0 .AllowInsecure }}
+{{- if .ObfsPassword }}&obfs=salamander&obfs-password={{ .ObfsPassword | urlquery }}{{ end }}
+{{- if .HopPorts }}&mport={{ .HopPorts }}{{ end }}#{{ $name }}
+{{ else if eq .Type "tuic" -}}
+tuic://{{ .UUID }}:{{ .Password | urlquery }}@{{ .Server }}:{{ .Port }}?sni={{ default .Server .SNI | urlquery }}&alpn=h3&congestion_control={{ default "bbr" .CongestionController }}&udp_relay_mode={{ default "native" .UDPRelayMode }}#{{ $name }}
+{{ else if eq .Type "anytls" -}}
+anytls://{{ .Password | urlquery }}@{{ .Server }}:{{ .Port }}?sni={{ default .Server .SNI | urlquery }}&insecure={{ ternary 1 0 .AllowInsecure }}#{{ $name }}
+{{ end -}}
+{{- end -}}
+`;
@@ -0,0 +1,143 @@
+// sing-box 1.12 layout: typed DNS servers and rule actions
+export const SING_BOX_TEMPLATE = `{{- $nodes := list }}
+{{- range .Proxies }}
+{{- if and (has .Type (list "shadowsocks" "vmess" "vless" "trojan" "hysteria" "tuic" "anytls")) (not (has .Transport (list "mkcp" "xhttp"))) }}
+{{- $nodes = append $nodes . }}
+{{- end }}
+{{- end -}}
+{
+  "log": { "level": "warn", "timestamp": true },
+  "dns": {
+    "servers": [
+      { "type": "https", "tag": "remote", "server": "1.1.1.1", "detour": "proxy" },
+      { "type": "https", "tag": "local", "server": "223.5.5.5" }
+    ],
+    "final": "remote"
+  },
+  "inbounds": [
+    {
+      "type": "tun",
+      "tag": "tun-in",
+      "address": ["172.19.0.1/30"],
+      "auto_route": true,
+      "strict_route": true
+    }
+  ],
+  "outbounds": [
+    {
+      "type": "selector",
+      "tag": "proxy",
+      "outbounds": [{{ if $nodes }}"auto", {{ end }}{{ range $nodes }}{{ .Name | toJson }}, {{ end }}"direct"]
+    },
+{{- if $nodes }}
+    {
+      "type": "urltest",
+      "tag": "auto",
+      "outbounds": [{{ range $i, $node := $nodes }}{{ if $i }}, {{ end }}{{ $node.Name | toJson }}{{ end }}],
+      "url": "https://www.gstatic.com/generate_204",
+      "interval": "3m"
+    },
+{{- end }}
+{{- range $nodes }}
+    {
+      "tag": {{ .Name | toJson }},
+      "server": {{ .Server | toJson }},
+      "server_port": {{ .Port }},
+{{- if eq .Type "shadowsocks" }}
+      "type": "shadowsocks",
+      "method": {{ .Method | toJson }},
+      "password": {{ if hasPrefix "2022-" .Method }}{{ printf "%s:%s" .ServerKey .Password | toJson }}{{ else }}{{ .Password | toJson }}{{ end }}
+{{- else if eq .Type "vmess" }}
+      "type": "vmess",
+      "uuid": {{ .UUID | toJson }},
+      "security": "auto",
+      "alter_id": {{ .AlterId }}
+{{- else if eq .Type "vless" }}
+      "type": "vless",
+      "uuid": {{ .UUID | toJson }}
+{{- if and .Flow (ne .Flow "none") }},
+      "flow": {{ .Flow | toJson }}
+{{- end }}
+{{- else if eq .Type "trojan" }}
+      "type": "trojan",
+      "password": {{ .Password | toJson }}
+{{- else if eq .Type "hysteria" }}
+      "type": "hysteria2",
+      "password": {{ .Password | toJson }}
+{{- if .HopPorts }},
+      "server_ports": [{{ replace "-" ":" .HopPorts | toJson }}]
+{{- end }}
+{{- if .ObfsPassword }},
+      "obfs": { "type": "salamander", "password": {{ .ObfsPassword | toJson }} }
+{{- end }}
+{{- if .UpMbps }},
+      "up_mbps": {{ .UpMbps }}
+{{- end }}
+{{- if .DownMbps }},
+      "down_mbps": {{ .DownMbps }}
+{{- end }}
+{{- else if eq .Type "tuic" }}
+      "type": "tuic",
+      "uuid": {{ .UUID | toJson }},
+      "password": {{ .Password | toJson }},
+      "congestion_control": {{ default "bbr" .CongestionController | toJson }},
+      "udp_relay_mode": {{ default "native" .UDPRelayMode | toJson }},
+      "zero_rtt_handshake": {{ .ReduceRtt }}
+{{- else if eq .Type "anytls" }}
+      "type": "anytls",
+      "password": {{ .Password | toJson }}
+{{- end }}
+{{- if or (has .Type (list "trojan" "hysteria" "tuic" "anytls")) (eq .Security "tls") (eq .Security "reality") }},
+      "tls": {
+        "enabled": true,
+        "server_name": {{ default .Server .SNI | toJson }},
+        "insecure": {{ .AllowInsecure }}
+{{- if eq .Type "tuic" }},
+        "alpn": ["h3"]
+{{- end }}
+{{- if and .Fingerprint (has .Type (list "vmess" "vless" "trojan" "anytls")) }},
+        "utls": { "enabled": true, "fingerprint": {{ .Fingerprint | toJson }} }
+{{- end }}
+{{- if eq .Security "reality" }},
+        "reality": {
+          "enabled": true,
+          "public_key": {{ .RealityPublicKey | toJson }},
+          "short_id": {{ .RealityShortId | toJson }}
+        }
+{{- end }}
+      }
+{{- end }}
+{{- if eq .Transport "websocket" }},
+      "transport": {
+        "type": "ws",
+        "path": {{ default "/" .Path | toJson }}
+{{- if .Host }},
+        "headers": { "Host": {{ .Host | toJson }} }
+{{- end }}
+      }
+{{- else if eq .Transport "httpupgrade" }},
+      "transport": {
+        "type": "httpupgrade",
+        "path": {{ default "/" .Path | toJson }}
+{{- if .Host }},
+        "host": {{ .Host | toJson }}
+{{- end }}
+      }
+{{- else if eq .Transport "grpc" }},
+      "transport": { "type": "grpc", "service_name": {{ .ServiceName | toJson }} }
+{{- end }}
+    },
+{{- end }}
+    { "type": "direct", "tag": "direct" }
+  ],
+  "route": {
+    "rules": [
+      { "action": "sniff" },
+      { "protocol": "dns", "action": "hijack-dns" },
+      { "ip_is_private": true, "outbound": "direct" }
+    ],
+    "final": "proxy",
+    "auto_detect_interface": true
+  }
+}
+`;
@@ -0,0 +1,47 @@
+export const SURGE_TEMPLATE = `{{- $nodes := list }}
+{{- range .Proxies }}
+{{- if or (has .Type (list "shadowsocks" "hysteria" "tuic")) (and (has .Type (list "vmess" "trojan")) (has .Transport (list "" "tcp" "websocket"))) }}
+{{- $nodes = append $nodes . }}
+{{- end }}
+{{- end -}}
+#!MANAGED-CONFIG {{ .UserInfo.SubscribeURL }} interval=43200 strict=false
+
+[General]
+loglevel = notify
+dns-server = system, 223.5.5.5, 119.29.29.29
+skip-proxy = 127.0.0.1, 192.168.0.0/16, 10.0.0.0/8, 172.16.0.0/12, 100.64.0.0/10, localhost, *.local
+internet-test-url = http://www.gstatic.com/generate_204
+proxy-test-url = http://www.gstatic.com/generate_204
+
+[Proxy]
+{{- range $nodes }}
+{{ .Name }} = {{ if eq .Type "shadowsocks" -}}
+ss, {{ .Server }}, {{ .Port }}, encrypt-method={{ .Method }}, password={{ if hasPrefix "2022-" .Method }}{{ .ServerKey }}:{{ end }}{{ .Password }}, udp-relay=true
+{{- else if eq .Type "vmess" -}}
+vmess, {{ .Server }}, {{ .Port }}, username={{ .UUID }}, vmess-aead=true
+{{- else if eq .Type "trojan" -}}
+trojan, {{ .Server }}, {{ .Port }}, password={{ .Password }}
+{{- else if eq .Type "hysteria" -}}
+hysteria2, {{ .Server }}, {{ .Port }}, password={{ .Password }}
+{{- if .DownMbps }}, download-bandwidth={{ .DownMbps }}{{ end }}
+{{- else if eq .Type "tuic" -}}
+tuic-v5, {{ .Server }}, {{ .Port }}, password={{ .Password }}, uuid={{ .UUID }}, alpn=h3
+{{- end }}
+{{- if or (has .Type (list "trojan" "hysteria" "tuic")) (eq .Security "tls") }}
+{{- if eq .Type "vmess" }}, tls=true{{ end }}, sni={{ default .Server .SNI }}, skip-cert-verify={{ .AllowInsecure }}
+{{- end }}
+{{- if eq .Transport "websocket" }}, ws=true, ws-path={{ default "/" .Path }}
+{{- if .Host }}, ws-headers=Host:{{ .Host }}{{ end }}
+{{- end }}
+{{- end }}
+
+[Proxy Group]
+Proxy = select{{ if $nodes }}, Auto{{ end }}{{ range $nodes }}, {{ .Name }}{{ end }}, DIRECT
+{{- if $nodes }}
+Auto = url-test{{ range $nodes }}, {{ .Name }}{{ end }}, url=http://www.gstatic.com/generate_204, interval=600, tolerance=50
+{{- end }}
+
+[Rule]
+GEOIP,CN,DIRECT
+FINAL,Proxy,dns-failed
+`;
@@ -2,6 +2,7 @@
 
 import { previewSubscribeTemplate } from '@/services/admin/application';
 import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@workspace/ui/components/badge';
 import { Button } from '@workspace/ui/components/button';
 import {
   Sheet,
@@ -12,8 +13,35 @@ import {
 } from '@workspace/ui/components/sheet';
 import { MonacoEditor } from '@workspace/ui/custom-components/editor/monaco-editor';
 import { Icon } from '@workspace/ui/custom-components/icon';
+import { renderGoTemplate } from '@workspace/ui/utils/go-template';
+import { SPRIG_FUNCTIONS } from '@workspace/ui/utils/go-template-sprig';
 import { useTranslations } from 'next-intl';
-import { useState } from 'react';
+import { useDeferredValue, useMemo, useState } from 'react';
+import { createSampleData, SubscribeSampleData } from './sample-data';
+import { ValidatedOutput } from './validated-output';
+
+function mapLanguage(fmt?: string) {
+  switch (fmt) {
+    case 'json':
+      return 'json';
+    case 'yaml':
+      return 'yaml';
+    case 'base64':
+      return 'ini';
+    case 'plain':
+      return 'ini';
+    case 'conf':
+      return 'ini';
+    default:
+      return 'ini';
+  }
+}
+
+function encodeBase64(value: string) {
+  let binary = '';
+  new TextEncoder().encode(value).forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
 
 interface TemplatePreviewProps {
   applicationId: number;
@@ -34,46 +62,6 @@ export function TemplatePreview({ applicationId, output_format }: TemplatePrevie
   const originalContent = data?.data?.data?.template || '';
   const errorMessage = (error as any)?.data?.msg || error?.message || t('failed');
 
-  const getDecodedContent = () => {
-    if (output_format === 'base64' && originalContent) {
-      try {
-        return atob(originalContent);
-      } catch {
-        return t('base64.decodeError');
-      }
-    }
-    return '';
-  };
-
-  const getDisplayContent = () => {
-    if (error) return errorMessage;
-    if (!originalContent) return '';
-    switch (output_format) {
-      case 'base64': {
-        const decoded = getDecodedContent();
-        return `${t('base64.originalContent')}:\n${originalContent}\n\n${t('base64.decodedContent')}:\n${decoded}`;
-      }
-      default:
-        return originalContent;
-    }
-  };
-  const mapLanguage = (fmt?: string) => {
-    switch (fmt) {
-      case 'json':
-        return 'json';
-      case 'yaml':
-        return 'yaml';
-      case 'base64':
-        return 'ini';
-      case 'plain':
-        return 'ini';
-      case 'conf':
-        return 'ini';
-      default:
-        return 'ini';
-    }
-  };
-
   return (
     <Sheet open={isOpen} onOpenChange={setIsOpen}>
       <SheetTrigger asChild>
@@ -91,16 +79,84 @@ export function TemplatePreview({ applicationId, output_format }: TemplatePrevie
             <Icon icon='mdi:loading' className='h-6 w-6 animate-spin' />
             <span className='ml-2'>{t('loading')}</span>
           </div>
-        ) : (
+        ) : error ? (
           <MonacoEditor
             title={t('title')}
-            value={getDisplayContent()}
+            value={errorMessage}
             language={mapLanguage(output_format)}
             showLineNumbers
             readOnly
           />
+        ) : (
+          <ValidatedOutput
+            title={t('title')}
+            output={originalContent}
+            output_format={output_format}
+            language={mapLanguage(output_format)}
+          />
         )}
       </SheetContent>
     </Sheet>
   );
 }
+
+/**
+ * Renders the template being edited in the browser against sample data, so
+ * unsaved changes can be checked next to the editor.
+ */
+export function TemplateLivePreview({
+  template,
+  output_format,
+  data,
+  dataName,
+}: {
+  template?: string;
+  output_format?: string;
+  data?: SubscribeSampleData;
+  // Name of the fixture the data comes from, shown next to the title
+  dataName?: string;
+}) {
+  const t = useTranslations('subscribe.templatePreview');
+  const deferredTemplate = useDeferredValue(template || '');
+  const defaultData = useMemo(() => createSampleData(), []);
+  const sampleData = data ?? defaultData;
+
+  const result = useMemo(() => {
+    try {
+      const output = renderGoTemplate(deferredTemplate, sampleData, {
+        functions: SPRIG_FUNCTIONS,
+      });
+      return { output };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [deferredTemplate, sampleData]);
+
+  return (
+    <div className='flex h-full flex-col gap-2 text-left'>
+      <div className='flex items-center justify-between gap-2'>
+        <span className='text-sm font-medium'>{t('live.title')}</span>
+        <div className='flex gap-1'>
+          {dataName && <Badge variant='secondary'>{dataName}</Badge>}
+          <Badge variant='outline'>{mapLanguage(output_format)}</Badge>
+        </div>
+      </div>
+      <p className='text-muted-foreground text-xs'>{t('live.description')}</p>
+      {result.error !== undefined ? (
+        <div className='border-destructive/50 text-destructive rounded-md border p-3 text-xs'>
+          <div className='mb-1 font-medium'>{t('live.error')}</div>
+          <pre className='whitespace-pre-wrap break-all font-mono'>{result.error}</pre>
+        </div>
+      ) : result.output ? (
+        // The template renders the plain list; the server encodes it for base64 output
+        <ValidatedOutput
+          output={output_format === 'base64' ? encodeBase64(result.output) : result.output}
+          output_format={output_format}
+          language={mapLanguage(output_format)}
+        />
+      ) : (
+        <p className='text-muted-foreground py-6 text-center text-sm'>{t('live.empty')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client';
+
+import { Badge } from '@workspace/ui/components/badge';
+import {
+  MonacoEditor,
+  MonacoEditorProps,
+} from '@workspace/ui/custom-components/editor/monaco-editor';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import { useEffect, useMemo, useRef } from 'react';
+import { OutputIssue, validateOutput } from './output-validation';
+
+type OnMount = NonNullable<MonacoEditorProps['onMount']>;
+type EditorInstance = Parameters<OnMount>[0];
+type MonacoInstance = Parameters<OnMount>[1];
+
+const MARKER_OWNER = 'subscribe-output';
+
+/**
+ * Read-only view of rendered subscription output with the problems found by
+ * `validateOutput` shown as editor markers and as a clickable list.
+ */
+export function ValidatedOutput({
+  output,
+  output_format,
+  title,
+  language,
+}: {
+  output: string;
+  output_format?: string;
+  title?: string;
+  language?: string;
+}) {
+  const t = useTranslations('subscribe');
+  const validation = useMemo(() => validateOutput(output, output_format), [output, output_format]);
+
+  // Base64 output shows the encoded text first; issue lines refer to the decoded part.
+  // A list the server has yet to encode is shown as is
+  const { value, offset } = useMemo(() => {
+    if (output_format !== 'base64' || !validation.client || validation.content === output) {
+      return { value: output, offset: 0 };
+    }
+    const header = [
+      `${t('templatePreview.base64.originalContent')}:`,
+      ...output.split('\n'),
+      '',
+      `${t('templatePreview.base64.decodedContent')}:`,
+    ];
+    return { value: [...header, validation.content].join('\n'), offset: header.length };
+  }, [output, output_format, validation, t]);
+
+  const instance = useRef<{ editor: EditorInstance; monaco: MonacoInstance }>(null);
+  const markers = useRef<() => void>(() => {});
+  markers.current = () => {
+    const model = instance.current?.editor.getModel();
+    if (!instance.current || !model) return;
+    const { monaco } = instance.current;
+    monaco.editor.setModelMarkers(
+      model,
+      MARKER_OWNER,
+      validation.issues.map((issue) => {
+        const line = Math.min(issue.line + offset, model.getLineCount());
+        return {
+          startLineNumber: line,
+          startColumn: issue.column ?? 1,
+          endLineNumber: line,
+          endColumn: issue.column ? issue.column + 1 : model.getLineMaxColumn(line),
+          message: message(issue),
+          severity:
+            issue.severity === 'error'
+              ? monaco.MarkerSeverity.Error
+              : monaco.MarkerSeverity.Warning,
+        };
+      }),
+    );
+  };
+
+  useEffect(() => markers.current(), [validation, offset]);
+
+  function message(issue: OutputIssue) {
+    return t(`validation.codes.${issue.code}`, issue.params ?? {});
+  }
+
+  function reveal(issue: OutputIssue) {
+    const editor = instance.current?.editor;
+    if (!editor) return;
+    const lineNumber = issue.line + offset;
+    editor.revealLineInCenter(lineNumber);
+    editor.setPosition({ lineNumber, column: issue.column ?? 1 });
+    editor.focus();
+  }
+
+  const errors = validation.issues.filter((issue) => issue.severity === 'error').length;
+
+  return (
+    <div className='flex h-full flex-col gap-2'>
+      <MonacoEditor
+        title={title}
+        value={value}
+        language={language}
+        showLineNumbers
+        readOnly
+        onMount={(editor, monaco) => {
+          instance.current = { editor, monaco };
+          // The model only receives new output after this component's effects ran
+          editor.onDidChangeModelContent(() => markers.current());
+          markers.current();
+        }}
+      />
+      <div className='space-y-1 text-xs'>
+        <div className='flex items-center gap-2'>
+          {validation.client && (
+            <Badge variant='outline'>{t(`validation.clients.${validation.client}`)}</Badge>
+          )}
+          {validation.issues.length === 0 ? (
+            <span className='flex items-center gap-1 text-green-600'>
+              <Icon icon='mdi:check-circle-outline' />
+              {t('validation.passed')}
+            </span>
+          ) : (
+            <span className={cn(errors ? 'text-destructive' : 'text-yellow-600')}>
+              {t('validation.problems', { count: validation.issues.length })}
+            </span>
+          )}
+        </div>
+        {validation.issues.map((issue, index) => (
+          <button
+            key={index}
+            type='button'
+            className='hover:bg-muted flex w-full items-start gap-1 rounded px-1 text-left'
+            onClick={() => reveal(issue)}
+          >
+            <Icon
+              icon={issue.severity === 'error' ? 'mdi:close-circle-outline' : 'mdi:alert-outline'}
+              className={cn(
+                'mt-0.5 shrink-0',
+                issue.severity === 'error' ? 'text-destructive' : 'text-yellow-600',
+              )}
+            />
+            <span className='text-muted-foreground shrink-0'>
+              {t('validation.line', { line: issue.line + offset })}
+            </span>
+            <span>{message(issue)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { findCountry, getCountryName } from '@workspace/ui/utils/countries';
+import { useLocale } from 'next-intl';
+
+/** Flag and localised name for a stored country value, with an optional city. */
+export function CountryLabel({ country, city }: { country?: string; city?: string }) {
+  const locale = useLocale();
+  const match = findCountry(country, [locale]);
+  const name = match ? getCountryName(match, locale) : country;
+  return (
+    <span className='inline-flex items-center gap-1'>
+      {match && <Icon icon={`flagpack:${match.alpha2.toLowerCase()}`} className='!size-4' />}
+      {[name, city].filter(Boolean).join(' / ')}
+    </span>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@workspace/ui/components/select';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import { cn } from '@workspace/ui/lib/utils';
+import { useTranslations } from 'next-intl';
+import { useEffect, useState } from 'react';
+
+export const LIVE_INTERVALS = [0, 5, 15, 60] as const;
+
+const LIVE_MODE_KEY = 'ppanel:live-mode';
+
+/**
+ * Polling interval (seconds) for a table, remembered per scope in localStorage.
+ */
+export function useLiveMode(scope: string) {
+  const key = `${LIVE_MODE_KEY}:${scope}`;
+  const [seconds, setSeconds] = useState(0);
+
+  useEffect(() => {
+    const saved = Number(localStorage.getItem(key));
+    if ((LIVE_INTERVALS as readonly number[]).includes(saved)) setSeconds(saved);
+  }, [key]);
+
+  const update = (value: number) => {
+    setSeconds(value);
+    localStorage.setItem(key, String(value));
+  };
+
+  return [seconds, update] as const;
+}
+
+export function LiveModeSelect({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  const t = useTranslations('common.live');
+  return (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className='w-32' title={t('title')}>
+        <Icon
+          icon='mdi:access-point'
+          className={cn('mr-1 h-4 w-4 shrink-0', value > 0 && 'animate-pulse text-emerald-500')}
+        />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LIVE_INTERVALS.map((seconds) => (
+          <SelectItem key={seconds} value={String(seconds)}>
+            {seconds === 0 ? t('off') : t('interval', { seconds })}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
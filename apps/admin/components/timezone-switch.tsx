@@ -130,6 +130,21 @@ function getTimezoneOffset(timezone: string): string {
   }
 }
 
+/** The admin's display timezone, kept in sync with the switch. */
+export function useTimezone() {
+  const [timezone, setTimezone] = useState('UTC');
+
+  useEffect(() => {
+    setTimezone(localStorage.getItem('timezone') || 'UTC');
+    const handleChange = (event: Event) =>
+      setTimezone((event as CustomEvent<{ timezone: string }>).detail.timezone);
+    window.addEventListener('timezoneChanged', handleChange);
+    return () => window.removeEventListener('timezoneChanged', handleChange);
+  }, []);
+
+  return timezone;
+}
+
 export default function TimezoneSwitch() {
   const locale = useLocale();
   const [timezone, setTimezone] = useState<string>('UTC');
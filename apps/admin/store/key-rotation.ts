@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+
+// Older rotations are unlikely to be rolled back to
+const MAX_ROTATIONS = 10;
+
+export interface KeyRotationEntry {
+  serverId: number;
+  serverName: string;
+  // VLESS key fields before and after the rotation
+  previous: Record<string, string | null | undefined>;
+  next: Record<string, string | null | undefined>;
+}
+
+export interface KeyRotationRecord {
+  id: string;
+  time: number;
+  entries: KeyRotationEntry[];
+}
+
+interface KeyRotationState {
+  // Data
+  rotations: KeyRotationRecord[];
+
+  // Actions
+  addRotation: (entries: KeyRotationEntry[]) => void;
+  removeRotation: (id: string) => void;
+}
+
+// Rotation records hold private keys, so they live in memory only and are
+// gone after a reload
+export const useKeyRotationStore = create<KeyRotationState>()((set, get) => ({
+  // Initial state
+  rotations: [],
+
+  // Actions
+  addRotation: (entries: KeyRotationEntry[]) => {
+    if (entries.length === 0) return;
+    const time = Date.now();
+    set({
+      rotations: [{ id: String(time), time, entries }, ...get().rotations].slice(0, MAX_ROTATIONS),
+    });
+  },
+
+  removeRotation: (id: string) => {
+    set({ rotations: get().rotations.filter((r) => r.id !== id) });
+  },
+}));
+
+export default useKeyRotationStore;
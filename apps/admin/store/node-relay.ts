@@ -0,0 +1,64 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// The node API has no relay fields, so relays live in this browser only
+const NODE_RELAY_KEY = 'ppanel:node-relays';
+
+export interface NodeRelaySettings {
+  relay_mode: string;
+  relay_node: API.NodeRelay[];
+}
+
+interface NodeRelayState {
+  // Data: node id to relay settings
+  relays: Record<number, NodeRelaySettings>;
+
+  // Actions
+  setRelay: (nodeId: number, settings: NodeRelaySettings) => void;
+
+  // Getters
+  getRelay: (nodeId?: number) => NodeRelaySettings | undefined;
+}
+
+export const useNodeRelayStore = create<NodeRelayState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      relays: {},
+
+      // Actions
+      // Nodes published directly have no entry
+      setRelay: (nodeId: number, settings: NodeRelaySettings) => {
+        const relays = { ...get().relays };
+        if (settings.relay_mode === 'none' || settings.relay_node.length === 0) {
+          delete relays[nodeId];
+        } else {
+          relays[nodeId] = settings;
+        }
+        set({ relays });
+      },
+
+      // Getters
+      getRelay: (nodeId?: number) => {
+        if (!nodeId) return undefined;
+        return get().relays[nodeId];
+      },
+    }),
+    {
+      name: NODE_RELAY_KEY,
+      partialize: (state) => ({ relays: state.relays }),
+    },
+  ),
+);
+
+export const useNodeRelay = () => {
+  const store = useNodeRelayStore();
+
+  return {
+    relays: store.relays,
+    setRelay: store.setRelay,
+    getRelay: store.getRelay,
+  };
+};
+
+export default useNodeRelayStore;
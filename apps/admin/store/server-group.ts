@@ -0,0 +1,104 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// The API has no server groups, so groups and assignments live in this browser only
+const SERVER_GROUP_KEY = 'ppanel:server-groups';
+
+export type ServerGroupType = 'region' | 'provider' | 'purpose';
+
+export interface ServerGroup {
+  id: number;
+  name: string;
+  type: ServerGroupType;
+  description: string;
+}
+
+export type ServerGroupDraft = Omit<ServerGroup, 'id'>;
+
+interface ServerGroupState {
+  // Data
+  groups: ServerGroup[];
+  // Server id to group id
+  assignments: Record<number, number>;
+
+  // Actions
+  createGroup: (draft: ServerGroupDraft) => void;
+  updateGroup: (id: number, draft: ServerGroupDraft) => void;
+  deleteGroup: (id: number) => void;
+  assignServers: (serverIds: number[], groupId?: number) => void;
+
+  // Getters
+  getGroupById: (groupId?: number) => ServerGroup | undefined;
+  getServerGroupId: (serverId: number) => number | undefined;
+}
+
+export const useServerGroupStore = create<ServerGroupState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      groups: [],
+      assignments: {},
+
+      // Actions
+      createGroup: (draft: ServerGroupDraft) => {
+        const id = Math.max(0, ...get().groups.map((group) => group.id)) + 1;
+        set({ groups: [...get().groups, { ...draft, id }] });
+      },
+
+      updateGroup: (id: number, draft: ServerGroupDraft) => {
+        set({
+          groups: get().groups.map((group) => (group.id === id ? { ...draft, id } : group)),
+        });
+      },
+
+      // Servers of a deleted group become ungrouped
+      deleteGroup: (id: number) => {
+        const assignments = Object.fromEntries(
+          Object.entries(get().assignments).filter(([, groupId]) => groupId !== id),
+        );
+        set({ groups: get().groups.filter((group) => group.id !== id), assignments });
+      },
+
+      assignServers: (serverIds: number[], groupId?: number) => {
+        const assignments = { ...get().assignments };
+        serverIds.forEach((serverId) => {
+          if (groupId) assignments[serverId] = groupId;
+          else delete assignments[serverId];
+        });
+        set({ assignments });
+      },
+
+      // Getters
+      getGroupById: (groupId?: number) => {
+        if (!groupId) return undefined;
+        return get().groups.find((g) => g.id === groupId);
+      },
+
+      getServerGroupId: (serverId: number) => {
+        const groupId = get().assignments[serverId];
+        return groupId && get().groups.some((g) => g.id === groupId) ? groupId : undefined;
+      },
+    }),
+    {
+      name: SERVER_GROUP_KEY,
+      partialize: (state) => ({ groups: state.groups, assignments: state.assignments }),
+    },
+  ),
+);
+
+export const useServerGroup = () => {
+  const store = useServerGroupStore();
+
+  return {
+    groups: store.groups,
+    assignments: store.assignments,
+    createGroup: store.createGroup,
+    updateGroup: store.updateGroup,
+    deleteGroup: store.deleteGroup,
+    assignServers: store.assignServers,
+    getGroupById: store.getGroupById,
+    getServerGroupId: store.getServerGroupId,
+  };
+};
+
+export default useServerGroupStore;
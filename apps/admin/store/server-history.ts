@@ -0,0 +1,157 @@
+import { create } from 'zustand';
+import { createJSONStorage, persist, StateStorage } from 'zustand/middleware';
+
+const SERVER_HISTORY_KEY = 'ppanel:server-history';
+// One sample per 5 minute bucket; within a bucket the latest poll wins
+const SAMPLE_BUCKET = 5 * 60 * 1000;
+// One day of buckets
+const MAX_SAMPLES = 288;
+// Live mode polls every few seconds; persist at most this often
+const WRITE_INTERVAL = 60 * 1000;
+
+/**
+ * localStorage wrapper that coalesces writes, flushing the latest value
+ * after `WRITE_INTERVAL` or when the page is hidden.
+ */
+function createThrottledStorage(): StateStorage {
+  // Throws outside the browser, which leaves the store unpersisted like plain localStorage would
+  const storage = localStorage;
+  const pending = new Map<string, string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    pending.forEach((value, name) => {
+      try {
+        storage.setItem(name, value);
+      } catch {
+        // Quota exceeded: drop this write, the in-memory history is unaffected
+      }
+    });
+    pending.clear();
+  };
+
+  window.addEventListener('pagehide', flush);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush();
+  });
+
+  return {
+    getItem: (name) => pending.get(name) ?? storage.getItem(name),
+    setItem: (name, value) => {
+      pending.set(name, value);
+      timer ??= setTimeout(flush, WRITE_INTERVAL);
+    },
+    removeItem: (name) => {
+      pending.delete(name);
+      storage.removeItem(name);
+    },
+  };
+}
+
+export interface ServerSample {
+  time: number;
+  cpu: number;
+  mem: number;
+  disk: number;
+  online: number;
+}
+
+interface ServerHistoryState {
+  // Data
+  history: Record<number, ServerSample[]>;
+
+  // Actions
+  recordSamples: (servers: API.Server[]) => void;
+  pruneHistory: (serverIds: number[]) => void;
+  clearHistory: (serverId?: number) => void;
+
+  // Getters
+  getHistory: (serverId: number) => ServerSample[];
+}
+
+export const useServerHistoryStore = create<ServerHistoryState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      history: {},
+
+      // Actions
+      recordSamples: (servers: API.Server[]) => {
+        const now = Date.now();
+        const history = { ...get().history };
+        servers.forEach((server) => {
+          if (!server.status) return;
+          const samples = history[server.id] || [];
+          const last = samples[samples.length - 1];
+          const sameBucket =
+            !!last && Math.floor(last.time / SAMPLE_BUCKET) === Math.floor(now / SAMPLE_BUCKET);
+          history[server.id] = [
+            ...(sameBucket ? samples.slice(0, -1) : samples),
+            {
+              time: now,
+              cpu: Number(server.status.cpu) || 0,
+              mem: Number(server.status.mem) || 0,
+              disk: Number(server.status.disk) || 0,
+              online: server.status.online?.length || 0,
+            },
+          ].slice(-MAX_SAMPLES);
+        });
+        set({ history });
+      },
+
+      pruneHistory: (serverIds: number[]) => {
+        const keep = new Set(serverIds);
+        const history = get().history;
+        const ids = Object.keys(history).map(Number);
+        if (ids.every((id) => keep.has(id))) return;
+        set({
+          history: Object.fromEntries(
+            ids.filter((id) => keep.has(id)).map((id) => [id, history[id]!]),
+          ),
+        });
+      },
+
+      clearHistory: (serverId?: number) => {
+        if (serverId === undefined) {
+          set({ history: {} });
+          return;
+        }
+        const { [serverId]: _, ...rest } = get().history;
+        set({ history: rest });
+      },
+
+      // Getters
+      getHistory: (serverId: number) => {
+        return get().history[serverId] || [];
+      },
+    }),
+    {
+      name: SERVER_HISTORY_KEY,
+      storage: createJSONStorage(createThrottledStorage),
+      partialize: (state) => ({ history: state.history }),
+    },
+  ),
+);
+
+/**
+ * Least-squares slope of a metric, expressed as change per hour.
+ */
+export function getHourlyTrend(samples: ServerSample[], key: keyof Omit<ServerSample, 'time'>) {
+  if (samples.length < 2) return 0;
+  const n = samples.length;
+  const hours = samples.map((s) => (s.time - samples[0]!.time) / 3600000);
+  const values = samples.map((s) => s[key]);
+  const meanX = hours.reduce((a, b) => a + b, 0) / n;
+  const meanY = values.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (hours[i]! - meanX) * (values[i]! - meanY);
+    den += (hours[i]! - meanX) ** 2;
+  }
+  return den === 0 ? 0 : num / den;
+}
+
+export default useServerHistoryStore;
@@ -0,0 +1,76 @@
+import type { SubscribeSampleData } from '@/app/dashboard/subscribe/sample-data';
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+
+const SUBSCRIBE_FIXTURE_KEY = 'ppanel:subscribe-fixtures';
+
+export interface SubscribeFixture {
+  id: string;
+  name: string;
+  data: SubscribeSampleData;
+  updatedAt: number;
+}
+
+interface SubscribeFixtureState {
+  // Data
+  fixtures: SubscribeFixture[];
+  // Fixture used by template previews; undefined means the built-in sample data
+  activeId?: string;
+
+  // Actions
+  saveFixture: (name: string, data: SubscribeSampleData) => SubscribeFixture;
+  removeFixture: (id: string) => void;
+  setActive: (id?: string) => void;
+  getActiveFixture: () => SubscribeFixture | undefined;
+}
+
+export const useSubscribeFixtureStore = create<SubscribeFixtureState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      fixtures: [],
+      activeId: undefined,
+
+      // Actions
+      saveFixture: (name: string, data: SubscribeSampleData) => {
+        // Saving under an existing name overwrites that fixture
+        const existing = get().fixtures.find((fixture) => fixture.name === name);
+        const fixture = {
+          id: existing?.id ?? String(Date.now()),
+          name,
+          data,
+          updatedAt: Date.now(),
+        };
+        set({
+          fixtures: existing
+            ? get().fixtures.map((item) => (item.id === existing.id ? fixture : item))
+            : [...get().fixtures, fixture],
+          activeId: fixture.id,
+        });
+        return fixture;
+      },
+
+      removeFixture: (id: string) => {
+        set({
+          fixtures: get().fixtures.filter((fixture) => fixture.id !== id),
+          activeId: get().activeId === id ? undefined : get().activeId,
+        });
+      },
+
+      setActive: (id?: string) => {
+        set({ activeId: id });
+      },
+
+      getActiveFixture: () => {
+        const { fixtures, activeId } = get();
+        return fixtures.find((fixture) => fixture.id === activeId);
+      },
+    }),
+    {
+      name: SUBSCRIBE_FIXTURE_KEY,
+      storage: createJSONStorage(() => localStorage),
+    },
+  ),
+);
+
+export default useSubscribeFixtureStore;
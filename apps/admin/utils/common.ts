@@ -67,3 +67,15 @@ export function formatDate(date?: Date | number, showTime: boolean = true) {
     timeZone,
   });
 }
+
+export function downloadFile(filename: string, content: string, type = 'text/plain') {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { Combobox } from '@workspace/ui/custom-components/combobox';
+import { Icon } from '@workspace/ui/custom-components/icon';
+import {
+  findCountry,
+  getCountryCode,
+  getCountryName,
+  isoCountries,
+} from '@workspace/ui/utils/countries';
+import { useMemo } from 'react';
+
+interface CountrySelectProps {
+  value?: string;
+  onChange?: (value: string) => void;
+  className?: string;
+  placeholder?: string;
+  locale?: string;
+}
+
+export function CountryFlag({ code, className }: { code: string; className?: string }) {
+  const country = findCountry(code);
+  if (!country) return null;
+  return <Icon icon={`flagpack:${country.alpha2.toLowerCase()}`} className={className} />;
+}
+
+/** Searchable country picker; the value is an ISO 3166-1 alpha-2 code. */
+export const CountrySelect = ({
+  value,
+  onChange,
+  className,
+  placeholder = 'Select Country',
+  locale = 'en-US',
+}: CountrySelectProps) => {
+  const options = useMemo(
+    () =>
+      isoCountries
+        .map((country) => ({ country, name: getCountryName(country, locale) }))
+        .sort((a, b) => a.name.localeCompare(b.name, locale))
+        .map(({ country, name }) => ({
+          value: getCountryCode(country),
+          // Searchable by local name, English name and both codes
+          label: `${name} ${country.name} ${country.alpha3}`,
+          children: (
+            <div className='flex items-center gap-2'>
+              <Icon icon={`flagpack:${country.alpha2.toLowerCase()}`} className='!size-5' />
+              {name}
+              <span className='text-muted-foreground text-xs'>{getCountryCode(country)}</span>
+            </div>
+          ),
+        })),
+    [locale],
+  );
+
+  const selected = findCountry(value);
+
+  return (
+    <Combobox<string, false>
+      className={className}
+      placeholder={placeholder}
+      value={selected ? getCountryCode(selected) : value}
+      options={options}
+      onChange={(code) => onChange?.(code)}
+    />
+  );
+};
@@ -6,12 +6,14 @@ import { Combobox } from '@workspace/ui/custom-components/combobox';
 import { EnhancedInput, EnhancedInputProps } from '@workspace/ui/custom-components/enhanced-input';
 import { cn } from '@workspace/ui/lib/utils';
 import { CircleMinusIcon, CirclePlusIcon } from 'lucide-react';
-import { useEffect, useState } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 
 interface FieldConfig extends Omit<EnhancedInputProps, 'type'> {
   name: string;
-  type: 'text' | 'number' | 'select' | 'time' | 'boolean' | 'textarea';
+  type: 'text' | 'number' | 'select' | 'time' | 'boolean' | 'textarea' | 'custom';
   options?: { label: string; value: string }[];
+  // renders the field when type is 'custom'
+  render?: (value: unknown, onChange: (value: unknown) => void) => ReactNode;
   // optional per-item visibility function: returns true to show the field for the given item
   visible?: (item: Record<string, any>) => boolean;
 }
@@ -36,7 +38,7 @@ export function ObjectInput<T extends Record<string, any>>({
     setInternalState(value);
   }, [value]);
 
-  const updateField = (key: keyof T, fieldValue: string | number | boolean) => {
+  const updateField = (key: keyof T, fieldValue: unknown) => {
     const updatedInternalState = { ...internalState, [key]: fieldValue };
     setInternalState(updatedInternalState);
     onChange(updatedInternalState);
@@ -78,6 +80,10 @@ export function ObjectInput<T extends Record<string, any>>({
             />
           </div>
         );
+      case 'custom':
+        return field.render?.(internalState[field.name], (fieldValue) =>
+          updateField(field.name, fieldValue),
+        );
       default:
         return (
           <EnhancedInput
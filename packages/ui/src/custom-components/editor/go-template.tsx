@@ -5,6 +5,13 @@ import {
   MonacoEditor,
   MonacoEditorProps,
 } from '@workspace/ui/custom-components/editor/monaco-editor';
+import { BUILTIN_FUNCTIONS } from '@workspace/ui/utils/go-template';
+import {
+  analyzeGoTemplate,
+  describeGoTemplateSymbol,
+  GO_TEMPLATE_FUNCTION_DOCS,
+  GoTemplateSchemaNode,
+} from '@workspace/ui/utils/go-template-diagnostics';
 import * as monaco from 'monaco-editor';
 import DraculaTheme from 'monaco-themes/themes/Dracula.json' with { type: 'json' };
 import { useEffect, useRef } from 'react';
@@ -100,6 +107,10 @@ const COMPLETION_SNIPPETS = {
   },
 } as const;
 
+const BUILTIN_FUNCTION_NAMES = new Set(Object.keys(BUILTIN_FUNCTIONS));
+
+const MARKER_OWNER = 'go-template';
+
 const calculateMatchScore = (label: string, searchText: string): number => {
   if (!searchText) return 0;
 
@@ -392,7 +403,13 @@ export function GoTemplateEditor({ schema, enableSprig = true, ...props }: GoTem
   const providersRef = useRef<{
     completionProvider?: monaco.IDisposable;
     semanticTokensProvider?: monaco.IDisposable;
+    hoverProvider?: monaco.IDisposable;
+    contentListener?: monaco.IDisposable;
   }>({});
+  // Providers are registered once, so they read the current props from here
+  const propsRef = useRef({ schema, enableSprig });
+  propsRef.current = { schema, enableSprig };
+  const updateMarkersRef = useRef<() => void>(undefined);
 
   const cleanup = () => {
     if (providersRef.current.completionProvider) {
@@ -401,6 +418,12 @@ export function GoTemplateEditor({ schema, enableSprig = true, ...props }: GoTem
     if (providersRef.current.semanticTokensProvider) {
       providersRef.current.semanticTokensProvider.dispose();
     }
+    if (providersRef.current.hoverProvider) {
+      providersRef.current.hoverProvider.dispose();
+    }
+    if (providersRef.current.contentListener) {
+      providersRef.current.contentListener.dispose();
+    }
     providersRef.current = {};
   };
 
@@ -408,6 +431,17 @@ export function GoTemplateEditor({ schema, enableSprig = true, ...props }: GoTem
     return cleanup;
   }, []);
 
+  useEffect(() => {
+    updateMarkersRef.current?.();
+  }, [schema, enableSprig]);
+
+  const analyze = (source: string) =>
+    analyzeGoTemplate(source, {
+      schema: propsRef.current.schema as Record<string, GoTemplateSchemaNode> | undefined,
+      // Sprig adds functions the server may extend, so calls are only checked without it
+      functions: propsRef.current.enableSprig ? undefined : BUILTIN_FUNCTION_NAMES,
+    });
+
   const generateSmartCompletions = (
     schema: Record<string, SchemaProperty> | Record<string, unknown> | undefined,
     activeRangeField?: string | null,
@@ -837,7 +871,8 @@ export function GoTemplateEditor({ schema, enableSprig = true, ...props }: GoTem
               label: keyword,
               kind: COMPLETION_KINDS.KEYWORD,
               insertText: keyword,
-              documentation: `Go template keyword: ${keyword}`,
+              documentation:
+                GO_TEMPLATE_FUNCTION_DOCS[keyword] ?? `Go template keyword: ${keyword}`,
               sortText: `${SORT_PREFIXES.KEYWORD}${keyword}`,
             }));
 
@@ -848,7 +883,7 @@ export function GoTemplateEditor({ schema, enableSprig = true, ...props }: GoTem
                   label: fn,
                   kind: COMPLETION_KINDS.FUNCTION,
                   insertText: fn,
-                  documentation: `Sprig function: ${fn}`,
+                  documentation: GO_TEMPLATE_FUNCTION_DOCS[fn] ?? `Sprig function: ${fn}`,
                   sortText: `${SORT_PREFIXES.SPRIG}${fn}`,
                 }))
               : [];
@@ -1154,6 +1189,24 @@ export function GoTemplateEditor({ schema, enableSprig = true, ...props }: GoTem
         releaseDocumentSemanticTokens: () => {},
       });
 
+    providersRef.current.hoverProvider = monaco.languages.registerHoverProvider('go-template', {
+      provideHover: (model, position) => {
+        const offset = model.getOffsetAt(position);
+        const symbol = analyze(model.getValue()).symbols.find(
+          (item) => item.start <= offset && offset < item.end,
+        );
+        const documentation =
+          symbol && describeGoTemplateSymbol(symbol, propsRef.current.enableSprig);
+        if (!symbol || !documentation) return null;
+        const start = model.getPositionAt(symbol.start);
+        const end = model.getPositionAt(symbol.end);
+        return {
+          range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          contents: [{ value: documentation }],
+        };
+      },
+    });
+
     monaco.editor.defineTheme('transparentTheme', {
       base: DraculaTheme.base as 'vs' | 'vs-dark' | 'hc-black',
       inherit: DraculaTheme.inherit,
@@ -1173,6 +1226,40 @@ export function GoTemplateEditor({ schema, enableSprig = true, ...props }: GoTem
     });
   };
 
+  const handleMount: MonacoEditorProps['onMount'] = (editor, monaco) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    updateMarkersRef.current = () => {
+      const model = editor.getModel();
+      if (!model) return;
+      const { diagnostics } = analyze(model.getValue());
+      monaco.editor.setModelMarkers(
+        model,
+        MARKER_OWNER,
+        diagnostics.map((diagnostic) => {
+          const start = model.getPositionAt(diagnostic.start);
+          const end = model.getPositionAt(diagnostic.end);
+          return {
+            message: diagnostic.message,
+            severity:
+              diagnostic.severity === 'error'
+                ? monaco.MarkerSeverity.Error
+                : monaco.MarkerSeverity.Warning,
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          };
+        }),
+      );
+    };
+    providersRef.current.contentListener = editor.onDidChangeModelContent(() => {
+      clearTimeout(timer);
+      timer = setTimeout(() => updateMarkersRef.current?.(), 300);
+    });
+    updateMarkersRef.current();
+    props.onMount?.(editor, monaco);
+  };
+
   return (
     <MonacoEditor
       title='Go Template Editor'
@@ -1181,6 +1268,7 @@ export function GoTemplateEditor({ schema, enableSprig = true, ...props }: GoTem
       language='go-template'
       placeholder='Enter your Go template here...'
       beforeMount={handleBeforeMount}
+      onMount={handleMount}
     />
   );
 }
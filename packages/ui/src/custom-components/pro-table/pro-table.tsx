@@ -8,6 +8,7 @@ import {
   getFilteredRowModel,
   getPaginationRowModel,
   getSortedRowModel,
+  RowData,
   SortingState,
   useReactTable,
   VisibilityState,
@@ -35,6 +36,14 @@ import { useSize } from 'ahooks';
 import { GripVertical, ListRestart, Loader, RefreshCcw } from 'lucide-react';
 import React, { Fragment, useEffect, useImperativeHandle, useRef, useState } from 'react';
 
+declare module '@tanstack/react-table' {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    /** Value compared between fetches by `highlightChanges`; defaults to the accessor value */
+    diffValue?: (row: TData) => unknown;
+  }
+}
+
 export interface ProTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   request: (
@@ -71,6 +80,18 @@ export interface ProTableProps<TData, TValue> {
     items: TData[],
   ) => Promise<TData[]>;
   initialFilters?: Record<string, unknown>;
+  /** Refetch in the background every `pollingInterval` ms; 0 or undefined disables polling */
+  pollingInterval?: number;
+  /**
+   * Stable key of a record. Selection follows it across refetches; without it
+   * rows are keyed by position.
+   */
+  rowKey?: (row: TData) => string | number;
+  /**
+   * Highlight cells whose accessor or `meta.diffValue` changed since the
+   * previous fetch. Needs `rowKey` to match records between fetches.
+   */
+  highlightChanges?: boolean;
 }
 
 export interface ProTableActions {
@@ -92,6 +113,9 @@ export function ProTable<
   empty,
   onSort,
   initialFilters,
+  pollingInterval,
+  rowKey,
+  highlightChanges,
 }: ProTableProps<TData, TValue>) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>(() => {
@@ -112,6 +136,8 @@ export function ProTable<
     pageSize: 10,
   });
   const loading = useRef(false);
+  const snapshot = useRef(new Map<string, string>());
+  const [changedCells, setChangedCells] = useState<Set<string>>(new Set());
 
   const table = useReactTable({
     data,
@@ -163,6 +189,7 @@ export function ProTable<
     getFilteredRowModel: getFilteredRowModel(),
     onColumnVisibilityChange: setColumnVisibility,
     onRowSelectionChange: setRowSelection,
+    getRowId: rowKey ? (row) => String(rowKey(row)) : undefined,
     state: {
       sorting,
       columnFilters,
@@ -187,6 +214,7 @@ export function ProTable<
         },
         Object.fromEntries(columnFilters.map((item) => [item.id, item.value])) as TValue,
       );
+      if (highlightChanges && rowKey) diffCells(response.list, rowKey);
       setData(response.list);
       setRowCount(response.total);
     } catch (error) {
@@ -195,6 +223,47 @@ export function ProTable<
       loading.current = false;
     }
   };
+  const diffCells = (list: TData[], getKey: (row: TData) => string | number) => {
+    const columns = table
+      .getAllLeafColumns()
+      .filter((column) => column.columnDef.meta?.diffValue || column.accessorFn);
+    const next = new Map<string, string>();
+    const changed = new Set<string>();
+    list.forEach((row, index) => {
+      const rowId = getKey(row);
+      columns.forEach((column) => {
+        const key = `${rowId}:${column.id}`;
+        const diffValue = column.columnDef.meta?.diffValue;
+        const value = JSON.stringify(
+          (diffValue ? diffValue(row) : column.accessorFn!(row, index)) ?? null,
+        );
+        const previous = snapshot.current.get(key);
+        if (previous !== undefined && previous !== value) changed.add(key);
+        next.set(key, value);
+      });
+    });
+    snapshot.current = next;
+    setChangedCells(changed);
+  };
+  const fetchRef = useRef(fetchData);
+  fetchRef.current = fetchData;
+
+  useEffect(() => {
+    if (!pollingInterval) return;
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') fetchRef.current();
+    }, pollingInterval);
+    return () => clearInterval(timer);
+  }, [pollingInterval]);
+
+  const getCellClass = (rowId: string, columnId: string) =>
+    cn(
+      getTableCellClass(columnId),
+      highlightChanges &&
+        changedCells.has(`${rowId}:${columnId}`) &&
+        'bg-amber-500/15 transition-colors duration-700',
+    );
+
   const reset = async () => {
     table.resetSorting();
     table.resetColumnFilters();
@@ -303,7 +372,7 @@ export function ProTable<
                           return cell.column.id !== 'sortable';
                         })
                         .map((cell) => (
-                          <TableCell key={cell.id} className={getTableCellClass(cell.column.id)}>
+                          <TableCell key={cell.id} className={getCellClass(row.id, cell.column.id)}>
                             {flexRender(cell.column.columnDef.cell, cell.getContext())}
                           </TableCell>
                         ))}
@@ -313,7 +382,7 @@ export function ProTable<
                   table.getRowModel().rows.map((row) => (
                     <TableRow key={row.id} data-state={row.getIsSelected() && 'selected'}>
                       {row.getVisibleCells().map((cell) => (
-                        <TableCell key={cell.id} className={getTableCellClass(cell.column.id)}>
+                        <TableCell key={cell.id} className={getCellClass(row.id, cell.column.id)}>
                           {flexRender(cell.column.columnDef.cell, cell.getContext())}
                         </TableCell>
                       ))}
@@ -2338,3 +2338,75 @@ export function getCountry(lng: string) {
 
   return countries.find((name) => name.alpha2 === alpha2 && name.lang === lang);
 }
+
+// Countries with an ISO 3166 code; a few use a subdivision key for their flag
+export const isoCountries = countries.filter((country) => !!country.alpha3);
+
+const COUNTRY_ALIASES: Record<string, string> = { UK: 'GB' };
+
+/** ISO 3166-1 alpha-2 code, e.g. `GB` for the `GB-UKM` entry. */
+export function getCountryCode(country: ICountry) {
+  return country.alpha2.slice(0, 2);
+}
+
+// Building an Intl.DisplayNames is far slower than a lookup, so keep one per locale
+const displayNames = new Map<string, Intl.DisplayNames | null>();
+
+function regionName(code: string, locale: string) {
+  if (!displayNames.has(locale)) {
+    try {
+      displayNames.set(locale, new Intl.DisplayNames([locale], { type: 'region' }));
+    } catch {
+      displayNames.set(locale, null);
+    }
+  }
+  try {
+    return displayNames.get(locale)?.of(code);
+  } catch {
+    return undefined;
+  }
+}
+
+// Lower-cased localized name to country, built once per locale
+const countriesByName = new Map<string, Map<string, ICountry>>();
+
+function countryNameIndex(locale: string) {
+  let index = countriesByName.get(locale);
+  if (!index) {
+    index = new Map();
+    for (const country of isoCountries) {
+      const name = regionName(getCountryCode(country), locale)?.toLowerCase();
+      if (name && !index.has(name)) index.set(name, country);
+    }
+    countriesByName.set(locale, index);
+  }
+  return index;
+}
+
+/** Country name in the given locale, falling back to the English name. */
+export function getCountryName(country: ICountry, locale = 'en-US') {
+  return regionName(getCountryCode(country), locale) || country.name;
+}
+
+/**
+ * Resolve a free-form country value to a country: an ISO alpha-2/alpha-3 code,
+ * a flag emoji, or the name in English or any of the given locales.
+ */
+export function findCountry(value?: string, locales: string[] = []) {
+  const input = value?.trim();
+  if (!input) return undefined;
+  const points = Array.from(input).map((char) => char.codePointAt(0)!);
+  const code =
+    points.length === 2 && points.every((point) => point >= 0x1f1e6 && point <= 0x1f1ff)
+      ? String.fromCharCode(...points.map((point) => point - 0x1f1e6 + 65))
+      : input.toUpperCase();
+  const alias = COUNTRY_ALIASES[code] ?? code;
+  const lower = input.toLowerCase();
+  return (
+    isoCountries.find((country) => getCountryCode(country) === alias || country.alpha3 === alias) ??
+    isoCountries.find((country) => country.name.toLowerCase() === lower) ??
+    ['en-US', ...locales]
+      .map((locale) => countryNameIndex(locale).get(lower))
+      .find((country) => !!country)
+  );
+}
@@ -0,0 +1,86 @@
+import {
+  analyzeGoTemplate,
+  describeGoTemplateSymbol,
+  GoTemplateSchemaNode,
+} from '@workspace/ui/utils/go-template-diagnostics';
+import { describe, expect, it } from 'vitest';
+
+const schema: Record<string, GoTemplateSchemaNode> = {
+  SiteName: { type: 'string', description: 'Name of the site' },
+  Proxies: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { Name: { type: 'string' }, Port: { type: 'number' } },
+    },
+  },
+  Extra: { type: 'object' },
+};
+
+function messages(source: string, functions?: Set<string>) {
+  return analyzeGoTemplate(source, { schema, functions }).diagnostics.map((d) => [
+    d.message,
+    source.slice(d.start, d.end),
+  ]);
+}
+
+describe('analyzeGoTemplate', () => {
+  it('accepts fields, range elements and declared variables', () => {
+    expect(
+      messages(
+        '{{ $n := .SiteName }}{{ range $i, $p := .Proxies }}{{ $p.Name }}{{ .Port }}{{ end }}{{ $n }}',
+      ),
+    ).toEqual([]);
+  });
+
+  it('reports unknown fields with a case-insensitive suggestion', () => {
+    expect(messages('{{ .sitename }}{{ range .Proxies }}{{ .Host }}{{ end }}')).toEqual([
+      ['unknown field "sitename", did you mean "SiteName"?', 'sitename'],
+      ['unknown field "Host"', 'Host'],
+    ]);
+  });
+
+  it('reports fields on non-objects but not inside untyped maps', () => {
+    expect(messages('{{ .SiteName.Length }}{{ .Extra.Anything.Deep }}')).toEqual([
+      ["can't evaluate field Length in type string", 'Length'],
+    ]);
+  });
+
+  it('scopes variables to their block', () => {
+    expect(messages('{{ range $p := .Proxies }}{{ end }}{{ $p }}')).toEqual([
+      ['undefined variable "$p"', '$p'],
+    ]);
+  });
+
+  it('checks function names only when a set is given', () => {
+    expect(messages('{{ upper .SiteName }}')).toEqual([]);
+    expect(messages('{{ upper .SiteName }}', new Set(['len']))).toEqual([
+      ['function "upper" not defined', 'upper'],
+    ]);
+  });
+
+  it('turns a parse error into a single diagnostic on its action', () => {
+    const source = 'a\n{{ if .SiteName }}b';
+    const { diagnostics, symbols } = analyzeGoTemplate(source, { schema });
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]!.severity).toBe('error');
+    expect(symbols).toEqual([]);
+  });
+});
+
+describe('describeGoTemplateSymbol', () => {
+  it('documents fields and builtin functions', () => {
+    const { symbols } = analyzeGoTemplate('{{ len .Proxies }}{{ .SiteName }}', { schema });
+    expect(symbols.map((symbol) => describeGoTemplateSymbol(symbol))).toEqual([
+      'len x — the length of a string, slice or map.',
+      '`.Proxies` — []object',
+      '`.SiteName` — string\n\nName of the site',
+    ]);
+  });
+
+  it('only names sprig functions when sprig is enabled', () => {
+    const symbol = { kind: 'function' as const, name: 'kebabcase', start: 0, end: 9 };
+    expect(describeGoTemplateSymbol(symbol)).toBeUndefined();
+    expect(describeGoTemplateSymbol(symbol, true)).toBe('Sprig function: kebabcase');
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Static checks for Go templates, used by the editor for markers and hover
+ * docs. Parse errors (unbalanced `{{if}}`/`{{range}}`/`{{end}}`, bad syntax)
+ * come from the template parser; fields and variables are then resolved
+ * against a JSON-schema-like description of the data passed to the template.
+ */
+
+import {
+  BUILTIN_FUNCTIONS,
+  GoTemplateError,
+  parseGoTemplate,
+  type Command,
+  type Operand,
+  type Pipeline,
+  type TemplateNode,
+} from '@workspace/ui/utils/go-template';
+
+export interface GoTemplateSchemaNode {
+  type: string;
+  description?: string;
+  items?: GoTemplateSchemaNode;
+  properties?: Record<string, GoTemplateSchemaNode>;
+}
+
+export interface GoTemplateDiagnostic {
+  message: string;
+  severity: 'error' | 'warning';
+  // Source offsets, end exclusive
+  start: number;
+  end: number;
+}
+
+export interface GoTemplateSymbol {
+  kind: 'field' | 'variable' | 'function';
+  // Field path as written (`.Proxies`, `$node.Name`) or the variable/function name
+  name: string;
+  start: number;
+  end: number;
+  node?: GoTemplateSchemaNode;
+}
+
+export interface GoTemplateAnalysisOptions {
+  // Top-level fields of the template data; fields are not checked without it
+  schema?: Record<string, GoTemplateSchemaNode>;
+  // Functions the template may call; calls are not checked without it
+  functions?: Set<string>;
+}
+
+export interface GoTemplateAnalysis {
+  diagnostics: GoTemplateDiagnostic[];
+  symbols: GoTemplateSymbol[];
+}
+
+export const GO_TEMPLATE_FUNCTION_DOCS: Record<string, string> = {
+  and: 'and x y… — the first empty argument or the last argument.',
+  or: 'or x y… — the first non-empty argument or the last argument.',
+  not: 'not x — the boolean negation of its single argument.',
+  len: 'len x — the length of a string, slice or map.',
+  index: 'index x 1 2… — the result of indexing a slice or map by the following arguments.',
+  slice: 'slice x 1 2 — x[1:2]; also works on strings.',
+  print: 'print args… — fmt.Sprint of the arguments.',
+  printf: 'printf format args… — fmt.Sprintf of the arguments.',
+  println: 'println args… — fmt.Sprintln of the arguments.',
+  eq: 'eq x y… — true if x equals any of the following arguments.',
+  ne: 'ne x y — true if x is not equal to y.',
+  lt: 'lt x y — true if x < y.',
+  le: 'le x y — true if x <= y.',
+  gt: 'gt x y — true if x > y.',
+  ge: 'ge x y — true if x >= y.',
+  html: 'html args… — the escaped HTML equivalent of the textual representation.',
+  js: 'js args… — the escaped JavaScript equivalent of the textual representation.',
+  urlquery: 'urlquery args… — the textual representation escaped for a URL query.',
+  call: 'call fn args… — the result of calling the function value fn.',
+
+  trim: 'trim s — remove leading and trailing whitespace.',
+  trimAll: 'trimAll chars s — remove the given characters from both ends.',
+  trimPrefix: 'trimPrefix prefix s — remove a prefix.',
+  trimSuffix: 'trimSuffix suffix s — remove a suffix.',
+  upper: 'upper s — convert to upper case.',
+  lower: 'lower s — convert to lower case.',
+  title: 'title s — convert to title case.',
+  repeat: 'repeat n s — repeat a string n times.',
+  substr: 'substr start end s — part of a string.',
+  trunc: 'trunc n s — truncate to n characters (from the end if negative).',
+  contains: 'contains sub s — true if s contains sub.',
+  hasPrefix: 'hasPrefix prefix s — true if s starts with prefix.',
+  hasSuffix: 'hasSuffix suffix s — true if s ends with suffix.',
+  quote: 'quote s… — wrap each argument in double quotes.',
+  squote: 'squote s… — wrap each argument in single quotes.',
+  cat: 'cat args… — join the arguments with spaces.',
+  indent: 'indent n s — indent every line by n spaces.',
+  nindent: 'nindent n s — a newline followed by indent n s.',
+  replace: 'replace old new s — replace every occurrence of old with new.',
+  split: 'split sep s — split into a map keyed _0, _1, ….',
+  splitList: 'splitList sep s — split into a list.',
+  join: 'join sep list — join a list with a separator.',
+  sortAlpha: 'sortAlpha list — sort a list of strings alphabetically.',
+  add: 'add a b… — sum of integers.',
+  add1: 'add1 n — n + 1.',
+  sub: 'sub a b — a - b.',
+  mul: 'mul a b… — product of integers.',
+  div: 'div a b — integer division.',
+  mod: 'mod a b — remainder of a / b.',
+  max: 'max a b… — the largest integer.',
+  min: 'min a b… — the smallest integer.',
+  until: 'until n — list of integers from 0 to n - 1.',
+  seq: 'seq [start [step]] end — list of integers like the bash seq command.',
+  now: 'now — the current time.',
+  date: 'date layout time — format a time with a Go layout.',
+  unixEpoch: 'unixEpoch time — seconds since the Unix epoch.',
+  default: 'default fallback value — value, or fallback when value is empty.',
+  empty: 'empty value — true if the value is its zero value.',
+  coalesce: 'coalesce values… — the first non-empty value.',
+  ternary: 'ternary a b condition — a if condition is true, otherwise b.',
+  toJson: 'toJson value — encode as JSON.',
+  toPrettyJson: 'toPrettyJson value — encode as indented JSON.',
+  toRawJson: 'toRawJson value — encode as JSON without HTML escaping.',
+  fromJson: 'fromJson s — decode a JSON string.',
+  b64enc: 'b64enc s — base64 encode.',
+  b64dec: 'b64dec s — base64 decode.',
+  list: 'list values… — create a list.',
+  first: 'first list — the first item.',
+  last: 'last list — the last item.',
+  rest: 'rest list — every item but the first.',
+  initial: 'initial list — every item but the last.',
+  append: 'append list value — a new list with value at the end.',
+  prepend: 'prepend list value — a new list with value at the front.',
+  concat: 'concat lists… — join several lists.',
+  uniq: 'uniq list — remove duplicates.',
+  has: 'has value list — true if the list contains the value.',
+  compact: 'compact list — remove empty values.',
+  dict: 'dict key value… — create a map from key/value pairs.',
+  get: 'get map key — the value for a key, or "".',
+  set: 'set map key value — add a key to a map and return the map.',
+  hasKey: 'hasKey map key — true if the map contains the key.',
+  keys: 'keys maps… — the keys of one or more maps.',
+  values: 'values map — the values of a map.',
+  pluck: 'pluck key maps… — the values for a key in each map.',
+  atoi: 'atoi s — convert a string to an integer.',
+  int: 'int value — convert to an integer.',
+  toString: 'toString value — convert to a string.',
+  regexMatch: 'regexMatch regex s — true if s matches the regular expression.',
+  regexFind: 'regexFind regex s — the first match of the regular expression.',
+  regexReplaceAll: 'regexReplaceAll regex s replacement — replace every match.',
+  sha256sum: 'sha256sum s — hex encoded SHA-256 digest.',
+  uuidv4: 'uuidv4 — a random UUID.',
+  urlParse: 'urlParse s — split a URL into a map of its parts.',
+  fail: 'fail message — stop rendering with an error.',
+};
+
+function lineStarts(source: string) {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) if (source[i] === '\n') starts.push(i + 1);
+  return starts;
+}
+
+// Parse errors carry a line and column; highlight the rest of that action
+function parseDiagnostic(source: string, error: GoTemplateError): GoTemplateDiagnostic {
+  const starts = lineStarts(source);
+  const start = Math.min((starts[error.line - 1] ?? 0) + error.column - 1, source.length);
+  const lineEnd = source.indexOf('\n', start);
+  const close = source.indexOf('}}', start);
+  const end =
+    close >= 0 && (lineEnd < 0 || close < lineEnd)
+      ? close + 2
+      : Math.max(start + 1, lineEnd < 0 ? source.length : lineEnd);
+  return {
+    message: error.message.replace(/^\d+:\d+: /, ''),
+    severity: 'error',
+    start,
+    end: Math.min(end, source.length),
+  };
+}
+
+function describeType(node: GoTemplateSchemaNode) {
+  return node.type === 'array' && node.items ? `[]${node.items.type}` : node.type;
+}
+
+class Analyzer {
+  diagnostics: GoTemplateDiagnostic[] = [];
+  symbols: GoTemplateSymbol[] = [];
+  // Innermost last; a missing node means the type is not known
+  private variables: { name: string; node?: GoTemplateSchemaNode }[] = [];
+
+  constructor(private options: GoTemplateAnalysisOptions) {}
+
+  run(root: TemplateNode[], defines: Map<string, TemplateNode[]>) {
+    const data = this.options.schema
+      ? { type: 'object', properties: this.options.schema }
+      : undefined;
+    this.variables = [{ name: '$', node: data }];
+    this.walkList(root, data);
+    // Defined templates can be invoked with any data
+    defines.forEach((list) => {
+      this.variables = [{ name: '$' }];
+      this.walkList(list, undefined);
+    });
+  }
+
+  private error(message: string, start: number, end: number) {
+    this.diagnostics.push({ message, severity: 'error', start, end });
+  }
+
+  private walkList(list: TemplateNode[], dot?: GoTemplateSchemaNode) {
+    const mark = this.variables.length;
+    list.forEach((node) => this.walkNode(node, dot));
+    this.variables.length = mark;
+  }
+
+  private walkNode(node: TemplateNode, dot?: GoTemplateSchemaNode) {
+    switch (node.kind) {
+      case 'action':
+        this.declare(node.pipeline, this.walkPipeline(node.pipeline, dot));
+        break;
+      case 'if':
+      case 'with': {
+        // Variables declared in the pipeline stay visible in both branches
+        const mark = this.variables.length;
+        const value = this.walkPipeline(node.pipeline, dot);
+        this.declare(node.pipeline, value);
+        this.walkList(node.list, node.kind === 'with' ? value : dot);
+        if (node.elseList) this.walkList(node.elseList, dot);
+        this.variables.length = mark;
+        break;
+      }
+      case 'range': {
+        const mark = this.variables.length;
+        const value = this.walkPipeline(node.pipeline, dot);
+        const element =
+          value?.type === 'array' ? value.items : value?.type === 'number' ? value : undefined;
+        const [first, second] = node.pipeline.declare;
+        if (second) {
+          this.variables.push({
+            name: first!,
+            node: value?.type === 'array' ? { type: 'number' } : undefined,
+          });
+          this.variables.push({ name: second, node: element });
+        } else if (first) {
+          this.variables.push({ name: first, node: element });
+        }
+        this.walkList(node.list, element);
+        if (node.elseList) this.walkList(node.elseList, dot);
+        this.variables.length = mark;
+        break;
+      }
+      case 'template':
+        if (node.pipeline) this.walkPipeline(node.pipeline, dot);
+        break;
+    }
+  }
+
+  private declare(pipeline: Pipeline, node?: GoTemplateSchemaNode) {
+    if (pipeline.assign) {
+      pipeline.declare.forEach((name: string) => this.lookup(name, pipeline.pos));
+      return;
+    }
+    pipeline.declare.forEach((name: string) => this.variables.push({ name, node }));
+  }
+
+  private lookup(name: string, pos: number) {
+    for (let i = this.variables.length - 1; i >= 0; i--) {
+      if (this.variables[i]!.name === name) return this.variables[i]!;
+    }
+    this.error(`undefined variable "${name}"`, pos, pos + name.length);
+    return undefined;
+  }
+
+  /** Check every command and return the schema of the pipeline's value, if known. */
+  private walkPipeline(pipeline: Pipeline, dot?: GoTemplateSchemaNode) {
+    let value: GoTemplateSchemaNode | undefined;
+    pipeline.commands.forEach((command: Command) => {
+      const results = command.args.map((arg: Operand) => this.walkOperand(arg, dot));
+      // Only a lone field or variable has a known value; function results do not
+      value =
+        command.args.length === 1 && command.args[0]!.kind !== 'function' ? results[0] : undefined;
+    });
+    return value;
+  }
+
+  private walkOperand(
+    operand: Operand,
+    dot?: GoTemplateSchemaNode,
+  ): GoTemplateSchemaNode | undefined {
+    switch (operand.kind) {
+      case 'dot':
+        return this.resolvePath(dot, operand.path, operand.pos + 1, '.');
+      case 'field':
+        return this.resolvePath(dot, operand.path, operand.pos, '');
+      case 'variable': {
+        const end = operand.pos + operand.name.length;
+        const variable = this.lookup(operand.name, operand.pos);
+        this.symbols.push({
+          kind: 'variable',
+          name: operand.name,
+          start: operand.pos,
+          end,
+          node: variable?.node,
+        });
+        return variable
+          ? this.resolvePath(variable.node, operand.path, end, operand.name)
+          : undefined;
+      }
+      case 'function': {
+        const end = operand.pos + operand.name.length;
+        this.symbols.push({ kind: 'function', name: operand.name, start: operand.pos, end });
+        if (this.options.functions && !this.options.functions.has(operand.name)) {
+          this.error(`function "${operand.name}" not defined`, operand.pos, end);
+        }
+        return undefined;
+      }
+      case 'pipeline':
+        // Fields after the closing paren are not positioned, so they are not checked
+        this.walkPipeline(operand.pipeline, dot);
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Follow `.A.B` from `node`; `pos` is the offset of the first `.`. Lookups
+   * stop silently once the type is unknown.
+   */
+  private resolvePath(
+    node: GoTemplateSchemaNode | undefined,
+    path: string[],
+    pos: number,
+    prefix: string,
+  ) {
+    let current = node;
+    let cursor = pos;
+    let written = prefix === '.' ? '' : prefix;
+    for (const name of path) {
+      const start = cursor + 1;
+      const end = start + name.length;
+      cursor = end;
+      written += `.${name}`;
+      if (!current) return undefined;
+      if (current.type !== 'object') {
+        this.error(`can't evaluate field ${name} in type ${describeType(current)}`, start, end);
+        return undefined;
+      }
+      // Objects without declared properties are maps of unknown shape
+      if (!current.properties) return undefined;
+      const child = current.properties[name];
+      if (!child) {
+        const suggestion = Object.keys(current.properties).find(
+          (key) => key.toLowerCase() === name.toLowerCase(),
+        );
+        this.error(
+          suggestion
+            ? `unknown field "${name}", did you mean "${suggestion}"?`
+            : `unknown field "${name}"`,
+          start,
+          end,
+        );
+        return undefined;
+      }
+      this.symbols.push({ kind: 'field', name: written, start, end, node: child });
+      current = child;
+    }
+    return current;
+  }
+}
+
+/**
+ * Parse and check a template. Parsing stops at the first syntax error, in
+ * which case that error is the only diagnostic and no symbols are returned.
+ */
+export function analyzeGoTemplate(
+  source: string,
+  options: GoTemplateAnalysisOptions = {},
+): GoTemplateAnalysis {
+  let template: ReturnType<typeof parseGoTemplate>;
+  try {
+    template = parseGoTemplate(source);
+  } catch (error) {
+    if (!(error instanceof GoTemplateError)) throw error;
+    return { diagnostics: [parseDiagnostic(source, error)], symbols: [] };
+  }
+  const analyzer = new Analyzer(options);
+  analyzer.run(template.root, template.defines);
+  return { diagnostics: analyzer.diagnostics, symbols: analyzer.symbols };
+}
+
+/** Markdown for the hover card of a symbol. */
+export function describeGoTemplateSymbol(symbol: GoTemplateSymbol, sprig = false) {
+  if (symbol.kind === 'function') {
+    if (!sprig && !(symbol.name in BUILTIN_FUNCTIONS)) return undefined;
+    return GO_TEMPLATE_FUNCTION_DOCS[symbol.name] ?? `Sprig function: ${symbol.name}`;
+  }
+  if (!symbol.node) return undefined;
+  const heading = `\`${symbol.name}\` — ${describeType(symbol.node)}`;
+  return symbol.node.description ? `${heading}\n\n${symbol.node.description}` : heading;
+}
@@ -0,0 +1,935 @@
+import {
+  formatValue,
+  goMap,
+  GoTemplateFunction,
+  isGoMap,
+  isTrue,
+  queryEscape,
+  typeOf,
+} from '@workspace/ui/utils/go-template';
+
+/**
+ * Browser versions of the Sprig functions templates commonly use. Functions
+ * that need the server (environment, DNS, certificates, keys) throw so the
+ * preview says why instead of rendering something misleading.
+ */
+
+function toInt(value: unknown): number {
+  if (typeof value === 'number') return Math.trunc(value);
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? Math.trunc(parsed) : 0;
+  }
+  return 0;
+}
+
+function toFloat(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = Number(String(value ?? '').trim());
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toStr(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Uint8Array) return new TextDecoder().decode(value);
+  return formatValue(value);
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null) return [];
+  throw new Error(`cannot find list on type ${typeOf(value)}`);
+}
+
+function isEmpty(value: unknown) {
+  if (value instanceof Date) return false;
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.keys(value).length === 0;
+  }
+  return !isTrue(value);
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value instanceof Date) return new Date(value) as T;
+  if (value && typeof value === 'object') {
+    const copy = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, clone(item)]),
+    ) as T;
+    return isGoMap(value) ? (goMap(copy as object) as T) : copy;
+  }
+  return value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) =>
+        deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+      )
+    );
+  }
+  return false;
+}
+
+function words(value: string) {
+  return value
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean);
+}
+
+function random(length: number, chars: string) {
+  checkSize(length);
+  return Array.from({ length: Math.max(0, toInt(length)) }, () =>
+    chars.charAt(Math.floor(Math.random() * chars.length)),
+  ).join('');
+}
+
+// Generated lists and strings are built eagerly, before the executor's step and
+// output limits can kick in, so they get their own cap
+const MAX_GENERATED = 100_000;
+
+function checkSize(size: number) {
+  if (size > MAX_GENERATED) throw new Error(`result of ${size} items exceeds ${MAX_GENERATED}`);
+}
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const DIGITS = '0123456789';
+
+function encodeBase64(value: string) {
+  let binary = '';
+  new TextEncoder().encode(value).forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function decodeBase64(value: string) {
+  try {
+    const binary = atob(value);
+    return new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0)));
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function encodeBase32(value: string) {
+  let bits = '';
+  new TextEncoder().encode(value).forEach((byte) => (bits += byte.toString(2).padStart(8, '0')));
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output.padEnd(Math.ceil(output.length / 8) * 8, '=');
+}
+
+function decodeBase32(value: string) {
+  let bits = '';
+  for (const ch of value.replace(/=+$/, '')) {
+    const index = BASE32.indexOf(ch.toUpperCase());
+    if (index < 0) return 'illegal base32 data';
+    bits += index.toString(2).padStart(5, '0');
+  }
+  const bytes = bits.match(/.{8}/g)?.map((byte) => parseInt(byte, 2)) ?? [];
+  return new TextDecoder().decode(Uint8Array.from(bytes));
+}
+
+function adler32(value: string) {
+  let a = 1;
+  let b = 0;
+  new TextEncoder().encode(value).forEach((byte) => {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  });
+  return String(((b << 16) | a) >>> 0);
+}
+
+// ---------------------------------------------------------------------------
+// Dates use Go reference layouts (Mon Jan 2 15:04:05 MST 2006)
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value * 1000);
+  if (typeof value === 'string' && value) {
+    const numeric = Number(value);
+    const date = Number.isFinite(numeric) ? new Date(numeric * 1000) : new Date(value);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  return new Date();
+}
+
+function zoneParts(date: Date, zone = 'UTC') {
+  const timeZone = zone === 'Local' ? undefined : zone;
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'long',
+      timeZoneName: 'short',
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  const local = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+  );
+  const offset = Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    millisecond: date.getUTCMilliseconds(),
+    weekday: WEEKDAYS.indexOf(String(parts.weekday)),
+    zone:
+      offset === 0 && /^(UTC|GMT)$/.test(String(parts.timeZoneName))
+        ? 'UTC'
+        : String(parts.timeZoneName),
+    offset,
+  };
+}
+
+const LAYOUT_TOKENS =
+  /January|Jan|Monday|Mon|2006|06|01|_2|02|15|03|04|05|\.0+|\.9+|PM|pm|MST|Z07:00|Z0700|-07:00|-0700|-07|1|2|3|4|5/g;
+
+/** Format a date with a Go reference layout such as "2006-01-02 15:04". */
+export function formatGoDate(layout: string, date: Date, zone = 'UTC') {
+  const p = zoneParts(date, zone);
+  const hour12 = p.hour % 12 || 12;
+  const offset = (separator: string, z: boolean) => {
+    if (z && p.offset === 0) return 'Z';
+    const sign = p.offset < 0 ? '-' : '+';
+    return `${sign}${pad(Math.floor(Math.abs(p.offset) / 60))}${separator}${pad(Math.abs(p.offset) % 60)}`;
+  };
+  return layout.replace(LAYOUT_TOKENS, (token) => {
+    switch (token) {
+      case 'January':
+        return MONTHS[p.month - 1]!;
+      case 'Jan':
+        return MONTHS[p.month - 1]!.slice(0, 3);
+      case 'Monday':
+        return WEEKDAYS[p.weekday]!;
+      case 'Mon':
+        return WEEKDAYS[p.weekday]!.slice(0, 3);
+      case '2006':
+        return String(p.year);
+      case '06':
+        return pad(p.year % 100);
+      case '01':
+        return pad(p.month);
+      case '1':
+        return String(p.month);
+      case '02':
+        return pad(p.day);
+      case '_2':
+        return String(p.day).padStart(2, ' ');
+      case '2':
+        return String(p.day);
+      case '15':
+        return pad(p.hour);
+      case '03':
+        return pad(hour12);
+      case '3':
+        return String(hour12);
+      case '04':
+        return pad(p.minute);
+      case '4':
+        return String(p.minute);
+      case '05':
+        return pad(p.second);
+      case '5':
+        return String(p.second);
+      case 'PM':
+        return p.hour < 12 ? 'AM' : 'PM';
+      case 'pm':
+        return p.hour < 12 ? 'am' : 'pm';
+      case 'MST':
+        return p.zone;
+      case 'Z07:00':
+        return offset(':', true);
+      case 'Z0700':
+        return offset('', true);
+      case '-07:00':
+        return offset(':', false);
+      case '-0700':
+        return offset('', false);
+      case '-07':
+        return offset('', false).slice(0, 3);
+      default: {
+        // Fractional seconds: .000 keeps trailing zeros, .999 drops them
+        const digits = pad(p.millisecond, 3)
+          .padEnd(token.length - 1, '0')
+          .slice(0, token.length - 1);
+        return token[1] === '9'
+          ? digits.replace(/0+$/, '')
+            ? `.${digits.replace(/0+$/, '')}`
+            : ''
+          : `.${digits}`;
+      }
+    }
+  });
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+const DURATION_UNITS: [string, number][] = [
+  ['h', 3600],
+  ['m', 60],
+  ['s', 1],
+];
+
+/** Go's time.Duration String() for a number of seconds. */
+export function formatDuration(seconds: number) {
+  if (seconds === 0) return '0s';
+  const sign = seconds < 0 ? '-' : '';
+  let rest = Math.abs(seconds);
+  if (rest < 1) return `${sign}${Number((rest * 1000).toFixed(3))}ms`;
+  let output = '';
+  for (const [unit, size] of DURATION_UNITS) {
+    const amount = unit === 's' ? Number(rest.toFixed(9)) : Math.floor(rest / size);
+    if (amount || output || unit === 's') output += `${amount}${unit}`;
+    rest -= unit === 's' ? rest : amount * size;
+  }
+  return sign + output;
+}
+
+function parseDuration(value: string) {
+  const pattern = /([-+]?\d*\.?\d+)(ns|us|µs|ms|s|m|h)/g;
+  const scale: Record<string, number> = {
+    ns: 1e-9,
+    us: 1e-6,
+    µs: 1e-6,
+    ms: 1e-3,
+    s: 1,
+    m: 60,
+    h: 3600,
+  };
+  let seconds = 0;
+  let matched = '';
+  for (const [text, amount, unit] of value.matchAll(pattern)) {
+    seconds += Number(amount) * scale[unit!]!;
+    matched += text;
+  }
+  if (
+    !matched ||
+    matched.replace(/^[-+]/, '') !== value.replace(/^[-+]/, '').replace(/[-+]/g, '')
+  ) {
+    throw new Error(`time: invalid duration "${value}"`);
+  }
+  return value.startsWith('-') && seconds > 0 ? -seconds : seconds;
+}
+
+function roughDuration(seconds: number) {
+  const abs = Math.abs(seconds);
+  const units: [string, number][] = [
+    ['y', 365 * 86400],
+    ['mo', 30 * 86400],
+    ['d', 86400],
+    ['h', 3600],
+    ['m', 60],
+    ['s', 1],
+  ];
+  for (const [unit, size] of units) {
+    if (abs >= size) return `${Math.floor(abs / size)}${unit}`;
+  }
+  return '0s';
+}
+
+// ---------------------------------------------------------------------------
+
+function goRegExp(pattern: unknown, flags = '') {
+  // RE2 named groups (?P<name>...) are spelled (?<name>...) in JavaScript
+  return new RegExp(String(pattern).replace(/\(\?P</g, '(?<'), flags);
+}
+
+function goReplacement(replacement: unknown) {
+  return String(replacement).replace(/\$\{(\w+)\}/g, (_, name: string) =>
+    /^\d+$/.test(name) ? `$${name}` : `$<${name}>`,
+  );
+}
+
+function unavailable(name: string): GoTemplateFunction {
+  return () => {
+    throw new Error(`${name} is not available in the browser preview`);
+  };
+}
+
+function pathClean(path: string) {
+  if (!path) return '.';
+  const absolute = path.startsWith('/');
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..' && parts.length && parts[parts.length - 1] !== '..') parts.pop();
+    else if (part !== '..' || !absolute) parts.push(part);
+  }
+  const cleaned = parts.join('/');
+  return absolute ? `/${cleaned}` : cleaned || '.';
+}
+
+function pathBase(path: string) {
+  if (!path) return '.';
+  const trimmed = path.replace(/\/+$/, '');
+  return trimmed ? trimmed.slice(trimmed.lastIndexOf('/') + 1) : '/';
+}
+
+function pathDir(path: string) {
+  const index = path.lastIndexOf('/');
+  return pathClean(index < 0 ? '' : path.slice(0, index + 1));
+}
+
+function pathExt(path: string) {
+  const base = path.slice(path.lastIndexOf('/') + 1);
+  const index = base.lastIndexOf('.');
+  return index < 0 ? '' : base.slice(index);
+}
+
+function wrapText(width: number, text: string, separator = '\n') {
+  return text
+    .split('\n')
+    .map((line) => {
+      const lines: string[] = [];
+      let current = '';
+      for (const word of line.split(' ')) {
+        if (current && current.length + word.length + 1 > width) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = current ? `${current} ${word}` : word;
+        }
+      }
+      lines.push(current);
+      return lines.join(separator);
+    })
+    .join('\n');
+}
+
+function seq(...args: unknown[]) {
+  const numbers = args.map(toInt);
+  const [start, step, end] =
+    numbers.length === 1
+      ? [1, 1, numbers[0]!]
+      : numbers.length === 2
+        ? [numbers[0]!, numbers[0]! <= numbers[1]! ? 1 : -1, numbers[1]!]
+        : [numbers[0]!, numbers[1]!, numbers[2]!];
+  if (!step || (step > 0 && start > end) || (step < 0 && start < end)) return '';
+  checkSize(Math.floor((end - start) / step) + 1);
+  const values: number[] = [];
+  for (let i = start; step > 0 ? i <= end : i >= end; i += step) values.push(i);
+  return values.join(' ');
+}
+
+function untilStep(start: unknown, stop: unknown, step: unknown) {
+  const [from, to, by] = [toInt(start), toInt(stop), toInt(step)];
+  const values: number[] = [];
+  if (by === 0 || (by > 0 && from >= to) || (by < 0 && from <= to)) return values;
+  checkSize(Math.ceil((to - from) / by));
+  for (let i = from; by > 0 ? i < to : i > to; i += by) values.push(i);
+  return values;
+}
+
+function dictOf(value: unknown): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  throw new Error(`expected a dict, got ${typeOf(value)}`);
+}
+
+export const SPRIG_FUNCTIONS: Record<string, GoTemplateFunction> = {
+  // Strings
+  trim: (s) => toStr(s).trim(),
+  trimAll: (cutset, s) => {
+    const chars = [...toStr(cutset)];
+    let value = toStr(s);
+    while (value && chars.includes(value[0]!)) value = value.slice(1);
+    while (value && chars.includes(value[value.length - 1]!)) value = value.slice(0, -1);
+    return value;
+  },
+  trimSuffix: (suffix, s) => {
+    const value = toStr(s);
+    return value.endsWith(toStr(suffix))
+      ? value.slice(0, value.length - toStr(suffix).length)
+      : value;
+  },
+  trimPrefix: (prefix, s) => {
+    const value = toStr(s);
+    return value.startsWith(toStr(prefix)) ? value.slice(toStr(prefix).length) : value;
+  },
+  upper: (s) => toStr(s).toUpperCase(),
+  lower: (s) => toStr(s).toLowerCase(),
+  title: (s) =>
+    toStr(s).replace(
+      /(^|[^\p{L}\p{N}'])(\p{L})/gu,
+      (_, a: string, b: string) => a + b.toUpperCase(),
+    ),
+  untitle: (s) => toStr(s).replace(/(^|\s)(\S)/g, (_, a: string, b: string) => a + b.toLowerCase()),
+  repeat: (count, s) => {
+    const n = Math.max(0, toInt(count));
+    checkSize(n * toStr(s).length);
+    return toStr(s).repeat(n);
+  },
+  substr: (start, end, s) => {
+    const value = toStr(s);
+    const from = toInt(start);
+    const to = toInt(end);
+    if (from < 0) return value.slice(0, to);
+    if (to < 0 || to > value.length) return value.slice(from);
+    return value.slice(from, to);
+  },
+  nospace: (s) => toStr(s).replace(/\s+/g, ''),
+  trunc: (length, s) => {
+    const value = toStr(s);
+    const n = toInt(length);
+    if (n < 0) return -n < value.length ? value.slice(value.length + n) : value;
+    return value.slice(0, n);
+  },
+  abbrev: (width, s) => {
+    const value = toStr(s);
+    const n = toInt(width);
+    if (n < 4 || value.length <= n) return value;
+    return `${value.slice(0, n - 3)}...`;
+  },
+  abbrevboth: (left, width, s) => {
+    const value = toStr(s);
+    const offset = toInt(left);
+    const n = toInt(width);
+    if (n < 4 || value.length <= n) return value;
+    const inner = offset > 4 ? `...${value.slice(offset)}` : value;
+    return inner.length <= n ? inner : `${inner.slice(0, n - 3)}...`;
+  },
+  initials: (s) =>
+    toStr(s)
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => [...word][0])
+      .join(''),
+  randAlphaNum: (n) => random(toInt(n), LETTERS + DIGITS),
+  randAlpha: (n) => random(toInt(n), LETTERS),
+  randNumeric: (n) => random(toInt(n), DIGITS),
+  randAscii: (n) =>
+    random(toInt(n), Array.from({ length: 94 }, (_, i) => String.fromCharCode(33 + i)).join('')),
+  wrap: (width, s) => wrapText(toInt(width), toStr(s)),
+  wrapWith: (width, separator, s) => wrapText(toInt(width), toStr(s), toStr(separator)),
+  contains: (substr, s) => toStr(s).includes(toStr(substr)),
+  hasPrefix: (prefix, s) => toStr(s).startsWith(toStr(prefix)),
+  hasSuffix: (suffix, s) => toStr(s).endsWith(toStr(suffix)),
+  quote: (...args) =>
+    args
+      .filter((arg) => arg !== null && arg !== undefined)
+      .map((arg) => JSON.stringify(toStr(arg)))
+      .join(' '),
+  squote: (...args) =>
+    args
+      .filter((arg) => arg !== null && arg !== undefined)
+      .map((arg) => `'${toStr(arg)}'`)
+      .join(' '),
+  cat: (...args) =>
+    args
+      .filter((arg) => arg !== null && arg !== undefined)
+      .map(toStr)
+      .join(' '),
+  indent: (spaces, s) => {
+    const prefix = ' '.repeat(Math.max(0, toInt(spaces)));
+    return prefix + toStr(s).replace(/\n/g, `\n${prefix}`);
+  },
+  nindent: (spaces, s) => {
+    const prefix = ' '.repeat(Math.max(0, toInt(spaces)));
+    return `\n${prefix}${toStr(s).replace(/\n/g, `\n${prefix}`)}`;
+  },
+  replace: (old, replacement, s) => toStr(s).split(toStr(old)).join(toStr(replacement)),
+  plural: (one, many, count) => (toInt(count) === 1 ? one : many),
+  snakecase: (s) =>
+    words(toStr(s))
+      .map((word) => word.toLowerCase())
+      .join('_'),
+  camelcase: (s) =>
+    toStr(s)
+      .split('_')
+      .filter(Boolean)
+      .map((word) => word[0]!.toUpperCase() + word.slice(1))
+      .join(''),
+  kebabcase: (s) =>
+    words(toStr(s))
+      .map((word) => word.toLowerCase())
+      .join('-'),
+  swapcase: (s) =>
+    [...toStr(s)]
+      .map((ch) => (ch === ch.toUpperCase() ? ch.toLowerCase() : ch.toUpperCase()))
+      .join(''),
+  shuffle: (s) =>
+    [...toStr(s)]
+      .map((ch) => [Math.random(), ch] as const)
+      .sort(([a], [b]) => a - b)
+      .map(([, ch]) => ch)
+      .join(''),
+  splitList: (separator, s) => toStr(s).split(toStr(separator)),
+  split: (separator, s) =>
+    goMap(
+      Object.fromEntries(
+        toStr(s)
+          .split(toStr(separator))
+          .map((part, i) => [`_${i}`, part]),
+      ),
+    ),
+  join: (separator, list) =>
+    (Array.isArray(list) ? list : list === undefined || list === null ? [] : [list])
+      .filter((item) => item !== null && item !== undefined)
+      .map(toStr)
+      .join(toStr(separator)),
+  sortAlpha: (list) =>
+    toList(list)
+      .map(toStr)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)),
+
+  // Integer math
+  add: (...args) => args.reduce<number>((sum, arg) => sum + toInt(arg), 0),
+  add1: (value) => toInt(value) + 1,
+  sub: (a, b) => toInt(a) - toInt(b),
+  div: (a, b) => {
+    if (toInt(b) === 0) throw new Error('integer divide by zero');
+    return Math.trunc(toInt(a) / toInt(b));
+  },
+  mod: (a, b) => {
+    if (toInt(b) === 0) throw new Error('integer divide by zero');
+    return toInt(a) % toInt(b);
+  },
+  mul: (...args) => args.reduce<number>((product, arg) => product * toInt(arg), 1),
+  max: (...args) => Math.max(...args.map(toInt)),
+  min: (...args) => Math.min(...args.map(toInt)),
+  floor: (value) => Math.floor(toFloat(value)),
+  ceil: (value) => Math.ceil(toFloat(value)),
+  round: (value, precision, roundOn = 0.5) => {
+    const scale = 10 ** toInt(precision);
+    const scaled = toFloat(value) * scale;
+    const whole = Math.trunc(scaled);
+    return (
+      (Math.abs(scaled - whole) >= toFloat(roundOn) ? whole + Math.sign(scaled) : whole) / scale
+    );
+  },
+  randInt: (min, max) => toInt(min) + Math.floor(Math.random() * (toInt(max) - toInt(min))),
+  until: (count) => untilStep(0, count, toInt(count) < 0 ? -1 : 1),
+  untilStep,
+  seq,
+
+  // Float math
+  addf: (...args) => args.reduce<number>((sum, arg) => sum + toFloat(arg), 0),
+  add1f: (value) => toFloat(value) + 1,
+  subf: (first, ...rest) =>
+    rest.reduce<number>((value, arg) => value - toFloat(arg), toFloat(first)),
+  divf: (first, ...rest) =>
+    rest.reduce<number>((value, arg) => value / toFloat(arg), toFloat(first)),
+  mulf: (...args) => args.reduce<number>((product, arg) => product * toFloat(arg), 1),
+  maxf: (...args) => Math.max(...args.map(toFloat)),
+  minf: (...args) => Math.min(...args.map(toFloat)),
+
+  // Dates
+  now: () => new Date(),
+  ago: (value) => roughDuration((Date.now() - toDate(value).getTime()) / 1000),
+  date: (layout, value) => formatGoDate(toStr(layout), toDate(value), 'Local'),
+  dateInZone: (layout, value, zone) => formatGoDate(toStr(layout), toDate(value), toStr(zone)),
+  duration: (value) => formatDuration(toInt(value)),
+  durationRound: (value) =>
+    roughDuration(typeof value === 'string' ? parseDuration(value) : toInt(value)),
+  unixEpoch: (value) => String(Math.floor(toDate(value).getTime() / 1000)),
+  dateModify: (modifier, value) =>
+    new Date(toDate(value).getTime() + parseDuration(toStr(modifier)) * 1000),
+  mustDateModify: (modifier, value) =>
+    new Date(toDate(value).getTime() + parseDuration(toStr(modifier)) * 1000),
+  htmlDate: (value) => formatGoDate('2006-01-02', toDate(value), 'Local'),
+  htmlDateInZone: (value, zone) => formatGoDate('2006-01-02', toDate(value), toStr(zone)),
+  toDate: (layout, value) => toDate(value),
+  mustToDate: (layout, value) => {
+    const date = new Date(toStr(value));
+    if (Number.isNaN(date.getTime())) throw new Error(`cannot parse "${toStr(value)}"`);
+    return date;
+  },
+
+  // Defaults and JSON
+  default: (fallback, ...value) => (value.length && !isEmpty(value[0]) ? value[0] : fallback),
+  empty: isEmpty,
+  coalesce: (...args) => args.find((arg) => !isEmpty(arg)) ?? null,
+  all: (...args) => args.every((arg) => !isEmpty(arg)),
+  any: (...args) => args.some((arg) => !isEmpty(arg)),
+  fromJson: (value) => {
+    try {
+      return markMaps(JSON.parse(toStr(value)));
+    } catch {
+      return null;
+    }
+  },
+  mustFromJson: (value) => markMaps(JSON.parse(toStr(value))),
+  toJson: (value) => JSON.stringify(value ?? null),
+  mustToJson: (value) => JSON.stringify(value ?? null),
+  toPrettyJson: (value) => JSON.stringify(value ?? null, null, 2),
+  mustToPrettyJson: (value) => JSON.stringify(value ?? null, null, 2),
+  toRawJson: (value) => JSON.stringify(value ?? null),
+  mustToRawJson: (value) => JSON.stringify(value ?? null),
+  ternary: (whenTrue, whenFalse, condition) => (isTrue(condition) ? whenTrue : whenFalse),
+
+  // Encoding
+  b64enc: (s) => encodeBase64(toStr(s)),
+  b64dec: (s) => decodeBase64(toStr(s)),
+  base32enc: (s) => encodeBase32(toStr(s)),
+  base32dec: (s) => decodeBase32(toStr(s)),
+
+  // Lists
+  list: (...args) => args,
+  first: (list) => toList(list)[0] ?? null,
+  rest: (list) => toList(list).slice(1),
+  last: (list) => toList(list)[toList(list).length - 1] ?? null,
+  initial: (list) => toList(list).slice(0, -1),
+  append: (list, value) => [...toList(list), value],
+  push: (list, value) => [...toList(list), value],
+  prepend: (list, value) => [value, ...toList(list)],
+  concat: (...lists) => lists.flatMap(toList),
+  reverse: (list) => [...toList(list)].reverse(),
+  uniq: (list) =>
+    toList(list).filter(
+      (item, index, items) => items.findIndex((other) => deepEqual(item, other)) === index,
+    ),
+  without: (list, ...omit) => toList(list).filter((item) => !omit.some((o) => deepEqual(item, o))),
+  has: (needle, list) => toList(list).some((item) => deepEqual(item, needle)),
+  compact: (list) => toList(list).filter((item) => !isEmpty(item)),
+  chunk: (size, list) => {
+    const n = Math.max(1, toInt(size));
+    const items = toList(list);
+    return Array.from({ length: Math.ceil(items.length / n) }, (_, i) =>
+      items.slice(i * n, i * n + n),
+    );
+  },
+
+  // Dictionaries
+  dict: (...args) => {
+    const dict: Record<string, unknown> = {};
+    for (let i = 0; i < args.length; i += 2) dict[toStr(args[i])] = args[i + 1] ?? '';
+    return goMap(dict);
+  },
+  get: (dict, key) => dictOf(dict)[toStr(key)] ?? '',
+  set: (dict, key, value) => {
+    dictOf(dict)[toStr(key)] = value;
+    return dict;
+  },
+  unset: (dict, key) => {
+    delete dictOf(dict)[toStr(key)];
+    return dict;
+  },
+  hasKey: (dict, key) => toStr(key) in dictOf(dict),
+  pluck: (key, ...dicts) =>
+    dicts
+      .map(dictOf)
+      .filter((d) => toStr(key) in d)
+      .map((d) => d[toStr(key)]),
+  dig: (...args) => {
+    const dict = dictOf(args.pop());
+    const fallback = args.pop();
+    let current: unknown = dict;
+    for (const key of args) {
+      if (!current || typeof current !== 'object' || !(toStr(key) in current)) return fallback;
+      current = (current as Record<string, unknown>)[toStr(key)];
+    }
+    return current;
+  },
+  deepCopy: (value) => clone(value),
+  keys: (...dicts) => dicts.flatMap((d) => Object.keys(dictOf(d))),
+  values: (dict) => Object.values(dictOf(dict)),
+  pick: (dict, ...keys) =>
+    goMap(
+      Object.fromEntries(
+        Object.entries(dictOf(dict)).filter(([key]) => keys.map(toStr).includes(key)),
+      ),
+    ),
+  omit: (dict, ...keys) =>
+    goMap(
+      Object.fromEntries(
+        Object.entries(dictOf(dict)).filter(([key]) => !keys.map(toStr).includes(key)),
+      ),
+    ),
+  merge: (dst, ...sources) => {
+    const target = dictOf(dst);
+    for (const source of sources) {
+      for (const [key, value] of Object.entries(dictOf(source))) {
+        if (!(key in target)) target[key] = value;
+      }
+    }
+    return target;
+  },
+  mergeOverwrite: (dst, ...sources) => Object.assign(dictOf(dst), ...sources.map(dictOf)),
+
+  // Type conversion
+  atoi: (s) => toInt(s),
+  int: toInt,
+  int64: toInt,
+  float64: toFloat,
+  toDecimal: (s) => {
+    const parsed = parseInt(toStr(s), 8);
+    return Number.isNaN(parsed) ? 0 : parsed;
+  },
+  toString: toStr,
+  toStrings: (list) => (Array.isArray(list) ? list.map(toStr) : [toStr(list)]),
+
+  // Regular expressions
+  regexMatch: (pattern, s) => goRegExp(pattern).test(toStr(s)),
+  mustRegexMatch: (pattern, s) => goRegExp(pattern).test(toStr(s)),
+  regexFindAll: (pattern, s, n) => {
+    const matches = toStr(s).match(goRegExp(pattern, 'g')) ?? [];
+    return toInt(n) < 0 ? matches : matches.slice(0, toInt(n));
+  },
+  mustRegexFindAll: (pattern, s, n) => {
+    const matches = toStr(s).match(goRegExp(pattern, 'g')) ?? [];
+    return toInt(n) < 0 ? matches : matches.slice(0, toInt(n));
+  },
+  regexFind: (pattern, s) => toStr(s).match(goRegExp(pattern))?.[0] ?? '',
+  mustRegexFind: (pattern, s) => toStr(s).match(goRegExp(pattern))?.[0] ?? '',
+  regexReplaceAll: (pattern, s, replacement) =>
+    toStr(s).replace(goRegExp(pattern, 'g'), goReplacement(replacement)),
+  mustRegexReplaceAll: (pattern, s, replacement) =>
+    toStr(s).replace(goRegExp(pattern, 'g'), goReplacement(replacement)),
+  regexReplaceAllLiteral: (pattern, s, replacement) =>
+    toStr(s).replace(goRegExp(pattern, 'g'), () => toStr(replacement)),
+  mustRegexReplaceAllLiteral: (pattern, s, replacement) =>
+    toStr(s).replace(goRegExp(pattern, 'g'), () => toStr(replacement)),
+  regexSplit: (pattern, s, n) => {
+    const parts = toStr(s).split(goRegExp(pattern));
+    return toInt(n) < 0 ? parts : parts.slice(0, toInt(n));
+  },
+  mustRegexSplit: (pattern, s, n) => {
+    const parts = toStr(s).split(goRegExp(pattern));
+    return toInt(n) < 0 ? parts : parts.slice(0, toInt(n));
+  },
+  regexQuoteMeta: (s) => toStr(s).replace(/[\\.+*?()|[\]{}^$]/g, '\\$&'),
+
+  // Hashing and crypto
+  adler32sum: (s) => adler32(toStr(s)),
+  sha1sum: unavailable('sha1sum'),
+  sha256sum: unavailable('sha256sum'),
+  htpasswd: unavailable('htpasswd'),
+  derivePassword: unavailable('derivePassword'),
+  buildCustomCert: unavailable('buildCustomCert'),
+  genCA: unavailable('genCA'),
+  genCAWithKey: unavailable('genCAWithKey'),
+  genSelfSignedCert: unavailable('genSelfSignedCert'),
+  genSelfSignedCertWithKey: unavailable('genSelfSignedCertWithKey'),
+  genSignedCert: unavailable('genSignedCert'),
+  genSignedCertWithKey: unavailable('genSignedCertWithKey'),
+  encryptAES: unavailable('encryptAES'),
+  decryptAES: unavailable('decryptAES'),
+  genPrivateKey: unavailable('genPrivateKey'),
+  genPublicKey: unavailable('genPublicKey'),
+
+  // Paths
+  base: (s) => pathBase(toStr(s)),
+  dir: (s) => pathDir(toStr(s)),
+  ext: (s) => pathExt(toStr(s)),
+  clean: (s) => pathClean(toStr(s)),
+  isAbs: (s) => toStr(s).startsWith('/'),
+  osBase: (s) => pathBase(toStr(s)),
+  osDir: (s) => pathDir(toStr(s)),
+  osExt: (s) => pathExt(toStr(s)),
+  osClean: (s) => pathClean(toStr(s)),
+  osIsAbs: (s) => toStr(s).startsWith('/'),
+
+  // Flow control, identifiers and environment
+  fail: (message) => {
+    throw new Error(toStr(message));
+  },
+  uuidv4: () => crypto.randomUUID(),
+  env: unavailable('env'),
+  expandenv: unavailable('expandenv'),
+  semver: unavailable('semver'),
+  semverCompare: unavailable('semverCompare'),
+  getHostByName: unavailable('getHostByName'),
+
+  // Reflection
+  typeOf: (value) => typeOf(value),
+  typeIs: (type, value) => typeOf(value) === toStr(type),
+  typeIsLike: (type, value) => typeOf(value) === toStr(type).replace(/^\*/, ''),
+  kindOf: (value) => kindOf(value),
+  kindIs: (kind, value) => kindOf(value) === toStr(kind),
+  deepEqual,
+
+  // URLs
+  urlParse: (value) => {
+    const url = new URL(toStr(value));
+    return goMap({
+      scheme: url.protocol.replace(/:$/, ''),
+      host: url.host,
+      hostname: url.hostname,
+      path: url.pathname,
+      query: url.search.replace(/^\?/, ''),
+      opaque: '',
+      fragment: url.hash.replace(/^#/, ''),
+      userinfo: [url.username, url.password].filter(Boolean).join(':'),
+    });
+  },
+  urlJoin: (parts) => {
+    const d = dictOf(parts);
+    const userinfo = d.userinfo ? `${toStr(d.userinfo)}@` : '';
+    const query = d.query ? `?${toStr(d.query)}` : '';
+    const fragment = d.fragment ? `#${toStr(d.fragment)}` : '';
+    const authority = d.host ? `//${userinfo}${toStr(d.host)}` : '';
+    return `${d.scheme ? `${toStr(d.scheme)}:` : ''}${authority}${toStr(d.path)}${query}${fragment}`;
+  },
+  urlquery: (...args) => queryEscape(args.map(toStr).join('')),
+};
+
+function kindOf(value: unknown) {
+  if (value === null || value === undefined) return 'invalid';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float64';
+  if (Array.isArray(value)) return 'slice';
+  if (typeof value === 'function') return 'func';
+  return isGoMap(value) ? 'map' : 'struct';
+}
+
+function markMaps(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(markMaps);
+  if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      (value as Record<string, unknown>)[key] = markMaps(item);
+    }
+    return goMap(value);
+  }
+  return value;
+}
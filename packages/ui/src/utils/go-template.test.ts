@@ -0,0 +1,95 @@
+import {
+  formatValue,
+  GoTemplateError,
+  parseGoTemplate,
+  queryEscape,
+  renderGoTemplate,
+  sprintf,
+} from '@workspace/ui/utils/go-template';
+import { SPRIG_FUNCTIONS } from '@workspace/ui/utils/go-template-sprig';
+import { describe, expect, it } from 'vitest';
+
+const data = {
+  SiteName: 'PPanel',
+  Proxies: [
+    { Name: 'hk', Port: 443, Tags: ['fast'] },
+    { Name: 'jp', Port: 8443, Tags: [] },
+  ],
+};
+
+describe('renderGoTemplate', () => {
+  it('renders fields, range, if/else and variables', () => {
+    const source = [
+      '{{ .SiteName }}:',
+      '{{- range $i, $p := .Proxies }}',
+      '{{ $i }}={{ $p.Name }}:{{ .Port }}{{ if .Tags }} {{ index .Tags 0 }}{{ else }} -{{ end }}',
+      '{{- end }}',
+    ].join('\n');
+    expect(renderGoTemplate(source, data)).toBe('PPanel:\n0=hk:443 fast\n1=jp:8443 -');
+  });
+
+  it('supports pipelines, comparisons and printf', () => {
+    expect(
+      renderGoTemplate('{{ len .Proxies | printf "%03d" }} {{ if gt 2 1 }}yes{{ end }}', data),
+    ).toBe('002 yes');
+    expect(renderGoTemplate('{{ with .Missing }}x{{ else }}none{{ end }}', { Missing: '' })).toBe(
+      'none',
+    );
+  });
+
+  it('supports define, template, break and continue', () => {
+    const source =
+      '{{ define "p" }}[{{ .Name }}]{{ end }}' +
+      '{{ range .Proxies }}{{ if eq .Name "jp" }}{{ break }}{{ end }}{{ template "p" . }}{{ end }}';
+    expect(renderGoTemplate(source, data)).toBe('[hk]');
+    expect(
+      renderGoTemplate(
+        '{{ range .Proxies }}{{ if .Tags }}{{ continue }}{{ end }}{{ .Name }}{{ end }}',
+        data,
+      ),
+    ).toBe('jp');
+  });
+
+  it('uses extra functions such as Sprig', () => {
+    expect(
+      renderGoTemplate('{{ .SiteName | upper | trimPrefix "PP" }}', data, {
+        functions: SPRIG_FUNCTIONS,
+      }),
+    ).toBe('ANEL');
+  });
+
+  it('treats unknown struct fields as errors but not map keys', () => {
+    expect(() => renderGoTemplate('{{ .Nope }}', data)).toThrow(
+      "can't evaluate field Nope in type",
+    );
+    expect(renderGoTemplate('{{ (dict "a" 1).b }}', {}, { functions: SPRIG_FUNCTIONS })).toBe(
+      '<no value>',
+    );
+  });
+
+  it('reports the position of parse errors', () => {
+    try {
+      parseGoTemplate('line one\n{{ if .A }}');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(GoTemplateError);
+      expect((error as GoTemplateError).line).toBe(2);
+    }
+    expect(() => renderGoTemplate('{{ nope }}', {})).toThrow(GoTemplateError);
+  });
+
+  it('stops runaway templates', () => {
+    expect(() =>
+      renderGoTemplate('{{ range .Proxies }}{{ . }}{{ end }}', data, { maxOutput: 10 }),
+    ).toThrow('output size limit exceeded');
+  });
+});
+
+describe('formatting helpers', () => {
+  it('formats values like Go', () => {
+    expect(formatValue([1, 'a'])).toBe('[1 a]');
+    expect(formatValue(null)).toBe('<nil>');
+    expect(sprintf('%s-%5.2f-%v-%q', 'a', 3.14159, true, 'b')).toBe('a- 3.14-true-"b"');
+    expect(queryEscape("a b&c'")).toBe('a+b%26c%27');
+  });
+});
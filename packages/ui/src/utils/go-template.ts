@@ -0,0 +1,1153 @@
+/**
+ * A browser implementation of Go's text/template, close enough to preview
+ * subscription templates without a round trip to the server. Values follow
+ * the shapes produced by encoding/json: objects behave like structs (unknown
+ * fields are errors) unless they were created as maps by template functions.
+ */
+
+export type GoTemplateFunction = (...args: unknown[]) => unknown;
+
+export class GoTemplateError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${line}:${column}: ${message}`);
+    this.name = 'GoTemplateError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Lexer
+
+type TokenType =
+  | 'field'
+  | 'variable'
+  | 'identifier'
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'char'
+  | 'bool'
+  | 'nil'
+  | 'dot'
+  | 'declare'
+  | 'assign'
+  | 'pipe'
+  | 'comma'
+  | 'leftParen'
+  | 'rightParen';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: number;
+  // Field chains only bind when written without whitespace: `$x.A` vs `$x .A`
+  spaced: boolean;
+}
+
+type Item =
+  | { kind: 'text'; value: string; pos: number }
+  | { kind: 'action'; tokens: Token[]; pos: number; end: number };
+
+const KEYWORDS = new Set([
+  'if',
+  'else',
+  'end',
+  'range',
+  'with',
+  'define',
+  'template',
+  'block',
+  'break',
+  'continue',
+]);
+
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER =
+  /[-+]?(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*)?\.?\d[\d_]*(?:[eE][-+]?\d+)?)/y;
+
+function positionOf(source: string, pos: number) {
+  const before = source.slice(0, pos);
+  const line = before.split('\n').length;
+  return { line, column: pos - before.lastIndexOf('\n') };
+}
+
+function tokenizeAction(source: string, start: number, end: number): Token[] {
+  const tokens: Token[] = [];
+  let i = start;
+  let spaced = true;
+  const fail = (message: string, pos = i): never => {
+    const { line, column } = positionOf(source, pos);
+    throw new GoTemplateError(message, line, column);
+  };
+
+  while (i < end) {
+    const ch = source[i]!;
+    if (/\s/.test(ch)) {
+      i++;
+      spaced = true;
+      continue;
+    }
+    const push = (type: TokenType, value: string, length = value.length) => {
+      tokens.push({ type, value, pos: i, spaced });
+      i += length;
+      spaced = false;
+    };
+
+    if (ch === '"') {
+      let j = i + 1;
+      while (j < end && source[j] !== '"') {
+        if (source[j] === '\\') j++;
+        if (source[j] === '\n') fail('unterminated quoted string');
+        j++;
+      }
+      if (j >= end) fail('unterminated quoted string');
+      push('string', source.slice(i, j + 1));
+    } else if (ch === '`') {
+      const j = source.indexOf('`', i + 1);
+      if (j < 0 || j >= end) fail('unterminated raw quoted string');
+      push('string', source.slice(i, j + 1));
+    } else if (ch === "'") {
+      const match = /'(?:\\.|[^'\\])+'/y;
+      match.lastIndex = i;
+      const found = match.exec(source);
+      if (!found || i + found[0].length > end) fail('unterminated character constant');
+      push('char', found![0]);
+    } else if (ch === '$') {
+      IDENTIFIER.lastIndex = i + 1;
+      const found = IDENTIFIER.exec(source);
+      push('variable', found ? `$${found[0]}` : '$');
+    } else if (ch === '.') {
+      IDENTIFIER.lastIndex = i + 1;
+      const found = IDENTIFIER.exec(source);
+      if (found && found.index === i + 1) {
+        push('field', found[0], found[0].length + 1);
+      } else if (/\d/.test(source[i + 1] ?? '')) {
+        NUMBER.lastIndex = i;
+        push('number', NUMBER.exec(source)![0]);
+      } else {
+        push('dot', '.');
+      }
+    } else if (ch === ':' && source[i + 1] === '=') {
+      push('declare', ':=');
+    } else if (ch === '=') {
+      push('assign', '=');
+    } else if (ch === '|') {
+      push('pipe', '|');
+    } else if (ch === ',') {
+      push('comma', ',');
+    } else if (ch === '(') {
+      push('leftParen', '(');
+    } else if (ch === ')') {
+      push('rightParen', ')');
+    } else if (/[\d+-]/.test(ch)) {
+      NUMBER.lastIndex = i;
+      const found = NUMBER.exec(source);
+      if (!found || !found[0] || found.index !== i) fail(`unexpected "${ch}" in command`);
+      push('number', found![0]);
+    } else if (/[A-Za-z_]/.test(ch)) {
+      IDENTIFIER.lastIndex = i;
+      const word = IDENTIFIER.exec(source)![0];
+      if (word === 'true' || word === 'false') push('bool', word);
+      else if (word === 'nil') push('nil', word);
+      else if (KEYWORDS.has(word)) push('keyword', word);
+      else push('identifier', word);
+    } else {
+      fail(`unexpected "${ch}" in command`);
+    }
+  }
+  return tokens;
+}
+
+function lex(source: string): Item[] {
+  const items: Item[] = [];
+  let pos = 0;
+  let trimNext = false;
+
+  while (pos <= source.length) {
+    const open = source.indexOf('{{', pos);
+    let text = source.slice(pos, open < 0 ? source.length : open);
+    if (trimNext) text = text.replace(/^\s+/, '');
+    trimNext = false;
+
+    if (open < 0) {
+      if (text) items.push({ kind: 'text', value: text, pos });
+      break;
+    }
+
+    let start = open + 2;
+    if (/^-[ \t\r\n]/.test(source.slice(start, start + 2))) {
+      text = text.replace(/\s+$/, '');
+      start += 2;
+    }
+    if (text) items.push({ kind: 'text', value: text, pos });
+
+    let close: number;
+    let inner = start;
+    while (inner < source.length && /\s/.test(source[inner]!)) inner++;
+    if (source.startsWith('/*', inner)) {
+      const commentEnd = source.indexOf('*/', inner + 2);
+      if (commentEnd < 0) {
+        const { line, column } = positionOf(source, open);
+        throw new GoTemplateError('unclosed comment', line, column);
+      }
+      close = source.indexOf('}}', commentEnd + 2);
+      if (
+        close < 0 ||
+        source
+          .slice(commentEnd + 2, close)
+          .replace(/\s*-?$/, '')
+          .trim()
+      ) {
+        const { line, column } = positionOf(source, open);
+        throw new GoTemplateError('comment ends before closing delimiter', line, column);
+      }
+      trimNext = /[ \t\r\n]-$/.test(source.slice(close - 2, close));
+      pos = close + 2;
+      continue;
+    }
+
+    close = findActionEnd(source, start);
+    if (close < 0) {
+      const { line, column } = positionOf(source, open);
+      throw new GoTemplateError('unclosed action', line, column);
+    }
+    let end = close;
+    if (/[ \t\r\n]-$/.test(source.slice(close - 2, close))) {
+      end = close - 2;
+      trimNext = true;
+    }
+    items.push({ kind: 'action', tokens: tokenizeAction(source, start, end), pos: open, end });
+    pos = close + 2;
+  }
+  return items;
+}
+
+// `}}` inside string literals does not close the action
+function findActionEnd(source: string, from: number) {
+  let quote = '';
+  for (let i = from; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\' && quote !== '`') i++;
+      else if (ch === quote) quote = '';
+      else if (ch === '\n' && quote !== '`') return -1;
+    } else if (ch === '"' || ch === '`' || ch === "'") {
+      quote = ch;
+    } else if (ch === '}' && source[i + 1] === '}') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+
+export type Operand =
+  | { kind: 'dot'; pos: number; path: string[] }
+  | { kind: 'field'; pos: number; path: string[] }
+  | { kind: 'variable'; pos: number; name: string; path: string[] }
+  | { kind: 'function'; pos: number; name: string }
+  | { kind: 'literal'; pos: number; value: unknown }
+  | { kind: 'nil'; pos: number }
+  | { kind: 'pipeline'; pos: number; pipeline: Pipeline; path: string[] };
+
+export interface Command {
+  pos: number;
+  args: Operand[];
+}
+
+export interface Pipeline {
+  pos: number;
+  declare: string[];
+  assign: boolean;
+  commands: Command[];
+}
+
+export type TemplateNode =
+  | { kind: 'text'; pos: number; value: string }
+  | { kind: 'action'; pos: number; pipeline: Pipeline }
+  | {
+      kind: 'if' | 'with' | 'range';
+      pos: number;
+      pipeline: Pipeline;
+      list: TemplateNode[];
+      elseList?: TemplateNode[];
+    }
+  | { kind: 'template'; pos: number; name: string; pipeline?: Pipeline }
+  | { kind: 'break' | 'continue'; pos: number };
+
+export interface ParsedTemplate {
+  root: TemplateNode[];
+  defines: Map<string, TemplateNode[]>;
+}
+
+function unquote(token: Token, source: string): string {
+  if (token.value.startsWith('`')) return token.value.slice(1, -1);
+  try {
+    return JSON.parse(
+      token.value.replace(/\\x([0-9a-fA-F]{2})/g, '\\u00$1').replace(/\\'/g, "'"),
+    ) as string;
+  } catch {
+    const { line, column } = positionOf(source, token.pos);
+    throw new GoTemplateError(`invalid syntax: ${token.value}`, line, column);
+  }
+}
+
+function parseNumber(token: Token, source: string): number {
+  const text = token.value.replace(/_/g, '');
+  const sign = text.startsWith('-') ? -1 : 1;
+  const body = text.replace(/^[-+]/, '');
+  const value = /^0[bBoOxX]/.test(body) ? Number(body) : Number(body.replace(/^0+(?=\d)/, ''));
+  if (Number.isNaN(value)) {
+    const { line, column } = positionOf(source, token.pos);
+    throw new GoTemplateError(`bad number syntax: "${token.value}"`, line, column);
+  }
+  return sign * value;
+}
+
+class Parser {
+  private items: Item[];
+  private index = 0;
+  private source: string;
+  private rangeDepth = 0;
+  defines = new Map<string, TemplateNode[]>();
+
+  constructor(source: string) {
+    this.source = source;
+    this.items = lex(source);
+  }
+
+  private fail(message: string, pos: number): never {
+    const { line, column } = positionOf(this.source, pos);
+    throw new GoTemplateError(message, line, column);
+  }
+
+  parse(): ParsedTemplate {
+    const { list, end } = this.parseList();
+    if (end) this.fail(`unexpected {{${end.word}}}`, end.pos);
+    return { root: list, defines: this.defines };
+  }
+
+  /** Parse nodes until `{{end}}`/`{{else}}` (returned) or the end of input. */
+  private parseList(): {
+    list: TemplateNode[];
+    end?: { word: 'end' | 'else'; pos: number; tokens: Token[] };
+  } {
+    const list: TemplateNode[] = [];
+    while (this.index < this.items.length) {
+      const item = this.items[this.index++]!;
+      if (item.kind === 'text') {
+        list.push({ kind: 'text', pos: item.pos, value: item.value });
+        continue;
+      }
+      const [first, ...rest] = item.tokens;
+      if (!first) this.fail('missing value for command', item.pos);
+      if (first!.type !== 'keyword') {
+        list.push({ kind: 'action', pos: item.pos, pipeline: this.parsePipeline(item.tokens) });
+        continue;
+      }
+      switch (first!.value) {
+        case 'end':
+        case 'else':
+          return { list, end: { word: first!.value, pos: item.pos, tokens: rest } };
+        case 'if':
+        case 'with':
+        case 'range':
+          list.push(this.parseControl(first!.value, rest, item.pos));
+          break;
+        case 'break':
+        case 'continue':
+          if (!this.rangeDepth) this.fail(`{{${first!.value}}} outside {{range}}`, item.pos);
+          list.push({ kind: first!.value, pos: item.pos });
+          break;
+        case 'define':
+        case 'block': {
+          const name = this.parseTemplateName(rest, item.pos);
+          const body = this.parseList();
+          if (body.end?.word !== 'end') this.fail(`unexpected EOF in ${first!.value}`, item.pos);
+          this.defines.set(name, body.list);
+          if (first!.value === 'block') {
+            list.push({
+              kind: 'template',
+              pos: item.pos,
+              name,
+              pipeline: this.parsePipeline(rest.slice(1), item.pos),
+            });
+          }
+          break;
+        }
+        case 'template': {
+          const name = this.parseTemplateName(rest, item.pos);
+          list.push({
+            kind: 'template',
+            pos: item.pos,
+            name,
+            pipeline: rest.length > 1 ? this.parsePipeline(rest.slice(1)) : undefined,
+          });
+          break;
+        }
+      }
+    }
+    return { list };
+  }
+
+  private parseTemplateName(tokens: Token[], pos: number) {
+    const [name] = tokens;
+    if (!name || name.type !== 'string') this.fail('missing or invalid template name', pos);
+    return unquote(name!, this.source);
+  }
+
+  private parseControl(kind: 'if' | 'with' | 'range', tokens: Token[], pos: number): TemplateNode {
+    const pipeline = this.parsePipeline(tokens, pos, kind === 'range' ? 2 : 1);
+    if (kind === 'range') this.rangeDepth++;
+    const body = this.parseList();
+    if (kind === 'range') this.rangeDepth--;
+    if (!body.end) this.fail(`unexpected EOF in ${kind}`, pos);
+    let elseList: TemplateNode[] | undefined;
+    if (body.end!.word === 'else') {
+      const chained = body.end!.tokens[0];
+      if (chained?.type === 'keyword' && (chained.value === 'if' || chained.value === 'with')) {
+        // {{else if ...}} is a nested if whose {{end}} closes both
+        if (kind === 'range' || chained.value !== kind) {
+          this.fail(`unexpected {{else ${chained.value}}}`, body.end!.pos);
+        }
+        elseList = [this.parseControl(kind, body.end!.tokens.slice(1), body.end!.pos)];
+      } else {
+        if (body.end!.tokens.length) this.fail('unexpected tokens after else', body.end!.pos);
+        const alternative = this.parseList();
+        if (alternative.end?.word !== 'end') this.fail(`expected end; found else`, pos);
+        elseList = alternative.list;
+      }
+    } else if (body.end!.tokens.length) {
+      this.fail('unexpected tokens after end', body.end!.pos);
+    }
+    return { kind, pos, pipeline, list: body.list, elseList };
+  }
+
+  private parsePipeline(tokens: Token[], start?: number, maxDeclare = 1): Pipeline {
+    const pos = start ?? tokens[0]?.pos ?? 0;
+    let rest = tokens;
+    const declare: string[] = [];
+    let assign = false;
+
+    const declEnd = rest.findIndex((token) => token.type === 'declare' || token.type === 'assign');
+    if (
+      declEnd > 0 &&
+      rest.slice(0, declEnd).every((t) => t.type === 'variable' || t.type === 'comma')
+    ) {
+      const names = rest.slice(0, declEnd).filter((t) => t.type === 'variable');
+      if (names.length > maxDeclare || declEnd !== names.length * 2 - 1) {
+        this.fail('too many declarations in command', rest[0]!.pos);
+      }
+      declare.push(...names.map((t) => t.value));
+      assign = rest[declEnd]!.type === 'assign';
+      rest = rest.slice(declEnd + 1);
+    }
+
+    if (rest.length === 0) this.fail('missing value for command', pos);
+    const { commands, index } = this.parseCommands(rest, 0);
+    if (index < rest.length)
+      this.fail(`unexpected "${rest[index]!.value}" in operand`, rest[index]!.pos);
+    return { pos, declare, assign, commands };
+  }
+
+  private parseCommands(tokens: Token[], start: number) {
+    const commands: Command[] = [];
+    let index = start;
+    let args: Operand[] = [];
+    let commandPos = tokens[index]?.pos ?? 0;
+    while (index < tokens.length) {
+      const token = tokens[index]!;
+      if (token.type === 'rightParen') break;
+      if (token.type === 'pipe') {
+        if (!args.length) this.fail('missing command', token.pos);
+        commands.push({ pos: commandPos, args });
+        args = [];
+        index++;
+        commandPos = tokens[index]?.pos ?? token.pos;
+        continue;
+      }
+      const operand = this.parseOperand(tokens, index);
+      args.push(operand.operand);
+      index = operand.index;
+    }
+    if (!args.length) this.fail('missing command', tokens[index - 1]?.pos ?? commandPos);
+    commands.push({ pos: commandPos, args });
+    return { commands, index };
+  }
+
+  private parseOperand(tokens: Token[], start: number): { operand: Operand; index: number } {
+    const token = tokens[start]!;
+    let index = start + 1;
+    let operand: Operand;
+    switch (token.type) {
+      case 'dot':
+        operand = { kind: 'dot', pos: token.pos, path: [] };
+        break;
+      case 'field':
+        operand = { kind: 'field', pos: token.pos, path: [token.value] };
+        break;
+      case 'variable':
+        operand = { kind: 'variable', pos: token.pos, name: token.value, path: [] };
+        break;
+      case 'identifier':
+        operand = { kind: 'function', pos: token.pos, name: token.value };
+        break;
+      case 'string':
+        operand = { kind: 'literal', pos: token.pos, value: unquote(token, this.source) };
+        break;
+      case 'char': {
+        const char = unquote({ ...token, value: `"${token.value.slice(1, -1)}"` }, this.source);
+        operand = { kind: 'literal', pos: token.pos, value: char.codePointAt(0) };
+        break;
+      }
+      case 'number':
+        operand = { kind: 'literal', pos: token.pos, value: parseNumber(token, this.source) };
+        break;
+      case 'bool':
+        operand = { kind: 'literal', pos: token.pos, value: token.value === 'true' };
+        break;
+      case 'nil':
+        operand = { kind: 'nil', pos: token.pos };
+        break;
+      case 'leftParen': {
+        const inner = this.parseCommands(tokens, index);
+        if (tokens[inner.index]?.type !== 'rightParen') this.fail('unclosed left paren', token.pos);
+        operand = {
+          kind: 'pipeline',
+          pos: token.pos,
+          pipeline: { pos: token.pos, declare: [], assign: false, commands: inner.commands },
+          path: [],
+        };
+        index = inner.index + 1;
+        break;
+      }
+      default:
+        this.fail(`unexpected "${token.value}" in operand`, token.pos);
+    }
+
+    while (tokens[index]?.type === 'field' && !tokens[index]!.spaced) {
+      if (!('path' in operand))
+        this.fail(`unexpected . after term "${token.value}"`, tokens[index]!.pos);
+      operand.path.push(tokens[index]!.value);
+      index++;
+    }
+    return { operand, index };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Values
+
+const MAPS = new WeakSet<object>();
+
+/** Mark an object as a Go map: missing keys yield no value instead of an error. */
+export function goMap<T extends object>(value: T): T {
+  MAPS.add(value);
+  return value;
+}
+
+export function isGoMap(value: unknown) {
+  return typeof value === 'object' && value !== null && MAPS.has(value);
+}
+
+export function isTrue(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value.length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof Date) return true;
+  if (typeof value === 'object') return isGoMap(value) ? Object.keys(value).length > 0 : true;
+  return true;
+}
+
+export function typeOf(value: unknown): string {
+  if (value === undefined || value === null) return '<nil>';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float64';
+  if (Array.isArray(value)) return '[]interface {}';
+  if (value instanceof Date) return 'time.Time';
+  if (typeof value === 'function') return 'func';
+  return isGoMap(value) ? 'map[string]interface {}' : 'struct';
+}
+
+function formatDefaultDate(date: Date) {
+  const iso = date.toISOString();
+  const nanos = iso.slice(20, 23).replace(/0+$/, '');
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)}${nanos ? `.${nanos}` : ''} +0000 UTC`;
+}
+
+/** Format a value the way fmt's %v verb does. */
+export function formatValue(value: unknown): string {
+  if (value === undefined) return '<no value>';
+  if (value === null) return '<nil>';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') {
+    if (Number.isInteger(value) || !Number.isFinite(value)) {
+      return Number.isFinite(value)
+        ? String(value)
+        : value > 0
+          ? '+Inf'
+          : value < 0
+            ? '-Inf'
+            : 'NaN';
+    }
+    const text = String(value);
+    return text.replace(/e([+-])(\d)$/, 'e$10$2');
+  }
+  if (typeof value === 'boolean') return String(value);
+  if (value instanceof Date) return formatDefaultDate(value);
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(' ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (isGoMap(value)) {
+      return `map[${entries
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, item]) => `${key}:${formatValue(item)}`)
+        .join(' ')}]`;
+    }
+    return `{${entries.map(([, item]) => formatValue(item)).join(' ')}}`;
+  }
+  return String(value);
+}
+
+function quoteGo(value: string) {
+  return JSON.stringify(value).replace(
+    /[\u007f-\u009f\u2028\u2029]/g,
+    (ch) => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+}
+
+function toInteger(value: unknown) {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return Math.trunc(Number(value));
+}
+
+/** A subset of fmt.Sprintf: flags, width, precision and the common verbs. */
+export function sprintf(format: string, ...args: unknown[]): string {
+  let argIndex = 0;
+  let output = format.replace(
+    /%([-+# 0]*)(\d+|\*)?(?:\.(\d*|\*))?([a-zA-Z%])/g,
+    (match, flags: string, widthText?: string, precisionText?: string, verb?: string) => {
+      if (verb === '%') return '%';
+      const width = widthText === '*' ? toInteger(args[argIndex++]) : Number(widthText || 0);
+      const precision =
+        precisionText === undefined
+          ? undefined
+          : precisionText === '*'
+            ? toInteger(args[argIndex++])
+            : Number(precisionText || 0);
+      if (argIndex >= args.length) return `%!${verb}(MISSING)`;
+      const arg = args[argIndex++];
+      let text: string;
+      switch (verb) {
+        case 'v':
+          text = flags.includes('#') && typeof arg === 'string' ? quoteGo(arg) : formatValue(arg);
+          break;
+        case 's':
+          text = formatValue(arg);
+          if (precision !== undefined) text = [...text].slice(0, precision).join('');
+          break;
+        case 'q':
+          text =
+            typeof arg === 'number' ? `'${String.fromCodePoint(arg)}'` : quoteGo(formatValue(arg));
+          break;
+        case 'd':
+          if (typeof arg !== 'number') return `%!d(${typeOf(arg)}=${formatValue(arg)})`;
+          text = String(Math.trunc(arg));
+          if (flags.includes('+') && arg >= 0) text = `+${text}`;
+          break;
+        case 'f':
+        case 'F':
+          if (typeof arg !== 'number') return `%!${verb}(${typeOf(arg)}=${formatValue(arg)})`;
+          text = arg.toFixed(precision ?? 6);
+          if (flags.includes('+') && arg >= 0) text = `+${text}`;
+          break;
+        case 'e':
+        case 'E':
+          if (typeof arg !== 'number') return `%!${verb}(${typeOf(arg)}=${formatValue(arg)})`;
+          text = arg.toExponential(precision ?? 6).replace(/e([+-])(\d)$/, 'e$10$2');
+          if (verb === 'E') text = text.toUpperCase();
+          break;
+        case 'g':
+        case 'G':
+          if (typeof arg !== 'number') return `%!${verb}(${typeOf(arg)}=${formatValue(arg)})`;
+          text =
+            precision === undefined ? formatValue(arg) : String(Number(arg.toPrecision(precision)));
+          break;
+        case 't':
+          if (typeof arg !== 'boolean') return `%!t(${typeOf(arg)}=${formatValue(arg)})`;
+          text = String(arg);
+          break;
+        case 'x':
+        case 'X':
+          text =
+            typeof arg === 'number'
+              ? Math.trunc(arg).toString(16)
+              : [...new TextEncoder().encode(formatValue(arg))]
+                  .map((byte) => byte.toString(16).padStart(2, '0'))
+                  .join('');
+          if (verb === 'X') text = text.toUpperCase();
+          break;
+        case 'o':
+          text = toInteger(arg).toString(8);
+          break;
+        case 'b':
+          text = toInteger(arg).toString(2);
+          break;
+        case 'c':
+          text = String.fromCodePoint(toInteger(arg));
+          break;
+        case 'U':
+          text = `U+${toInteger(arg).toString(16).toUpperCase().padStart(4, '0')}`;
+          break;
+        case 'T':
+          text = typeOf(arg);
+          break;
+        default:
+          return `%!${verb}(${typeOf(arg)}=${formatValue(arg)})`;
+      }
+      if (text.length < width) {
+        if (flags.includes('-')) text = text.padEnd(width);
+        else if (flags.includes('0') && typeof arg === 'number') {
+          const sign = /^[-+]/.test(text) ? text[0]! : '';
+          text = sign + text.slice(sign.length).padStart(width - sign.length, '0');
+        } else text = text.padStart(width);
+      }
+      return text;
+    },
+  );
+  if (argIndex < args.length) {
+    output += `%!(EXTRA ${args
+      .slice(argIndex)
+      .map((arg) => `${typeOf(arg)}=${formatValue(arg)}`)
+      .join(', ')})`;
+  }
+  return output;
+}
+
+function sprint(args: unknown[]) {
+  return args
+    .map((arg, index) => {
+      const spaced = index > 0 && typeof arg !== 'string' && typeof args[index - 1] !== 'string';
+      return `${spaced ? ' ' : ''}${formatValue(arg)}`;
+    })
+    .join('');
+}
+
+function isBasic(value: unknown) {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function compare(a: unknown, b: unknown, op: 'eq' | 'lt') {
+  if (op === 'eq' && (a === null || a === undefined || b === null || b === undefined)) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (!isBasic(a) || !isBasic(b)) {
+    if (op === 'eq' && !Array.isArray(a) && !Array.isArray(b)) return a === b;
+    throw new Error(`invalid type for comparison`);
+  }
+  if (typeof a !== typeof b) throw new Error('incompatible types for comparison');
+  if (op === 'eq') return a === b;
+  if (typeof a === 'boolean') throw new Error('invalid type for comparison');
+  return (a as number | string) < (b as number | string);
+}
+
+function lengthOf(value: unknown) {
+  if (typeof value === 'string') return new TextEncoder().encode(value).length;
+  if (Array.isArray(value)) return value.length;
+  if (value && typeof value === 'object' && isGoMap(value)) return Object.keys(value).length;
+  throw new Error(`len of type ${typeOf(value)}`);
+}
+
+function indexValue(item: unknown, key: unknown) {
+  if (Array.isArray(item) || typeof item === 'string') {
+    const index = toInteger(key);
+    const size = Array.isArray(item) ? item.length : item.length;
+    if (typeof key !== 'number' || index < 0 || index >= size) {
+      throw new Error(`error calling index: index out of range: ${formatValue(key)}`);
+    }
+    return Array.isArray(item) ? item[index] : item.charCodeAt(index);
+  }
+  if (item && typeof item === 'object') {
+    return (item as Record<string, unknown>)[String(key)];
+  }
+  if (item === null || item === undefined)
+    throw new Error('error calling index: index of untyped nil');
+  throw new Error(`error calling index: can't index item of type ${typeOf(item)}`);
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"'\0]/g, (ch) =>
+    ch === '\0'
+      ? '\uFFFD'
+      : { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&#34;', "'": '&#39;' }[ch]!,
+  );
+}
+
+function escapeJs(value: string) {
+  return value.replace(/[\\'"<>&=\n\r\t]/g, (ch) =>
+    ch === '\\' || ch === "'" || ch === '"'
+      ? `\\${ch}`
+      : ch === '\n'
+        ? '\\n'
+        : ch === '\r'
+          ? '\\r'
+          : ch === '\t'
+            ? '\\t'
+            : `\\u${ch.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`,
+  );
+}
+
+/** url.QueryEscape */
+export function queryEscape(value: string) {
+  return encodeURIComponent(value)
+    .replace(/[!'()*~]/g, (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`)
+    .replace(/%20/g, '+');
+}
+
+export const BUILTIN_FUNCTIONS: Record<string, GoTemplateFunction> = {
+  // and/or are evaluated lazily by the executor; these only handle direct calls
+  and: (...args) => args.find((arg) => !isTrue(arg)) ?? args[args.length - 1],
+  or: (...args) => args.find((arg) => isTrue(arg)) ?? args[args.length - 1],
+  not: (value) => !isTrue(value),
+  len: lengthOf,
+  index: (item, ...keys) => keys.reduce((value, key) => indexValue(value, key), item),
+  slice: (item, ...indexes) => {
+    if (!Array.isArray(item) && typeof item !== 'string') {
+      throw new Error(`can't slice item of type ${typeOf(item)}`);
+    }
+    const [start = 0, end = item.length] = indexes.map(toInteger);
+    if (start < 0 || end > item.length || start > end) throw new Error('slice index out of range');
+    return item.slice(start, end);
+  },
+  print: (...args) => sprint(args),
+  printf: (format, ...args) => sprintf(String(format), ...args),
+  println: (...args) => `${args.map(formatValue).join(' ')}\n`,
+  eq: (a, ...others) => {
+    if (!others.length) throw new Error('missing argument for comparison');
+    return others.some((b) => compare(a, b, 'eq'));
+  },
+  ne: (a, b) => !compare(a, b, 'eq'),
+  lt: (a, b) => compare(a, b, 'lt'),
+  le: (a, b) => compare(a, b, 'lt') || compare(a, b, 'eq'),
+  gt: (a, b) => !compare(a, b, 'lt') && !compare(a, b, 'eq'),
+  ge: (a, b) => !compare(a, b, 'lt'),
+  html: (...args) => escapeHtml(sprint(args)),
+  js: (...args) => escapeJs(sprint(args)),
+  urlquery: (...args) => queryEscape(sprint(args)),
+  call: (fn, ...args) => {
+    if (typeof fn !== 'function') throw new Error(`non-function of type ${typeOf(fn)}`);
+    return fn(...args);
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Executor
+
+const LOOP_BREAK = Symbol('break');
+const LOOP_CONTINUE = Symbol('continue');
+
+export interface GoTemplateOptions {
+  functions?: Record<string, GoTemplateFunction>;
+  /** Abort runaway templates after this many evaluation steps. */
+  maxSteps?: number;
+  /** Abort once the output grows past this many characters. */
+  maxOutput?: number;
+}
+
+class Executor {
+  private output: string[] = [];
+  private size = 0;
+  private steps = 0;
+  private variables: { name: string; value: unknown }[] = [];
+  private functions: Record<string, GoTemplateFunction>;
+  private depth = 0;
+
+  constructor(
+    private source: string,
+    private template: ParsedTemplate,
+    private options: Required<Pick<GoTemplateOptions, 'maxSteps' | 'maxOutput'>> &
+      GoTemplateOptions,
+  ) {
+    this.functions = { ...BUILTIN_FUNCTIONS, ...options.functions };
+  }
+
+  private fail(message: string, pos: number): never {
+    const { line, column } = positionOf(this.source, pos);
+    throw new GoTemplateError(message, line, column);
+  }
+
+  private tick(pos: number) {
+    if (++this.steps > this.options.maxSteps) this.fail('evaluation step limit exceeded', pos);
+  }
+
+  private write(text: string, pos: number) {
+    this.size += text.length;
+    if (this.size > this.options.maxOutput) this.fail('output size limit exceeded', pos);
+    this.output.push(text);
+  }
+
+  run(data: unknown) {
+    this.variables = [{ name: '$', value: data }];
+    this.walkList(this.template.root, data);
+    return this.output.join('');
+  }
+
+  private walkList(list: TemplateNode[], dot: unknown) {
+    for (const node of list) this.walk(node, dot);
+  }
+
+  private scoped(fn: () => void) {
+    const mark = this.variables.length;
+    try {
+      fn();
+    } finally {
+      this.variables.length = mark;
+    }
+  }
+
+  private walk(node: TemplateNode, dot: unknown) {
+    this.tick(node.pos);
+    switch (node.kind) {
+      case 'text':
+        this.write(node.value, node.pos);
+        return;
+      case 'action': {
+        const value = this.evalPipeline(node.pipeline, dot);
+        if (!node.pipeline.declare.length) this.write(this.printable(value, node.pos), node.pos);
+        return;
+      }
+      case 'if':
+      case 'with':
+        this.scoped(() => {
+          const value = this.evalPipeline(node.pipeline, dot);
+          if (isTrue(value)) this.walkList(node.list, node.kind === 'with' ? value : dot);
+          else if (node.elseList) this.walkList(node.elseList, dot);
+        });
+        return;
+      case 'range':
+        this.scoped(() => this.walkRange(node, dot));
+        return;
+      case 'break':
+        throw LOOP_BREAK;
+      case 'continue':
+        throw LOOP_CONTINUE;
+      case 'template': {
+        const body = this.template.defines.get(node.name);
+        if (!body) this.fail(`no such template "${node.name}"`, node.pos);
+        if (++this.depth > 100) this.fail('exceeded maximum template depth', node.pos);
+        const value = node.pipeline ? this.evalPipeline(node.pipeline, dot) : undefined;
+        const saved = this.variables;
+        this.variables = [{ name: '$', value }];
+        try {
+          this.walkList(body!, value);
+        } finally {
+          this.variables = saved;
+          this.depth--;
+        }
+      }
+    }
+  }
+
+  private walkRange(node: Extract<TemplateNode, { list: TemplateNode[] }>, dot: unknown) {
+    const [keyName, valueName] =
+      node.pipeline.declare.length === 2
+        ? node.pipeline.declare
+        : [undefined, node.pipeline.declare[0]];
+    const value = this.evalPipeline({ ...node.pipeline, declare: [] }, dot);
+
+    let entries: [unknown, unknown][];
+    if (Array.isArray(value)) entries = value.map((item, index) => [index, item]);
+    else if (typeof value === 'number' && Number.isInteger(value)) {
+      if (value > this.options.maxSteps) this.fail('evaluation step limit exceeded', node.pos);
+      entries = Array.from({ length: Math.max(0, value) }, (_, index) => [index, index]);
+    } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+      entries = Object.keys(value)
+        .sort()
+        .map((key) => [key, (value as Record<string, unknown>)[key]]);
+    } else if (value === null || value === undefined) entries = [];
+    else this.fail(`range can't iterate over ${formatValue(value)}`, node.pos);
+
+    if (entries!.length === 0) {
+      if (node.elseList) this.walkList(node.elseList, dot);
+      return;
+    }
+    const mark = this.variables.length;
+    for (const [key, item] of entries!) {
+      this.variables.length = mark;
+      if (keyName) this.variables.push({ name: keyName, value: key });
+      if (valueName) this.variables.push({ name: valueName, value: item });
+      try {
+        this.walkList(node.list, item);
+      } catch (signal) {
+        if (signal === LOOP_BREAK) break;
+        if (signal !== LOOP_CONTINUE) throw signal;
+      }
+    }
+  }
+
+  private printable(value: unknown, pos: number) {
+    if (typeof value === 'function') this.fail("can't print function value", pos);
+    return formatValue(value);
+  }
+
+  private lookupVariable(name: string, pos: number) {
+    for (let i = this.variables.length - 1; i >= 0; i--) {
+      if (this.variables[i]!.name === name) return this.variables[i]!;
+    }
+    return this.fail(`undefined variable: ${name}`, pos);
+  }
+
+  private evalPipeline(pipeline: Pipeline, dot: unknown): unknown {
+    let value: unknown;
+    let piped = false;
+    for (const command of pipeline.commands) {
+      value = this.evalCommand(command, dot, piped ? [value] : []);
+      piped = true;
+    }
+    if (pipeline.declare.length) {
+      const [name] = pipeline.declare;
+      if (pipeline.assign) this.lookupVariable(name!, pipeline.pos).value = value;
+      else this.variables.push({ name: name!, value });
+    }
+    return value;
+  }
+
+  private evalCommand(command: Command, dot: unknown, final: unknown[]): unknown {
+    const [first, ...rest] = command.args;
+    this.tick(command.pos);
+    if (first!.kind === 'function') return this.callFunction(first!, rest, dot, final);
+
+    const args = [...rest.map((arg) => this.evalOperand(arg, dot)), ...final];
+    if (first!.kind !== 'field' && first!.kind !== 'dot' && args.length) {
+      if (first!.kind === 'variable' || first!.kind === 'pipeline') {
+        const value = this.evalOperand(first!, dot);
+        if (typeof value === 'function') {
+          return this.invoke(value as GoTemplateFunction, args, first!.pos, 'method');
+        }
+      }
+      this.fail(`can't give argument to non-function ${this.describe(first!)}`, first!.pos);
+    }
+    const value = this.evalOperand(first!, dot);
+    if (typeof value === 'function') {
+      return this.invoke(value as GoTemplateFunction, args, first!.pos, 'method');
+    }
+    if (args.length) {
+      this.fail(`${this.describe(first!)} is not a method but has arguments`, first!.pos);
+    }
+    return value;
+  }
+
+  private describe(operand: Operand) {
+    switch (operand.kind) {
+      case 'field':
+      case 'dot':
+        return operand.path.length ? `.${operand.path.join('.')}` : '.';
+      case 'variable':
+        return [operand.name, ...operand.path].join('.');
+      case 'literal':
+        return formatValue(operand.value);
+      default:
+        return operand.kind;
+    }
+  }
+
+  private callFunction(
+    fn: Extract<Operand, { kind: 'function' }>,
+    rest: Operand[],
+    dot: unknown,
+    final: unknown[],
+  ) {
+    const impl = this.functions[fn.name];
+    if (!impl) this.fail(`function "${fn.name}" not defined`, fn.pos);
+
+    if (fn.name === 'and' || fn.name === 'or') {
+      if (!rest.length && !final.length) this.fail(`wrong number of args for ${fn.name}`, fn.pos);
+      let value: unknown;
+      for (const operand of rest) {
+        value = this.evalOperand(operand, dot);
+        if (isTrue(value) === (fn.name === 'or')) return value;
+      }
+      return final.length ? final[0] : value;
+    }
+
+    const args = [...rest.map((arg) => this.evalOperand(arg, dot)), ...final];
+    return this.invoke(impl!, args, fn.pos, fn.name);
+  }
+
+  private invoke(fn: GoTemplateFunction, args: unknown[], pos: number, name: string) {
+    try {
+      return fn(...args);
+    } catch (error) {
+      if (error instanceof GoTemplateError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      this.fail(`error calling ${name}: ${message}`, pos);
+    }
+  }
+
+  private evalOperand(operand: Operand, dot: unknown): unknown {
+    switch (operand.kind) {
+      case 'dot':
+        return this.evalPath(dot, operand.path, operand.pos);
+      case 'field':
+        return this.evalPath(dot, operand.path, operand.pos);
+      case 'variable':
+        return this.evalPath(
+          this.lookupVariable(operand.name, operand.pos).value,
+          operand.path,
+          operand.pos,
+        );
+      case 'literal':
+        return operand.value;
+      case 'nil':
+        return null;
+      case 'pipeline':
+        return this.evalPath(this.evalPipeline(operand.pipeline, dot), operand.path, operand.pos);
+      case 'function': {
+        // A bare function name as an argument calls it without arguments
+        return this.callFunction(operand, [], dot, []);
+      }
+    }
+  }
+
+  private evalPath(value: unknown, path: string[], pos: number) {
+    let current = value;
+    for (const name of path) {
+      if (current === null || current === undefined) {
+        if (isGoMap(value) || current === undefined) return undefined;
+        this.fail(`nil pointer evaluating ${typeOf(current)}.${name}`, pos);
+      }
+      if (typeof current !== 'object' || Array.isArray(current) || current instanceof Date) {
+        this.fail(`can't evaluate field ${name} in type ${typeOf(current)}`, pos);
+      }
+      const record = current as Record<string, unknown>;
+      if (!(name in record) && !isGoMap(current)) {
+        this.fail(`can't evaluate field ${name} in type ${typeOf(current)}`, pos);
+      }
+      current = record[name];
+    }
+    return current;
+  }
+}
+
+/** Parse a template, throwing a GoTemplateError with the position of the first problem. */
+export function parseGoTemplate(source: string) {
+  return new Parser(source).parse();
+}
+
+export function renderGoTemplate(source: string, data: unknown, options: GoTemplateOptions = {}) {
+  const template = parseGoTemplate(source);
+  return new Executor(source, template, {
+    maxSteps: 1_000_000,
+    maxOutput: 5_000_000,
+    ...options,
+  }).run(data);
+}
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@workspace/ui': new URL('./src', import.meta.url).pathname,
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});